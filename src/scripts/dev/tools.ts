@@ -3,6 +3,7 @@ import type { ActionPromptInput } from "../prompts";
 import type { ActionSchemaData, SchemaDataFor, ValidatorKey } from "../schemas";
 import type { ImportOptions } from "../mappers/import";
 import type { OpenRouterClient } from "../openrouter/client";
+import type { MockFixtureMap } from "../openrouter/mock-provider";
 import type { EnsureValidOptions } from "../validation/ensure-valid";
 
 type GenerateActionFn = (
@@ -36,6 +37,7 @@ export interface DevNamespace {
     json: ActionSchemaData,
     options?: ImportOptions,
   ) => Promise<Item>;
+  exportMockFixtures: () => MockFixtureMap;
 }
 
 interface DevNamespaceDependencies {
@@ -43,6 +45,7 @@ interface DevNamespaceDependencies {
   generateAction: GenerateActionFn;
   ensureValid: EnsureValidFn;
   importAction: ImportActionFn;
+  exportMockFixtures: () => MockFixtureMap;
   console: DevConsole;
 }
 
@@ -235,6 +238,13 @@ export function createDevNamespace(deps: DevNamespaceDependencies): DevNamespace
         () => deps.importAction(json, options),
       );
     },
+
+    exportMockFixtures: () => {
+      assertDeveloperAccess(deps, "exportMockFixtures");
+      const fixtures = deps.exportMockFixtures();
+      deps.console.info(`${MODULE_PREFIX} Recorded ${Object.keys(fixtures).length} mock fixture(s).`);
+      return fixtures;
+    },
   } satisfies DevNamespace;
 }
 
@@ -0,0 +1,229 @@
+import { CONSTANTS } from "../constants";
+import { waitForDialog } from "../foundry/dialog";
+import { renderApplicationTemplate } from "../foundry/templates";
+import { openWorkingDialog, type WorkingDialogHandle } from "../ui/working-dialog";
+import {
+  buildCanonicalBundle,
+  createCanonicalBundleZip,
+  formatBundleAsReferenceText,
+  resolveExportDocuments,
+  serializeCanonicalBundle,
+  type CanonicalBundle,
+  type CanonicalExportSource,
+} from "./canonical-export";
+
+const CANONICAL_EXPORT_REQUEST_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/canonical-export-request.hbs`;
+const CANONICAL_EXPORT_RESULT_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/canonical-export-result.hbs`;
+const EXPORTABLE_DOCUMENT_NAMES = new Set(["Actor", "Item"]);
+
+type CanonicalExportFormat = "zip" | "json";
+
+interface CanonicalExportRequest {
+  source: CanonicalExportSource;
+  format: CanonicalExportFormat;
+}
+
+interface SelectOption {
+  value: string;
+  label: string;
+}
+
+function listFolderOptions(): SelectOption[] {
+  const folders = (game.folders as Collection<Folder> | undefined)?.contents ?? [];
+  return folders
+    .filter((folder) => EXPORTABLE_DOCUMENT_NAMES.has(String(folder.type)))
+    .map((folder) => ({
+      value: folder.id ?? "",
+      label: `${folder.type === "Actor" ? "Actors" : "Items"} / ${folder.name}`,
+    }))
+    .filter((option) => option.value)
+    .sort((left, right) => left.label.localeCompare(right.label));
+}
+
+function listPackOptions(): SelectOption[] {
+  const packs = (game.packs as unknown as Collection<{
+    collection: string;
+    documentName: string;
+    metadata: { label: string };
+  }> | undefined)?.contents ?? [];
+  return packs
+    .filter((pack) => EXPORTABLE_DOCUMENT_NAMES.has(pack.documentName))
+    .map((pack) => ({ value: pack.collection, label: `${pack.metadata.label} (${pack.collection})` }))
+    .sort((left, right) => left.label.localeCompare(right.label));
+}
+
+function countSelectedTokens(): number {
+  return (canvas as { tokens?: { controlled?: unknown[] } } | undefined)?.tokens?.controlled?.length ?? 0;
+}
+
+async function promptCanonicalExportRequest(): Promise<CanonicalExportRequest | null> {
+  const content = await renderApplicationTemplate(CANONICAL_EXPORT_REQUEST_TEMPLATE, {
+    folderOptions: listFolderOptions(),
+    packOptions: listPackOptions(),
+    selectedCount: countSelectedTokens(),
+  });
+
+  return await waitForDialog<CanonicalExportRequest>({
+    title: `${CONSTANTS.MODULE_NAME} | Canonical Export`,
+    content,
+    width: 520,
+    render: (root) => {
+      const sourceSelect = root.querySelector<HTMLSelectElement>("[data-export-source]");
+      const sync = (): void => {
+        for (const field of root.querySelectorAll<HTMLElement>("[data-export-field]")) {
+          field.hidden = field.dataset.exportField !== sourceSelect?.value;
+        }
+      };
+      sourceSelect?.addEventListener("change", sync);
+      sync();
+    },
+    buttons: [
+      {
+        action: "export",
+        label: "Export",
+        icon: "fas fa-file-export",
+        default: true,
+        callback: ({ form }) => {
+          if (!form) {
+            return null;
+          }
+
+          const formData = new FormData(form);
+          const format: CanonicalExportFormat = formData.get("format") === "json" ? "json" : "zip";
+          const sourceKind = String(formData.get("sourceKind") ?? "");
+          if (sourceKind === "selection") {
+            return { source: { kind: "selection" }, format };
+          }
+
+          const id = String(formData.get(sourceKind === "folder" ? "folderId" : "packId") ?? "").trim();
+          if (!id) {
+            ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Choose a ${sourceKind} to export.`);
+            return null;
+          }
+          return sourceKind === "folder"
+            ? { source: { kind: "folder", folderId: id }, format }
+            : { source: { kind: "compendium", packId: id }, format };
+        },
+      },
+      {
+        action: "cancel",
+        label: "Cancel",
+        icon: "fas fa-times",
+        callback: () => null,
+      },
+    ],
+    closeResult: null,
+  });
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function resolveBundleFilename(bundle: CanonicalBundle, format: CanonicalExportFormat): string {
+  const stem = bundle.manifest.source
+    .replace(/^[^:]*:\s*/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "export";
+  return `handy-dandy-${stem}.${format === "zip" ? "zip" : "json"}`;
+}
+
+async function showCanonicalExportResult(bundle: CanonicalBundle, format: CanonicalExportFormat): Promise<void> {
+  const content = await renderApplicationTemplate(CANONICAL_EXPORT_RESULT_TEMPLATE, {
+    source: bundle.manifest.source,
+    entries: bundle.manifest.entries,
+    singleEntry: bundle.manifest.entries.length === 1,
+    skipped: bundle.manifest.skipped,
+  });
+
+  const action = await waitForDialog<"download" | "copy">({
+    title: `${CONSTANTS.MODULE_NAME} | Canonical Export`,
+    content,
+    width: 640,
+    buttons: [
+      {
+        action: "download",
+        label: format === "zip" ? "Download Zip" : "Download JSON",
+        icon: "fas fa-download",
+        default: true,
+        callback: () => "download",
+      },
+      {
+        action: "copy",
+        label: "Copy as Reference Text",
+        icon: "fas fa-copy",
+        callback: () => "copy",
+      },
+      {
+        action: "close",
+        label: "Close",
+        icon: "fas fa-times",
+        callback: () => null,
+      },
+    ],
+    closeResult: null,
+  });
+
+  if (action === "download") {
+    const filename = resolveBundleFilename(bundle, format);
+    downloadBlob(
+      format === "zip"
+        ? createCanonicalBundleZip(bundle)
+        : new Blob([serializeCanonicalBundle(bundle)], { type: "application/json" }),
+      filename,
+    );
+  } else if (action === "copy") {
+    try {
+      await navigator.clipboard.writeText(formatBundleAsReferenceText(bundle));
+      ui.notifications?.info(
+        `${CONSTANTS.MODULE_NAME} | Copied ${bundle.entries.length} entries; paste them into the Prompt Workbench reference text.`,
+      );
+    } catch (error) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Clipboard copy failed.`);
+      console.warn(`${CONSTANTS.MODULE_NAME} | Clipboard copy failed`, error);
+    }
+  }
+}
+
+export async function runCanonicalExportFlow(presetSource?: CanonicalExportSource): Promise<void> {
+  const request = presetSource ? { source: presetSource, format: "zip" as const } : await promptCanonicalExportRequest();
+  if (!request) {
+    return;
+  }
+
+  let workingDialog: WorkingDialogHandle | null = null;
+  try {
+    const { label, documents } = await resolveExportDocuments(request.source);
+    if (!documents.length) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | ${label} has no actors or items to export.`);
+      return;
+    }
+
+    workingDialog = await openWorkingDialog({
+      title: `${CONSTANTS.MODULE_NAME} | Exporting`,
+      content: `<p><i class="fas fa-spinner fa-spin"></i> Converting ${documents.length} documents to canonical JSON...</p>`,
+    });
+    const bundle = await buildCanonicalBundle(documents, label, { signal: workingDialog.signal });
+    await workingDialog.close();
+    workingDialog = null;
+
+    await showCanonicalExportResult(bundle, request.format);
+  } catch (error) {
+    if (workingDialog?.signal.aborted) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Canonical export cancelled.`);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Canonical export failed: ${message}`);
+    console.error(`${CONSTANTS.MODULE_NAME} | Canonical export failed`, error);
+  } finally {
+    await workingDialog?.close();
+  }
+}
@@ -0,0 +1,234 @@
+import { CONSTANTS } from "../constants";
+import { createZipArchive } from "../helpers/zip";
+import {
+  fromFoundryAction,
+  fromFoundryActor,
+  fromFoundryItem,
+  type FoundryAction,
+  type FoundryActor,
+  type FoundryItem,
+} from "../mappers/export";
+import { LATEST_SCHEMA_VERSION, type CanonicalEntityMap, type EntityType, type SystemId } from "../schemas";
+import { ensureValid } from "../validation/ensure-valid";
+
+export const CANONICAL_BUNDLE_FORMAT = "handy-dandy.canonical-bundle" as const;
+export const CANONICAL_BUNDLE_VERSION = 1;
+export const CANONICAL_BUNDLE_MANIFEST_PATH = "manifest.json" as const;
+
+export type CanonicalExportSource =
+  | { readonly kind: "folder"; readonly folderId: string }
+  | { readonly kind: "compendium"; readonly packId: string }
+  | { readonly kind: "selection" };
+
+export type ExportableDocument = Actor | Item;
+
+export interface CanonicalBundleManifestEntry {
+  path: string;
+  type: EntityType;
+  name: string;
+  slug: string;
+  schemaVersion: number;
+  /** UUID of the document the entry was exported from, for reference only. */
+  sourceUuid: string | null;
+}
+
+export interface CanonicalBundleSkippedEntry {
+  name: string;
+  sourceUuid: string | null;
+  reason: string;
+}
+
+export interface CanonicalBundleManifest {
+  format: typeof CANONICAL_BUNDLE_FORMAT;
+  version: number;
+  schemaVersion: number;
+  systemId: SystemId;
+  moduleVersion: string;
+  exportedAt: string;
+  source: string;
+  entries: CanonicalBundleManifestEntry[];
+  skipped: CanonicalBundleSkippedEntry[];
+}
+
+export interface CanonicalBundleEntry<T extends EntityType = EntityType> {
+  path: string;
+  type: T;
+  data: CanonicalEntityMap[T];
+}
+
+/** Single-file form of a bundle; the zip form stores the manifest and each entry as separate files. */
+export interface CanonicalBundle {
+  manifest: CanonicalBundleManifest;
+  entries: CanonicalBundleEntry[];
+}
+
+export interface CanonicalExportProgress {
+  index: number;
+  total: number;
+  name: string;
+}
+
+const TYPE_DIRECTORIES: Record<EntityType, string> = {
+  actor: "actors",
+  item: "items",
+  action: "actions",
+};
+
+function slugifyPath(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "entry";
+}
+
+function collectFolderDocuments(folder: Folder): ExportableDocument[] {
+  const folders = [
+    folder,
+    ...((folder as unknown as { getSubfolders?: (recursive: boolean) => Folder[] }).getSubfolders?.(true) ?? []),
+  ];
+  return folders.flatMap((entry) => {
+    const contents = (entry as unknown as { contents?: unknown[] }).contents ?? [];
+    return contents.filter((document): document is ExportableDocument =>
+      document instanceof Actor || document instanceof Item);
+  });
+}
+
+function collectSelectedActors(): ExportableDocument[] {
+  const controlled = (canvas as { tokens?: { controlled?: Array<{ actor?: Actor | null }> } } | undefined)
+    ?.tokens?.controlled ?? [];
+  const actors = new Map<string, Actor>();
+  for (const token of controlled) {
+    const actor = token.actor;
+    if (actor instanceof Actor) {
+      actors.set(actor.uuid, actor);
+    }
+  }
+  return [...actors.values()];
+}
+
+export async function resolveExportDocuments(
+  source: CanonicalExportSource,
+): Promise<{ label: string; documents: ExportableDocument[] }> {
+  switch (source.kind) {
+    case "folder": {
+      const folder = (game.folders as Collection<Folder> | undefined)?.get(source.folderId);
+      if (!folder) {
+        throw new Error(`Folder "${source.folderId}" was not found.`);
+      }
+      return { label: `Folder: ${folder.name}`, documents: collectFolderDocuments(folder) };
+    }
+    case "compendium": {
+      const pack = game.packs?.get(source.packId) as
+        | { metadata?: { label?: string }; getDocuments: () => Promise<unknown[]> }
+        | undefined;
+      if (!pack) {
+        throw new Error(`Compendium "${source.packId}" was not found.`);
+      }
+      const documents = (await pack.getDocuments()).filter((document): document is ExportableDocument =>
+        document instanceof Actor || document instanceof Item);
+      return { label: `Compendium: ${pack.metadata?.label ?? source.packId}`, documents };
+    }
+    case "selection":
+      return { label: "Selected tokens", documents: collectSelectedActors() };
+    default:
+      return source satisfies never;
+  }
+}
+
+/** Converts a Foundry document into validated canonical data; NPC and item sheets keep their PF2E meaning. */
+export async function toCanonicalEntry(
+  document: ExportableDocument,
+): Promise<{ type: EntityType; data: CanonicalEntityMap[EntityType] }> {
+  const source = document.toObject() as unknown;
+  if (document instanceof Actor) {
+    return { type: "actor", data: await ensureValid({ type: "actor", payload: fromFoundryActor(source as FoundryActor) }) };
+  }
+
+  if ((document.type as string) === "action") {
+    return { type: "action", data: await ensureValid({ type: "action", payload: fromFoundryAction(source as FoundryAction) }) };
+  }
+
+  return { type: "item", data: await ensureValid({ type: "item", payload: fromFoundryItem(source as FoundryItem) }) };
+}
+
+/**
+ * Exports documents to a canonical bundle. Entries that fail validation are listed under `manifest.skipped` instead of
+ * aborting the export, so one odd sheet does not block sharing the rest of a folder.
+ */
+export async function buildCanonicalBundle(
+  documents: readonly ExportableDocument[],
+  sourceLabel: string,
+  options: { signal?: AbortSignal; onProgress?: (progress: CanonicalExportProgress) => void } = {},
+): Promise<CanonicalBundle> {
+  const entries: CanonicalBundleEntry[] = [];
+  const manifestEntries: CanonicalBundleManifestEntry[] = [];
+  const skipped: CanonicalBundleSkippedEntry[] = [];
+  const usedPaths = new Set<string>();
+
+  for (const [index, document] of documents.entries()) {
+    options.signal?.throwIfAborted();
+    const name = document.name ?? "Unnamed";
+    options.onProgress?.({ index, total: documents.length, name });
+
+    try {
+      const { type, data } = await toCanonicalEntry(document);
+      const base = `${TYPE_DIRECTORIES[type]}/${slugifyPath(data.slug || data.name)}`;
+      let path = `${base}.json`;
+      for (let suffix = 2; usedPaths.has(path); suffix += 1) {
+        path = `${base}-${suffix}.json`;
+      }
+      usedPaths.add(path);
+
+      entries.push({ path, type, data });
+      manifestEntries.push({
+        path,
+        type,
+        name: data.name,
+        slug: data.slug,
+        schemaVersion: data.schema_version,
+        sourceUuid: document.uuid ?? null,
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`${CONSTANTS.MODULE_NAME} | Skipped ${name} during canonical export`, error);
+      skipped.push({ name, sourceUuid: document.uuid ?? null, reason });
+    }
+  }
+
+  return {
+    manifest: {
+      format: CANONICAL_BUNDLE_FORMAT,
+      version: CANONICAL_BUNDLE_VERSION,
+      schemaVersion: LATEST_SCHEMA_VERSION,
+      systemId: "pf2e",
+      moduleVersion: String(game.modules?.get(CONSTANTS.MODULE_ID)?.version ?? ""),
+      exportedAt: new Date().toISOString(),
+      source: sourceLabel,
+      entries: manifestEntries,
+      skipped,
+    },
+    entries,
+  };
+}
+
+export function serializeCanonicalBundle(bundle: CanonicalBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+export function createCanonicalBundleZip(bundle: CanonicalBundle): Blob {
+  return createZipArchive([
+    { name: CANONICAL_BUNDLE_MANIFEST_PATH, data: JSON.stringify(bundle.manifest, null, 2) },
+    ...bundle.entries.map((entry) => ({ name: entry.path, data: JSON.stringify(entry.data, null, 2) })),
+  ]);
+}
+
+/**
+ * Plain-text rendering of canonical entries for the Prompt Workbench reference field, so exported homebrew can seed
+ * new generations.
+ */
+export function formatBundleAsReferenceText(bundle: CanonicalBundle): string {
+  return bundle.entries
+    .map((entry) => `${entry.data.name} (${entry.type}):\n${JSON.stringify(entry.data, null, 2)}`)
+    .join("\n\n");
+}
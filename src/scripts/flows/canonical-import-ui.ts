@@ -0,0 +1,276 @@
+import { CONSTANTS } from "../constants";
+import { waitForDialog } from "../foundry/dialog";
+import { renderApplicationTemplate } from "../foundry/templates";
+import type { EntityType } from "../schemas";
+import { openWorkingDialog, type WorkingDialogHandle } from "../ui/working-dialog";
+import {
+  importCanonicalEntries,
+  prepareCanonicalImport,
+  type CanonicalImportCandidate,
+  type CanonicalImportOutcome,
+  type CanonicalImportTargets,
+} from "./canonical-import";
+
+const CANONICAL_IMPORT_REQUEST_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/canonical-import-request.hbs`;
+const CANONICAL_IMPORT_REPORT_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/canonical-import-report.hbs`;
+const CANONICAL_IMPORT_RESULT_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/canonical-import-result.hbs`;
+
+const TARGET_LABELS: Record<EntityType, string> = {
+  actor: "Actors",
+  item: "Items",
+  action: "Actions",
+};
+
+interface SelectOption {
+  value: string;
+  label: string;
+}
+
+function resolveDocumentName(type: EntityType): "Actor" | "Item" {
+  return type === "actor" ? "Actor" : "Item";
+}
+
+function listFolderOptions(documentName: string): SelectOption[] {
+  const folders = (game.folders as Collection<Folder> | undefined)?.contents ?? [];
+  return folders
+    .filter((folder) => folder.type === documentName && folder.id)
+    .map((folder) => ({ value: folder.id ?? "", label: folder.name ?? "" }))
+    .sort((left, right) => left.label.localeCompare(right.label));
+}
+
+function listPackOptions(documentName: string): SelectOption[] {
+  const packs = (game.packs as unknown as Collection<{
+    collection: string;
+    documentName: string;
+    locked?: boolean;
+    metadata: { label: string };
+  }> | undefined)?.contents ?? [];
+  return packs
+    .filter((pack) => pack.documentName === documentName && !pack.locked)
+    .map((pack) => ({ value: pack.collection, label: `${pack.metadata.label} (${pack.collection})` }))
+    .sort((left, right) => left.label.localeCompare(right.label));
+}
+
+function readSelectedFiles(input: HTMLInputElement | null): File[] {
+  return Array.from(input?.files ?? []);
+}
+
+async function promptCanonicalImportFiles(): Promise<File[] | null> {
+  const content = await renderApplicationTemplate(CANONICAL_IMPORT_REQUEST_TEMPLATE, {});
+
+  return await waitForDialog<File[]>({
+    title: `${CONSTANTS.MODULE_NAME} | Canonical Import`,
+    content,
+    width: 520,
+    render: (root) => {
+      const dropZone = root.querySelector<HTMLElement>("[data-import-dropzone]");
+      const input = root.querySelector<HTMLInputElement>("input[name='files']");
+      const fileList = root.querySelector<HTMLElement>("[data-import-file-list]");
+      const syncFileList = (): void => {
+        if (fileList) {
+          fileList.textContent = readSelectedFiles(input).map((file) => file.name).join(", ");
+        }
+      };
+
+      input?.addEventListener("change", syncFileList);
+      if (!dropZone || !input) {
+        return;
+      }
+
+      dropZone.addEventListener("dragenter", (event) => {
+        event.preventDefault();
+        dropZone.classList.add("is-dragover");
+      });
+      dropZone.addEventListener("dragover", (event) => {
+        event.preventDefault();
+        dropZone.classList.add("is-dragover");
+      });
+      dropZone.addEventListener("dragleave", (event) => {
+        const related = event.relatedTarget;
+        if (related instanceof Node && dropZone.contains(related)) {
+          return;
+        }
+        dropZone.classList.remove("is-dragover");
+      });
+      dropZone.addEventListener("drop", (event) => {
+        event.preventDefault();
+        dropZone.classList.remove("is-dragover");
+        if (event.dataTransfer?.files.length) {
+          input.files = event.dataTransfer.files;
+          syncFileList();
+        }
+      });
+    },
+    buttons: [
+      {
+        action: "validate",
+        label: "Validate",
+        icon: "fas fa-check-double",
+        default: true,
+        callback: ({ form }) => {
+          const files = readSelectedFiles(form?.querySelector<HTMLInputElement>("input[name='files']") ?? null);
+          if (!files.length) {
+            ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Choose at least one .json or .zip file to import.`);
+            return null;
+          }
+          return files;
+        },
+      },
+      {
+        action: "cancel",
+        label: "Cancel",
+        icon: "fas fa-times",
+        callback: () => null,
+      },
+    ],
+    closeResult: null,
+  });
+}
+
+function readTargets(form: HTMLFormElement, types: readonly EntityType[]): CanonicalImportTargets {
+  const formData = new FormData(form);
+  const targets: CanonicalImportTargets = {};
+  for (const type of types) {
+    const folderId = String(formData.get(`${type}.folderId`) ?? "").trim();
+    const packId = String(formData.get(`${type}.packId`) ?? "").trim();
+    targets[type] = {
+      ...(folderId ? { folderId } : {}),
+      ...(packId ? { packId } : {}),
+    };
+  }
+  return targets;
+}
+
+async function showCanonicalImportReport(
+  candidates: readonly CanonicalImportCandidate[],
+): Promise<CanonicalImportTargets | null> {
+  const validCount = candidates.filter((candidate) => candidate.data).length;
+  const types = (["actor", "item", "action"] as const).filter((type) =>
+    candidates.some((candidate) => candidate.data && candidate.type === type));
+
+  const content = await renderApplicationTemplate(CANONICAL_IMPORT_REPORT_TEMPLATE, {
+    validCount,
+    invalidCount: candidates.length - validCount,
+    candidates: candidates.map((candidate) => ({
+      name: candidate.name,
+      type: candidate.type,
+      origin: candidate.origin,
+      valid: Boolean(candidate.data),
+      errors: candidate.errors,
+      migratedFrom: candidate.data && candidate.fromVersion !== null && candidate.fromVersion < candidate.data.schema_version
+        ? candidate.fromVersion
+        : null,
+    })),
+    targets: types.map((type) => ({
+      type,
+      label: TARGET_LABELS[type],
+      count: candidates.filter((candidate) => candidate.data && candidate.type === type).length,
+      folderOptions: listFolderOptions(resolveDocumentName(type)),
+      packOptions: listPackOptions(resolveDocumentName(type)),
+    })),
+  });
+
+  return await waitForDialog<CanonicalImportTargets>({
+    title: `${CONSTANTS.MODULE_NAME} | Canonical Import Report`,
+    content,
+    width: 760,
+    resizable: true,
+    buttons: [
+      ...(validCount
+        ? [{
+          action: "import",
+          label: `Import ${validCount} Valid`,
+          icon: "fas fa-file-import",
+          default: true,
+          callback: ({ form }: { form: HTMLFormElement | null }) => (form ? readTargets(form, types) : null),
+        }]
+        : []),
+      {
+        action: "close",
+        label: validCount ? "Cancel" : "Close",
+        icon: "fas fa-times",
+        callback: () => null,
+      },
+    ],
+    closeResult: null,
+  });
+}
+
+async function showCanonicalImportResult(outcomes: readonly CanonicalImportOutcome[]): Promise<void> {
+  const importedCount = outcomes.filter((outcome) => outcome.status === "imported").length;
+  const content = await renderApplicationTemplate(CANONICAL_IMPORT_RESULT_TEMPLATE, {
+    importedCount,
+    failedCount: outcomes.length - importedCount,
+    outcomes: outcomes.map((outcome) => ({
+      name: outcome.candidate.name,
+      type: outcome.candidate.type,
+      imported: outcome.status === "imported",
+      message: outcome.message,
+    })),
+  });
+
+  await waitForDialog<null>({
+    title: `${CONSTANTS.MODULE_NAME} | Canonical Import`,
+    content,
+    width: 640,
+    buttons: [
+      {
+        action: "close",
+        label: "Close",
+        icon: "fas fa-check",
+        default: true,
+        callback: () => null,
+      },
+    ],
+    closeResult: null,
+  });
+}
+
+export async function runCanonicalImportFlow(): Promise<void> {
+  const files = await promptCanonicalImportFiles();
+  if (!files) {
+    return;
+  }
+
+  let workingDialog: WorkingDialogHandle | null = null;
+  try {
+    workingDialog = await openWorkingDialog({
+      title: `${CONSTANTS.MODULE_NAME} | Validating`,
+      content: `<p><i class="fas fa-spinner fa-spin"></i> Reading and validating ${files.length} file(s)...</p>`,
+    });
+    const candidates = await prepareCanonicalImport(files);
+    await workingDialog.close();
+    workingDialog = null;
+
+    if (!candidates.length) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | No entries were found in the selected files.`);
+      return;
+    }
+
+    const targets = await showCanonicalImportReport(candidates);
+    if (!targets) {
+      return;
+    }
+
+    workingDialog = await openWorkingDialog({
+      title: `${CONSTANTS.MODULE_NAME} | Importing`,
+      content: `<p><i class="fas fa-spinner fa-spin"></i> Importing validated entries...</p>`,
+    });
+    const outcomes = await importCanonicalEntries(candidates, targets, { signal: workingDialog.signal });
+    await workingDialog.close();
+    workingDialog = null;
+
+    await showCanonicalImportResult(outcomes);
+  } catch (error) {
+    if (workingDialog?.signal.aborted) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Canonical import cancelled.`);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Canonical import failed: ${message}`);
+    console.error(`${CONSTANTS.MODULE_NAME} | Canonical import failed`, error);
+  } finally {
+    await workingDialog?.close();
+  }
+}
@@ -0,0 +1,277 @@
+import { CONSTANTS } from "../constants";
+import { mapCanonicalActor, toGeneratedActorResultFromFoundry } from "../generation/pipeline";
+import { formatError } from "../helpers/validation";
+import { readZipArchive } from "../helpers/zip";
+import { importAction, importActor, importItem } from "../mappers/import";
+import { migrate } from "../migrations";
+import {
+  ACTOR_CATEGORIES,
+  LATEST_SCHEMA_VERSION,
+  type ActionSchemaData,
+  type ActorSchemaData,
+  type CanonicalEntityMap,
+  type EntityType,
+  type ItemSchemaData,
+} from "../schemas";
+import { EnsureValidError, ensureValid } from "../validation/ensure-valid";
+import { CANONICAL_BUNDLE_FORMAT, CANONICAL_BUNDLE_MANIFEST_PATH } from "./canonical-export";
+
+export interface CanonicalImportCandidate {
+  id: string;
+  /** Where the entry came from, e.g. `homebrew.zip › actors/goblin.json` or `dump.json #3`. */
+  origin: string;
+  type: EntityType | null;
+  name: string;
+  /** Schema version the entry declared before migration, when it declared one. */
+  fromVersion: number | null;
+  data: CanonicalEntityMap[EntityType] | null;
+  errors: string[];
+}
+
+export interface CanonicalImportTarget {
+  folderId?: string;
+  packId?: string;
+}
+
+export type CanonicalImportTargets = Partial<Record<EntityType, CanonicalImportTarget>>;
+
+export interface CanonicalImportOutcome {
+  candidate: CanonicalImportCandidate;
+  status: "imported" | "failed";
+  message: string;
+  uuid: string | null;
+}
+
+export interface CanonicalImportProgress {
+  index: number;
+  total: number;
+  name: string;
+}
+
+interface RawCanonicalEntry {
+  origin: string;
+  payload: unknown;
+  type?: EntityType;
+  parseError?: string;
+}
+
+const ACTOR_TYPES = new Set<string>(ACTOR_CATEGORIES);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toEntityType(value: unknown): EntityType | undefined {
+  return value === "action" || value === "item" || value === "actor" ? value : undefined;
+}
+
+/** Canonical entities carry their entity type in `type`; hand-written dumps often put the PF2E actor category there. */
+function inferEntityType(payload: unknown): EntityType | null {
+  if (!isRecord(payload)) {
+    return null;
+  }
+
+  const type = typeof payload.type === "string" ? payload.type.trim().toLowerCase() : "";
+  const entityType = toEntityType(type);
+  if (entityType) {
+    return entityType;
+  }
+  if (ACTOR_TYPES.has(type) || "actorType" in payload) {
+    return "actor";
+  }
+  if ("actionType" in payload) {
+    return "action";
+  }
+  if ("itemType" in payload) {
+    return "item";
+  }
+  return null;
+}
+
+function readSchemaVersion(payload: unknown): number | null {
+  if (!isRecord(payload)) {
+    return null;
+  }
+
+  const raw = payload.schema_version;
+  const parsed = typeof raw === "string" ? Number.parseInt(raw, 10) : raw;
+  return typeof parsed === "number" && Number.isInteger(parsed) ? parsed : null;
+}
+
+function expandJsonDocument(origin: string, value: unknown): RawCanonicalEntry[] {
+  if (isRecord(value) && value.format === CANONICAL_BUNDLE_FORMAT && Array.isArray(value.entries)) {
+    return value.entries.map((entry, index) => ({
+      origin: `${origin} › ${isRecord(entry) && typeof entry.path === "string" ? entry.path : `#${index + 1}`}`,
+      payload: isRecord(entry) ? entry.data : entry,
+      type: isRecord(entry) ? toEntityType(entry.type) : undefined,
+    }));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((payload, index) => ({ origin: `${origin} #${index + 1}`, payload }));
+  }
+
+  return [{ origin, payload: value }];
+}
+
+function parseJson(origin: string, text: string): RawCanonicalEntry[] {
+  try {
+    return expandJsonDocument(origin, JSON.parse(text) as unknown);
+  } catch (error) {
+    return [{ origin, payload: null, parseError: `Invalid JSON: ${describeError(error)}` }];
+  }
+}
+
+async function readZipEntries(file: File): Promise<RawCanonicalEntry[]> {
+  const decoder = new TextDecoder();
+  const files = await readZipArchive(await file.arrayBuffer());
+  const manifestFile = files.find((entry) => entry.name === CANONICAL_BUNDLE_MANIFEST_PATH);
+  const manifestTypes = new Map<string, EntityType>();
+  if (manifestFile) {
+    try {
+      const manifest = JSON.parse(decoder.decode(manifestFile.data as Uint8Array)) as unknown;
+      for (const entry of isRecord(manifest) && Array.isArray(manifest.entries) ? manifest.entries : []) {
+        const type = isRecord(entry) ? toEntityType(entry.type) : undefined;
+        if (type && typeof entry.path === "string") {
+          manifestTypes.set(entry.path, type);
+        }
+      }
+    } catch (error) {
+      console.warn(`${CONSTANTS.MODULE_NAME} | Ignoring unreadable manifest in ${file.name}`, error);
+    }
+  }
+
+  return files
+    .filter((entry) => entry !== manifestFile && entry.name.toLowerCase().endsWith(".json"))
+    .flatMap((entry) => {
+      const text = typeof entry.data === "string" ? entry.data : decoder.decode(entry.data);
+      return parseJson(`${file.name} › ${entry.name}`, text).map((raw) => ({
+        ...raw,
+        type: raw.type ?? manifestTypes.get(entry.name),
+      }));
+    });
+}
+
+/** Expands dropped files into raw entries: zips, canonical bundles, arrays of entities or single entities. */
+export async function readCanonicalImportFiles(files: readonly File[]): Promise<RawCanonicalEntry[]> {
+  const entries: RawCanonicalEntry[] = [];
+  for (const file of files) {
+    try {
+      if (file.name.toLowerCase().endsWith(".zip")) {
+        entries.push(...await readZipEntries(file));
+      } else {
+        entries.push(...parseJson(file.name, await file.text()));
+      }
+    } catch (error) {
+      entries.push({ origin: file.name, payload: null, parseError: describeError(error) });
+    }
+  }
+  return entries;
+}
+
+async function validateRawEntry(raw: RawCanonicalEntry, index: number): Promise<CanonicalImportCandidate> {
+  const payload = raw.payload;
+  const type = raw.type ?? inferEntityType(payload);
+  const fromVersion = readSchemaVersion(payload);
+  const candidate: CanonicalImportCandidate = {
+    id: String(index),
+    origin: raw.origin,
+    type,
+    name: isRecord(payload) && typeof payload.name === "string" && payload.name.trim() ? payload.name.trim() : raw.origin,
+    fromVersion,
+    data: null,
+    errors: [],
+  };
+
+  if (raw.parseError) {
+    candidate.errors.push(raw.parseError);
+    return candidate;
+  }
+  if (!type) {
+    candidate.errors.push('Could not tell whether this is an action, item, or actor; add a "type" field.');
+    return candidate;
+  }
+
+  try {
+    if (fromVersion !== null && fromVersion > LATEST_SCHEMA_VERSION) {
+      throw new Error(`Schema v${fromVersion} is newer than this module supports (v${LATEST_SCHEMA_VERSION}).`);
+    }
+    const migrated = fromVersion !== null && fromVersion < LATEST_SCHEMA_VERSION
+      ? migrate(type, fromVersion, LATEST_SCHEMA_VERSION, payload)
+      : payload;
+
+    candidate.data = await ensureValid({ type, payload: migrated });
+    candidate.name = candidate.data.name;
+  } catch (error) {
+    if (error instanceof EnsureValidError) {
+      const errors = (error.diagnostics.at(-1)?.errors ?? []).map((entry) => formatError(entry));
+      candidate.errors.push(...(errors.length ? errors : [error.message]));
+    } else {
+      candidate.errors.push(describeError(error));
+    }
+  }
+
+  return candidate;
+}
+
+/** Reads, migrates and validates every entry in the dropped files without touching the world. */
+export async function prepareCanonicalImport(files: readonly File[]): Promise<CanonicalImportCandidate[]> {
+  const raw = await readCanonicalImportFiles(files);
+  const candidates: CanonicalImportCandidate[] = [];
+  for (const [index, entry] of raw.entries()) {
+    candidates.push(await validateRawEntry(entry, index));
+  }
+  return candidates;
+}
+
+async function importCandidate(
+  type: EntityType,
+  data: CanonicalEntityMap[EntityType],
+  target: CanonicalImportTarget,
+): Promise<Actor | Item> {
+  switch (type) {
+    case "action":
+      return importAction(data as ActionSchemaData, target);
+    case "item":
+      return importItem(data as ItemSchemaData, target);
+    case "actor": {
+      const canonical = data as ActorSchemaData;
+      const foundry = await mapCanonicalActor(canonical, { resolveOfficialContent: true });
+      return importActor(toGeneratedActorResultFromFoundry(canonical, foundry), target);
+    }
+    default:
+      return type satisfies never;
+  }
+}
+
+/**
+ * Imports the valid candidates into the folder or pack chosen for their type. As with the workbench importers, an
+ * existing document with the same slug in that destination is updated rather than duplicated.
+ */
+export async function importCanonicalEntries(
+  candidates: readonly CanonicalImportCandidate[],
+  targets: CanonicalImportTargets,
+  options: { signal?: AbortSignal; onProgress?: (progress: CanonicalImportProgress) => void } = {},
+): Promise<CanonicalImportOutcome[]> {
+  const valid = candidates.filter((candidate) => candidate.type && candidate.data);
+  const outcomes: CanonicalImportOutcome[] = [];
+
+  for (const [index, candidate] of valid.entries()) {
+    options.signal?.throwIfAborted();
+    options.onProgress?.({ index, total: valid.length, name: candidate.name });
+
+    try {
+      const document = await importCandidate(candidate.type!, candidate.data!, targets[candidate.type!] ?? {});
+      outcomes.push({ candidate, status: "imported", message: "Imported", uuid: document.uuid ?? null });
+    } catch (error) {
+      console.warn(`${CONSTANTS.MODULE_NAME} | Failed to import ${candidate.name}`, error);
+      outcomes.push({ candidate, status: "failed", message: describeError(error), uuid: null });
+    }
+  }
+
+  return outcomes;
+}
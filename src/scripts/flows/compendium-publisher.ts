@@ -0,0 +1,183 @@
+import { CONSTANTS } from "../constants";
+import { importAction, importActor, importItem } from "../mappers/import";
+import {
+  LATEST_SCHEMA_VERSION,
+  type EntityType,
+  type GeneratedEntityMap,
+  type PackEntrySchemaData,
+} from "../schemas";
+import { ensureValid } from "../validation/ensure-valid";
+
+type PublishDocumentName = "Item" | "Actor";
+type PublishCompendium = CompendiumCollection<PublishDocumentName>;
+
+interface PublishPackDefinition {
+  readonly name: string;
+  readonly label: string;
+  readonly documentName: PublishDocumentName;
+}
+
+export const PUBLISH_PACKS: Record<EntityType, PublishPackDefinition> = {
+  action: { name: "handy-dandy-actions", label: "Handy Dandy Actions", documentName: "Item" },
+  item: { name: "handy-dandy-items", label: "Handy Dandy Items", documentName: "Item" },
+  actor: { name: "handy-dandy-actors", label: "Handy Dandy Actors", documentName: "Actor" },
+};
+
+export const PACK_ENTRY_FLAG_KEY = "packEntry" as const;
+
+const ACTOR_FOLDER_LABELS: Record<string, string> = {
+  npc: "NPCs",
+  hazard: "Hazards",
+  loot: "Loot",
+  character: "Characters",
+  vehicle: "Vehicles",
+  familiar: "Familiars",
+};
+
+export interface PublishResult {
+  readonly packId: string;
+  readonly entry: PackEntrySchemaData;
+  readonly created: boolean;
+}
+
+export function getPublishPackId(type: EntityType): string {
+  return `world.${PUBLISH_PACKS[type].name}`;
+}
+
+/** Folder the entry is filed under inside its pack, matching the category shown in Workbench history. */
+export function resolvePublishFolderName<T extends EntityType>(type: T, data: GeneratedEntityMap[T]): string {
+  switch (type) {
+    case "action":
+      return "Actions";
+    case "item": {
+      const itemType = (data as GeneratedEntityMap["item"]).itemType;
+      return itemType === "other" ? "Other Items" : `${itemType.charAt(0).toUpperCase()}${itemType.slice(1)}`;
+    }
+    case "actor": {
+      const actorType = String((data as GeneratedEntityMap["actor"]).type ?? "npc");
+      return ACTOR_FOLDER_LABELS[actorType] ?? actorType;
+    }
+    default:
+      throw new Error(`Unsupported entity type: ${type satisfies never}`);
+  }
+}
+
+export async function ensurePublishPack(type: EntityType): Promise<PublishCompendium> {
+  const definition = PUBLISH_PACKS[type];
+  const packId = getPublishPackId(type);
+  const existing = game.packs?.get(packId) as PublishCompendium | undefined;
+  if (existing) {
+    if (existing.documentName !== definition.documentName) {
+      throw new Error(`Pack ${packId} holds ${existing.documentName} documents, expected ${definition.documentName}.`);
+    }
+    return existing;
+  }
+
+  const created = (await CompendiumCollection.createCompendium({
+    name: definition.name,
+    label: definition.label,
+    type: definition.documentName,
+    packageType: "world",
+    system: game.system?.id,
+  } as never)) as PublishCompendium | null | undefined;
+  if (!created) {
+    throw new Error(`Failed to create compendium ${packId}.`);
+  }
+
+  return created;
+}
+
+async function ensurePackFolder(pack: PublishCompendium, name: string): Promise<string> {
+  const folders = (pack.folders ?? []) as Iterable<Folder>;
+  for (const folder of folders) {
+    if (folder.name === name && !folder.folder) {
+      return folder.id as string;
+    }
+  }
+
+  const created = (await Folder.create(
+    { name, type: pack.documentName, sorting: "a" } as never,
+    { pack: pack.collection } as never,
+  )) as Folder | null | undefined;
+  if (!created?.id) {
+    throw new Error(`Failed to create folder "${name}" in ${pack.collection}.`);
+  }
+
+  return created.id;
+}
+
+async function importIntoPack<T extends EntityType>(
+  type: T,
+  data: GeneratedEntityMap[T],
+  options: { packId: string; folderId: string },
+): Promise<Item | Actor> {
+  switch (type) {
+    case "action":
+      return importAction(data as GeneratedEntityMap["action"], options);
+    case "item":
+      return importItem(data as GeneratedEntityMap["item"], options);
+    case "actor":
+      return importActor(data as GeneratedEntityMap["actor"], options);
+    default:
+      throw new Error(`Unsupported entity type: ${type satisfies never}`);
+  }
+}
+
+/**
+ * Writes a generated entry into the module's world compendium for its type. Entries are matched by slug, so
+ * regenerating an entry updates the existing pack document instead of adding a duplicate.
+ */
+export async function publishToCompendium<T extends EntityType>(
+  type: T,
+  data: GeneratedEntityMap[T],
+): Promise<PublishResult> {
+  const pack = await ensurePublishPack(type);
+  if (pack.locked) {
+    throw new Error(`Compendium ${pack.collection} is locked. Unlock it before publishing.`);
+  }
+
+  const index = await pack.getIndex();
+  const knownIds = new Set<string>(Array.from(index.keys()) as string[]);
+  const folderId = await ensurePackFolder(pack, resolvePublishFolderName(type, data));
+  const document = await importIntoPack(type, data, { packId: pack.collection, folderId });
+  if (!document.id) {
+    throw new Error(`Published ${data.name} but the compendium did not return a document id.`);
+  }
+
+  const entry = await ensureValid({
+    type: "packEntry",
+    payload: {
+      schema_version: LATEST_SCHEMA_VERSION,
+      systemId: data.systemId,
+      id: document.id,
+      entityType: type,
+      name: document.name ?? data.name,
+      slug: data.slug,
+      img: document.img ?? null,
+      sort: typeof document.sort === "number" ? document.sort : 0,
+      folder: folderId,
+    } satisfies PackEntrySchemaData,
+  });
+  await document.setFlag(CONSTANTS.MODULE_ID as never, PACK_ENTRY_FLAG_KEY as never, entry as never);
+
+  return { packId: pack.collection, entry, created: !knownIds.has(document.id) };
+}
+
+/** Reads the manifests written by {@link publishToCompendium} from a pack's index. */
+export async function readPackManifest(type: EntityType): Promise<PackEntrySchemaData[]> {
+  const pack = game.packs?.get(getPublishPackId(type)) as PublishCompendium | undefined;
+  if (!pack) {
+    return [];
+  }
+
+  const index = await pack.getIndex({ fields: [`flags.${CONSTANTS.MODULE_ID}.${PACK_ENTRY_FLAG_KEY}`] } as never);
+  const entries: PackEntrySchemaData[] = [];
+  for (const record of index as Iterable<{ flags?: Record<string, Record<string, unknown> | undefined> }>) {
+    const entry = record.flags?.[CONSTANTS.MODULE_ID]?.[PACK_ENTRY_FLAG_KEY];
+    if (entry && typeof entry === "object") {
+      entries.push(entry as PackEntrySchemaData);
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,64 @@
+import { CONSTANTS } from "../constants";
+import { mapCanonicalActor, normalizeGeneratedEntity, toGeneratedActorResultFromFoundry } from "../generation/pipeline";
+import { fromFoundryActor, type FoundryActor } from "../mappers/export";
+import { importActor } from "../mappers/import";
+import type { ActorSchemaData } from "../schemas";
+import {
+  BALANCE_REPORT_FLAG_KEY,
+  correctCreatureBalance,
+  evaluateCreatureBalance,
+  type CreatureBalanceReport,
+} from "../validation/creature-balance";
+import { recordRevision } from "./revision-history";
+
+function toCanonicalActor(actor: Actor): ActorSchemaData {
+  return fromFoundryActor(actor.toObject() as unknown as FoundryActor);
+}
+
+export function readBalanceReport(actor: Actor): CreatureBalanceReport | null {
+  const report = actor.getFlag(CONSTANTS.MODULE_ID as never, BALANCE_REPORT_FLAG_KEY as never) as unknown;
+  return report && typeof report === "object" && Array.isArray((report as CreatureBalanceReport).checks)
+    ? report as CreatureBalanceReport
+    : null;
+}
+
+async function storeBalanceReport(actor: Actor, report: CreatureBalanceReport): Promise<void> {
+  if (!actor.isOwner) {
+    return;
+  }
+
+  try {
+    await actor.setFlag(CONSTANTS.MODULE_ID as never, BALANCE_REPORT_FLAG_KEY as never, report as never);
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to store balance report for ${actor.name}`, error);
+  }
+}
+
+/** Re-checks the actor's current statistics and stores the result as its balance report. */
+export async function checkActorBalance(actor: Actor): Promise<CreatureBalanceReport> {
+  const report = evaluateCreatureBalance(toCanonicalActor(actor));
+  await storeBalanceReport(actor, report);
+  return report;
+}
+
+/**
+ * Writes benchmark corrections back to an existing NPC through the same canonical import path as remixes, after
+ * snapshotting the current sheet so the change can be undone from the Revisions dialog.
+ */
+export async function applyActorBalanceCorrections(actor: Actor): Promise<CreatureBalanceReport> {
+  const { actor: corrected, report } = correctCreatureBalance(toCanonicalActor(actor));
+  if (!report.corrections.length) {
+    await storeBalanceReport(actor, report);
+    return report;
+  }
+
+  const canonical = await normalizeGeneratedEntity("actor", corrected);
+  const foundry = await mapCanonicalActor(canonical, { resolveOfficialContent: true });
+  await recordRevision(actor, "Benchmark correction");
+  const imported = await importActor(toGeneratedActorResultFromFoundry(canonical, foundry), {
+    actorId: actor.id ?? undefined,
+    folderId: actor.folder?.id ?? undefined,
+  });
+  await storeBalanceReport(imported, report);
+  return report;
+}
@@ -0,0 +1,481 @@
+import { CONSTANTS } from "../constants";
+import { renderApplicationTemplate } from "../foundry/templates";
+import {
+  asRecord,
+  type CraftingOutcome,
+  extractCollectionValues,
+  formatGp,
+  getCraftItemDc,
+  getPriceValue,
+  isCharacterActor,
+  isSuccessfulOutcome,
+  rollCraftingCheck,
+  rollTransferRuneCheck,
+  roundGp,
+  toNumber,
+  type TransferRuneCheckResult,
+} from "./rune-transfer";
+
+export const DOWNTIME_LEDGER_FLAG_KEY = "downtimeLedger" as const;
+export const SECONDS_PER_DAY = 86_400;
+/** Days of work before the Crafting check when crafting an item, unless the GM picks another number. */
+export const DEFAULT_CRAFT_DAYS = 4;
+
+const DOWNTIME_DAY_CARD_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/downtime-day-card.hbs`;
+
+export type DowntimeActivityKind = "rune-transfer" | "craft-item";
+export type DowntimeActivityStatus = "active" | "complete" | "failed";
+
+export const DOWNTIME_ACTIVITY_LABELS: Record<DowntimeActivityKind, string> = {
+  "rune-transfer": "Transfer Rune",
+  "craft-item": "Craft Item",
+};
+
+export const CRAFTING_OUTCOME_LABELS: Record<CraftingOutcome, string> = {
+  criticalSuccess: "Critical Success",
+  success: "Success",
+  failure: "Failure",
+  criticalFailure: "Critical Failure",
+};
+
+export interface DowntimeDayRecord {
+  /** Day of work on the activity, starting at 1. */
+  day: number;
+  /** World time (seconds) at the start of the day worked. */
+  worldTime: number;
+  /** Null on days spent working without a check, such as the first days of crafting. */
+  outcome: CraftingOutcome | null;
+  total: number | null;
+  costGp: number;
+  note: string;
+}
+
+/** Queue entry a tool added the activity for, so the tool can pick up the results later. */
+export interface DowntimeActivityOrigin {
+  tool: string;
+  entryKey: string;
+  runeKey: string;
+}
+
+export interface DowntimeActivity {
+  id: string;
+  kind: DowntimeActivityKind;
+  label: string;
+  itemName: string;
+  itemUuid: string | null;
+  dc: number;
+  status: DowntimeActivityStatus;
+  queuedAt: number;
+  /** Successful checks needed to finish: one per copy of a transferred rune, one for a crafted item. */
+  checksRequired: number;
+  checksSucceeded: number;
+  /** The first check is rolled on this day of work; earlier days only accrue time. */
+  checkDay: number;
+  /** Transfer cost of one rune copy, or the Price of the crafted item. */
+  priceGp: number;
+  costGp: number;
+  days: DowntimeDayRecord[];
+  origin: DowntimeActivityOrigin | null;
+}
+
+export interface DowntimeLedger {
+  /** World time up to which the character's downtime has been worked. */
+  workedUntil: number;
+  activities: DowntimeActivity[];
+}
+
+export interface DowntimeDayResult {
+  actor: Actor;
+  activity: DowntimeActivity;
+  record: DowntimeDayRecord;
+}
+
+export interface RuneTransferDowntimeInput {
+  runeName: string;
+  itemName: string;
+  itemUuid: string | null;
+  dc: number;
+  copies: number;
+  copiesDone: number;
+  transferCostGp: number;
+  origin: DowntimeActivityOrigin;
+}
+
+const DOWNTIME_ACTIVITY_KINDS = Object.keys(DOWNTIME_ACTIVITY_LABELS) as DowntimeActivityKind[];
+const CRAFTING_OUTCOMES = Object.keys(CRAFTING_OUTCOME_LABELS) as CraftingOutcome[];
+
+const toCount = (value: unknown, fallback = 0): number => {
+  const number = toNumber(value);
+  return number === null ? fallback : Math.max(Math.trunc(number), 0);
+};
+
+const toText = (value: unknown): string => (typeof value === "string" ? value : "");
+
+function createActivityId(): string {
+  return foundry.utils.randomID();
+}
+
+export function getWorldTime(): number {
+  return toNumber(game.time?.worldTime) ?? 0;
+}
+
+export function formatWorldDay(worldTime: number): string {
+  return `Day ${Math.floor(worldTime / SECONDS_PER_DAY) + 1}`;
+}
+
+function normalizeDayRecord(value: unknown): DowntimeDayRecord | null {
+  const record = asRecord(value);
+  if (!record) {
+    return null;
+  }
+
+  const outcome = CRAFTING_OUTCOMES.find((candidate) => candidate === record["outcome"]) ?? null;
+  return {
+    day: toCount(record["day"], 1),
+    worldTime: toNumber(record["worldTime"]) ?? 0,
+    outcome,
+    total: toNumber(record["total"]),
+    costGp: roundGp(toNumber(record["costGp"]) ?? 0),
+    note: toText(record["note"]),
+  };
+}
+
+function normalizeActivity(value: unknown): DowntimeActivity | null {
+  const record = asRecord(value);
+  const kind = DOWNTIME_ACTIVITY_KINDS.find((candidate) => candidate === record?.["kind"]);
+  if (!record || !kind || typeof record["id"] !== "string") {
+    return null;
+  }
+
+  const origin = asRecord(record["origin"]);
+  const status = record["status"];
+  return {
+    id: record["id"],
+    kind,
+    label: toText(record["label"]) || DOWNTIME_ACTIVITY_LABELS[kind],
+    itemName: toText(record["itemName"]),
+    itemUuid: typeof record["itemUuid"] === "string" ? record["itemUuid"] : null,
+    dc: toCount(record["dc"]),
+    status: status === "complete" || status === "failed" ? status : "active",
+    queuedAt: toNumber(record["queuedAt"]) ?? 0,
+    checksRequired: toCount(record["checksRequired"], 1),
+    checksSucceeded: toCount(record["checksSucceeded"]),
+    checkDay: Math.max(toCount(record["checkDay"], 1), 1),
+    priceGp: roundGp(toNumber(record["priceGp"]) ?? 0),
+    costGp: roundGp(toNumber(record["costGp"]) ?? 0),
+    days: Array.isArray(record["days"])
+      ? record["days"]
+        .map((day) => normalizeDayRecord(day))
+        .filter((day): day is DowntimeDayRecord => Boolean(day))
+      : [],
+    origin: origin
+      ? { tool: toText(origin["tool"]), entryKey: toText(origin["entryKey"]), runeKey: toText(origin["runeKey"]) }
+      : null,
+  };
+}
+
+export function readDowntimeLedger(actor: Actor): DowntimeLedger {
+  try {
+    const stored = asRecord(actor.getFlag(CONSTANTS.MODULE_ID, DOWNTIME_LEDGER_FLAG_KEY));
+    const activities = Array.isArray(stored?.["activities"]) ? stored["activities"] : [];
+    return {
+      workedUntil: toNumber(stored?.["workedUntil"]) ?? getWorldTime(),
+      activities: activities
+        .map((activity) => normalizeActivity(activity))
+        .filter((activity): activity is DowntimeActivity => Boolean(activity)),
+    };
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to read downtime ledger for ${actor.name}`, error);
+    return { workedUntil: getWorldTime(), activities: [] };
+  }
+}
+
+async function writeDowntimeLedger(actor: Actor, ledger: DowntimeLedger): Promise<void> {
+  await actor.setFlag(CONSTANTS.MODULE_ID, DOWNTIME_LEDGER_FLAG_KEY, ledger);
+}
+
+export function getActiveDowntimeActivity(ledger: DowntimeLedger): DowntimeActivity | null {
+  return ledger.activities.find((activity) => activity.status === "active") ?? null;
+}
+
+/** Whole days of world time that have passed since the character last worked on their queue. */
+export function getElapsedDowntimeDays(ledger: DowntimeLedger): number {
+  if (!getActiveDowntimeActivity(ledger)) {
+    return 0;
+  }
+
+  return Math.max(Math.floor((getWorldTime() - ledger.workedUntil) / SECONDS_PER_DAY), 0);
+}
+
+/** Characters the current user can see downtime for, those with a ledger first. */
+export function listDowntimeActors(): Actor[] {
+  return extractCollectionValues<Actor>(game.actors)
+    .filter((actor) => isCharacterActor(actor) && actor.isOwner)
+    .sort((left, right) => {
+      const leftQueued = readDowntimeLedger(left).activities.length > 0 ? 0 : 1;
+      const rightQueued = readDowntimeLedger(right).activities.length > 0 ? 0 : 1;
+      return leftQueued - rightQueued || (left.name ?? "").localeCompare(right.name ?? "");
+    });
+}
+
+/**
+ * Adds an activity to the end of the character's queue. A character who had nothing queued starts working from the
+ * current world time rather than being credited with the idle days before it.
+ */
+async function queueDowntimeActivity(actor: Actor, activity: DowntimeActivity): Promise<DowntimeActivity> {
+  const ledger = readDowntimeLedger(actor);
+  const workedUntil = getActiveDowntimeActivity(ledger) ? ledger.workedUntil : getWorldTime();
+  await writeDowntimeLedger(actor, { workedUntil, activities: [...ledger.activities, activity] });
+  return activity;
+}
+
+export function findDowntimeActivityByOrigin(
+  ledger: DowntimeLedger,
+  origin: DowntimeActivityOrigin,
+): DowntimeActivity | null {
+  return [...ledger.activities].reverse().find((activity) =>
+    activity.origin?.tool === origin.tool &&
+    activity.origin.entryKey === origin.entryKey &&
+    activity.origin.runeKey === origin.runeKey
+  ) ?? null;
+}
+
+export async function queueRuneTransferDowntime(
+  actor: Actor,
+  input: RuneTransferDowntimeInput,
+): Promise<DowntimeActivity> {
+  return await queueDowntimeActivity(actor, {
+    id: createActivityId(),
+    kind: "rune-transfer",
+    label: `Transfer ${input.runeName}`,
+    itemName: input.itemName,
+    itemUuid: input.itemUuid,
+    dc: input.dc,
+    status: input.copiesDone >= input.copies ? "complete" : "active",
+    queuedAt: getWorldTime(),
+    checksRequired: Math.max(input.copies, 1),
+    checksSucceeded: Math.min(input.copiesDone, input.copies),
+    checkDay: 1,
+    priceGp: roundGp(input.transferCostGp),
+    costGp: 0,
+    days: [],
+    origin: input.origin,
+  });
+}
+
+export async function queueCraftItemDowntime(
+  actor: Actor,
+  item: Item,
+  days = DEFAULT_CRAFT_DAYS,
+): Promise<DowntimeActivity> {
+  const itemName = item.name ?? "Unnamed Item";
+  return await queueDowntimeActivity(actor, {
+    id: createActivityId(),
+    kind: "craft-item",
+    label: `Craft ${itemName}`,
+    itemName,
+    itemUuid: item.uuid ?? null,
+    dc: getCraftItemDc(item),
+    status: "active",
+    queuedAt: getWorldTime(),
+    checksRequired: 1,
+    checksSucceeded: 0,
+    checkDay: Math.max(Math.trunc(days), 1),
+    priceGp: roundGp(getPriceValue(asRecord(item.toObject()) ?? {})),
+    costGp: 0,
+    days: [],
+    origin: null,
+  });
+}
+
+export async function removeDowntimeActivity(actor: Actor, activityId: string): Promise<void> {
+  const ledger = readDowntimeLedger(actor);
+  await writeDowntimeLedger(actor, {
+    ...ledger,
+    activities: ledger.activities.filter((activity) => activity.id !== activityId),
+  });
+}
+
+/** Drops finished activities from the ledger, keeping anything still in progress. */
+export async function clearFinishedDowntime(actor: Actor): Promise<void> {
+  const ledger = readDowntimeLedger(actor);
+  await writeDowntimeLedger(actor, {
+    ...ledger,
+    activities: ledger.activities.filter((activity) => activity.status === "active"),
+  });
+}
+
+async function rollDowntimeCheck(
+  actor: Actor,
+  activity: DowntimeActivity,
+  day: number,
+): Promise<TransferRuneCheckResult | null> {
+  if (activity.kind === "rune-transfer") {
+    return await rollTransferRuneCheck(actor, {
+      title: `${activity.label} (${activity.itemName})`,
+      dc: activity.dc,
+      note: `${activity.label} from ${activity.itemName}, downtime day ${day} ` +
+        `(copy ${activity.checksSucceeded + 1}/${activity.checksRequired})`,
+      source: "downtime-tracker",
+    });
+  }
+
+  return await rollCraftingCheck(actor, {
+    title: activity.label,
+    dc: activity.dc,
+    note: `${activity.itemName} after ${day} day(s) of work`,
+    noteTitle: "Crafting Target",
+    source: "downtime-tracker",
+    activity: "craft",
+  });
+}
+
+/**
+ * Applies one check to an activity. Transfer Rune moves a copy on a success and loses 10% of that copy's transfer
+ * materials on a critical failure. Craft supplies half the Price in raw materials on the first day; a success pays
+ * the remaining half, a failure salvages the materials and a critical failure ruins 10% of them.
+ */
+function resolveDowntimeCheck(
+  activity: DowntimeActivity,
+  result: TransferRuneCheckResult,
+): { costGp: number; note: string } {
+  if (activity.kind === "rune-transfer") {
+    if (isSuccessfulOutcome(result.outcome)) {
+      activity.checksSucceeded += 1;
+      if (activity.checksSucceeded >= activity.checksRequired) {
+        activity.status = "complete";
+      }
+      return {
+        costGp: activity.priceGp,
+        note: `Transferred copy ${activity.checksSucceeded}/${activity.checksRequired}.`,
+      };
+    }
+
+    return result.outcome === "criticalFailure"
+      ? { costGp: roundGp(activity.priceGp * 0.1), note: "Transfer failed; 10% of the materials were lost." }
+      : { costGp: 0, note: "Transfer failed; try again on the next day." };
+  }
+
+  const materialsGp = roundGp(activity.priceGp / 2);
+  if (isSuccessfulOutcome(result.outcome)) {
+    activity.checksSucceeded = activity.checksRequired;
+    activity.status = "complete";
+    return { costGp: roundGp(activity.priceGp - materialsGp), note: "Item crafted; the remaining Price is paid." };
+  }
+
+  activity.status = "failed";
+  return result.outcome === "criticalFailure"
+    ? {
+      costGp: -roundGp(materialsGp * 0.9),
+      note: `Crafting failed; 10% of the raw materials were ruined (${formatGp(materialsGp * 0.1)}).`,
+    }
+    : { costGp: -materialsGp, note: "Crafting failed; the raw materials are salvaged for their full value." };
+}
+
+/**
+ * Works one day on the first active activity in the character's queue, rolling its check when one is due. Returns
+ * null when nothing is queued or the roll was cancelled, in which case the day is not spent.
+ */
+export async function workDowntimeDay(actor: Actor): Promise<DowntimeDayResult | null> {
+  const ledger = readDowntimeLedger(actor);
+  const activity = getActiveDowntimeActivity(ledger);
+  if (!activity) {
+    return null;
+  }
+
+  const day = activity.days.length + 1;
+  const record: DowntimeDayRecord = {
+    day,
+    worldTime: ledger.workedUntil,
+    outcome: null,
+    total: null,
+    costGp: 0,
+    note: "",
+  };
+
+  if (day < activity.checkDay) {
+    record.note = `Work day ${day} of ${activity.checkDay}.`;
+  } else {
+    const result = await rollDowntimeCheck(actor, activity, day);
+    if (!result) {
+      return null;
+    }
+
+    const resolved = resolveDowntimeCheck(activity, result);
+    record.outcome = result.outcome;
+    record.total = result.total;
+    record.costGp = resolved.costGp;
+    record.note = resolved.note;
+  }
+
+  if (activity.kind === "craft-item" && day === 1) {
+    const materialsGp = roundGp(activity.priceGp / 2);
+    record.costGp = roundGp(record.costGp + materialsGp);
+    record.note = `Supplied ${formatGp(materialsGp)} of raw materials. ${record.note}`;
+  }
+
+  activity.days.push(record);
+  activity.costGp = roundGp(activity.costGp + record.costGp);
+  await writeDowntimeLedger(actor, {
+    workedUntil: ledger.workedUntil + SECONDS_PER_DAY,
+    activities: ledger.activities,
+  });
+
+  return { actor, activity, record };
+}
+
+export async function postDowntimeDayCard(results: readonly DowntimeDayResult[]): Promise<void> {
+  if (!results.length) {
+    return;
+  }
+
+  const content = await renderApplicationTemplate(DOWNTIME_DAY_CARD_TEMPLATE, {
+    dayLabel: formatWorldDay(results[0].record.worldTime),
+    results: results.map(({ actor, activity, record }) => ({
+      actorName: actor.name ?? "",
+      activityLabel: activity.label,
+      itemName: activity.itemName,
+      outcomeLabel: record.outcome ? CRAFTING_OUTCOME_LABELS[record.outcome] : "Work",
+      outcome: record.outcome ?? "work",
+      total: record.total,
+      dc: activity.dc,
+      note: record.note,
+      costLabel: formatGp(record.costGp),
+      statusLabel: activity.status === "active" ? "In progress" : activity.status === "complete" ? "Complete" : "Failed",
+    })),
+  });
+
+  await ChatMessage.create({
+    content,
+    speaker: { alias: `${CONSTANTS.MODULE_NAME} | Downtime` },
+    whisper: extractCollectionValues<User>(game.users)
+      .filter((user) => user.isGM || results.some(({ actor }) => actor.testUserPermission(user, "OWNER")))
+      .map((user) => user.id)
+      .filter((id): id is string => Boolean(id)),
+  } as never);
+}
+
+/**
+ * Works every day of world time the given characters have not spent yet, one day at a time across all of them, and
+ * posts a chat card for each day. Returns the number of days worked.
+ */
+export async function workElapsedDowntime(actors: readonly Actor[]): Promise<number> {
+  let daysWorked = 0;
+  for (;;) {
+    const due = actors.filter((actor) => getElapsedDowntimeDays(readDowntimeLedger(actor)) > 0);
+    const results: DowntimeDayResult[] = [];
+    for (const actor of due) {
+      const result = await workDowntimeDay(actor);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    if (!results.length) {
+      return daysWorked;
+    }
+
+    await postDowntimeDayCard(results);
+    daysWorked += 1;
+  }
+}
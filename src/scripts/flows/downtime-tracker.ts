@@ -0,0 +1,361 @@
+import { CONSTANTS } from "../constants";
+import {
+  clearFinishedDowntime,
+  CRAFTING_OUTCOME_LABELS,
+  DEFAULT_CRAFT_DAYS,
+  DOWNTIME_ACTIVITY_LABELS,
+  type DowntimeActivity,
+  formatWorldDay,
+  getActiveDowntimeActivity,
+  getElapsedDowntimeDays,
+  getWorldTime,
+  listDowntimeActors,
+  postDowntimeDayCard,
+  queueCraftItemDowntime,
+  readDowntimeLedger,
+  removeDowntimeActivity,
+  SECONDS_PER_DAY,
+  workDowntimeDay,
+  workElapsedDowntime,
+} from "./downtime-ledger";
+import { formatGp, resolveDroppedItem, roundGp } from "./rune-transfer";
+
+import appv1 = foundry.appv1;
+
+const DOWNTIME_TRACKER_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/downtime-tracker.hbs`;
+
+interface DowntimeActivityView {
+  id: string;
+  kindLabel: string;
+  label: string;
+  itemName: string;
+  dcLabel: string;
+  progressLabel: string;
+  daysLabel: string;
+  costLabel: string;
+  status: DowntimeActivity["status"];
+  statusLabel: string;
+  isCurrent: boolean;
+  lastResultLabel: string;
+  history: Array<{ dayLabel: string; outcomeLabel: string; costLabel: string; note: string }>;
+}
+
+interface DowntimeCharacterView {
+  actorId: string;
+  name: string;
+  isCraftTarget: boolean;
+  dueDays: number;
+  dueLabel: string;
+  hasActive: boolean;
+  hasFinished: boolean;
+  totalCostLabel: string;
+  activities: DowntimeActivityView[];
+}
+
+interface DowntimeTrackerViewData {
+  worldDayLabel: string;
+  canAdvanceTime: boolean;
+  characters: DowntimeCharacterView[];
+  hasCharacters: boolean;
+  dueCharacterCount: number;
+  craftDays: number;
+  isBusy: boolean;
+}
+
+let downtimeTrackerApp: DowntimeTrackerApplication | null = null;
+let lastNotifiedDueDays = 0;
+
+function describeProgress(activity: DowntimeActivity): string {
+  if (activity.kind === "rune-transfer") {
+    return `${activity.checksSucceeded}/${activity.checksRequired} cop${activity.checksRequired === 1 ? "y" : "ies"}`;
+  }
+
+  const worked = Math.min(activity.days.length, activity.checkDay);
+  return activity.status === "active" ? `${worked}/${activity.checkDay} day(s) before the check` : "Checked";
+}
+
+function toActivityView(activity: DowntimeActivity, current: DowntimeActivity | null): DowntimeActivityView {
+  const last = activity.days[activity.days.length - 1];
+  return {
+    id: activity.id,
+    kindLabel: DOWNTIME_ACTIVITY_LABELS[activity.kind],
+    label: activity.label,
+    itemName: activity.itemName,
+    dcLabel: `DC ${activity.dc}`,
+    progressLabel: describeProgress(activity),
+    daysLabel: `${activity.days.length} day(s)`,
+    costLabel: formatGp(activity.costGp),
+    status: activity.status,
+    statusLabel: activity.status === "active"
+      ? activity === current ? "Working" : "Queued"
+      : activity.status === "complete" ? "Complete" : "Failed",
+    isCurrent: activity === current,
+    lastResultLabel: last
+      ? `${last.outcome ? CRAFTING_OUTCOME_LABELS[last.outcome] : "Work"}${last.total === null ? "" : ` (${last.total})`}`
+      : "Not started",
+    history: activity.days.map((day) => ({
+      dayLabel: `${formatWorldDay(day.worldTime)} (day ${day.day})`,
+      outcomeLabel: day.outcome ? CRAFTING_OUTCOME_LABELS[day.outcome] : "Work",
+      costLabel: formatGp(day.costGp),
+      note: day.note,
+    })),
+  };
+}
+
+/**
+ * GM dashboard for the downtime queue of every character: one activity is worked per character per day of world
+ * time, and each day's results are posted to chat.
+ */
+class DowntimeTrackerApplication extends appv1.api.FormApplication {
+  #craftActorId: string | null = null;
+  #craftDays = DEFAULT_CRAFT_DAYS;
+  #busy = false;
+
+  constructor(options?: Partial<appv1.api.FormApplication.Options>) {
+    super(undefined, options);
+  }
+
+  static override get defaultOptions(): appv1.api.FormApplication.Options {
+    return foundry.utils.mergeObject(super.defaultOptions, {
+      id: "handy-dandy-downtime-tracker",
+      title: "Handy Dandy | Downtime Tracker",
+      template: DOWNTIME_TRACKER_TEMPLATE,
+      width: 860,
+      height: 720,
+      resizable: true,
+      closeOnSubmit: false,
+      submitOnChange: false,
+      classes: ["handy-dandy", "downtime-tracker"],
+    });
+  }
+
+  override async getData(): Promise<DowntimeTrackerViewData> {
+    const actors = listDowntimeActors();
+    if (!actors.some((actor) => actor.id === this.#craftActorId)) {
+      this.#craftActorId = actors[0]?.id ?? null;
+    }
+
+    const characters = actors.map((actor): DowntimeCharacterView => {
+      const ledger = readDowntimeLedger(actor);
+      const current = getActiveDowntimeActivity(ledger);
+      const dueDays = getElapsedDowntimeDays(ledger);
+      return {
+        actorId: actor.id ?? "",
+        name: actor.name ?? "Character",
+        isCraftTarget: actor.id === this.#craftActorId,
+        dueDays,
+        dueLabel: dueDays > 0 ? `${dueDays} day(s) of world time to resolve` : "",
+        hasActive: current !== null,
+        hasFinished: ledger.activities.some((activity) => activity.status !== "active"),
+        totalCostLabel: formatGp(roundGp(ledger.activities.reduce((sum, activity) => sum + activity.costGp, 0))),
+        activities: ledger.activities.map((activity) => toActivityView(activity, current)),
+      };
+    });
+
+    return {
+      worldDayLabel: formatWorldDay(getWorldTime()),
+      canAdvanceTime: Boolean(game.user?.isGM),
+      characters,
+      hasCharacters: characters.length > 0,
+      dueCharacterCount: characters.filter((character) => character.dueDays > 0).length,
+      craftDays: this.#craftDays,
+      isBusy: this.#busy,
+    };
+  }
+
+  override activateListeners(html: JQuery): void {
+    super.activateListeners(html);
+
+    const root = html[0];
+    const dropzone = root.querySelector<HTMLElement>("[data-downtime-dropzone]");
+    if (dropzone) {
+      dropzone.addEventListener("dragover", (event) => {
+        event.preventDefault();
+        dropzone.classList.add("is-dragover");
+      });
+      dropzone.addEventListener("dragleave", () => {
+        dropzone.classList.remove("is-dragover");
+      });
+      dropzone.addEventListener("drop", (event) => {
+        event.preventDefault();
+        dropzone.classList.remove("is-dragover");
+        void this.#handleDrop(event);
+      });
+    }
+
+    html.find<HTMLSelectElement>("select[data-action='craft-actor']").on("change", (event) => {
+      this.#craftActorId = (event.currentTarget as HTMLSelectElement).value || null;
+    });
+
+    html.find<HTMLInputElement>("input[data-action='craft-days']").on("change", (event) => {
+      const days = Math.trunc(Number((event.currentTarget as HTMLInputElement).value));
+      this.#craftDays = Number.isFinite(days) && days > 0 ? days : DEFAULT_CRAFT_DAYS;
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='advance-day']").on("click", (event) => {
+      event.preventDefault();
+      void this.#advanceDay();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='work-elapsed']").on("click", (event) => {
+      event.preventDefault();
+      void this.#runBusy(async () => {
+        const days = await workElapsedDowntime(listDowntimeActors());
+        if (days === 0) {
+          ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | No elapsed downtime days to resolve.`);
+        }
+      });
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='work-day']").on("click", (event) => {
+      event.preventDefault();
+      const actor = this.#getActor(event.currentTarget.dataset.actorId);
+      if (actor) {
+        void this.#runBusy(async () => {
+          const result = await workDowntimeDay(actor);
+          if (result) {
+            await postDowntimeDayCard([result]);
+          }
+        });
+      }
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='remove-activity']").on("click", (event) => {
+      event.preventDefault();
+      const actor = this.#getActor(event.currentTarget.dataset.actorId);
+      const activityId = event.currentTarget.dataset.activityId;
+      if (actor && activityId) {
+        void this.#runBusy(() => removeDowntimeActivity(actor, activityId));
+      }
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='clear-finished']").on("click", (event) => {
+      event.preventDefault();
+      const actor = this.#getActor(event.currentTarget.dataset.actorId);
+      if (actor) {
+        void this.#runBusy(() => clearFinishedDowntime(actor));
+      }
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='refresh']").on("click", (event) => {
+      event.preventDefault();
+      this.render();
+    });
+  }
+
+  protected override async _updateObject(
+    _event: Event,
+    _formData: Record<string, unknown>,
+  ): Promise<void> {
+    // Form submission is handled by button actions.
+  }
+
+  #getActor(actorId: string | undefined): Actor | null {
+    const actor = actorId ? (game.actors?.get(actorId) as Actor | null | undefined) ?? null : null;
+    return actor instanceof Actor ? actor : null;
+  }
+
+  async #runBusy(task: () => Promise<void>): Promise<void> {
+    if (this.#busy) {
+      return;
+    }
+
+    this.#busy = true;
+    this.render();
+    try {
+      await task();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Downtime update failed: ${message}`);
+      console.error(`${CONSTANTS.MODULE_NAME} | Downtime update failed`, error);
+    } finally {
+      this.#busy = false;
+      this.render();
+    }
+  }
+
+  async #advanceDay(): Promise<void> {
+    if (!game.user?.isGM) {
+      return;
+    }
+
+    // The day is worked here rather than in the world time hook so the rolls are prompted on this client only.
+    await this.#runBusy(async () => {
+      await game.time?.advance(SECONDS_PER_DAY);
+      await workElapsedDowntime(listDowntimeActors());
+    });
+  }
+
+  async #handleDrop(event: DragEvent): Promise<void> {
+    if (this.#busy) {
+      return;
+    }
+
+    const actor = this.#getActor(this.#craftActorId ?? undefined);
+    if (!actor) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Pick the character who will craft the item first.`);
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(event.dataTransfer?.getData("text/plain")?.trim() ?? "") as unknown;
+    } catch {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Unsupported drop payload.`);
+      return;
+    }
+
+    const item = await resolveDroppedItem(parsed);
+    if (!(item instanceof Item)) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Could not resolve an item from the drop.`);
+      return;
+    }
+
+    await this.#runBusy(async () => {
+      const activity = await queueCraftItemDowntime(actor, item, this.#craftDays);
+      ui.notifications?.info(
+        `${CONSTANTS.MODULE_NAME} | Queued "${activity.label}" for ${actor.name} (DC ${activity.dc}).`,
+      );
+    });
+  }
+}
+
+/** Re-renders the open tracker and tells the GM once when world time moves on to days nobody has worked yet. */
+function handleWorldTimeUpdate(): void {
+  if (downtimeTrackerApp?.rendered) {
+    downtimeTrackerApp.render();
+  }
+
+  if (!game.user?.isGM) {
+    return;
+  }
+
+  const dueDays = listDowntimeActors()
+    .reduce((sum, actor) => sum + getElapsedDowntimeDays(readDowntimeLedger(actor)), 0);
+  if (dueDays > lastNotifiedDueDays) {
+    ui.notifications?.info(
+      `${CONSTANTS.MODULE_NAME} | World time has passed ${dueDays} unworked downtime day(s). ` +
+        `Resolve them from the Downtime Tracker.`,
+    );
+  }
+  lastNotifiedDueDays = dueDays;
+}
+
+export function registerDowntimeTracker(): void {
+  Hooks.on("updateWorldTime", handleWorldTimeUpdate);
+}
+
+/** Re-renders the tracker when it is open, e.g. after another tool queued an activity. */
+export function refreshDowntimeTracker(): void {
+  if (downtimeTrackerApp?.rendered) {
+    downtimeTrackerApp.render();
+  }
+}
+
+export async function runDowntimeTrackerFlow(): Promise<void> {
+  if (!downtimeTrackerApp) {
+    downtimeTrackerApp = new DowntimeTrackerApplication();
+  }
+
+  downtimeTrackerApp.render(true);
+}
@@ -0,0 +1,300 @@
+import { CONSTANTS } from "../constants";
+import { openDialog, waitForDialog, type OpenDialogHandle } from "../foundry/dialog";
+import { renderApplicationTemplate } from "../foundry/templates";
+import { formatOpenRouterError, readOpenRouterSettings } from "../openrouter/client";
+import {
+  ENCOUNTER_COMPOSITIONS,
+  ENCOUNTER_THREATS,
+  computeEncounterBudget,
+  planEncounterMix,
+  type EncounterComposition,
+  type EncounterThreat,
+} from "../pf2e/encounter-budget";
+import {
+  buildEncounter,
+  type EncounterBuildResult,
+  type EncounterBuilderRequest,
+  type EncounterProgressUpdate,
+} from "./encounter-builder";
+
+const ENCOUNTER_BUILDER_REQUEST_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/encounter-builder-request.hbs`;
+const ENCOUNTER_BUILDER_LOADING_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/encounter-builder-loading.hbs`;
+const ENCOUNTER_BUILDER_RESULT_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/encounter-builder-result.hbs`;
+
+const COMPOSITION_LABELS: Record<EncounterComposition, string> = {
+  balanced: "Balanced group",
+  boss: "Boss with lackeys",
+  solo: "Solo creature",
+  horde: "Horde of weaker creatures",
+};
+
+type EncounterFormResponse = {
+  partyLevel: string;
+  partySize: string;
+  threat: string;
+  composition: string;
+  theme: string;
+  folderName: string;
+  seed: string;
+  useOfficialCreatures: boolean;
+  placeTokens: boolean;
+};
+
+function readEncounterForm(form: HTMLFormElement): EncounterFormResponse {
+  const formData = new FormData(form);
+  return {
+    partyLevel: String(formData.get("partyLevel") ?? ""),
+    partySize: String(formData.get("partySize") ?? ""),
+    threat: String(formData.get("threat") ?? ""),
+    composition: String(formData.get("composition") ?? ""),
+    theme: String(formData.get("theme") ?? ""),
+    folderName: String(formData.get("folderName") ?? ""),
+    seed: String(formData.get("seed") ?? ""),
+    useOfficialCreatures: formData.get("useOfficialCreatures") !== null,
+    placeTokens: formData.get("placeTokens") !== null,
+  };
+}
+
+function parseInteger(value: string, fallback: number): number {
+  const parsed = Number(value.trim());
+  return value.trim() && Number.isInteger(parsed) ? parsed : fallback;
+}
+
+function sanitizeThreat(value: string): EncounterThreat {
+  return (ENCOUNTER_THREATS as readonly string[]).includes(value) ? (value as EncounterThreat) : "moderate";
+}
+
+function sanitizeComposition(value: string): EncounterComposition {
+  return (ENCOUNTER_COMPOSITIONS as readonly string[]).includes(value)
+    ? (value as EncounterComposition)
+    : "balanced";
+}
+
+function capitalize(value: string): string {
+  return value ? value[0].toUpperCase() + value.slice(1) : value;
+}
+
+function sanitizeRequest(response: EncounterFormResponse): EncounterBuilderRequest | null {
+  const theme = response.theme.trim();
+  if (!theme) {
+    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Describe the encounter premise before generating.`);
+    return null;
+  }
+
+  const seed = response.seed.trim() ? parseInteger(response.seed, Number.NaN) : undefined;
+  if (Number.isNaN(seed)) {
+    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Seed must be a whole number.`);
+    return null;
+  }
+
+  return {
+    partyLevel: Math.max(1, Math.min(20, parseInteger(response.partyLevel, 1))),
+    partySize: Math.max(1, Math.min(8, parseInteger(response.partySize, 4))),
+    threat: sanitizeThreat(response.threat),
+    composition: sanitizeComposition(response.composition),
+    theme,
+    useOfficialCreatures: response.useOfficialCreatures,
+    folderName: response.folderName.trim() || undefined,
+    placeTokens: response.placeTokens,
+    seed,
+  };
+}
+
+function renderBudgetPreview(root: HTMLElement): void {
+  const form = root.querySelector<HTMLFormElement>("form.handy-dandy-encounter-form");
+  const preview = root.querySelector<HTMLElement>("[data-encounter-preview]");
+  if (!form || !preview) {
+    return;
+  }
+
+  const response = readEncounterForm(form);
+  const budget = computeEncounterBudget(
+    sanitizeThreat(response.threat),
+    parseInteger(response.partyLevel, 1),
+    parseInteger(response.partySize, 4),
+  );
+  const mix = planEncounterMix(budget, sanitizeComposition(response.composition));
+  const slots = mix.slots
+    .map((slot) => `${slot.count}x level ${slot.level} ${slot.role}`)
+    .join(", ");
+  preview.textContent = `XP budget ${budget.xpBudget} (planned ${mix.totalXp}): ${slots || "no creatures fit"}.`;
+}
+
+function resolveDefaultPartyLevel(): number {
+  const levels = (game.actors?.contents ?? [])
+    .filter((actor) => actor.type === "character" && actor.hasPlayerOwner)
+    .map((actor) => Number((actor.system as { details?: { level?: { value?: unknown } } }).details?.level?.value))
+    .filter((level) => Number.isFinite(level) && level > 0);
+  if (!levels.length) {
+    return 1;
+  }
+
+  return Math.round(levels.reduce((sum, level) => sum + level, 0) / levels.length);
+}
+
+function resolveDefaultPartySize(): number {
+  const count = (game.actors?.contents ?? [])
+    .filter((actor) => actor.type === "character" && actor.hasPlayerOwner)
+    .length;
+  return count > 0 ? count : 4;
+}
+
+async function promptEncounterRequest(): Promise<EncounterBuilderRequest | null> {
+  const settings = readOpenRouterSettings();
+  const content = await renderApplicationTemplate(ENCOUNTER_BUILDER_REQUEST_TEMPLATE, {
+    connected: Boolean(game.handyDandy?.openRouterClient),
+    textModel: settings.model,
+    partyLevel: resolveDefaultPartyLevel(),
+    partySize: resolveDefaultPartySize(),
+    defaultSeed: typeof settings.seed === "number" ? settings.seed : null,
+    hasScene: Boolean(canvas?.scene),
+    threatOptions: ENCOUNTER_THREATS.map((value) => ({
+      value,
+      label: capitalize(value),
+      selected: value === "moderate",
+    })),
+    compositionOptions: ENCOUNTER_COMPOSITIONS.map((value) => ({
+      value,
+      label: COMPOSITION_LABELS[value],
+    })),
+  });
+
+  const response = await waitForDialog<EncounterFormResponse>({
+    title: `${CONSTANTS.MODULE_NAME} | Encounter Builder`,
+    content,
+    width: 640,
+    render: (root) => {
+      renderBudgetPreview(root);
+      root.addEventListener("change", () => renderBudgetPreview(root));
+      root.addEventListener("input", () => renderBudgetPreview(root));
+    },
+    buttons: [
+      {
+        action: "generate",
+        icon: '<i class="fas fa-dragon"></i>',
+        label: "Build Encounter",
+        default: true,
+        callback: ({ form }) => form instanceof HTMLFormElement ? readEncounterForm(form) : null,
+      },
+      {
+        action: "cancel",
+        icon: '<i class="fas fa-times"></i>',
+        label: "Cancel",
+        callback: () => null,
+      },
+    ],
+  });
+
+  return response ? sanitizeRequest(response) : null;
+}
+
+async function showEncounterLoadingDialog(): Promise<{
+  handle: OpenDialogHandle;
+  update: (update: EncounterProgressUpdate) => void;
+}> {
+  const content = await renderApplicationTemplate(ENCOUNTER_BUILDER_LOADING_TEMPLATE, {});
+  const handle = await openDialog({
+    title: `${CONSTANTS.MODULE_NAME} | Building Encounter`,
+    content,
+  });
+
+  return {
+    handle,
+    update: ({ message, percent }) => {
+      const messageNode = handle.root.querySelector<HTMLElement>("[data-encounter-loading-message]");
+      if (messageNode) {
+        messageNode.textContent = message;
+      }
+      const progressNode = handle.root.querySelector<HTMLProgressElement>("[data-encounter-loading-progress]");
+      if (progressNode) {
+        progressNode.value = percent;
+      }
+    },
+  };
+}
+
+async function showEncounterResult(result: EncounterBuildResult): Promise<void> {
+  const { plan } = result;
+  const content = await renderApplicationTemplate(ENCOUNTER_BUILDER_RESULT_TEMPLATE, {
+    title: plan.title,
+    summary: plan.summary,
+    budgetLabel:
+      `${capitalize(plan.mix.budget.threat)} threat for ${plan.mix.budget.partySize} level ` +
+      `${plan.mix.budget.partyLevel} characters: ${plan.mix.totalXp}/${plan.mix.budget.xpBudget} XP.`,
+    creatures: result.creatures.map((creature) => ({
+      name: creature.actor.name ?? creature.plan.name,
+      tactics: creature.plan.tactics,
+      level: creature.plan.slot.level,
+      count: creature.plan.slot.count,
+      xp: creature.plan.slot.xpEach * creature.plan.slot.count,
+      sourceLabel: creature.source === "official" ? "Official bestiary" : "Generated",
+      actorId: creature.actor.id,
+    })),
+    tokensPlaced: result.tokensPlaced,
+    failures: result.failures,
+    hasFailures: result.failures.length > 0,
+  });
+
+  await waitForDialog<void>({
+    title: `${CONSTANTS.MODULE_NAME} | Encounter Builder Result`,
+    content,
+    width: 720,
+    render: (root) => {
+      for (const button of root.querySelectorAll<HTMLButtonElement>("button[data-action='open-actor']")) {
+        button.addEventListener("click", () => {
+          const actorId = button.dataset.actorId;
+          const actor = actorId ? game.actors?.get(actorId) : undefined;
+          actor?.sheet?.render(true);
+        });
+      }
+    },
+    buttons: [
+      {
+        action: "close",
+        icon: '<i class="fas fa-times"></i>',
+        label: "Close",
+        default: true,
+      },
+    ],
+  });
+}
+
+export async function runEncounterBuilderFlow(): Promise<void> {
+  const openRouterClient = game.handyDandy?.openRouterClient;
+  if (!openRouterClient || typeof openRouterClient.generateWithSchema !== "function") {
+    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | OpenRouter is not configured.`);
+    return;
+  }
+
+  const request = await promptEncounterRequest();
+  if (!request) {
+    return;
+  }
+
+  let loading: Awaited<ReturnType<typeof showEncounterLoadingDialog>> | null = null;
+  try {
+    loading = await showEncounterLoadingDialog();
+    const result = await buildEncounter(request, {
+      openRouterClient,
+      onProgress: (update) => loading?.update(update),
+    });
+    await loading.handle.close();
+    loading = null;
+
+    if (result.creatures.length === 0) {
+      ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Encounter builder could not create any creatures.`);
+    } else if (result.failures.length > 0) {
+      ui.notifications?.warn(
+        `${CONSTANTS.MODULE_NAME} | Encounter built with ${result.failures.length} problem(s). See the summary for details.`,
+      );
+    }
+
+    await showEncounterResult(result);
+  } catch (error) {
+    const message = formatOpenRouterError(error);
+    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Encounter builder failed: ${message}`);
+    console.error(`${CONSTANTS.MODULE_NAME} | Encounter builder failed`, error);
+  } finally {
+    await loading?.handle.close();
+  }
+}
@@ -0,0 +1,350 @@
+import { CONSTANTS } from "../constants";
+import { generateActor, type GenerateOptions } from "../generation";
+import { generateStructuredOutput } from "../generation/pipeline";
+import { importActor } from "../mappers/import";
+import type { JsonSchemaDefinition } from "../openrouter/client";
+import { resolveOfficialActor, stripEmbeddedDocumentMetadata } from "../pf2e/compendium-resolver";
+import {
+  computeEncounterBudget,
+  describeEncounterThreat,
+  planEncounterMix,
+  type EncounterComposition,
+  type EncounterMixPlan,
+  type EncounterSlot,
+  type EncounterThreat,
+} from "../pf2e/encounter-budget";
+
+export interface EncounterBuilderRequest {
+  partyLevel: number;
+  partySize: number;
+  threat: EncounterThreat;
+  composition: EncounterComposition;
+  theme: string;
+  useOfficialCreatures: boolean;
+  folderName?: string;
+  placeTokens: boolean;
+  seed?: number;
+}
+
+export interface EncounterProgressUpdate {
+  message: string;
+  percent: number;
+}
+
+export interface EncounterBuilderOptions {
+  openRouterClient: GenerateOptions["openRouterClient"];
+  onProgress?: (update: EncounterProgressUpdate) => void;
+}
+
+export interface EncounterCreaturePlan {
+  slot: EncounterSlot;
+  name: string;
+  concept: string;
+  tactics: string;
+  officialName?: string;
+}
+
+export interface EncounterPlan {
+  title: string;
+  summary: string;
+  mix: EncounterMixPlan;
+  creatures: EncounterCreaturePlan[];
+}
+
+export interface EncounterCreatureResult {
+  plan: EncounterCreaturePlan;
+  actor: Actor;
+  source: "official" | "generated";
+}
+
+export interface EncounterBuildResult {
+  plan: EncounterPlan;
+  folderId: string | null;
+  creatures: EncounterCreatureResult[];
+  tokensPlaced: number;
+  failures: string[];
+}
+
+const ENCOUNTER_PLAN_SCHEMA: JsonSchemaDefinition = {
+  name: "pf2e-encounter-plan",
+  description: "Name and describe the creatures for a PF2E encounter.",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["title", "summary", "creatures"],
+    properties: {
+      title: { type: "string" },
+      summary: { type: "string" },
+      creatures: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["slot", "name", "concept", "tactics", "officialName"],
+          properties: {
+            slot: { type: "integer", minimum: 1 },
+            name: { type: "string" },
+            concept: { type: "string" },
+            tactics: { type: "string" },
+            officialName: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+};
+
+const ROLE_DESCRIPTIONS: Record<EncounterSlot["role"], string> = {
+  boss: "the centrepiece threat",
+  elite: "a tough lieutenant",
+  standard: "a front-line combatant",
+  lackey: "a weaker minion",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function reportProgress(options: EncounterBuilderOptions, message: string, percent: number): void {
+  try {
+    options.onProgress?.({ message, percent });
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Encounter progress callback failed`, error);
+  }
+}
+
+export function buildEncounterPlanPrompt(request: EncounterBuilderRequest, mix: EncounterMixPlan): string {
+  const slotLines = mix.slots.map((slot, index) =>
+    `${index + 1}. ${slot.count}x level ${slot.level} creature (${ROLE_DESCRIPTIONS[slot.role]}, ${slot.xpEach} XP each)`,
+  );
+
+  return [
+    "You design Pathfinder Second Edition combat encounters for Foundry VTT.",
+    "Return JSON only, matching the provided schema.",
+    `Party: ${mix.budget.partySize} characters of level ${mix.budget.partyLevel}.`,
+    `Threat: ${mix.budget.threat} (${mix.budget.xpBudget} XP budget, ${mix.totalXp} XP planned).`,
+    `Encounter premise: ${request.theme || "(none provided)"}`,
+    "",
+    "Creature slots (levels and counts are fixed; do not change them):",
+    ...slotLines,
+    "",
+    "Return exactly one creature entry per slot, using the slot number above.",
+    "Each slot's copies share one stat block, so give the slot a single creature name.",
+    "Keep concept to 2-4 sentences covering appearance, abilities, and how it fits the premise.",
+    "Keep tactics to 1-2 sentences.",
+    request.useOfficialCreatures
+      ? "When an official PF2E bestiary creature of exactly that level fits the premise, set officialName to its exact " +
+        "published name; otherwise set officialName to an empty string."
+      : "Always set officialName to an empty string; every creature will be generated from scratch.",
+  ].join("\n");
+}
+
+export async function planEncounter(
+  request: EncounterBuilderRequest,
+  options: EncounterBuilderOptions,
+): Promise<EncounterPlan> {
+  const budget = computeEncounterBudget(request.threat, request.partyLevel, request.partySize);
+  const mix = planEncounterMix(budget, request.composition);
+  reportProgress(
+    options,
+    `Planned ${mix.slots.reduce((sum, slot) => sum + slot.count, 0)} creature(s) for ${mix.totalXp}/${budget.xpBudget} XP.`,
+    10,
+  );
+
+  const raw = await generateStructuredOutput<unknown>(
+    options.openRouterClient,
+    buildEncounterPlanPrompt(request, mix),
+    ENCOUNTER_PLAN_SCHEMA,
+    { seed: request.seed, usageFlow: "encounter" },
+  );
+
+  return normalizeEncounterPlan(raw, mix, request);
+}
+
+function normalizeEncounterPlan(
+  raw: unknown,
+  mix: EncounterMixPlan,
+  request: EncounterBuilderRequest,
+): EncounterPlan {
+  const record = isRecord(raw) ? raw : {};
+  const entries = Array.isArray(record.creatures) ? record.creatures.filter(isRecord) : [];
+
+  const creatures = mix.slots.map((slot, index): EncounterCreaturePlan => {
+    const entry = entries.find((candidate) => candidate.slot === index + 1) ?? entries[index] ?? {};
+    const name = readString(entry.name) || `Level ${slot.level} ${slot.role}`;
+    const officialName = request.useOfficialCreatures ? readString(entry.officialName) : "";
+    return {
+      slot,
+      name,
+      concept: readString(entry.concept) || `${name}, ${ROLE_DESCRIPTIONS[slot.role]} for: ${request.theme}`,
+      tactics: readString(entry.tactics),
+      officialName: officialName || undefined,
+    };
+  });
+
+  const threat = describeEncounterThreat(mix.totalXp, mix.budget);
+  return {
+    title: readString(record.title) || `${capitalize(threat)} encounter (level ${mix.budget.partyLevel})`,
+    summary: readString(record.summary),
+    mix,
+    creatures,
+  };
+}
+
+export async function buildEncounter(
+  request: EncounterBuilderRequest,
+  options: EncounterBuilderOptions,
+): Promise<EncounterBuildResult> {
+  reportProgress(options, "Computing encounter budget...", 2);
+  const plan = await planEncounter(request, options);
+  const folderId = await ensureActorFolder(request.folderName?.trim() || plan.title);
+
+  const creatures: EncounterCreatureResult[] = [];
+  const failures: string[] = [];
+  const total = plan.creatures.length;
+  for (const [index, creature] of plan.creatures.entries()) {
+    const percent = 20 + Math.round((index / Math.max(1, total)) * 70);
+    try {
+      const official = creature.officialName
+        ? await importOfficialCreature(creature, folderId, options, percent)
+        : null;
+      if (official) {
+        creatures.push({ plan: creature, actor: official, source: "official" });
+        continue;
+      }
+
+      reportProgress(options, `Generating ${creature.name} (level ${creature.slot.level})...`, percent);
+      const generated = await generateActor(
+        {
+          systemId: "pf2e",
+          name: creature.name,
+          referenceText: buildCreatureReferenceText(creature, request),
+          actorType: "npc",
+          level: creature.slot.level,
+          includeSpellcasting: true,
+          includeInventory: true,
+        },
+        {
+          openRouterClient: options.openRouterClient,
+          seed: request.seed === undefined ? undefined : request.seed + index,
+          usageFlow: "encounter",
+        },
+      );
+      const actor = await importActor(generated, { folderId: folderId ?? undefined, createNew: true });
+      creatures.push({ plan: creature, actor, source: "generated" });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push(`${creature.name}: ${message}`);
+      console.error(`${CONSTANTS.MODULE_NAME} | Encounter creature "${creature.name}" failed`, error);
+    }
+  }
+
+  let tokensPlaced = 0;
+  if (request.placeTokens && creatures.length > 0) {
+    reportProgress(options, "Placing tokens on the current scene...", 95);
+    try {
+      tokensPlaced = await placeEncounterTokens(creatures);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push(`Token placement: ${message}`);
+      console.error(`${CONSTANTS.MODULE_NAME} | Encounter token placement failed`, error);
+    }
+  }
+
+  reportProgress(options, "Encounter ready.", 100);
+  return { plan, folderId, creatures, tokensPlaced, failures };
+}
+
+function buildCreatureReferenceText(creature: EncounterCreaturePlan, request: EncounterBuilderRequest): string {
+  return [
+    creature.concept,
+    creature.tactics ? `Tactics: ${creature.tactics}` : "",
+    `Role: ${ROLE_DESCRIPTIONS[creature.slot.role]} in a ${request.threat}-threat encounter` +
+      (request.theme ? ` set in ${request.theme}.` : "."),
+    `Build to PF2E creature-building benchmarks for a level ${creature.slot.level} creature.`,
+  ].filter(Boolean).join("\n");
+}
+
+async function importOfficialCreature(
+  creature: EncounterCreaturePlan,
+  folderId: string | null,
+  options: EncounterBuilderOptions,
+  percent: number,
+): Promise<Actor | null> {
+  reportProgress(options, `Looking up ${creature.officialName} in the PF2E bestiaries...`, percent);
+  const match = await resolveOfficialActor({ name: creature.officialName, level: creature.slot.level });
+  if (!match) {
+    reportProgress(
+      options,
+      `${creature.officialName} was not found at level ${creature.slot.level}; generating a custom creature instead.`,
+      percent,
+    );
+    return null;
+  }
+
+  const source = stripEmbeddedDocumentMetadata(match.source);
+  delete source._id;
+  if (folderId) {
+    source.folder = folderId;
+  }
+
+  const created = (await Actor.create(source as any)) as Actor | null | undefined;
+  if (!created) {
+    throw new Error(`Failed to create actor from ${match.uuid}.`);
+  }
+
+  creature.name = created.name ?? creature.name;
+  return created;
+}
+
+async function ensureActorFolder(name: string): Promise<string | null> {
+  const folders = game.folders as Collection<Folder> | undefined;
+  const existing = folders?.find((folder) => folder.type === "Actor" && folder.name === name);
+  if (existing?.id) {
+    return existing.id;
+  }
+
+  const created = (await Folder.create({ name, type: "Actor" } as any)) as Folder | null | undefined;
+  return created?.id ?? null;
+}
+
+async function placeEncounterTokens(creatures: readonly EncounterCreatureResult[]): Promise<number> {
+  const scene = canvas?.scene;
+  if (!scene) {
+    throw new Error("No active scene is available for token placement.");
+  }
+
+  const gridSize = Number((scene as { grid?: { size?: number } }).grid?.size ?? 100) || 100;
+  const dimensions = (scene as { dimensions?: { sceneX?: number; sceneY?: number; sceneWidth?: number; sceneHeight?: number } })
+    .dimensions;
+  const view = (canvas as { stage?: { pivot?: { x?: number; y?: number } } } | undefined)?.stage?.pivot;
+  const centerX = view?.x ?? (dimensions?.sceneX ?? 0) + (dimensions?.sceneWidth ?? gridSize * 10) / 2;
+  const centerY = view?.y ?? (dimensions?.sceneY ?? 0) + (dimensions?.sceneHeight ?? gridSize * 10) / 2;
+
+  const tokenCount = creatures.reduce((sum, creature) => sum + creature.plan.slot.count, 0);
+  const columns = Math.max(1, Math.ceil(Math.sqrt(tokenCount)));
+  const originX = Math.round(centerX / gridSize) * gridSize - Math.floor(columns / 2) * gridSize * 2;
+  const originY = Math.round(centerY / gridSize) * gridSize - Math.floor(columns / 2) * gridSize * 2;
+
+  const tokenData: Record<string, unknown>[] = [];
+  for (const creature of creatures) {
+    for (let copy = 0; copy < creature.plan.slot.count; copy += 1) {
+      const position = tokenData.length;
+      const x = originX + (position % columns) * gridSize * 2;
+      const y = originY + Math.floor(position / columns) * gridSize * 2;
+      const token = await creature.actor.getTokenDocument({ x, y, hidden: true } as any);
+      tokenData.push(token.toObject() as Record<string, unknown>);
+    }
+  }
+
+  const created = await scene.createEmbeddedDocuments("Token", tokenData as any);
+  return Array.isArray(created) ? created.length : 0;
+}
+
+function capitalize(value: string): string {
+  return value ? value[0].toUpperCase() + value.slice(1) : value;
+}
@@ -0,0 +1,173 @@
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+const PREVIEW_TEXT_LIMIT = 600;
+const PREVIEW_LIST_LIMIT = 12;
+
+const readText = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const readNumber = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const formatModifier = (value: number): string => (value >= 0 ? `+${value}` : `${value}`);
+
+function stripMarkup(value: string): string {
+  return value.replace(/<[^>]*>/g, " ").replace(/@\w+\[[^\]]*\](?:\{([^}]*)\})?/g, "$1").replace(/\s+/g, " ").trim();
+}
+
+function truncate(value: string, limit: number): string {
+  return value.length > limit ? `${value.slice(0, limit).trimEnd()}…` : value;
+}
+
+function appendElement<K extends keyof HTMLElementTagNameMap>(
+  parent: HTMLElement,
+  tag: K,
+  text: string,
+  className?: string,
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  element.textContent = text;
+  if (className) {
+    element.className = className;
+  }
+  parent.append(element);
+  return element;
+}
+
+function appendLine(parent: HTMLElement, label: string, value: string): void {
+  if (!value) {
+    return;
+  }
+
+  const line = document.createElement("p");
+  appendElement(line, "strong", `${label} `);
+  line.append(value);
+  parent.append(line);
+}
+
+function collectNames(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .map((entry) => (isRecord(entry) ? readText(entry.name) || readText(entry.slug) : readText(entry)))
+    .filter((name) => name.length > 0);
+}
+
+function formatNameList(value: unknown): string {
+  const names = collectNames(value);
+  if (names.length <= PREVIEW_LIST_LIMIT) {
+    return names.join(", ");
+  }
+  return `${names.slice(0, PREVIEW_LIST_LIMIT).join(", ")} (+${names.length - PREVIEW_LIST_LIMIT} more)`;
+}
+
+function formatSubtitle(data: Record<string, unknown>): string {
+  const level = readNumber(data.level);
+  const parts = [
+    readText(data.rarity),
+    readText(data.size),
+    readText(data.actorType) || readText(data.itemType) || readText(data.actionType),
+    level === null ? "" : `Level ${level}`,
+  ];
+  return parts.filter((part) => part && part !== "common").join(" · ");
+}
+
+function formatDefenses(attributes: Record<string, unknown>): string {
+  const parts: string[] = [];
+  const ac = isRecord(attributes.ac) ? readNumber(attributes.ac.value) : null;
+  if (ac !== null) parts.push(`AC ${ac}`);
+
+  const saves = isRecord(attributes.saves) ? attributes.saves : {};
+  for (const [key, label] of [["fortitude", "Fort"], ["reflex", "Ref"], ["will", "Will"]] as const) {
+    const save = isRecord(saves[key]) ? readNumber(saves[key].value) : null;
+    if (save !== null) parts.push(`${label} ${formatModifier(save)}`);
+  }
+
+  const hp = isRecord(attributes.hp) ? readNumber(attributes.hp.max) ?? readNumber(attributes.hp.value) : null;
+  if (hp !== null) parts.push(`HP ${hp}`);
+  return parts.join("; ");
+}
+
+function formatStrikes(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter(isRecord).map((strike) => {
+    const name = readText(strike.name) || "Strike";
+    const bonus = readNumber(strike.attackBonus);
+    const damage = Array.isArray(strike.damage)
+      ? strike.damage
+        .filter(isRecord)
+        .map((entry) => [readText(entry.formula), readText(entry.damageType)].filter(Boolean).join(" "))
+        .filter(Boolean)
+        .join(" plus ")
+      : "";
+    const type = strike.type === "ranged" ? "Ranged" : "Melee";
+    return [`${type} ${name}`, bonus === null ? "" : formatModifier(bonus), damage ? `(${damage})` : ""]
+      .filter(Boolean)
+      .join(" ");
+  });
+}
+
+/**
+ * Renders whatever part of a generated entry has streamed in so far as a compact stat block. Works on any of the
+ * workbench schemas; fields that have not arrived yet are simply omitted.
+ */
+export function renderGenerationPreview(container: HTMLElement, partial: unknown): void {
+  container.replaceChildren();
+  if (!isRecord(partial)) {
+    appendElement(container, "p", "Waiting for the first fields…", "notes");
+    return;
+  }
+
+  appendElement(container, "h3", readText(partial.name) || "Untitled");
+  const subtitle = formatSubtitle(partial);
+  if (subtitle) {
+    appendElement(container, "p", subtitle, "notes");
+  }
+
+  const traits = Array.isArray(partial.traits) ? partial.traits.map(readText).filter(Boolean) : [];
+  if (traits.length) {
+    const list = document.createElement("ul");
+    list.className = "handy-dandy-generation-preview-traits";
+    for (const trait of traits) {
+      appendElement(list, "li", trait);
+    }
+    container.append(list);
+  }
+
+  const attributes = isRecord(partial.attributes) ? partial.attributes : null;
+  if (attributes) {
+    const perception = isRecord(attributes.perception) ? readNumber(attributes.perception.value) : null;
+    appendLine(container, "Perception", perception === null ? "" : formatModifier(perception));
+    appendLine(container, "Defenses", formatDefenses(attributes));
+    const speed = isRecord(attributes.speed) ? readNumber(attributes.speed.value) : null;
+    appendLine(container, "Speed", speed === null ? "" : `${speed} feet`);
+  }
+
+  appendLine(container, "Languages", formatNameList(partial.languages));
+  const price = readNumber(partial.price);
+  appendLine(container, "Price", price ? `${price} gp` : "");
+
+  const strikes = formatStrikes(partial.strikes);
+  if (strikes.length) {
+    const list = document.createElement("ul");
+    for (const strike of strikes.slice(0, PREVIEW_LIST_LIMIT)) {
+      appendElement(list, "li", strike);
+    }
+    container.append(list);
+  }
+
+  appendLine(container, "Actions", formatNameList(partial.actions));
+  appendLine(container, "Spellcasting", formatNameList(partial.spellcasting));
+  appendLine(container, "Inventory", formatNameList(partial.inventory));
+
+  const description = stripMarkup(readText(partial.description));
+  if (description) {
+    appendElement(container, "p", truncate(description, PREVIEW_TEXT_LIMIT), "handy-dandy-generation-preview-description");
+  }
+}
@@ -1,9 +1,15 @@
 import { CONSTANTS } from "../constants";
+import { normalizeGeneratedEntity } from "../generation/pipeline";
 import { fromFoundryItem } from "../mappers/export";
 import { importItem } from "../mappers/import";
 import { showGeneratedOutputRecoveryDialog } from "../ui/generated-output-recovery";
+import { showRemixReviewDialog } from "../ui/remix-review";
 import { showRemixSummaryDialog, type RemixSummaryRow } from "../ui/remix-summary";
-import { openDialog, waitForDialog, type OpenDialogHandle } from "../foundry/dialog";
+import { applyAcceptedChanges, diffCanonicalDocuments } from "./remix-diff";
+import { recordRevision } from "./revision-history";
+import { recordItemPriceChange } from "./treasure-ledger";
+import { waitForDialog } from "../foundry/dialog";
+import { openWorkingDialog, type WorkingDialogHandle } from "../ui/working-dialog";
 
 export interface ItemRemixRequest {
   instructions: string;
@@ -129,9 +135,9 @@ async function promptItemRemixRequest(item: Item): Promise<ItemRemixRequest | nu
   };
 }
 
-async function showWorkingDialog(itemName: string): Promise<OpenDialogHandle> {
+async function showWorkingDialog(itemName: string): Promise<WorkingDialogHandle> {
   const safeName = escapeHtml(itemName);
-  return await openDialog({
+  return await openWorkingDialog({
     title: `${CONSTANTS.MODULE_NAME} | Remixing`,
     content: `
       <div class="handy-dandy-remix-loading">
@@ -217,7 +223,7 @@ export async function runItemRemixWithRequest(item: Item, request: ItemRemixRequ
   const itemName = item.name ?? canonical.name;
   const sourceFoundryType = String(item.type ?? "item");
 
-  let workingDialog: OpenDialogHandle | null = null;
+  let workingDialog: WorkingDialogHandle | null = null;
   let generatedForUpdate: Parameters<typeof importItem>[0] | null = null;
   try {
     workingDialog = await showWorkingDialog(itemName);
@@ -232,16 +238,43 @@ export async function runItemRemixWithRequest(item: Item, request: ItemRemixRequ
       publication: canonical.publication,
       generateItemImage: request.generateItemImage,
       itemImagePrompt: request.itemImagePrompt,
-    });
+    }, { usageFlow: "remix", signal: workingDialog.signal });
+
+    workingDialog.signal.throwIfAborted();
+    await workingDialog.close();
+    workingDialog = null;
 
     generatedForUpdate = coerceRemixItemTypeToExisting(generated, canonical.itemType);
-    const imported = await importItem(generatedForUpdate, {
+    const changes = diffCanonicalDocuments(canonical, generatedForUpdate);
+    if (!changes.length) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Item remix proposed no changes to ${itemName}.`);
+      return;
+    }
+
+    const accepted = await showRemixReviewDialog({
+      title: `${CONSTANTS.MODULE_NAME} | Review Item Remix`,
+      subtitle: itemName,
+      changes,
+    });
+    if (!accepted?.size) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Item remix discarded; ${itemName} was not changed.`);
+      return;
+    }
+
+    const toApply = accepted.size === changes.length
+      ? generatedForUpdate
+      : await normalizeGeneratedEntity("item", applyAcceptedChanges(canonical, generatedForUpdate, accepted));
+    await recordRevision(item, "Item remix");
+    const imported = await importItem(toApply, {
       itemId: item.id ?? undefined,
       actorId: item.actor?.id ?? undefined,
       folderId: item.actor ? undefined : item.folder?.id ?? undefined,
       strictTarget: true,
     });
     const updatedCanonical = fromFoundryItem(imported.toObject() as any);
+    if ((canonical.price ?? 0) !== (updatedCanonical.price ?? 0)) {
+      await recordItemPriceChange(imported, canonical.price ?? 0, updatedCanonical.price ?? 0);
+    }
 
     const beforeTraits = normalizeTraits(canonical.traits);
     const afterTraits = normalizeTraits(updatedCanonical.traits);
@@ -291,9 +324,9 @@ export async function runItemRemixWithRequest(item: Item, request: ItemRemixRequ
     if ((normalizeText(canonical.img) || "None") !== (normalizeText(updatedCanonical.img) || "None")) {
       highlights.push("Image path changed.");
     }
-
-    await workingDialog.close();
-    workingDialog = null;
+    if (accepted.size < changes.length) {
+      highlights.push(`Applied ${accepted.size} of ${changes.length} proposed changes.`);
+    }
 
     ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Remixed ${imported.name}.`);
     await showRemixSummaryDialog({
@@ -304,6 +337,11 @@ export async function runItemRemixWithRequest(item: Item, request: ItemRemixRequ
     });
     imported.sheet?.render(true);
   } catch (error) {
+    if (workingDialog?.signal.aborted) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Item remix cancelled; ${itemName} was not changed.`);
+      return;
+    }
+
     const message = error instanceof Error ? error.message : String(error);
     ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Item remix failed: ${message}`);
 
@@ -1,10 +1,14 @@
 import { CONSTANTS } from "../constants";
+import { mapCanonicalActor, normalizeGeneratedEntity, toGeneratedActorResultFromFoundry } from "../generation/pipeline";
 import { fromFoundryActor } from "../mappers/export";
 import { importActor } from "../mappers/import";
 import type { ActorGenerationResult, ActorSchemaData } from "../schemas";
 import { showGeneratedOutputRecoveryDialog } from "../ui/generated-output-recovery";
+import { showRemixReviewDialog } from "../ui/remix-review";
 import { showRemixSummaryDialog, type RemixSummaryRow } from "../ui/remix-summary";
-import { openDialog, type OpenDialogHandle } from "../foundry/dialog";
+import { applyAcceptedChanges, diffCanonicalDocuments } from "./remix-diff";
+import { recordRevision } from "./revision-history";
+import { openWorkingDialog, type WorkingDialogHandle } from "../ui/working-dialog";
 
 export type RemixMode = "scale" | "features" | "remake" | "equipment" | "spells";
 
@@ -312,9 +316,9 @@ function getCoverageGap(
   return null;
 }
 
-async function showWorkingDialog(actorName: string): Promise<OpenDialogHandle> {
+async function showWorkingDialog(actorName: string): Promise<WorkingDialogHandle> {
   const safeName = escapeHtml(actorName);
-  return await openDialog({
+  return await openWorkingDialog({
     title: `${CONSTANTS.MODULE_NAME} | Remixing`,
     content: `
       <div class="handy-dandy-remix-loading">
@@ -325,6 +329,20 @@ async function showWorkingDialog(actorName: string): Promise<OpenDialogHandle> {
   });
 }
 
+async function buildReviewedActor(
+  generated: ActorGenerationResult,
+  canonical: ActorSchemaData,
+  generatedCanonical: ActorSchemaData,
+  accepted: ReadonlySet<string>,
+): Promise<ActorGenerationResult> {
+  const reviewed = await normalizeGeneratedEntity(
+    "actor",
+    applyAcceptedChanges(canonical, generatedCanonical, accepted),
+  );
+  const foundry = await mapCanonicalActor(reviewed, { resolveOfficialContent: true });
+  return toGeneratedActorResultFromFoundry(generated, foundry);
+}
+
 async function runNpcRemix(actor: Actor, request: NpcRemixRequest): Promise<void> {
   const generation = game.handyDandy?.generation?.generateActor;
   if (!generation) {
@@ -336,7 +354,7 @@ async function runNpcRemix(actor: Actor, request: NpcRemixRequest): Promise<void
   const canonical = fromFoundryActor(actorObject as any);
   const normalizedRequest = normalizeRemixRequest(canonical, request);
 
-  let workingDialog: OpenDialogHandle | null = null;
+  let workingDialog: WorkingDialogHandle | null = null;
   let generated: ActorGenerationResult | null = null;
   try {
     workingDialog = await showWorkingDialog(actor.name ?? canonical.name);
@@ -356,7 +374,7 @@ async function runNpcRemix(actor: Actor, request: NpcRemixRequest): Promise<void
         tokenPrompt: normalizedRequest.tokenPrompt,
         img: canonical.img ?? undefined,
         publication: canonical.publication,
-      });
+      }, { usageFlow: "remix", signal: workingDialog.signal });
 
       const coverage = collectRemixCoverage(generated);
       const gap = getCoverageGap(normalizedRequest, coverage);
@@ -376,7 +394,35 @@ async function runNpcRemix(actor: Actor, request: NpcRemixRequest): Promise<void
       throw new Error("No remixed actor data was generated.");
     }
 
-    const imported = await importActor(generated, {
+    workingDialog.signal.throwIfAborted();
+    await workingDialog.close();
+    workingDialog = null;
+
+    const generatedCanonical = fromFoundryActor(generated as any);
+    const changes = diffCanonicalDocuments(canonical, generatedCanonical);
+    if (!changes.length) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | NPC remix proposed no changes to ${actor.name}.`);
+      return;
+    }
+
+    const accepted = await showRemixReviewDialog({
+      title: `${CONSTANTS.MODULE_NAME} | Review NPC Remix`,
+      subtitle: actor.name ?? canonical.name,
+      changes,
+    });
+    if (!accepted?.size) {
+      ui.notifications?.info(
+        `${CONSTANTS.MODULE_NAME} | NPC remix discarded; ${actor.name ?? canonical.name} was not changed.`,
+      );
+      return;
+    }
+
+    // Apply the generated sheet untouched when everything is accepted, so nothing is lost to a canonical round trip.
+    const toApply = accepted.size === changes.length
+      ? generated
+      : await buildReviewedActor(generated, canonical, generatedCanonical, accepted);
+    await recordRevision(actor, `NPC remix (${request.mode})`);
+    const imported = await importActor(toApply, {
       actorId: actor.id ?? undefined,
       folderId: actor.folder?.id ?? undefined,
     });
@@ -392,9 +438,9 @@ async function runNpcRemix(actor: Actor, request: NpcRemixRequest): Promise<void
     if (request.mode === "spells") {
       highlights.push("Spellcasting-focused remix mode was used.");
     }
-
-    await workingDialog.close();
-    workingDialog = null;
+    if (accepted.size < changes.length) {
+      highlights.push(`Applied ${accepted.size} of ${changes.length} proposed changes.`);
+    }
 
     ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Remixed ${imported.name}.`);
     await showRemixSummaryDialog({
@@ -405,6 +451,13 @@ async function runNpcRemix(actor: Actor, request: NpcRemixRequest): Promise<void
     });
     imported.sheet?.render(true);
   } catch (error) {
+    if (workingDialog?.signal.aborted) {
+      ui.notifications?.info(
+        `${CONSTANTS.MODULE_NAME} | NPC remix cancelled; ${actor.name ?? canonical.name} was not changed.`,
+      );
+      return;
+    }
+
     const message = error instanceof Error ? error.message : String(error);
     ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | NPC remix failed: ${message}`);
 
@@ -5,8 +5,12 @@ import { mapCanonicalActor, normalizeGeneratedEntity, generateStructuredOutput }
 import type { JsonSchemaDefinition, OpenRouterClient } from "../openrouter/client";
 import { actorSchema, type ActorSchemaData } from "../schemas";
 import { showGeneratedOutputRecoveryDialog } from "../ui/generated-output-recovery";
+import { showRemixReviewDialog } from "../ui/remix-review";
 import { showRemixSummaryDialog, type RemixSummaryRow } from "../ui/remix-summary";
-import { openDialog, waitForDialog, type OpenDialogHandle } from "../foundry/dialog";
+import { applyAcceptedChanges, diffCanonicalDocuments } from "./remix-diff";
+import { recordRevision } from "./revision-history";
+import { waitForDialog } from "../foundry/dialog";
+import { openWorkingDialog, type WorkingDialogHandle } from "../ui/working-dialog";
 
 type MainSheetRemixFormResponse = {
   targetLevel: string;
@@ -1305,9 +1309,9 @@ function applySectionPatch(
   return next;
 }
 
-async function showWorkingDialog(actorName: string): Promise<OpenDialogHandle> {
+async function showWorkingDialog(actorName: string): Promise<WorkingDialogHandle> {
   const safeName = escapeHtml(actorName);
-  return await openDialog({
+  return await openWorkingDialog({
     title: `${CONSTANTS.MODULE_NAME} | Remixing`,
     content: `
       <div class="handy-dandy-remix-loading">
@@ -1703,39 +1707,36 @@ async function maybeGenerateTokenImage(
   client: SectionRemixClient,
   canonical: ActorSchemaData,
   request: MainSheetRemixRequest,
-): Promise<void> {
+  signal: AbortSignal,
+): Promise<string | null> {
   if (!request.generateTokenImage) {
-    return;
+    return null;
   }
 
   if (!hasImageGeneration(client)) {
     ui.notifications?.warn(
       `${CONSTANTS.MODULE_NAME} | Token image generation is unavailable for the current AI client.`,
     );
-    return;
+    return null;
   }
 
-  const imagePath = await generateTransparentTokenImage(client, {
+  return await generateTransparentTokenImage(client, {
     actorName: canonical.name,
     actorSlug: canonical.slug,
     actorDescription: canonical.description ?? null,
     customPrompt: request.tokenPrompt ?? null,
     imageCategory: "actor",
     existingImagePath: actor.img ?? null,
+    signal,
   });
-
-  await actor.update({
-    img: imagePath,
-    "prototypeToken.texture.src": imagePath,
-  } as any);
 }
 
+// Every AI call finishes before this runs, so a cancelled remix never leaves the actor half-updated.
 async function applySectionRemixToActor(
   actor: Actor,
   source: FoundryActorSourceLike,
-  canonical: ActorSchemaData,
   request: MainSheetRemixRequest,
-  client: SectionRemixClient,
+  tokenImagePath: string | null,
 ): Promise<void> {
   await applySystemSectionUpdates(actor, source, request);
 
@@ -1763,7 +1764,12 @@ async function applySectionRemixToActor(
     }
   }
 
-  await maybeGenerateTokenImage(actor, client, canonical, request);
+  if (tokenImagePath) {
+    await actor.update({
+      img: tokenImagePath,
+      "prototypeToken.texture.src": tokenImagePath,
+    } as any);
+  }
 }
 
 export async function runNpcMainSheetRemixFlow(actor: Actor): Promise<void> {
@@ -1780,7 +1786,7 @@ export async function runNpcMainSheetRemixFlow(actor: Actor): Promise<void> {
     return;
   }
 
-  let workingDialog: OpenDialogHandle | null = null;
+  let workingDialog: WorkingDialogHandle | null = null;
   let generatedPatch: unknown = null;
   let mergedCanonical: ActorSchemaData | null = null;
 
@@ -1793,39 +1799,78 @@ export async function runNpcMainSheetRemixFlow(actor: Actor): Promise<void> {
       openRouterClient as SectionRemixClient,
       prompt,
       schema,
+      { usageFlow: "remix", signal: workingDialog.signal },
     );
 
     const normalizedPatch = normalizeSectionPatch(generatedPatch);
     mergedCanonical = applySectionPatch(canonical, normalizedPatch, request);
     const validatedCanonical = await normalizeGeneratedEntity("actor", mergedCanonical);
 
-    const source = await mapCanonicalActor(validatedCanonical, {
-      resolveOfficialContent: true,
-    });
-
-    await applySectionRemixToActor(
+    const tokenImagePath = await maybeGenerateTokenImage(
       actor,
-      source,
+      openRouterClient as SectionRemixClient,
       validatedCanonical,
       request,
-      openRouterClient as SectionRemixClient,
+      workingDialog.signal,
     );
-    const updatedCanonical = fromFoundryActor(actor.toObject() as any);
-    const summaryRows = buildSectionRemixSummaryRows(canonical, updatedCanonical, request);
-    const selectedSections = getSelectedSections(request.sections).map((entry) => sectionLabel(entry));
 
+    workingDialog.signal.throwIfAborted();
     await workingDialog.close();
     workingDialog = null;
 
+    const changes = diffCanonicalDocuments(
+      canonical,
+      tokenImagePath ? { ...validatedCanonical, img: tokenImagePath } : validatedCanonical,
+    );
+    if (!changes.length) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Section remix proposed no changes to ${actor.name}.`);
+      return;
+    }
+
+    const accepted = await showRemixReviewDialog({
+      title: `${CONSTANTS.MODULE_NAME} | Review NPC Section Remix`,
+      subtitle: actor.name ?? canonical.name,
+      changes,
+    });
+    if (!accepted?.size) {
+      ui.notifications?.info(
+        `${CONSTANTS.MODULE_NAME} | NPC section remix discarded; ${actor.name ?? canonical.name} was not changed.`,
+      );
+      return;
+    }
+
+    const reviewedCanonical = accepted.size === changes.length
+      ? validatedCanonical
+      : await normalizeGeneratedEntity("actor", applyAcceptedChanges(canonical, validatedCanonical, accepted));
+    const source = await mapCanonicalActor(reviewedCanonical, {
+      resolveOfficialContent: true,
+    });
+
+    await recordRevision(actor, `Section remix (${getSelectedSections(request.sections).map(sectionLabel).join(", ")})`);
+    await applySectionRemixToActor(actor, source, request, accepted.has("img") ? tokenImagePath : null);
+    const updatedCanonical = fromFoundryActor(actor.toObject() as any);
+    const summaryRows = buildSectionRemixSummaryRows(canonical, updatedCanonical, request);
+    const selectedSections = getSelectedSections(request.sections).map((entry) => sectionLabel(entry));
+
     ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Remixed selected sections for ${actor.name}.`);
     await showRemixSummaryDialog({
       title: `${CONSTANTS.MODULE_NAME} | NPC Remix Summary`,
       subtitle: actor.name ?? canonical.name,
       rows: summaryRows,
-      notes: [`Sections remixed: ${selectedSections.join(", ")}`],
+      notes: [
+        `Sections remixed: ${selectedSections.join(", ")}`,
+        ...(accepted.size < changes.length ? [`Applied ${accepted.size} of ${changes.length} proposed changes.`] : []),
+      ],
     });
     actor.sheet?.render(true);
   } catch (error) {
+    if (workingDialog?.signal.aborted) {
+      ui.notifications?.info(
+        `${CONSTANTS.MODULE_NAME} | NPC section remix cancelled; ${actor.name ?? canonical.name} was not changed.`,
+      );
+      return;
+    }
+
     const message = error instanceof Error ? error.message : String(error);
     ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | NPC section remix failed: ${message}`);
 
@@ -3,6 +3,7 @@ import { fetchOpenRouterCreditsSummary, type OpenRouterCreditsSummary } from "..
 import { readConfiguredApiKey } from "../openrouter/runtime";
 import { waitForDialog } from "../foundry/dialog";
 import { renderApplicationTemplate } from "../foundry/templates";
+import { runUsageLedgerFlow } from "./usage-ledger-ui";
 
 const OPENROUTER_CREDITS_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/openrouter-credits.hbs`;
 
@@ -63,7 +64,7 @@ function toDialogData(summary: OpenRouterCreditsSummary): OpenRouterCreditsDialo
 async function renderCreditsDialog(data: OpenRouterCreditsDialogData): Promise<void> {
   const content = await renderApplicationTemplate(OPENROUTER_CREDITS_TEMPLATE, data);
 
-  const action = await waitForDialog<"refresh" | "close">({
+  const action = await waitForDialog<"refresh" | "ledger" | "close">({
     title: `${CONSTANTS.MODULE_NAME} | OpenRouter Credits`,
     content,
     width: 540,
@@ -76,6 +77,12 @@ async function renderCreditsDialog(data: OpenRouterCreditsDialogData): Promise<v
         default: true,
         callback: () => "refresh",
       },
+      {
+        action: "ledger",
+        icon: '<i class="fas fa-chart-column"></i>',
+        label: "Usage Ledger",
+        callback: () => "ledger",
+      },
       {
         action: "close",
         icon: '<i class="fas fa-times"></i>',
@@ -87,6 +94,8 @@ async function renderCreditsDialog(data: OpenRouterCreditsDialogData): Promise<v
 
   if (action === "refresh") {
     void runOpenRouterCreditsFlow();
+  } else if (action === "ledger") {
+    void runUsageLedgerFlow();
   }
 }
 
@@ -0,0 +1,380 @@
+import { CONSTANTS } from "../constants";
+import { readOpenRouterSettings } from "../openrouter/client";
+import { ITEM_CATEGORIES, type ActorCategory, type EntityType, type ItemCategory } from "../schemas";
+import {
+  MAX_BATCH_ATTEMPTS,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_COPIES,
+  parseWorkbenchBatchInput,
+  workbenchBatchQueue,
+  type WorkbenchBatchInputFormat,
+  type WorkbenchBatchJob,
+  type WorkbenchBatchJobStatus,
+} from "./prompt-workbench-batch";
+import { recordWorkbenchHistoryResult } from "./prompt-workbench-ui";
+
+import appv1 = foundry.appv1;
+
+const PROMPT_WORKBENCH_BATCH_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-batch.hbs`;
+const BATCH_RENDER_DELAY_MS = 250;
+const BATCH_ACTOR_TYPE_OPTIONS = ["npc", "loot", "hazard"] as const satisfies readonly ActorCategory[];
+
+const STATUS_LABELS: Record<WorkbenchBatchJobStatus, string> = {
+  pending: "Queued",
+  running: "Running",
+  succeeded: "Done",
+  failed: "Failed",
+};
+
+interface BatchJobView {
+  id: string;
+  label: string;
+  prompt: string;
+  typeLabel: string;
+  status: WorkbenchBatchJobStatus;
+  statusLabel: string;
+  attempts: string;
+  progressLabel: string;
+  progressPercent: number;
+  detail: string;
+  canRetry: boolean;
+  canRemove: boolean;
+}
+
+interface BatchViewData {
+  itemTypeOptions: Array<{ value: ItemCategory; label: string }>;
+  actorTypeOptions: Array<{ value: ActorCategory; label: string; selected: boolean }>;
+  defaultSeedValue: number | null;
+  maxCopies: number;
+  maxConcurrency: number;
+  maxAttempts: number;
+  options: typeof workbenchBatchQueue.options;
+  jobs: BatchJobView[];
+  hasJobs: boolean;
+  hasPending: boolean;
+  hasFailed: boolean;
+  hasSucceeded: boolean;
+  isRunning: boolean;
+  isPaused: boolean;
+  startLabel: string;
+  summaryLabel: string;
+}
+
+class PromptWorkbenchBatchApplication extends appv1.api.FormApplication {
+  #draft: Record<string, string> = {};
+  #renderTimer: number | null = null;
+  #unsubscribe: (() => void) | null = null;
+
+  constructor(options?: Partial<appv1.api.FormApplication.Options>) {
+    super(undefined, options);
+  }
+
+  static override get defaultOptions(): appv1.api.FormApplication.Options {
+    return foundry.utils.mergeObject(super.defaultOptions, {
+      id: "handy-dandy-prompt-workbench-batch",
+      title: "Handy Dandy | Prompt Workbench Batch",
+      template: PROMPT_WORKBENCH_BATCH_TEMPLATE,
+      width: 860,
+      height: 780,
+      resizable: true,
+      closeOnSubmit: false,
+      submitOnChange: false,
+      classes: ["handy-dandy", "prompt-workbench-batch"],
+    });
+  }
+
+  override async getData(): Promise<BatchViewData> {
+    const jobs = workbenchBatchQueue.jobs;
+    const counts = countJobs(jobs);
+    const configuredSeed = readOpenRouterSettings().seed;
+
+    return {
+      itemTypeOptions: ITEM_CATEGORIES.map((value) => ({ value, label: formatLabel(value) })),
+      actorTypeOptions: BATCH_ACTOR_TYPE_OPTIONS.map((value) => ({
+        value,
+        label: formatLabel(value),
+        selected: value === "npc",
+      })),
+      defaultSeedValue: typeof configuredSeed === "number" ? configuredSeed : null,
+      maxCopies: MAX_BATCH_COPIES,
+      maxConcurrency: MAX_BATCH_CONCURRENCY,
+      maxAttempts: MAX_BATCH_ATTEMPTS,
+      options: workbenchBatchQueue.options,
+      jobs: jobs.map((job) => buildJobView(job, workbenchBatchQueue.options.maxAttempts)),
+      hasJobs: jobs.length > 0,
+      hasPending: counts.pending > 0,
+      hasFailed: counts.failed > 0,
+      hasSucceeded: counts.succeeded > 0,
+      isRunning: workbenchBatchQueue.isRunning,
+      isPaused: workbenchBatchQueue.isPaused,
+      startLabel: counts.succeeded + counts.failed > 0 ? "Resume" : "Start",
+      summaryLabel:
+        `${jobs.length} job(s): ${counts.pending} queued, ${counts.running} running, ` +
+        `${counts.succeeded} done, ${counts.failed} failed`,
+    };
+  }
+
+  override activateListeners(html: JQuery): void {
+    super.activateListeners(html);
+
+    const root = html[0];
+    this.#restoreDraft(root);
+    root.addEventListener("input", (event) => this.#captureDraftField(event.target));
+    root.addEventListener("change", (event) => this.#captureDraftField(event.target));
+    this.#unsubscribe ??= workbenchBatchQueue.subscribe(() => this.#scheduleRender());
+
+    html.find<HTMLButtonElement>("button[data-action='enqueue']").on("click", (event) => {
+      event.preventDefault();
+      this.#enqueueFromForm(root);
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='start']").on("click", (event) => {
+      event.preventDefault();
+      void this.#startQueue();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='pause']").on("click", (event) => {
+      event.preventDefault();
+      workbenchBatchQueue.pause();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='retry-failed']").on("click", (event) => {
+      event.preventDefault();
+      workbenchBatchQueue.retry();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='retry-job']").on("click", (event) => {
+      event.preventDefault();
+      const jobId = event.currentTarget.dataset.jobId;
+      if (jobId) {
+        workbenchBatchQueue.retry(jobId);
+      }
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='remove-job']").on("click", (event) => {
+      event.preventDefault();
+      const jobId = event.currentTarget.dataset.jobId;
+      if (jobId) {
+        workbenchBatchQueue.remove(jobId);
+      }
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='clear-completed']").on("click", (event) => {
+      event.preventDefault();
+      workbenchBatchQueue.clear("completed");
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='clear-all']").on("click", (event) => {
+      event.preventDefault();
+      workbenchBatchQueue.clear("all");
+    });
+
+    html.find<HTMLInputElement>("input[data-action='queue-option']").on("change", (event) => {
+      const input = event.currentTarget;
+      switch (input.name) {
+        case "concurrency":
+        case "maxAttempts":
+          workbenchBatchQueue.setOptions({ [input.name]: Number(input.value) });
+          break;
+        case "autoImport":
+          workbenchBatchQueue.setOptions({ autoImport: input.checked });
+          break;
+        default:
+          break;
+      }
+    });
+  }
+
+  override async close(options?: appv1.api.FormApplication.CloseOptions): Promise<void> {
+    this.#unsubscribe?.();
+    this.#unsubscribe = null;
+    if (this.#renderTimer !== null) {
+      window.clearTimeout(this.#renderTimer);
+      this.#renderTimer = null;
+    }
+    await super.close(options);
+  }
+
+  protected override async _updateObject(
+    _event: Event,
+    _formData: Record<string, unknown>,
+  ): Promise<void> {
+    // Form submission is handled by button actions.
+  }
+
+  #scheduleRender(): void {
+    if (this.#renderTimer !== null) {
+      return;
+    }
+
+    this.#renderTimer = window.setTimeout(() => {
+      this.#renderTimer = null;
+      if (this.rendered) {
+        this.render();
+      }
+    }, BATCH_RENDER_DELAY_MS);
+  }
+
+  // Queue updates re-render the whole form, so keep whatever the user was typing.
+  #captureDraftField(target: EventTarget | null): void {
+    if (
+      !(target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target instanceof HTMLTextAreaElement) ||
+      !target.name ||
+      target.dataset.action === "queue-option"
+    ) {
+      return;
+    }
+
+    this.#draft[target.name] = target.value;
+  }
+
+  #restoreDraft(root: HTMLElement): void {
+    for (const [name, value] of Object.entries(this.#draft)) {
+      const field = root.querySelector<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>(
+        `[name='${name}']:not([data-action='queue-option'])`,
+      );
+      if (field) {
+        field.value = value;
+      }
+    }
+  }
+
+  #enqueueFromForm(root: HTMLElement): void {
+    const form = root.querySelector<HTMLFormElement>("form.handy-dandy-workbench-batch") ?? root.closest("form");
+    if (!form) {
+      return;
+    }
+
+    const formData = new FormData(form);
+    const read = (key: string): string => String(formData.get(key) ?? "").trim();
+    const text = read("batchInput");
+    if (!text) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Paste at least one prompt before adding jobs.`);
+      return;
+    }
+
+    const { requests, labels, errors } = parseWorkbenchBatchInput(text, read("format") as WorkbenchBatchInputFormat, {
+      type: read("entityType") as EntityType,
+      systemId: "pf2e",
+      itemType: (read("itemType") || undefined) as ItemCategory | undefined,
+      actorType: (read("actorType") || undefined) as ActorCategory | undefined,
+      level: parseOptionalInteger(read("level")),
+      seed: parseOptionalInteger(read("seed")),
+      copies: parseOptionalInteger(read("copies")) ?? 1,
+      packId: read("packId") || undefined,
+      folderId: read("folderId") || undefined,
+    });
+
+    if (errors.length > 0) {
+      ui.notifications?.error(
+        `${CONSTANTS.MODULE_NAME} | ${errors.length} batch line(s) could not be queued. ${errors.slice(0, 3).join(" ")}`,
+      );
+      return;
+    }
+
+    const added = workbenchBatchQueue.enqueue(requests, labels);
+    if (added < requests.length) {
+      ui.notifications?.warn(
+        `${CONSTANTS.MODULE_NAME} | Queue limit reached; added ${added} of ${requests.length} job(s).`,
+      );
+    } else {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Added ${added} job(s) to the batch queue.`);
+    }
+
+    this.#draft = { ...this.#draft, batchInput: "" };
+    const input = root.querySelector<HTMLTextAreaElement>("[name='batchInput']");
+    if (input) {
+      input.value = "";
+    }
+  }
+
+  async #startQueue(): Promise<void> {
+    const namespace = game.handyDandy;
+    namespace?.refreshAIClient?.();
+    if (!namespace?.openRouterClient) {
+      ui.notifications?.error(
+        `${CONSTANTS.MODULE_NAME} | OpenRouter is not connected for this user. ` +
+          `Open Module Settings -> OpenRouter Account and connect before running a batch.`,
+      );
+      return;
+    }
+
+    await workbenchBatchQueue.run({
+      onResult: (result) => recordWorkbenchHistoryResult(result),
+    });
+
+    const counts = countJobs(workbenchBatchQueue.jobs);
+    if (counts.failed > 0) {
+      ui.notifications?.warn(
+        `${CONSTANTS.MODULE_NAME} | Batch stopped with ${counts.failed} failed job(s). Retry them from the queue.`,
+      );
+    } else if (counts.pending === 0) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Batch queue finished.`);
+    }
+  }
+}
+
+function buildJobView(job: WorkbenchBatchJob, maxAttempts: number): BatchJobView {
+  const progress = job.status === "running" ? job.progress : undefined;
+  let detail = "";
+  if (job.status === "succeeded") {
+    detail = job.importedUuid ? `Imported as ${job.resultName ?? job.label}` : `Saved to history as ${job.resultName ?? job.label}`;
+  } else if (job.error) {
+    detail = job.status === "pending" ? `Retrying after error: ${job.error}` : job.error;
+  }
+
+  return {
+    id: job.id,
+    label: job.label,
+    prompt: job.request.referenceText,
+    typeLabel: formatJobType(job),
+    status: job.status,
+    statusLabel: STATUS_LABELS[job.status],
+    attempts: `${job.attempts}/${maxAttempts}`,
+    progressLabel: progress?.message ?? (job.status === "running" ? "Starting..." : ""),
+    progressPercent: progress?.percent ?? 0,
+    detail,
+    canRetry: job.status === "failed",
+    canRemove: job.status !== "running",
+  };
+}
+
+function countJobs(jobs: readonly WorkbenchBatchJob[]): Record<WorkbenchBatchJobStatus, number> {
+  const counts: Record<WorkbenchBatchJobStatus, number> = { pending: 0, running: 0, succeeded: 0, failed: 0 };
+  for (const job of jobs) {
+    counts[job.status] += 1;
+  }
+  return counts;
+}
+
+function formatJobType(job: WorkbenchBatchJob): string {
+  const { type, itemType, actorType } = job.request;
+  const subtype = type === "item" ? itemType : type === "actor" ? actorType : undefined;
+  return subtype ? `${formatLabel(type)} (${formatLabel(subtype)})` : formatLabel(type);
+}
+
+function formatLabel(value: string): string {
+  return value
+    .split(/[-_]/)
+    .map((part) => (part ? part[0].toUpperCase() + part.slice(1) : part))
+    .join(" ");
+}
+
+function parseOptionalInteger(value: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : undefined;
+}
+
+let batchApp: PromptWorkbenchBatchApplication | null = null;
+
+export async function runPromptWorkbenchBatchFlow(): Promise<void> {
+  if (!batchApp) {
+    batchApp = new PromptWorkbenchBatchApplication();
+  }
+
+  batchApp.render(true);
+}
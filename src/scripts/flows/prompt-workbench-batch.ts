@@ -0,0 +1,715 @@
+import { CONSTANTS } from "../constants";
+import { DEFAULT_GENERATION_SEED, type GenerationProgressUpdate } from "../generation";
+import { formatOpenRouterError } from "../openrouter/client";
+import {
+  ENTITY_TYPES,
+  ITEM_CATEGORIES,
+  SYSTEM_IDS,
+  type ActorCategory,
+  type EntityType,
+  type ItemCategory,
+  type SystemId,
+} from "../schemas";
+import {
+  createWorkbenchResult,
+  generateWorkbenchEntry,
+  type PromptWorkbenchRequest,
+  type PromptWorkbenchResult,
+} from "./prompt-workbench";
+
+export type WorkbenchBatchRequest = Omit<PromptWorkbenchRequest<EntityType>, "dependencies" | "onProgress">;
+
+export type WorkbenchBatchJobStatus = "pending" | "running" | "succeeded" | "failed";
+
+export type WorkbenchBatchInputFormat = "auto" | "lines" | "csv";
+
+export interface WorkbenchBatchGenerated {
+  readonly input: PromptWorkbenchResult<EntityType>["input"];
+  readonly data: PromptWorkbenchResult<EntityType>["data"];
+}
+
+export interface WorkbenchBatchJob {
+  readonly id: string;
+  readonly label: string;
+  readonly request: WorkbenchBatchRequest;
+  status: WorkbenchBatchJobStatus;
+  attempts: number;
+  error?: string;
+  resultName?: string;
+  importedUuid?: string;
+  /** Output whose auto-import failed, so a retry imports it again instead of paying for another generation. */
+  generated?: WorkbenchBatchGenerated;
+  updatedAt: number;
+  progress?: GenerationProgressUpdate;
+}
+
+export interface WorkbenchBatchQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  autoImport: boolean;
+}
+
+export interface WorkbenchBatchDefaults {
+  readonly type: EntityType;
+  readonly systemId: SystemId;
+  readonly itemType?: ItemCategory;
+  readonly actorType?: ActorCategory;
+  readonly level?: number;
+  readonly seed?: number;
+  readonly copies?: number;
+  readonly packId?: string;
+  readonly folderId?: string;
+}
+
+export interface WorkbenchBatchParseResult {
+  readonly requests: WorkbenchBatchRequest[];
+  readonly labels: string[];
+  readonly errors: string[];
+}
+
+export interface WorkbenchBatchRunHooks {
+  readonly onChange?: () => void;
+  readonly onResult?: (result: PromptWorkbenchResult<EntityType>) => void;
+}
+
+interface StoredWorkbenchBatchQueue {
+  readonly options: WorkbenchBatchQueueOptions;
+  readonly jobs: StoredWorkbenchBatchJob[];
+}
+
+type StoredWorkbenchBatchJob = Omit<WorkbenchBatchJob, "progress">;
+
+const WORKBENCH_BATCH_FLAG_KEY = "workbenchBatchQueue" as const;
+const WORKBENCH_BATCH_JOB_LIMIT = 200;
+export const MAX_BATCH_COPIES = 50;
+export const MAX_BATCH_CONCURRENCY = 4;
+export const MAX_BATCH_ATTEMPTS = 5;
+const BATCH_LABEL_MAX_LENGTH = 60;
+const BATCH_ACTOR_TYPES = ["npc", "loot", "hazard"] as const satisfies readonly ActorCategory[];
+
+export const DEFAULT_BATCH_OPTIONS: WorkbenchBatchQueueOptions = {
+  concurrency: 2,
+  maxAttempts: 2,
+  autoImport: false,
+};
+
+const CSV_COLUMN_ALIASES: Record<string, keyof CsvRow> = {
+  name: "name",
+  entryname: "name",
+  title: "name",
+  prompt: "prompt",
+  referencetext: "prompt",
+  reference: "prompt",
+  description: "prompt",
+  type: "type",
+  entitytype: "type",
+  itemtype: "itemType",
+  actortype: "actorType",
+  level: "level",
+  slug: "slug",
+  seed: "seed",
+  count: "copies",
+  copies: "copies",
+  folder: "folderId",
+  folderid: "folderId",
+  pack: "packId",
+  packid: "packId",
+  img: "img",
+  image: "img",
+};
+
+type CsvRow = {
+  name?: string;
+  prompt?: string;
+  type?: string;
+  itemType?: string;
+  actorType?: string;
+  level?: string;
+  slug?: string;
+  seed?: string;
+  copies?: string;
+  folderId?: string;
+  packId?: string;
+  img?: string;
+};
+
+export function parseWorkbenchBatchInput(
+  text: string,
+  format: WorkbenchBatchInputFormat,
+  defaults: WorkbenchBatchDefaults,
+): WorkbenchBatchParseResult {
+  const resolvedFormat = format === "auto" ? detectBatchFormat(text) : format;
+  const rows = resolvedFormat === "csv" ? readCsvRows(text) : readLineRows(text);
+  const requests: WorkbenchBatchRequest[] = [];
+  const labels: string[] = [];
+  const errors: string[] = [];
+
+  rows.forEach(({ row, line }) => {
+    const built = buildRowRequests(row, defaults);
+    if (typeof built === "string") {
+      errors.push(`Line ${line}: ${built}`);
+      return;
+    }
+
+    for (const entry of built) {
+      requests.push(entry.request);
+      labels.push(entry.label);
+    }
+  });
+
+  return { requests, labels, errors };
+}
+
+function detectBatchFormat(text: string): Exclude<WorkbenchBatchInputFormat, "auto"> {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim().length > 0);
+  if (!firstLine || !firstLine.includes(",")) {
+    return "lines";
+  }
+
+  const header = parseCsvLine(firstLine).map((cell) => normalizeCsvHeader(cell));
+  return header.some((cell) => CSV_COLUMN_ALIASES[cell] === "prompt") ? "csv" : "lines";
+}
+
+function readLineRows(text: string): Array<{ row: CsvRow; line: number }> {
+  return text
+    .split(/\r?\n/)
+    .map((raw, index) => ({ raw: raw.trim(), line: index + 1 }))
+    .filter(({ raw }) => raw.length > 0 && !raw.startsWith("#"))
+    .map(({ raw, line }) => {
+      const separator = raw.indexOf("|");
+      if (separator > 0) {
+        return {
+          row: {
+            name: raw.slice(0, separator).trim(),
+            prompt: raw.slice(separator + 1).trim(),
+          },
+          line,
+        };
+      }
+
+      return { row: { prompt: raw }, line };
+    });
+}
+
+function readCsvRows(text: string): Array<{ row: CsvRow; line: number }> {
+  const records = parseCsvRecords(text);
+  const headerRecord = records.shift();
+  if (!headerRecord) {
+    return [];
+  }
+
+  const columns = headerRecord.cells.map((cell) => CSV_COLUMN_ALIASES[normalizeCsvHeader(cell)]);
+  return records
+    .filter(({ cells }) => cells.some((cell) => cell.trim().length > 0))
+    .map(({ cells, line }) => {
+      const row: CsvRow = {};
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        if (column && cell.trim()) {
+          row[column] = cell.trim();
+        }
+      });
+      return { row, line };
+    });
+}
+
+function normalizeCsvHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function parseCsvLine(line: string): string[] {
+  return parseCsvRecords(line)[0]?.cells ?? [];
+}
+
+function parseCsvRecords(text: string): Array<{ cells: string[]; line: number }> {
+  const records: Array<{ cells: string[]; line: number }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const pushRecord = (): void => {
+    cells.push(cell);
+    records.push({ cells, line: recordLine });
+    cells = [];
+    cell = "";
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === "\"" && text[index + 1] === "\"") {
+        cell += "\"";
+        index += 1;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line += 1;
+        }
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === "\"" && cell.trim().length === 0) {
+      cell = "";
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      pushRecord();
+      line += 1;
+      recordLine = line;
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || cells.length > 0) {
+    pushRecord();
+  }
+
+  return records;
+}
+
+function buildRowRequests(
+  row: CsvRow,
+  defaults: WorkbenchBatchDefaults,
+): Array<{ request: WorkbenchBatchRequest; label: string }> | string {
+  const referenceText = row.prompt?.trim() ?? "";
+  if (!referenceText) {
+    return "missing prompt text.";
+  }
+
+  const type = row.type ? sanitizeEntityType(row.type) : defaults.type;
+  if (!type) {
+    return `unknown entry type "${row.type}".`;
+  }
+
+  let itemType: ItemCategory | undefined;
+  if (type === "item") {
+    itemType = row.itemType ? sanitizeItemType(row.itemType) : defaults.itemType;
+    if (!itemType) {
+      return row.itemType ? `unknown item type "${row.itemType}".` : "item rows need an item type.";
+    }
+  }
+
+  let actorType: ActorCategory | undefined;
+  if (type === "actor") {
+    actorType = row.actorType ? sanitizeActorType(row.actorType) : defaults.actorType ?? "npc";
+    if (!actorType) {
+      return `unknown actor type "${row.actorType}".`;
+    }
+  }
+
+  const level = row.level !== undefined ? parseInteger(row.level) : defaults.level;
+  if (row.level !== undefined && level === undefined) {
+    return "level must be a whole number.";
+  }
+
+  const seed = row.seed !== undefined ? parseInteger(row.seed) : defaults.seed;
+  if (row.seed !== undefined && seed === undefined) {
+    return "seed must be a whole number.";
+  }
+
+  const copies = row.copies !== undefined ? parseInteger(row.copies) : defaults.copies ?? 1;
+  if (copies === undefined || copies < 1 || copies > MAX_BATCH_COPIES) {
+    return `count must be a whole number between 1 and ${MAX_BATCH_COPIES}.`;
+  }
+
+  const entryName = row.name?.trim() || deriveEntryName(referenceText);
+  const baseRequest: WorkbenchBatchRequest = {
+    type,
+    systemId: defaults.systemId,
+    entryName,
+    referenceText,
+    slug: copies === 1 ? row.slug?.trim() || undefined : undefined,
+    itemType,
+    actorType,
+    level: type === "actor" ? level : undefined,
+    packId: row.packId?.trim() || defaults.packId,
+    folderId: row.folderId?.trim() || defaults.folderId,
+    img: row.img?.trim() || undefined,
+    includeSpellcasting: type === "actor" && actorType === "npc" ? true : undefined,
+    includeInventory: type === "actor" && actorType === "npc" ? true : undefined,
+    includeOfficialContent: type === "actor" && actorType !== "npc" ? true : undefined,
+    includeGeneratedContent: type === "actor" && actorType !== "npc" ? true : undefined,
+  };
+
+  // Copies need distinct seeds, otherwise the model returns the same entry every time.
+  const baseSeed = seed ?? DEFAULT_GENERATION_SEED;
+  return Array.from({ length: copies }, (_value, index) => ({
+    request: {
+      ...baseRequest,
+      seed: copies === 1 ? seed : baseSeed + index,
+    },
+    label: copies === 1 ? entryName : `${entryName} (${index + 1}/${copies})`,
+  }));
+}
+
+function deriveEntryName(referenceText: string): string {
+  const firstSentence = referenceText.split(/[.!?\n]/)[0]?.trim() || referenceText.trim();
+  if (firstSentence.length <= BATCH_LABEL_MAX_LENGTH) {
+    return firstSentence;
+  }
+
+  const truncated = firstSentence.slice(0, BATCH_LABEL_MAX_LENGTH);
+  const lastSpace = truncated.lastIndexOf(" ");
+  return `${(lastSpace > 20 ? truncated.slice(0, lastSpace) : truncated).trim()}...`;
+}
+
+function parseInteger(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const parsed = Number(trimmed);
+  return Number.isInteger(parsed) ? parsed : undefined;
+}
+
+function sanitizeEntityType(value: string): EntityType | null {
+  const normalized = value.trim().toLowerCase();
+  return (ENTITY_TYPES as readonly string[]).includes(normalized) ? (normalized as EntityType) : null;
+}
+
+function sanitizeItemType(value: string): ItemCategory | undefined {
+  const normalized = value.trim().toLowerCase();
+  return (ITEM_CATEGORIES as readonly string[]).includes(normalized) ? (normalized as ItemCategory) : undefined;
+}
+
+function sanitizeActorType(value: string): ActorCategory | undefined {
+  const normalized = value.trim().toLowerCase();
+  return (BATCH_ACTOR_TYPES as readonly string[]).includes(normalized) ? (normalized as ActorCategory) : undefined;
+}
+
+export class WorkbenchBatchQueue {
+  #jobs: WorkbenchBatchJob[] = [];
+  #options: WorkbenchBatchQueueOptions = { ...DEFAULT_BATCH_OPTIONS };
+  #listeners = new Set<() => void>();
+  #running = false;
+  #paused = false;
+  #persistChain: Promise<void> = Promise.resolve();
+
+  get jobs(): readonly WorkbenchBatchJob[] {
+    return this.#jobs;
+  }
+
+  get options(): Readonly<WorkbenchBatchQueueOptions> {
+    return this.#options;
+  }
+
+  get isRunning(): boolean {
+    return this.#running;
+  }
+
+  get isPaused(): boolean {
+    return this.#paused;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  load(value: unknown): void {
+    if (this.#running) {
+      return;
+    }
+
+    const stored = deserializeQueue(value);
+    this.#options = stored.options;
+    this.#jobs = stored.jobs;
+    this.#notify();
+  }
+
+  setOptions(options: Partial<WorkbenchBatchQueueOptions>): void {
+    this.#options = normalizeQueueOptions({ ...this.#options, ...options });
+    this.#save();
+  }
+
+  enqueue(requests: readonly WorkbenchBatchRequest[], labels: readonly string[]): number {
+    const capacity = Math.max(0, WORKBENCH_BATCH_JOB_LIMIT - this.#jobs.length);
+    const accepted = requests.slice(0, capacity);
+    const now = Date.now();
+    for (const [index, request] of accepted.entries()) {
+      this.#jobs.push({
+        id: createBatchJobId(),
+        label: labels[index] ?? request.entryName,
+        request,
+        status: "pending",
+        attempts: 0,
+        updatedAt: now,
+      });
+    }
+
+    this.#save();
+    return accepted.length;
+  }
+
+  retry(jobId?: string): void {
+    for (const job of this.#jobs) {
+      if (job.status === "failed" && (!jobId || job.id === jobId)) {
+        this.#setStatus(job, "pending", { attempts: 0, error: undefined });
+      }
+    }
+
+    this.#save();
+  }
+
+  remove(jobId: string): void {
+    this.#jobs = this.#jobs.filter((job) => job.id !== jobId || job.status === "running");
+    this.#save();
+  }
+
+  clear(mode: "completed" | "all"): void {
+    this.#jobs = this.#jobs.filter((job) =>
+      job.status === "running" || (mode === "completed" && job.status !== "succeeded"));
+    this.#save();
+  }
+
+  pause(): void {
+    this.#paused = true;
+    this.#notify();
+  }
+
+  async run(hooks: WorkbenchBatchRunHooks = {}): Promise<void> {
+    if (this.#running) {
+      return;
+    }
+
+    this.#running = true;
+    this.#paused = false;
+    this.#notify();
+
+    const unsubscribe = hooks.onChange ? this.subscribe(hooks.onChange) : null;
+    try {
+      const workers = Array.from(
+        { length: this.#options.concurrency },
+        () => this.#runWorker(hooks),
+      );
+      await Promise.all(workers);
+    } finally {
+      this.#running = false;
+      unsubscribe?.();
+      this.#notify();
+      await this.#persistChain;
+    }
+  }
+
+  async #runWorker(hooks: WorkbenchBatchRunHooks): Promise<void> {
+    while (!this.#paused) {
+      const job = this.#jobs.find((candidate) => candidate.status === "pending");
+      if (!job) {
+        return;
+      }
+
+      await this.#runJob(job, hooks);
+    }
+  }
+
+  async #runJob(job: WorkbenchBatchJob, hooks: WorkbenchBatchRunHooks): Promise<void> {
+    this.#setStatus(job, "running", { attempts: job.attempts + 1, error: undefined });
+    this.#save();
+
+    try {
+      const result = job.generated
+        ? createWorkbenchResult(job.request, job.generated.input, job.generated.data)
+        : await generateWorkbenchEntry({
+          ...job.request,
+          onProgress: (update) => {
+            job.progress = update;
+            this.#notify();
+          },
+        });
+
+      let importedUuid: string | undefined;
+      if (this.#options.autoImport && result.importer) {
+        job.generated = { input: result.input, data: result.data };
+        try {
+          const document = await result.importer();
+          importedUuid = (document as { uuid?: string }).uuid;
+        } catch (error) {
+          throw new Error(`Generated ${result.name}, but the import failed: ${formatOpenRouterError(error)}`);
+        }
+      }
+      job.generated = undefined;
+
+      try {
+        hooks.onResult?.(result);
+      } catch (error) {
+        console.warn(`${CONSTANTS.MODULE_NAME} | Batch result callback failed`, error);
+      }
+
+      this.#setStatus(job, "succeeded", { resultName: result.name, importedUuid });
+    } catch (error) {
+      const message = formatOpenRouterError(error);
+      console.error(`${CONSTANTS.MODULE_NAME} | Batch job "${job.label}" failed`, error);
+      const exhausted = job.attempts >= this.#options.maxAttempts;
+      this.#setStatus(job, exhausted ? "failed" : "pending", { error: message });
+    }
+
+    this.#save();
+  }
+
+  #setStatus(
+    job: WorkbenchBatchJob,
+    status: WorkbenchBatchJobStatus,
+    changes: Partial<Pick<WorkbenchBatchJob, "attempts" | "error" | "resultName" | "importedUuid">> = {},
+  ): void {
+    Object.assign(job, changes);
+    job.status = status;
+    job.updatedAt = Date.now();
+    if (status !== "running") {
+      job.progress = undefined;
+    }
+  }
+
+  #save(): void {
+    this.#notify();
+    const snapshot = serializeQueue(this.#options, this.#jobs);
+    this.#persistChain = this.#persistChain.then(() => persistBatchQueue(snapshot));
+  }
+
+  #notify(): void {
+    for (const listener of this.#listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.warn(`${CONSTANTS.MODULE_NAME} | Batch queue listener failed`, error);
+      }
+    }
+  }
+}
+
+export const workbenchBatchQueue = new WorkbenchBatchQueue();
+
+Hooks.once("ready", () => {
+  workbenchBatchQueue.load(getBatchQueueFlag());
+});
+
+function getBatchQueueFlag(): unknown {
+  const user = game.user;
+  if (!user) {
+    return null;
+  }
+
+  try {
+    return user.getFlag(CONSTANTS.MODULE_ID, WORKBENCH_BATCH_FLAG_KEY) ?? null;
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to load prompt workbench batch queue`, error);
+    return null;
+  }
+}
+
+async function persistBatchQueue(snapshot: StoredWorkbenchBatchQueue): Promise<void> {
+  const user = game.user;
+  if (!user) {
+    return;
+  }
+
+  try {
+    await user.setFlag(CONSTANTS.MODULE_ID, WORKBENCH_BATCH_FLAG_KEY, snapshot);
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to persist prompt workbench batch queue`, error);
+  }
+}
+
+function serializeQueue(
+  options: WorkbenchBatchQueueOptions,
+  jobs: readonly WorkbenchBatchJob[],
+): StoredWorkbenchBatchQueue {
+  return {
+    options: { ...options },
+    jobs: jobs.map(({ progress: _progress, ...job }) => ({ ...job })),
+  };
+}
+
+function deserializeQueue(value: unknown): { options: WorkbenchBatchQueueOptions; jobs: WorkbenchBatchJob[] } {
+  if (!isRecord(value)) {
+    return { options: { ...DEFAULT_BATCH_OPTIONS }, jobs: [] };
+  }
+
+  const options = normalizeQueueOptions(isRecord(value.options) ? value.options : {});
+  const jobs = Array.isArray(value.jobs)
+    ? value.jobs
+      .map((entry) => deserializeJob(entry))
+      .filter((entry): entry is WorkbenchBatchJob => Boolean(entry))
+      .slice(0, WORKBENCH_BATCH_JOB_LIMIT)
+    : [];
+
+  return { options, jobs };
+}
+
+function deserializeJob(value: unknown): WorkbenchBatchJob | null {
+  if (!isRecord(value) || typeof value.id !== "string" || !isRecord(value.request)) {
+    return null;
+  }
+
+  const request = value.request as unknown as WorkbenchBatchRequest;
+  if (
+    !(ENTITY_TYPES as readonly string[]).includes(String(request.type)) ||
+    !(SYSTEM_IDS as readonly string[]).includes(String(request.systemId)) ||
+    typeof request.entryName !== "string" ||
+    typeof request.referenceText !== "string"
+  ) {
+    return null;
+  }
+
+  // A job that was mid-flight when the page unloaded never finished, so queue it again.
+  const storedStatus = value.status;
+  const status: WorkbenchBatchJobStatus = storedStatus === "succeeded" || storedStatus === "failed"
+    ? storedStatus
+    : "pending";
+
+  return {
+    id: value.id,
+    label: typeof value.label === "string" ? value.label : request.entryName,
+    request,
+    status,
+    attempts: typeof value.attempts === "number" ? value.attempts : 0,
+    error: typeof value.error === "string" ? value.error : undefined,
+    resultName: typeof value.resultName === "string" ? value.resultName : undefined,
+    importedUuid: typeof value.importedUuid === "string" ? value.importedUuid : undefined,
+    generated: deserializeGenerated(value.generated),
+    updatedAt: typeof value.updatedAt === "number" ? value.updatedAt : Date.now(),
+  };
+}
+
+function deserializeGenerated(value: unknown): WorkbenchBatchGenerated | undefined {
+  if (!isRecord(value) || !isRecord(value.input) || !isRecord(value.data)) {
+    return undefined;
+  }
+
+  return value as unknown as WorkbenchBatchGenerated;
+}
+
+function normalizeQueueOptions(value: Partial<Record<keyof WorkbenchBatchQueueOptions, unknown>>): WorkbenchBatchQueueOptions {
+  return {
+    concurrency: clampInteger(value.concurrency, 1, MAX_BATCH_CONCURRENCY, DEFAULT_BATCH_OPTIONS.concurrency),
+    maxAttempts: clampInteger(value.maxAttempts, 1, MAX_BATCH_ATTEMPTS, DEFAULT_BATCH_OPTIONS.maxAttempts),
+    autoImport: typeof value.autoImport === "boolean" ? value.autoImport : DEFAULT_BATCH_OPTIONS.autoImport,
+  };
+}
+
+function clampInteger(value: unknown, minimum: number, maximum: number, fallback: number): number {
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(numeric)) {
+    return fallback;
+  }
+
+  return Math.max(minimum, Math.min(maximum, Math.round(numeric)));
+}
+
+function createBatchJobId(): string {
+  return `batch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
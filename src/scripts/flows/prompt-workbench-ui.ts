@@ -1,17 +1,24 @@
 import { CONSTANTS } from "../constants";
 import {
+  createWorkbenchResult,
   generateWorkbenchEntry,
+  generateWorkbenchVariants,
   DEFAULT_IMAGE_PATH,
+  MAX_WORKBENCH_VARIANTS,
   type PromptWorkbenchRequest,
   type PromptWorkbenchResult,
+  type PromptWorkbenchVariant,
 } from "./prompt-workbench";
-import { DEFAULT_GENERATION_SEED, type GenerationProgressUpdate } from "../generation";
+import type { GenerationProgressUpdate } from "../generation";
 import { formatOpenRouterError, readOpenRouterSettings } from "../openrouter/client";
+import { HAZARD_COMPLEXITIES, type HazardComplexity } from "../prompts";
 import {
+  FEAT_CATEGORIES,
   ITEM_CATEGORIES,
   SYSTEM_IDS,
   type ActorCategory,
   type EntityType,
+  type FeatCategory,
   type GeneratedEntityMap,
   type ItemCategory,
   type PublicationData,
@@ -19,8 +26,20 @@ import {
 } from "../schemas";
 import { fromFoundryActor, type FoundryActor } from "../mappers/export";
 import { importAction, importActor, importItem } from "../mappers/import";
-import { mapCanonicalActor, normalizeGeneratedEntity } from "../generation/pipeline";
+import {
+  mapCanonicalActor,
+  normalizeGeneratedEntity,
+  toGeneratedActorResultFromFoundry,
+} from "../generation/pipeline";
 import { openDialog, waitForDialog } from "../foundry/dialog";
+import { renderGenerationPreview } from "./generation-preview";
+import {
+  getVariantMergeSections,
+  mergeWorkbenchVariants,
+  toCanonicalVariantData,
+} from "./workbench-variants";
+import { publishToCompendium } from "./compendium-publisher";
+import { recordGeneratedLoot } from "./treasure-ledger";
 import { renderApplicationTemplate } from "../foundry/templates";
 
 interface WorkbenchHistoryEntry {
@@ -40,6 +59,7 @@ const PROMPT_WORKBENCH_HISTORY_PLACEHOLDER_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH
 const PROMPT_WORKBENCH_ENTRY_DETAIL_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-entry-detail.hbs`;
 const PROMPT_WORKBENCH_REQUEST_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-request.hbs`;
 const PROMPT_WORKBENCH_RESULT_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-result.hbs`;
+const PROMPT_WORKBENCH_VARIANTS_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-variants.hbs`;
 
 type SerializableWorkbenchResult = Pick<
   PromptWorkbenchResult<EntityType>,
@@ -74,12 +94,15 @@ type WorkbenchFormResponse = {
   readonly itemImagePrompt: string;
   readonly referenceText: string;
   readonly seed: string;
+  readonly variants: string;
   readonly packId: string;
   readonly folderId: string;
   readonly includeSpellcasting: string | null;
   readonly includeInventory: string | null;
   readonly includeOfficialContent: string | null;
   readonly includeGeneratedContent: string | null;
+  readonly hazardComplexity: string;
+  readonly featCategory: string;
   readonly tokenPrompt: string;
 };
 
@@ -114,12 +137,15 @@ function extractWorkbenchFormResponse(form: HTMLFormElement): WorkbenchFormRespo
     itemImagePrompt: String(formData.get("itemImagePrompt") ?? ""),
     referenceText: String(formData.get("referenceText") ?? ""),
     seed: String(formData.get("seed") ?? ""),
+    variants: String(formData.get("variants") ?? ""),
     packId: String(formData.get("packId") ?? ""),
     folderId: String(formData.get("folderId") ?? ""),
     includeSpellcasting: formData.get("includeSpellcasting") as string | null,
     includeInventory: formData.get("includeInventory") as string | null,
     includeOfficialContent: formData.get("includeOfficialContent") as string | null,
     includeGeneratedContent: formData.get("includeGeneratedContent") as string | null,
+    hazardComplexity: String(formData.get("hazardComplexity") ?? ""),
+    featCategory: String(formData.get("featCategory") ?? ""),
     tokenPrompt: String(formData.get("tokenPrompt") ?? ""),
   };
 }
@@ -165,22 +191,54 @@ export async function runPromptWorkbenchFlow(): Promise<void> {
     return;
   }
 
-  const request = await promptWorkbenchRequest();
-  if (!request) {
+  const submission = await promptWorkbenchRequest();
+  if (!submission) {
     return;
   }
 
+  const { variantCount, ...request } = submission;
   let loading: WorkbenchLoadingController | null = null;
   try {
     loading = await showGeneratingDialog(request);
+    if (variantCount > 1) {
+      let variantLabel = "";
+      const variants = await generateWorkbenchVariants(
+        {
+          ...request,
+          onProgress: (update) => loading?.update({ ...update, message: `${variantLabel}${update.message}` }),
+          onPartial: (partial) => loading?.preview(partial),
+          signal: loading.signal,
+        },
+        variantCount,
+        (index, seed, temperature) => {
+          variantLabel =
+            `Variant ${formatVariantLabel(index)} of ${variantCount} (seed ${seed}, temperature ${temperature}): `;
+        },
+      );
+      await loading.close();
+      loading = null;
+      const result = await promptVariantSelection(request, variants);
+      if (result) {
+        await showWorkbenchResult(result);
+      }
+      return;
+    }
+
     const result = await generateWorkbenchEntry({
       ...request,
       onProgress: (update) => loading?.update(update),
+      onPartial: (partial) => loading?.preview(partial),
+      signal: loading.signal,
     });
     await loading.close();
     loading = null;
     await showWorkbenchResult(result);
   } catch (error) {
+    if (loading?.signal.aborted) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Prompt workbench generation cancelled.`);
+      return;
+    }
+
     const message = formatOpenRouterError(error);
     ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Prompt workbench failed: ${message}`);
     console.error(`${CONSTANTS.MODULE_NAME} | Prompt workbench failed`, error);
@@ -189,13 +247,13 @@ export async function runPromptWorkbenchFlow(): Promise<void> {
   }
 }
 
-async function promptWorkbenchRequest(): Promise<PromptWorkbenchRequest<EntityType> | null> {
+type WorkbenchSubmission = PromptWorkbenchRequest<EntityType> & { readonly variantCount: number };
+
+async function promptWorkbenchRequest(): Promise<WorkbenchSubmission | null> {
   const fixedSystemId: SystemId = "pf2e";
   const generationSetup = readPromptWorkbenchGenerationSetup();
   const generationSetupMarkup = await buildGenerationSetupMarkup(generationSetup);
-  const defaultSeedValue = typeof generationSetup.configuredSeed === "number"
-    ? generationSetup.configuredSeed
-    : DEFAULT_GENERATION_SEED;
+  const defaultSeedValue = generationSetup.configuredSeed ?? null;
   const itemTypeOptions = ITEM_CATEGORIES.map(
     (category) => ({
       value: category,
@@ -209,6 +267,14 @@ async function promptWorkbenchRequest(): Promise<PromptWorkbenchRequest<EntityTy
       selected: category === "npc",
     }),
   );
+  const hazardComplexityOptions = HAZARD_COMPLEXITIES.map((value) => ({
+    value,
+    label: value === "complex" ? "Complex" : "Simple",
+  }));
+  const featCategoryOptions = FEAT_CATEGORIES.map((value) => ({
+    value,
+    label: value === "classfeature" ? "Class Feature" : `${value[0].toUpperCase()}${value.slice(1)} Feat`,
+  }));
   const initialHistoryId = workbenchHistory[0]?.id;
   const [historyListMarkup, historyPlaceholder] = await Promise.all([
     buildHistoryListMarkup(initialHistoryId),
@@ -219,8 +285,11 @@ async function promptWorkbenchRequest(): Promise<PromptWorkbenchRequest<EntityTy
     generationSetupMarkup,
     itemTypeOptions,
     actorTypeOptions,
+    hazardComplexityOptions,
+    featCategoryOptions,
     defaultImagePath: DEFAULT_IMAGE_PATH,
     defaultSeedValue,
+    maxVariants: MAX_WORKBENCH_VARIANTS,
     systemId: fixedSystemId,
     historyListMarkup,
     historyPlaceholder,
@@ -345,7 +414,7 @@ async function promptWorkbenchRequest(): Promise<PromptWorkbenchRequest<EntityTy
   const itemImagePrompt = generateItemImage ? response.itemImagePrompt.trim() || undefined : undefined;
   const level = parseOptionalInteger(response.level);
   if (response.level.trim() && level === undefined) {
-    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Actor level must be a whole number.`);
+    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Level must be a whole number.`);
     return null;
   }
 
@@ -355,6 +424,14 @@ async function promptWorkbenchRequest(): Promise<PromptWorkbenchRequest<EntityTy
     return null;
   }
 
+  const variantCount = parseOptionalInteger(response.variants) ?? 1;
+  if (variantCount < 1 || variantCount > MAX_WORKBENCH_VARIANTS) {
+    ui.notifications?.error(
+      `${CONSTANTS.MODULE_NAME} | Variants must be a whole number from 1 to ${MAX_WORKBENCH_VARIANTS}.`,
+    );
+    return null;
+  }
+
   return {
     type,
     systemId,
@@ -377,11 +454,32 @@ async function promptWorkbenchRequest(): Promise<PromptWorkbenchRequest<EntityTy
       : undefined,
     includeOfficialContent,
     includeGeneratedContent,
+    hazardComplexity: type === "actor" && actorType === "hazard"
+      ? sanitizeHazardComplexity(response.hazardComplexity)
+      : undefined,
+    featCategory: type === "item" && itemType === "feat"
+      ? sanitizeFeatCategory(response.featCategory)
+      : undefined,
     generateTokenImage: generateTokenImage ? true : undefined,
     generateItemImage: generateItemImage ? true : undefined,
     tokenPrompt,
     itemImagePrompt,
-  } satisfies PromptWorkbenchRequest<EntityType>;
+    variantCount,
+  } satisfies WorkbenchSubmission;
+}
+
+function sanitizeHazardComplexity(value: string): HazardComplexity | undefined {
+  const normalized = value.trim().toLowerCase();
+  return (HAZARD_COMPLEXITIES as readonly string[]).includes(normalized)
+    ? normalized as HazardComplexity
+    : undefined;
+}
+
+function sanitizeFeatCategory(value: string): FeatCategory | undefined {
+  const normalized = value.trim().toLowerCase();
+  return (FEAT_CATEGORIES as readonly string[]).includes(normalized)
+    ? normalized as FeatCategory
+    : undefined;
 }
 
 function parseOptionalInteger(value: string): number | undefined {
@@ -438,7 +536,7 @@ async function buildGenerationSetupMarkup(setup: PromptWorkbenchGenerationSetup)
   const connectionLabel = setup.connected ? "Connected" : "Not connected";
   const seedLabel = typeof setup.configuredSeed === "number"
     ? String(setup.configuredSeed)
-    : `Default (${DEFAULT_GENERATION_SEED})`;
+    : "Not set";
 
   return renderApplicationTemplate(PROMPT_WORKBENCH_GENERATION_SETUP_TEMPLATE, {
     connectionClass,
@@ -555,6 +653,9 @@ type LoadingLogEntry = {
 
 interface WorkbenchLoadingController {
   update: (update: GenerationProgressUpdate) => void;
+  /** Shows the partially streamed entry; aborted when the user cancels or closes the dialog. */
+  preview: (partial: unknown) => void;
+  signal: AbortSignal;
   close: () => Promise<void>;
 }
 
@@ -565,6 +666,7 @@ function buildLoadingSteps(request: PromptWorkbenchRequest<EntityType>): Loading
     { key: "routing", label: "Finding compatible provider route (if needed)" },
     { key: "generation", label: "Generating core sheet data" },
     { key: "validation", label: "Normalizing and validating data" },
+    { key: "repair", label: "Repairing invalid output (if needed)" },
   ];
 
   if (request.type === "actor") {
@@ -637,6 +739,8 @@ async function showGeneratingDialog(request: PromptWorkbenchRequest<EntityType>)
   let root: HTMLElement | null = null;
   let intervalId: number | null = null;
   let closed = false;
+  let latestPartial: unknown;
+  const abortController = new AbortController();
   let latestProgress: GenerationProgressUpdate = {
     step: "prompt",
     message: "Preparing prompt...",
@@ -674,6 +778,20 @@ async function showGeneratingDialog(request: PromptWorkbenchRequest<EntityType>)
     renderLoadingLog(root, startTime, progressLog);
   };
 
+  const preview = (partial: unknown): void => {
+    latestPartial = partial;
+    if (!root) return;
+    renderLoadingPreview(root, latestPartial);
+  };
+
+  const cancel = (): void => {
+    if (abortController.signal.aborted) {
+      return;
+    }
+    abortController.abort();
+    update({ step: latestProgress.step, message: "Cancelling generation..." });
+  };
+
   const dialog = await openDialog({
     title: `${CONSTANTS.MODULE_NAME} | Working`,
     content,
@@ -685,27 +803,60 @@ async function showGeneratingDialog(request: PromptWorkbenchRequest<EntityType>)
 
       applyLoadingProgress(root, loadingSteps, latestProgress);
       renderLoadingLog(root, startTime, progressLog);
+      if (latestPartial !== undefined) {
+        renderLoadingPreview(root, latestPartial);
+      }
+      root.querySelector<HTMLButtonElement>("[data-loading-cancel]")?.addEventListener("click", (event) => {
+        event.preventDefault();
+        cancel();
+        void close();
+      });
       refreshElapsed();
       intervalId = window.setInterval(refreshElapsed, 1000);
     },
+    onClose: () => {
+      if (!closed) {
+        cancel();
+      }
+    },
   });
 
+  const close = async (): Promise<void> => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    if (intervalId !== null) {
+      window.clearInterval(intervalId);
+      intervalId = null;
+    }
+    await dialog.close();
+  };
+
   return {
     update,
-    close: async () => {
-      if (closed) {
-        return;
-      }
-      closed = true;
-      if (intervalId !== null) {
-        window.clearInterval(intervalId);
-        intervalId = null;
-      }
-      await dialog.close();
-    },
+    preview,
+    signal: abortController.signal,
+    close,
   };
 }
 
+function renderLoadingPreview(root: HTMLElement, partial: unknown): void {
+  const section = root.querySelector<HTMLElement>("[data-loading-preview-section]");
+  const container = root.querySelector<HTMLElement>("[data-loading-preview]");
+  if (!section || !container) {
+    return;
+  }
+
+  section.hidden = false;
+  renderGenerationPreview(container, partial);
+  const status = root.querySelector<HTMLElement>("[data-loading-preview-status]");
+  if (status) {
+    const fieldCount = partial && typeof partial === "object" ? Object.keys(partial).length : 0;
+    status.textContent = `${fieldCount} field${fieldCount === 1 ? "" : "s"} received`;
+  }
+}
+
 async function showWorkbenchResult(result: PromptWorkbenchResult<EntityType>): Promise<void> {
   const json = JSON.stringify(result.data, null, 2);
   const importerAvailable = typeof result.importer === "function";
@@ -730,6 +881,116 @@ async function showWorkbenchResult(result: PromptWorkbenchResult<EntityType>): P
   });
 }
 
+type VariantChoice =
+  | { readonly kind: "use"; readonly index: number }
+  | { readonly kind: "merge"; readonly selection: Record<string, number> };
+
+function formatVariantLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function readVariantMergeSelection(form: HTMLFormElement | null, sectionIds: readonly string[]): Record<string, number> {
+  const selection: Record<string, number> = {};
+  if (!form) {
+    return selection;
+  }
+
+  const formData = new FormData(form);
+  for (const id of sectionIds) {
+    const value = Number(formData.get(`section.${id}`));
+    if (Number.isInteger(value) && value >= 0) {
+      selection[id] = value;
+    }
+  }
+  return selection;
+}
+
+async function promptVariantSelection(
+  request: PromptWorkbenchRequest<EntityType>,
+  variants: readonly PromptWorkbenchVariant<EntityType>[],
+): Promise<PromptWorkbenchResult<EntityType> | null> {
+  const sections = getVariantMergeSections(request.type);
+  const content = await renderApplicationTemplate(PROMPT_WORKBENCH_VARIANTS_TEMPLATE, {
+    safeEntryName: request.entryName.trim() || "entry",
+    variants: variants.map((variant, index) => ({
+      index,
+      label: formatVariantLabel(index),
+      seed: variant.seed,
+      temperature: variant.temperature,
+    })),
+    sections: sections.map((section) => ({
+      id: section.id,
+      label: section.label,
+      options: variants.map((_variant, index) => ({
+        index,
+        label: formatVariantLabel(index),
+        checked: index === 0,
+      })),
+    })),
+  });
+
+  const sectionIds = sections.map((section) => section.id);
+  const choice = await waitForDialog<VariantChoice>({
+    title: `${CONSTANTS.MODULE_NAME} | Choose a Variant`,
+    content,
+    width: Math.min(1200, 320 * variants.length + 80),
+    resizable: true,
+    render: (root) => {
+      for (const [index, variant] of variants.entries()) {
+        const container = root.querySelector<HTMLElement>(`[data-variant-preview="${index}"]`);
+        if (container) {
+          renderGenerationPreview(container, toCanonicalVariantData(request.type, variant.result.data));
+        }
+      }
+    },
+    buttons: [
+      ...variants.map((_variant, index) => ({
+        action: `use-${index}`,
+        label: `Use ${formatVariantLabel(index)}`,
+        icon: "fas fa-check",
+        default: index === 0,
+        callback: (): VariantChoice => ({ kind: "use", index }),
+      })),
+      {
+        action: "merge",
+        label: "Merge Selected",
+        icon: "fas fa-object-group",
+        callback: ({ form }): VariantChoice => ({
+          kind: "merge",
+          selection: readVariantMergeSelection(form, sectionIds),
+        }),
+      },
+      {
+        action: "cancel",
+        label: "Discard",
+        icon: "fas fa-times",
+        callback: () => null,
+      },
+    ],
+    closeResult: null,
+  });
+
+  if (!choice) {
+    return null;
+  }
+
+  if (choice.kind === "use") {
+    return variants[choice.index]?.result ?? null;
+  }
+
+  const merged = await mergeWorkbenchVariants(
+    request.type,
+    variants.map((variant) => variant.result.data),
+    choice.selection,
+  );
+  return createWorkbenchResult(request, variants[0].result.input, merged);
+}
+
+export function recordWorkbenchHistoryResult(result: PromptWorkbenchResult<EntityType>): void {
+  const json = JSON.stringify(result.data, null, 2);
+  recordHistoryEntry(result, json, typeof result.importer === "function");
+}
+
 function initialiseWorkbenchHistory(): void {
   const storedValue = getWorkbenchHistoryFlag();
   applyStoredWorkbenchHistory(storedValue);
@@ -861,32 +1122,15 @@ function createHistoryImporter(
     case "item":
       return () => importItem(data as GeneratedEntityMap["item"]);
     case "actor":
-      return () => importActor(data as GeneratedEntityMap["actor"], { createNew: true });
+      return async () => {
+        const actor = await importActor(data as GeneratedEntityMap["actor"], { createNew: true });
+        return recordGeneratedLoot(actor);
+      };
     default:
       return undefined;
   }
 }
 
-function toGeneratedActorResultFromFoundry(
-  source: GeneratedEntityMap["actor"],
-  foundry: Awaited<ReturnType<typeof mapCanonicalActor>>,
-): GeneratedEntityMap["actor"] {
-  return {
-    schema_version: source.schema_version,
-    systemId: source.systemId,
-    slug: source.slug,
-    name: foundry.name,
-    type: foundry.type as GeneratedEntityMap["actor"]["type"],
-    img: foundry.img,
-    system: foundry.system,
-    prototypeToken: foundry.prototypeToken,
-    items: foundry.items,
-    effects: foundry.effects,
-    folder: (foundry.folder ?? null) as GeneratedEntityMap["actor"]["folder"],
-    flags: (foundry.flags ?? {}) as GeneratedEntityMap["actor"]["flags"],
-  } satisfies GeneratedEntityMap["actor"];
-}
-
 async function normalizeGeneratedData(
   type: EntityType,
   data: GeneratedEntityMap[EntityType],
@@ -1086,6 +1330,7 @@ async function buildEntryDetailMarkup(entry: WorkbenchHistoryEntry): Promise<str
     meta,
     importLabel,
     importerAvailable: entry.importerAvailable,
+    canPublish: Boolean(game.user?.isGM),
     jsonText: formatJsonForDisplay(entry.json),
   });
 }
@@ -1187,6 +1432,8 @@ function setupWorkbenchRequestDialog(root: HTMLElement): void {
   const scopedFields = Array.from(container.querySelectorAll<HTMLElement>("[data-entity-scope]"));
   const actorTypeField = container.querySelector<HTMLSelectElement>("#handy-dandy-workbench-actor-type");
   const actorTypeScopedFields = Array.from(container.querySelectorAll<HTMLElement>("[data-actor-type-scope]"));
+  const itemTypeField = container.querySelector<HTMLSelectElement>("#handy-dandy-workbench-item-type");
+  const itemTypeScopedFields = Array.from(container.querySelectorAll<HTMLElement>("[data-item-type-scope]"));
   const actorArtModeInputs = Array.from(
     container.querySelectorAll<HTMLInputElement>("input[name=\"actorArtMode\"]"),
   );
@@ -1269,6 +1516,28 @@ function setupWorkbenchRequestDialog(root: HTMLElement): void {
     }
   };
 
+  const updateItemTypeScopedVisibility = (): void => {
+    const isItem = (entityTypeField?.value ?? "") === "item";
+    const currentItemType = itemTypeField?.value?.trim().toLowerCase() ?? "";
+
+    for (const field of itemTypeScopedFields) {
+      const scopes = (field.dataset.itemTypeScope ?? "")
+        .split(/\s+/)
+        .map((value) => value.trim().toLowerCase())
+        .filter(Boolean);
+      const shouldShow = isItem && scopes.includes(currentItemType);
+      field.style.display = shouldShow ? "" : "none";
+      field.setAttribute("aria-hidden", shouldShow ? "false" : "true");
+
+      const controls = Array.from(
+        field.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>("input, select, textarea"),
+      );
+      for (const control of controls) {
+        control.disabled = !shouldShow;
+      }
+    }
+  };
+
   const updateScopedFieldVisibility = (): void => {
     const currentType = entityTypeField?.value ?? "";
     for (const field of scopedFields) {
@@ -1300,6 +1569,7 @@ function setupWorkbenchRequestDialog(root: HTMLElement): void {
     updateActorArtModeVisibility();
     updateItemArtModeVisibility();
     updateActorTypeScopedVisibility();
+    updateItemTypeScopedVisibility();
   };
 
   const historyFilterInput = container.querySelector<HTMLInputElement>("[data-history-filter]");
@@ -1313,6 +1583,7 @@ function setupWorkbenchRequestDialog(root: HTMLElement): void {
   updateScopedFieldVisibility();
   entityTypeField?.addEventListener("change", updateScopedFieldVisibility);
   actorTypeField?.addEventListener("change", updateActorTypeScopedVisibility);
+  itemTypeField?.addEventListener("change", updateItemTypeScopedVisibility);
   for (const input of actorArtModeInputs) {
     input.addEventListener("change", updateActorArtModeVisibility);
   }
@@ -1559,6 +1830,9 @@ async function handleWorkbenchAction(
     case "import":
       await handleImportAction(entry);
       break;
+    case "publish":
+      await handlePublishAction(entry);
+      break;
     default:
       break;
   }
@@ -1652,6 +1926,24 @@ async function handleImportAction(entry: WorkbenchHistoryEntry): Promise<void> {
   }
 }
 
+async function handlePublishAction(entry: WorkbenchHistoryEntry): Promise<void> {
+  if (!game.user?.isGM) {
+    ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Only a GM can publish to compendiums.`);
+    return;
+  }
+
+  try {
+    const { packId, entry: packEntry, created } = await publishToCompendium(entry.result.type, entry.result.data);
+    ui.notifications?.info(
+      `${CONSTANTS.MODULE_NAME} | ${created ? "Published" : "Updated"} ${packEntry.name} in ${packId}.`,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Publish failed: ${message}`);
+    console.error(`${CONSTANTS.MODULE_NAME} | Publish failed`, error);
+  }
+}
+
 function resolveFilename(result: PromptWorkbenchResult<EntityType>): string {
   const slug = (result.data as { slug?: string }).slug;
   const fallback = result.name.trim().toLowerCase().replace(/\s+/g, "-");
@@ -1,15 +1,18 @@
 import { importAction, importActor, importItem } from "../mappers/import";
-import type { GenerationProgressUpdate } from "../generation";
+import { DEFAULT_GENERATION_SEED, type GenerationProgressUpdate } from "../generation";
+import { readOpenRouterSettings } from "../openrouter/client";
 import {
   PUBLICATION_DEFAULT,
   type ActorCategory,
   type EntityType,
+  type FeatCategory,
   type GeneratedEntityMap,
   type ItemCategory,
   type PublicationData,
   type SystemId,
 } from "../schemas";
-import type { ActionPromptInput, ActorPromptInput, ItemPromptInput } from "../prompts";
+import type { ActionPromptInput, ActorPromptInput, HazardComplexity, ItemPromptInput } from "../prompts";
+import { recordGeneratedLoot } from "./treasure-ledger";
 
 type PromptInputMap = {
   action: ActionPromptInput;
@@ -37,6 +40,8 @@ export interface PromptWorkbenchRequest<T extends EntityType> extends ImporterOp
   readonly actorType?: ActorCategory;
   readonly level?: number;
   readonly seed?: number;
+  /** Overrides the configured sampling temperature. */
+  readonly temperature?: number;
   readonly dependencies?: GenerationDependencyOverrides;
   readonly img?: string;
   readonly publication?: PublicationData;
@@ -44,11 +49,15 @@ export interface PromptWorkbenchRequest<T extends EntityType> extends ImporterOp
   readonly includeInventory?: boolean;
   readonly includeOfficialContent?: boolean;
   readonly includeGeneratedContent?: boolean;
+  readonly hazardComplexity?: HazardComplexity;
+  readonly featCategory?: FeatCategory;
   readonly generateTokenImage?: boolean;
   readonly tokenPrompt?: string;
   readonly generateItemImage?: boolean;
   readonly itemImagePrompt?: string;
   readonly onProgress?: (update: GenerationProgressUpdate) => void;
+  readonly onPartial?: (partial: unknown) => void;
+  readonly signal?: AbortSignal;
 }
 
 export interface PromptWorkbenchResult<T extends EntityType> {
@@ -82,12 +91,15 @@ const GENERATION_METHOD_MAP: Record<EntityType, keyof NonNullable<Game["handyDan
 const DEFAULT_IMPORTERS: Partial<ImporterMap> = {
   action: async (json, options) => importAction(json, options),
   item: async (json, options) => importItem(json, options),
-  actor: async (json, options) => importActor(json, { ...options, createNew: true }),
+  actor: async (json, options) => recordGeneratedLoot(await importActor(json, { ...options, createNew: true })),
 };
 
 interface BoundGenerationOptions {
   readonly seed?: number;
+  readonly temperature?: number;
   readonly onProgress?: (update: GenerationProgressUpdate) => void;
+  readonly onPartial?: (partial: unknown) => void;
+  readonly signal?: AbortSignal;
 }
 
 export async function generateWorkbenchEntry<T extends EntityType>(
@@ -103,6 +115,7 @@ export async function generateWorkbenchEntry<T extends EntityType>(
     actorType,
     level,
     seed,
+    temperature,
     packId,
     folderId,
     dependencies = {},
@@ -112,15 +125,18 @@ export async function generateWorkbenchEntry<T extends EntityType>(
     includeInventory,
     includeOfficialContent,
     includeGeneratedContent,
+    hazardComplexity,
+    featCategory,
     generateTokenImage,
     tokenPrompt,
     generateItemImage,
     itemImagePrompt,
     onProgress,
+    onPartial,
+    signal,
   } = request;
 
   const generator = resolveGenerator(type, dependencies.generators);
-  const importer = maybeResolveImporter(type, dependencies.importers);
   const input = buildPromptInput(type, {
     systemId,
     entryName,
@@ -135,22 +151,71 @@ export async function generateWorkbenchEntry<T extends EntityType>(
     includeInventory,
     includeOfficialContent,
     includeGeneratedContent,
+    hazardComplexity,
+    featCategory,
     generateTokenImage,
     tokenPrompt,
     generateItemImage,
     itemImagePrompt,
   });
 
-  const data = await generator(input, { seed, onProgress });
-  const resolvedName = data.name.trim() || inferInputName(type, input);
+  const data = await generator(input, { seed, temperature, onProgress, onPartial, signal });
+  return createWorkbenchResult({ type, packId, folderId, dependencies }, input, data);
+}
+
+export const MAX_WORKBENCH_VARIANTS = 4;
+
+const VARIANT_TEMPERATURE_STEP = 0.3;
+const MAX_VARIANT_TEMPERATURE = 1.2;
+
+export interface PromptWorkbenchVariant<T extends EntityType> {
+  readonly seed: number;
+  readonly temperature: number;
+  readonly result: PromptWorkbenchResult<T>;
+}
+
+/**
+ * Runs the same request once per variant. The first take uses the configured temperature and each later one samples
+ * hotter, since most providers ignore the seed; the seed still steps so providers that honour it stay reproducible.
+ * Variants run one after another so the loading dialog can stream each in turn and a cancel stops the rest.
+ */
+export async function generateWorkbenchVariants<T extends EntityType>(
+  request: PromptWorkbenchRequest<T>,
+  count: number,
+  onVariantStart?: (index: number, seed: number, temperature: number) => void,
+): Promise<PromptWorkbenchVariant<T>[]> {
+  const total = Math.max(1, Math.min(MAX_WORKBENCH_VARIANTS, Math.trunc(count)));
+  const baseSeed = request.seed ?? DEFAULT_GENERATION_SEED;
+  const baseTemperature = request.temperature ?? readOpenRouterSettings().temperature;
+  const temperatureCap = Math.max(baseTemperature, MAX_VARIANT_TEMPERATURE);
+  const variants: PromptWorkbenchVariant<T>[] = [];
+
+  for (let index = 0; index < total; index += 1) {
+    const seed = baseSeed + index;
+    const stepped = Math.min(baseTemperature + index * VARIANT_TEMPERATURE_STEP, temperatureCap);
+    const temperature = Math.round(stepped * 100) / 100;
+    onVariantStart?.(index, seed, temperature);
+    variants.push({ seed, temperature, result: await generateWorkbenchEntry({ ...request, seed, temperature }) });
+  }
 
+  return variants;
+}
+
+/** Wraps generated data with the importer the request would have used, e.g. for a merged set of variants. */
+export function createWorkbenchResult<T extends EntityType>(
+  request: Pick<PromptWorkbenchRequest<T>, "type" | "packId" | "folderId" | "dependencies">,
+  input: PromptInputMap[T],
+  data: GeneratedEntityMap[T],
+): PromptWorkbenchResult<T> {
+  const { type, packId, folderId, dependencies = {} } = request;
+  const importer = maybeResolveImporter(type, dependencies.importers);
   const importerFn = importer
     ? (options?: ImporterOptions) => importer(data, { packId, folderId, ...options })
     : undefined;
 
   return {
     type,
-    name: resolvedName,
+    name: data.name.trim() || inferInputName(type, input),
     data,
     input,
     importer: importerFn,
@@ -175,6 +240,8 @@ function buildPromptInput<T extends EntityType>(
     includeInventory?: boolean;
     includeOfficialContent?: boolean;
     includeGeneratedContent?: boolean;
+    hazardComplexity?: HazardComplexity;
+    featCategory?: FeatCategory;
     generateTokenImage?: boolean;
     tokenPrompt?: string;
     generateItemImage?: boolean;
@@ -193,6 +260,8 @@ function buildPromptInput<T extends EntityType>(
     includeInventory,
     includeOfficialContent,
     includeGeneratedContent,
+    hazardComplexity,
+    featCategory,
     generateTokenImage,
     tokenPrompt,
     generateItemImage,
@@ -220,6 +289,8 @@ function buildPromptInput<T extends EntityType>(
         referenceText,
         slug,
         itemType,
+        level,
+        featCategory: itemType === "feat" ? featCategory : undefined,
         img: itemImg,
         generateItemImage,
         itemImagePrompt,
@@ -239,6 +310,7 @@ function buildPromptInput<T extends EntityType>(
         includeInventory,
         includeOfficialContent,
         includeGeneratedContent,
+        hazardComplexity: actorType === "hazard" ? hazardComplexity : undefined,
         generateTokenImage,
         tokenPrompt,
       } satisfies ActorPromptInput as PromptInputMap[T];
@@ -0,0 +1,247 @@
+export type RemixChangeKind = "added" | "removed" | "changed";
+
+export interface RemixChange {
+  /** Stable path id such as `attributes.hp.max` or `strikes[claw]`, used to accept or reject the change. */
+  readonly id: string;
+  /** Top-level field the change belongs to, for grouping. */
+  readonly section: string;
+  readonly label: string;
+  readonly kind: RemixChangeKind;
+  readonly before: string;
+  readonly after: string;
+}
+
+const SUMMARY_LIMIT = 160;
+
+// Entries of these lists are reviewed field by field so one spell can be accepted without the whole entry.
+const NESTED_ENTRY_FIELDS = new Set(["spellcasting"]);
+
+// Bookkeeping fields that never differ meaningfully between a sheet and its remix.
+const IGNORED_FIELDS = new Set(["schema_version", "systemId", "type"]);
+
+const FIELD_LABELS: Record<string, string> = {
+  actorType: "Actor Type",
+  itemType: "Item Type",
+  actionType: "Action Cost",
+  hp: "HP",
+  ac: "AC",
+  img: "Image",
+  recallKnowledge: "Recall Knowledge",
+  spellcasting: "Spellcasting",
+  attackBonus: "Attack Bonus",
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+const isPrimitive = (value: unknown): value is string | number | boolean =>
+  typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+
+function isEqual(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+}
+
+function formatFieldLabel(key: string): string {
+  const known = FIELD_LABELS[key];
+  if (known) {
+    return known;
+  }
+
+  const spaced = key.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/[_-]+/g, " ");
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+function entryName(entry: Record<string, unknown>): string {
+  for (const key of ["name", "slug", "id"]) {
+    const value = entry[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+  }
+  return "";
+}
+
+/** Lists whose entries can be matched between versions: named records or plain values. */
+function isKeyedList(value: unknown): value is unknown[] {
+  return Array.isArray(value) && value.every((entry) => isPrimitive(entry) || (isRecord(entry) && entryName(entry)));
+}
+
+function keyEntries(list: readonly unknown[]): Map<string, unknown> {
+  const entries = new Map<string, unknown>();
+  for (const entry of list) {
+    const base = isRecord(entry)
+      ? (typeof entry.slug === "string" && entry.slug.trim() ? entry.slug : entryName(entry)).trim().toLowerCase()
+      : String(entry).trim().toLowerCase();
+    let key = base;
+    for (let suffix = 2; entries.has(key); suffix += 1) {
+      key = `${base}#${suffix}`;
+    }
+    entries.set(key, entry);
+  }
+  return entries;
+}
+
+function summarize(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    return "";
+  }
+  if (isPrimitive(value)) {
+    const text = String(value).replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+    return text.length > SUMMARY_LIMIT ? `${text.slice(0, SUMMARY_LIMIT).trimEnd()}…` : text;
+  }
+  if (Array.isArray(value)) {
+    return value.every(isPrimitive) ? summarize(value.join(", ")) : `${value.length} entries`;
+  }
+  if (isRecord(value)) {
+    const name = entryName(value);
+    const json = JSON.stringify(value);
+    const detail = json.length > SUMMARY_LIMIT ? `${json.slice(0, SUMMARY_LIMIT)}…` : json;
+    return name ? `${name} — ${detail}` : detail;
+  }
+  return String(value);
+}
+
+interface DiffContext {
+  readonly id: string;
+  readonly section: string;
+  readonly label: string;
+  readonly nested: boolean;
+}
+
+function childContext(context: DiffContext | null, key: string, label: string, bracket = false): DiffContext {
+  if (!context) {
+    return { id: key, section: key, label, nested: NESTED_ENTRY_FIELDS.has(key) };
+  }
+  return {
+    id: bracket ? `${context.id}[${key}]` : `${context.id}.${key}`,
+    section: context.section,
+    label: `${context.label} › ${label}`,
+    nested: bracket ? false : context.nested,
+  };
+}
+
+function collectChanges(before: unknown, after: unknown, context: DiffContext, changes: RemixChange[]): void {
+  if (isEqual(before, after)) {
+    return;
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      collectChanges(before[key], after[key], childContext(context, key, formatFieldLabel(key)), changes);
+    }
+    return;
+  }
+
+  if (isKeyedList(before) && isKeyedList(after)) {
+    const beforeEntries = keyEntries(before);
+    const afterEntries = keyEntries(after);
+    for (const key of new Set([...beforeEntries.keys(), ...afterEntries.keys()])) {
+      const previous = beforeEntries.get(key);
+      const next = afterEntries.get(key);
+      const name = isRecord(next ?? previous) ? entryName((next ?? previous) as Record<string, unknown>) : String(next ?? previous);
+      const entryContext = childContext(context, key, name, true);
+      if (previous !== undefined && next !== undefined && context.nested && isRecord(previous) && isRecord(next)) {
+        collectChanges(previous, next, entryContext, changes);
+      } else {
+        collectLeafChange(previous, next, entryContext, changes);
+      }
+    }
+    return;
+  }
+
+  collectLeafChange(before, after, context, changes);
+}
+
+function collectLeafChange(before: unknown, after: unknown, context: DiffContext, changes: RemixChange[]): void {
+  if (isEqual(before, after)) {
+    return;
+  }
+
+  changes.push({
+    id: context.id,
+    section: context.section,
+    label: context.label,
+    kind: before === undefined ? "added" : after === undefined ? "removed" : "changed",
+    before: summarize(before),
+    after: summarize(after),
+  });
+}
+
+/**
+ * Field-level differences between two canonical documents (`ActorSchemaData`, `ItemSchemaData`). Named lists such as
+ * strikes, actions and inventory are matched by slug or name, so each added, removed or edited entry is its own change.
+ */
+export function diffCanonicalDocuments(before: object, after: object): RemixChange[] {
+  const changes: RemixChange[] = [];
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (IGNORED_FIELDS.has(key)) {
+      continue;
+    }
+    collectChanges(previous[key], next[key], childContext(null, key, formatFieldLabel(key)), changes);
+  }
+  return changes;
+}
+
+function resolveValue(before: unknown, after: unknown, context: DiffContext, accepted: ReadonlySet<string>): unknown {
+  if (isEqual(before, after)) {
+    return after;
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    const result: Record<string, unknown> = {};
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const value = resolveValue(before[key], after[key], childContext(context, key, key), accepted);
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  if (isKeyedList(before) && isKeyedList(after)) {
+    const beforeEntries = keyEntries(before);
+    const afterEntries = keyEntries(after);
+    const result: unknown[] = [];
+    for (const [key, next] of afterEntries) {
+      const previous = beforeEntries.get(key);
+      const entryContext = childContext(context, key, key, true);
+      const value = previous !== undefined && context.nested && isRecord(previous) && isRecord(next)
+        ? resolveValue(previous, next, entryContext, accepted)
+        : accepted.has(entryContext.id) || isEqual(previous, next) ? next : previous;
+      if (value !== undefined) {
+        result.push(value);
+      }
+    }
+    // Removals the GM rejected keep their original entry, after the remixed list.
+    for (const [key, previous] of beforeEntries) {
+      if (!afterEntries.has(key) && !accepted.has(childContext(context, key, key, true).id)) {
+        result.push(previous);
+      }
+    }
+    return result;
+  }
+
+  return accepted.has(context.id) ? after : before;
+}
+
+/**
+ * Starts from `before` and applies only the accepted change ids from {@link diffCanonicalDocuments}. Callers should
+ * validate the result again, since a partial selection can combine fields that were generated together.
+ */
+export function applyAcceptedChanges<T extends object>(before: T, after: T, accepted: ReadonlySet<string>): T {
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    const value = IGNORED_FIELDS.has(key)
+      ? next[key] ?? previous[key]
+      : resolveValue(previous[key], next[key], childContext(null, key, key), accepted);
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result as T;
+}
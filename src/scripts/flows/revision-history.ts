@@ -0,0 +1,200 @@
+import { CONSTANTS } from "../constants";
+
+export const REVISION_FLAG_KEY = "revisions" as const;
+/**
+ * Each revision is a full document source, embedded items included, stored on the document itself and sent to every
+ * client with each update, so only the last few are kept.
+ */
+export const REVISION_LIMIT = 3;
+
+export type RevisionDocument = Actor | Item;
+
+export interface DocumentRevision {
+  id: string;
+  timestamp: number;
+  /** What was about to change the document, e.g. "NPC remix". */
+  label: string;
+  userName: string;
+  /** Document source from before the write, without its own revision list. */
+  source: Record<string, unknown>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+function clone<T>(value: T): T {
+  const utils = foundry.utils as { deepClone?: <U>(input: U) => U };
+  if (typeof utils.deepClone === "function") {
+    return utils.deepClone(value);
+  }
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function createRevisionId(): string {
+  const utils = foundry.utils as { randomID?: () => string };
+  return typeof utils.randomID === "function"
+    ? utils.randomID()
+    : `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function stripRevisionFlags(source: Record<string, unknown>): void {
+  const flags = isRecord(source.flags) ? source.flags : null;
+  const moduleFlags = flags && isRecord(flags[CONSTANTS.MODULE_ID]) ? flags[CONSTANTS.MODULE_ID] as Record<string, unknown> : null;
+  if (moduleFlags) {
+    delete moduleFlags[REVISION_FLAG_KEY];
+  }
+
+  if (Array.isArray(source.items)) {
+    for (const item of source.items) {
+      if (isRecord(item)) {
+        stripRevisionFlags(item);
+      }
+    }
+  }
+}
+
+function snapshotSource(document: RevisionDocument): Record<string, unknown> {
+  const source = clone(document.toObject() as unknown as Record<string, unknown>);
+  stripRevisionFlags(source);
+  return source;
+}
+
+function normalizeRevision(value: unknown): DocumentRevision | null {
+  if (!isRecord(value) || typeof value.id !== "string" || !isRecord(value.source)) {
+    return null;
+  }
+
+  return {
+    id: value.id,
+    timestamp: typeof value.timestamp === "number" ? value.timestamp : 0,
+    label: typeof value.label === "string" ? value.label : "AI update",
+    userName: typeof value.userName === "string" ? value.userName : "",
+    source: value.source,
+  };
+}
+
+/** Revisions for a document, newest first. */
+export function readRevisions(document: RevisionDocument): DocumentRevision[] {
+  try {
+    const stored = document.getFlag(CONSTANTS.MODULE_ID, REVISION_FLAG_KEY);
+    return (Array.isArray(stored) ? stored : [])
+      .map((entry) => normalizeRevision(entry))
+      .filter((entry): entry is DocumentRevision => Boolean(entry));
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to read revisions for ${document.name}`, error);
+    return [];
+  }
+}
+
+function buildRevisionList(document: RevisionDocument, label: string): DocumentRevision[] {
+  const revision: DocumentRevision = {
+    id: createRevisionId(),
+    timestamp: Date.now(),
+    label,
+    userName: game.user?.name ?? "",
+    source: snapshotSource(document),
+  };
+  return [revision, ...readRevisions(document)].slice(0, REVISION_LIMIT);
+}
+
+/**
+ * Snapshots the document before an AI-driven write. Call it after every AI request has finished, right before the
+ * update, so cancelled or failed generations do not leave empty revisions behind. Failing to snapshot never blocks the
+ * write itself.
+ */
+export async function recordRevision(document: RevisionDocument, label: string): Promise<void> {
+  try {
+    await document.setFlag(CONSTANTS.MODULE_ID, REVISION_FLAG_KEY, buildRevisionList(document, label));
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to record revision for ${document.name}`, error);
+  }
+}
+
+export async function deleteRevision(document: RevisionDocument, revisionId: string): Promise<void> {
+  const remaining = readRevisions(document).filter((revision) => revision.id !== revisionId);
+  await document.setFlag(CONSTANTS.MODULE_ID, REVISION_FLAG_KEY, remaining);
+}
+
+function collectEmbeddedIds(collection: unknown): string[] {
+  const contents = (collection as { contents?: unknown[] } | undefined)?.contents
+    ?? (Array.isArray(collection) ? collection : []);
+  return contents
+    .map((entry) => (entry as { id?: unknown }).id)
+    .filter((id): id is string => typeof id === "string" && id.length > 0);
+}
+
+async function replaceEmbedded(
+  document: Actor,
+  embeddedName: "Item" | "ActiveEffect",
+  collection: unknown,
+  sources: unknown,
+): Promise<void> {
+  const ids = collectEmbeddedIds(collection);
+  if (ids.length) {
+    await document.deleteEmbeddedDocuments(embeddedName, ids);
+  }
+
+  const payload = Array.isArray(sources) ? clone(sources) : [];
+  if (payload.length) {
+    await document.createEmbeddedDocuments(embeddedName, payload as any[], { keepId: true } as any);
+  }
+}
+
+async function applyRevisionSource(
+  document: RevisionDocument,
+  snapshot: Record<string, unknown>,
+  revisions: DocumentRevision[],
+): Promise<void> {
+  const source = clone(snapshot);
+  const { items, effects } = source;
+  delete source._id;
+  delete source.items;
+  delete source.effects;
+  delete source._stats;
+
+  const flags = isRecord(source.flags) ? source.flags : {};
+  const moduleFlags = isRecord(flags[CONSTANTS.MODULE_ID]) ? flags[CONSTANTS.MODULE_ID] as Record<string, unknown> : {};
+  source.flags = { ...flags, [CONSTANTS.MODULE_ID]: { ...moduleFlags, [REVISION_FLAG_KEY]: revisions } };
+
+  // recursive: false replaces system data wholesale, so fields the AI added are removed rather than merged.
+  await document.update(source as any, { diff: false, recursive: false } as any);
+
+  if (document instanceof Actor) {
+    await replaceEmbedded(document, "Item", document.items, items);
+    await replaceEmbedded(document, "ActiveEffect", document.effects, effects);
+  }
+}
+
+/**
+ * Puts a document back to a stored revision. The current state is snapshotted first, so a restore can itself be
+ * undone from the same list. Embedded documents are replaced in separate requests; if any of them fails, the
+ * snapshot is applied again so the document is not left half restored or without its items.
+ */
+export async function restoreRevision(document: RevisionDocument, revisionId: string): Promise<void> {
+  const revision = readRevisions(document).find((entry) => entry.id === revisionId);
+  if (!revision) {
+    throw new Error("That revision no longer exists.");
+  }
+
+  const revisions = buildRevisionList(document, `Before restoring ${new Date(revision.timestamp).toLocaleString()}`);
+  const [before] = revisions;
+  try {
+    await applyRevisionSource(document, revision.source, revisions);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${CONSTANTS.MODULE_NAME} | Failed to restore revision; putting ${document.name} back`, error);
+    try {
+      await applyRevisionSource(document, before.source, revisions);
+    } catch (rollbackError) {
+      console.error(
+        `${CONSTANTS.MODULE_NAME} | Failed to put ${document.name} back after a failed restore`,
+        rollbackError,
+      );
+      throw new Error(
+        `${message} ${document.name} could not be put back either; restore "${before.label}" to recover it.`,
+      );
+    }
+    throw new Error(`${message} ${document.name} was put back as it was before the restore.`);
+  }
+}
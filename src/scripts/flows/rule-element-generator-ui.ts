@@ -1,5 +1,4 @@
 import { CONSTANTS } from "../constants";
-import { DEFAULT_GENERATION_SEED } from "../generation";
 import { readOpenRouterSettings } from "../openrouter/client";
 import { openDialog, waitForDialog, type OpenDialogHandle } from "../foundry/dialog";
 import { renderApplicationTemplate } from "../foundry/templates";
@@ -110,7 +109,7 @@ function sanitizeRequest(response: RuleElementGeneratorFormResponse): RuleElemen
 
 async function promptRuleElementGenerationRequest(): Promise<RuleElementGenerationRequest | null> {
   const settings = readOpenRouterSettings();
-  const defaultSeed = typeof settings.seed === "number" ? settings.seed : DEFAULT_GENERATION_SEED;
+  const defaultSeed = typeof settings.seed === "number" ? settings.seed : null;
   const content = await renderApplicationTemplate(RULE_ELEMENT_GENERATOR_REQUEST_TEMPLATE, {
     connected: Boolean(game.handyDandy?.openRouterClient),
     textModel: settings.model,
@@ -54,6 +54,7 @@ export interface RuleElementGenerationRequest {
   contextJson?: string;
   constraints?: string;
   seed?: number;
+  signal?: AbortSignal;
 }
 
 type RuleElementRecord = {
@@ -230,7 +231,7 @@ export async function generateRuleElements(
     openRouterClient,
     prompt,
     RULE_ELEMENT_GENERATION_SCHEMA,
-    { seed: request.seed },
+    { seed: request.seed, usageFlow: "rules", signal: request.signal },
   );
 
   return normalizeRuleElementGenerationResult(raw);
@@ -0,0 +1,1285 @@
+import { CONSTANTS } from "../constants";
+import { waitForDialog } from "../foundry/dialog";
+import {
+  getRuneKindLabel,
+  getRuneKindsForItemType,
+  PROPERTY_RUNE_KIND,
+  supportsPropertyRunes,
+} from "./rune-kinds";
+import {
+  asRecord,
+  buildRuneSource,
+  buildRuneUpdate,
+  type CrafterInsight,
+  type CrafterOption,
+  type CraftingOutcome,
+  describeRuneKey,
+  escapeHtml,
+  extractItemRuneState,
+  formatGp,
+  getCrafterInsight,
+  getItemQuantity,
+  getItemType,
+  getPayerAvailableCopper,
+  getPayerInventory,
+  getPropertyRuneBase,
+  getPropertyRuneSlots,
+  getRuneCatalog,
+  getTransferRuneDc,
+  gpToCopper,
+  humanizeRuneSlug,
+  isCharacterActor,
+  isFailureOutcome,
+  isRuneItem,
+  isSuccessfulOutcome,
+  type ItemRuneState,
+  listItemRuneKeys,
+  type PayerOption,
+  resolveCrafterOptions,
+  resolveDroppedItem,
+  resolvePayerOptions,
+  resolveRunestoneRuneKey,
+  rollTransferRuneCheck,
+  roundGp,
+  type RuneKind,
+  toNumber,
+  type UnknownRecord,
+} from "./rune-transfer";
+import { recordTreasureTransaction } from "./treasure-ledger";
+
+import appv1 = foundry.appv1;
+
+const RUNE_ETCHER_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/rune-etcher.hbs`;
+
+/** Runestone mode consumes dropped runestones; swap mode moves runes straight off a source item. */
+type RuneEtchMode = "runestone" | "swap";
+
+interface EtchItem {
+  uuid: string;
+  document: Item;
+  name: string;
+  itemType: string;
+  itemTypeLabel: string;
+  actorName: string;
+  quantity: number;
+  isRanged: boolean;
+  runes: ItemRuneState;
+}
+
+interface EtchRuneSelection {
+  entryKey: string;
+  sourceUuid: string;
+  sourceName: string;
+  actorName: string;
+  kind: RuneKind;
+  key: string;
+  value: number;
+  itemTypes: readonly string[] | null;
+  name: string;
+  usage: string;
+  level: number;
+  transferDc: number;
+  priceGp: number;
+  transferCostGp: number;
+  attempts: number;
+  succeeded: boolean;
+  failureCount: number;
+  criticalFailureCount: number;
+  lastOutcome: CraftingOutcome | null;
+  lastRollTotal: number | null;
+}
+
+interface RuneEtcherViewEntry {
+  entryKey: string;
+  sourceName: string;
+  actorName: string;
+  runeName: string;
+  kindLabel: string;
+  usageLabel: string;
+  craftingDcLabel: string;
+  craftingStatusLabel: string;
+  transferCostLabel: string;
+  hasRollButton: boolean;
+}
+
+interface RuneEtcherItemView {
+  name: string;
+  itemTypeLabel: string;
+  actorName: string;
+  quantityLabel: string;
+  runeSummary: string;
+  slotLabel: string;
+  effectSummary: string;
+}
+
+interface RuneEtcherViewData {
+  isSwapMode: boolean;
+  source: RuneEtcherItemView | null;
+  target: RuneEtcherItemView | null;
+  entries: RuneEtcherViewEntry[];
+  hasEntries: boolean;
+  payerOptions: PayerOption[];
+  hasPayerOptions: boolean;
+  selectedPayerName: string;
+  selectedPayerFundsLabel: string;
+  crafterOptions: CrafterOption[];
+  hasCrafterOptions: boolean;
+  selectedCrafterName: string;
+  selectedCrafterModifierLabel: string;
+  selectedCrafterAssuranceLabel: string;
+  selectedCrafterFeatSummary: string;
+  craftingRulesSummary: string;
+  totals: {
+    runeCount: number;
+    minimumDays: number;
+    retryDays: number;
+    transferCostLabel: string;
+    lostMaterialsLabel: string;
+    grandTotalLabel: string;
+  };
+  blockingIssues: string[];
+  hasBlockingIssues: boolean;
+  canConfirm: boolean;
+  isBusy: boolean;
+}
+
+interface EtchTotals {
+  runeCount: number;
+  minimumDays: number;
+  retryDays: number;
+  transferCostGp: number;
+  lostMaterialsGp: number;
+  grandTotalGp: number;
+}
+
+type ExecutedEtchStep =
+  | { type: "item-update"; document: Item; originalRunes: ItemRuneState }
+  | { type: "item-split"; document: Item; originalQuantity: number; splitItemUuid: string }
+  | { type: "runestone-update"; document: Item; originalQuantity: number }
+  | { type: "runestone-delete"; name: string; parent: Actor | null; source: UnknownRecord };
+
+let runeEtcherApp: RuneEtcherApplication | null = null;
+
+function isEtchableItem(item: Item | null | undefined): item is Item {
+  return isRuneItem(item);
+}
+
+function isRangedWeapon(item: Item): boolean {
+  const system = asRecord((item as unknown as { system?: unknown }).system);
+  const range = toNumber(system?.["range"]);
+  const traits = asRecord(system?.["traits"])?.["value"];
+  const thrown = Array.isArray(traits) && traits.some((trait) => typeof trait === "string" && trait.startsWith("thrown"));
+  return typeof range === "number" && range > 0 && !thrown;
+}
+
+function buildTarget(item: Item): EtchItem | null {
+  if (!isEtchableItem(item) || !item.uuid) {
+    return null;
+  }
+
+  const itemType = getItemType(item);
+  return {
+    uuid: item.uuid,
+    document: item,
+    name: item.name ?? "Unnamed Item",
+    itemType,
+    itemTypeLabel: itemType.charAt(0).toUpperCase() + itemType.slice(1),
+    actorName: item.actor?.name?.trim() || "World Item Directory",
+    quantity: getItemQuantity(item),
+    isRanged: itemType === "weapon" && isRangedWeapon(item),
+    runes: extractItemRuneState(item),
+  };
+}
+
+function summarizeRunes(itemType: string, runes: ItemRuneState): string {
+  const parts: string[] = [];
+  for (const kind of getRuneKindsForItemType(itemType)) {
+    const value = runes.fundamentals[kind.id] ?? 0;
+    const key = kind.keyForValue(value, itemType);
+    if (key) {
+      parts.push(kind.id === "potency" ? `+${value}` : humanizeRuneSlug(key));
+    }
+  }
+  parts.push(...runes.property.map((slug) => humanizeRuneSlug(slug)));
+  return parts.length > 0 ? parts.join(", ") : "No runes";
+}
+
+function applyEtchedRunes(runes: ItemRuneState, selections: readonly EtchRuneSelection[]): ItemRuneState {
+  const next: ItemRuneState = { fundamentals: { ...runes.fundamentals }, property: [...runes.property] };
+  for (const rune of selections) {
+    if (rune.kind === PROPERTY_RUNE_KIND) {
+      next.property.push(rune.key);
+    } else {
+      next.fundamentals[rune.kind] = rune.value;
+    }
+  }
+  return next;
+}
+
+function describeRuneEffects(item: EtchItem, after: ItemRuneState): string {
+  return getRuneKindsForItemType(item.itemType)
+    .map((kind) => kind.describeChange?.(
+      item.document,
+      item.runes.fundamentals[kind.id] ?? 0,
+      after.fundamentals[kind.id] ?? 0,
+    ) ?? null)
+    .filter((effect): effect is string => Boolean(effect))
+    .join("; ");
+}
+
+function toItemView(item: EtchItem, after: ItemRuneState): RuneEtcherItemView {
+  return {
+    name: item.name,
+    itemTypeLabel: item.itemTypeLabel,
+    actorName: item.actorName,
+    quantityLabel: item.quantity > 1 ? `1 of ${item.quantity}` : "x1",
+    runeSummary: `${summarizeRunes(item.itemType, item.runes)} -> ${summarizeRunes(item.itemType, after)}`,
+    slotLabel: supportsPropertyRunes(item.itemType)
+      ? `${after.property.length}/${getPropertyRuneSlots(item.itemType, after)} property slot(s) used`
+      : "",
+    effectSummary: describeRuneEffects(item, after),
+  };
+}
+
+function pluralizeItemType(itemType: string): string {
+  return itemType === "armor" ? "armor" : `${itemType}s`;
+}
+
+function getCompatibilityIssue(target: EtchItem, rune: EtchRuneSelection): string | null {
+  const typeLabel = pluralizeItemType(target.itemType);
+  if (rune.itemTypes) {
+    return rune.itemTypes.includes(target.itemType)
+      ? null
+      : `${rune.name} is a ${rune.itemTypes.join("/")} rune and cannot be etched onto ${typeLabel}.`;
+  }
+
+  if (!supportsPropertyRunes(target.itemType)) {
+    return `${rune.name} is a property rune; ${typeLabel} have no property rune slots.`;
+  }
+
+  const usage = rune.usage.toLowerCase();
+  if (!usage.includes(target.itemType)) {
+    return `${rune.name} is etched onto ${humanizeRuneSlug(rune.usage).toLowerCase()} and cannot be etched onto ${typeLabel}.`;
+  }
+  if (target.itemType === "weapon" && usage.includes("melee") && target.isRanged) {
+    return `${rune.name} requires a melee weapon; ${target.name} is a ranged weapon.`;
+  }
+  if (target.itemType === "weapon" && usage.includes("ranged") && !target.isRanged) {
+    return `${rune.name} requires a ranged weapon; ${target.name} is a melee weapon.`;
+  }
+
+  return null;
+}
+
+/**
+ * Checks the queued runes against the target's current runes: compatibility with the item type, fundamental runes
+ * that only upgrade (a higher rune overwrites the lower one), property slots capped by the resulting potency rune,
+ * and no two grades of the same property rune.
+ */
+function validateEtchPlan(target: EtchItem, runes: readonly EtchRuneSelection[]): string[] {
+  const issues: string[] = [];
+
+  for (const rune of runes) {
+    const issue = getCompatibilityIssue(target, rune);
+    if (issue) {
+      issues.push(issue);
+    }
+  }
+
+  for (const kind of getRuneKindsForItemType(target.itemType)) {
+    const current = target.runes.fundamentals[kind.id] ?? 0;
+    const queued = runes.filter((rune) => rune.kind === kind.id);
+    if (queued.length > 1) {
+      issues.push(`Only one ${kind.label.toLowerCase()} rune can be transferred at a time.`);
+    }
+    if (queued.length > 0 && queued[0].value <= current) {
+      issues.push(
+        `${target.name} already has an equal or stronger ${kind.label.toLowerCase()} rune than ${queued[0].name}.`,
+      );
+    }
+  }
+
+  const result = applyEtchedRunes(target.runes, runes);
+  const slots = getPropertyRuneSlots(target.itemType, result);
+  if (result.property.length > slots) {
+    issues.push(
+      `${target.name} would carry ${result.property.length} property rune(s) but only has ` +
+        `${slots} slot(s) from its potency rune.`,
+    );
+  }
+
+  const seen = new Map<string, string>();
+  for (const slug of target.runes.property) {
+    seen.set(getPropertyRuneBase(slug), humanizeRuneSlug(slug));
+  }
+  for (const rune of runes.filter((entry) => entry.kind === PROPERTY_RUNE_KIND)) {
+    const base = getPropertyRuneBase(rune.key);
+    const existing = seen.get(base);
+    if (existing) {
+      issues.push(`${rune.name} duplicates ${existing}; an item cannot carry the same property rune twice.`);
+      continue;
+    }
+    seen.set(base, rune.name);
+  }
+
+  return issues;
+}
+
+function removeRunes(runes: ItemRuneState, selections: readonly EtchRuneSelection[]): ItemRuneState {
+  const moved = new Set(selections.map((rune) => rune.kind));
+  const movedProperty = new Set(
+    selections.filter((rune) => rune.kind === PROPERTY_RUNE_KIND).map((rune) => rune.key),
+  );
+  return {
+    fundamentals: Object.fromEntries(
+      Object.entries(runes.fundamentals).map(([kind, value]) => [kind, moved.has(kind) ? 0 : value]),
+    ),
+    property: runes.property.filter((slug) => !movedProperty.has(slug)),
+  };
+}
+
+/** Swap-mode checks on top of {@link validateEtchPlan}: the source must keep enough potency for the runes it keeps. */
+function validateSwapPlan(source: EtchItem, target: EtchItem, runes: readonly EtchRuneSelection[]): string[] {
+  const issues: string[] = [];
+  if (source.uuid === target.uuid) {
+    issues.push("Pick two different items to swap runes between.");
+  }
+
+  issues.push(...validateEtchPlan(target, runes));
+
+  const remaining = removeRunes(source.runes, runes);
+  if (remaining.property.length > getPropertyRuneSlots(source.itemType, remaining)) {
+    issues.push(
+      `${source.name} would keep ${remaining.property.length} property rune(s) without a potency rune to hold them. ` +
+        `Move those runes too or leave the potency rune in place.`,
+    );
+  }
+
+  return issues;
+}
+
+function pickCheckProgress(rune: EtchRuneSelection): Pick<
+  EtchRuneSelection,
+  "attempts" | "succeeded" | "failureCount" | "criticalFailureCount" | "lastOutcome" | "lastRollTotal"
+> {
+  return {
+    attempts: rune.attempts,
+    succeeded: rune.succeeded,
+    failureCount: rune.failureCount,
+    criticalFailureCount: rune.criticalFailureCount,
+    lastOutcome: rune.lastOutcome,
+    lastRollTotal: rune.lastRollTotal,
+  };
+}
+
+function isAssuranceSuccess(rune: EtchRuneSelection, crafterInsight: CrafterInsight): boolean {
+  return (
+    crafterInsight.hasCraftingSkill &&
+    crafterInsight.hasAssuranceCrafting &&
+    typeof crafterInsight.assuranceTotal === "number" &&
+    crafterInsight.assuranceTotal >= rune.transferDc
+  );
+}
+
+function isRunePending(rune: EtchRuneSelection, crafterInsight: CrafterInsight): boolean {
+  return !rune.succeeded && !isAssuranceSuccess(rune, crafterInsight);
+}
+
+function computeTotals(runes: readonly EtchRuneSelection[]): EtchTotals {
+  const transferCostGp = roundGp(runes.reduce((sum, rune) => sum + rune.transferCostGp, 0));
+  const lostMaterialsGp = roundGp(
+    runes.reduce((sum, rune) => sum + rune.transferCostGp * rune.criticalFailureCount * 0.1, 0),
+  );
+
+  return {
+    runeCount: runes.length,
+    minimumDays: runes.length,
+    retryDays: runes.reduce((sum, rune) => sum + rune.failureCount + rune.criticalFailureCount, 0),
+    transferCostGp,
+    lostMaterialsGp,
+    grandTotalGp: roundGp(transferCostGp + lostMaterialsGp),
+  };
+}
+
+class RuneEtcherApplication extends appv1.api.FormApplication {
+  #mode: RuneEtchMode = "runestone";
+  #source: EtchItem | null = null;
+  #target: EtchItem | null = null;
+  #runes: EtchRuneSelection[] = [];
+  #unresolved: string[] = [];
+  /** Swap-mode runes the user removed from the list, kept out when the source is rebuilt. */
+  #excludedSwapKeys = new Set<string>();
+  #payerActorId: string | null = null;
+  #crafterActorId: string | null = null;
+  #busy = false;
+
+  constructor(options?: Partial<appv1.api.FormApplication.Options>) {
+    super(undefined, options);
+  }
+
+  static override get defaultOptions(): appv1.api.FormApplication.Options {
+    return foundry.utils.mergeObject(super.defaultOptions, {
+      id: "handy-dandy-rune-etcher",
+      title: "Handy Dandy | Rune Etcher",
+      template: RUNE_ETCHER_TEMPLATE,
+      width: 860,
+      height: 720,
+      resizable: true,
+      closeOnSubmit: false,
+      submitOnChange: false,
+      classes: ["handy-dandy", "rune-etcher"],
+    });
+  }
+
+  override async getData(): Promise<RuneEtcherViewData> {
+    const totals = computeTotals(this.#runes);
+    const payerOptions = this.#resolvePayerOptions();
+    const selectedPayer = this.#getSelectedPayerActor();
+    const availableCopper = getPayerAvailableCopper(selectedPayer);
+    const crafterOptions = this.#resolveCrafterOptions();
+    const crafterInsight = getCrafterInsight(this.#getSelectedCrafterActor());
+    const canRoll =
+      !this.#busy &&
+      !!crafterInsight.actor &&
+      crafterInsight.hasCraftingSkill &&
+      crafterInsight.hasMagicalCrafting;
+
+    const entries = this.#runes.map((rune): RuneEtcherViewEntry => {
+      let craftingStatusLabel = "Pending check";
+      if (rune.succeeded) {
+        craftingStatusLabel = `Success${rune.lastRollTotal === null ? "" : ` (${rune.lastRollTotal})`}`;
+      } else if (isAssuranceSuccess(rune, crafterInsight)) {
+        craftingStatusLabel = "Auto-success via Assurance";
+      } else if (rune.lastOutcome === "criticalFailure") {
+        craftingStatusLabel = "Critical failure, retry";
+      } else if (isFailureOutcome(rune.lastOutcome)) {
+        craftingStatusLabel = "Failure, retry";
+      }
+
+      return {
+        entryKey: rune.entryKey,
+        sourceName: rune.sourceName,
+        actorName: rune.actorName,
+        runeName: rune.name,
+        kindLabel: getRuneKindLabel(rune.kind),
+        usageLabel: rune.usage ? humanizeRuneSlug(rune.usage) : "n/a",
+        craftingDcLabel: `DC ${rune.transferDc}`,
+        craftingStatusLabel,
+        transferCostLabel: formatGp(rune.transferCostGp),
+        hasRollButton: canRoll && isRunePending(rune, crafterInsight),
+      };
+    });
+
+    const isSwapMode = this.#mode === "swap";
+    const source = isSwapMode ? this.#source : null;
+    const target = this.#target;
+    const blockingIssues: string[] = [];
+    if (isSwapMode && !source) {
+      blockingIssues.push("Drop the weapon or armor to take runes from.");
+    }
+    if (!target) {
+      blockingIssues.push(isSwapMode ? "Drop the weapon or armor to move runes onto." : "Drop a weapon or armor item to etch.");
+    }
+    if (this.#runes.length === 0 && (!isSwapMode || source)) {
+      blockingIssues.push(isSwapMode ? "Select at least one rune to move." : "Drop at least one runestone.");
+    }
+    blockingIssues.push(...this.#unresolved);
+    if (target) {
+      blockingIssues.push(...(source ? validateSwapPlan(source, target, this.#runes) : validateEtchPlan(target, this.#runes)));
+    }
+    if (payerOptions.length === 0) {
+      blockingIssues.push("Select a payer linked to a player character or party sheet.");
+    }
+    if (this.#runes.length > 0) {
+      if (!crafterInsight.actor) {
+        blockingIssues.push("Select a crafter character for Transfer Rune checks.");
+      } else if (!crafterInsight.hasCraftingSkill) {
+        blockingIssues.push("Selected crafter is not trained in Crafting.");
+      } else if (!crafterInsight.hasMagicalCrafting) {
+        blockingIssues.push("Selected crafter needs the Magical Crafting feat to transfer magic runes.");
+      } else {
+        const pendingCount = this.#runes.filter((rune) => isRunePending(rune, crafterInsight)).length;
+        if (pendingCount > 0) {
+          blockingIssues.push(`${pendingCount} rune transfer check(s) still need results.`);
+        }
+      }
+    }
+    if (availableCopper !== null && availableCopper < gpToCopper(totals.grandTotalGp)) {
+      blockingIssues.push(
+        `Selected payer has insufficient funds (${formatGp(availableCopper / 100)} available; ` +
+          `${formatGp(totals.grandTotalGp)} required).`,
+      );
+    }
+
+    return {
+      isSwapMode,
+      source: source ? toItemView(source, removeRunes(source.runes, this.#runes)) : null,
+      target: target ? toItemView(target, applyEtchedRunes(target.runes, this.#runes)) : null,
+      entries,
+      hasEntries: entries.length > 0,
+      payerOptions,
+      hasPayerOptions: payerOptions.length > 0,
+      selectedPayerName: selectedPayer?.name ?? "None",
+      selectedPayerFundsLabel: availableCopper === null ? "Unavailable" : formatGp(availableCopper / 100),
+      crafterOptions,
+      hasCrafterOptions: crafterOptions.length > 0,
+      selectedCrafterName: crafterInsight.actor?.name ?? "None",
+      selectedCrafterModifierLabel: !crafterInsight.hasCraftingSkill || crafterInsight.modifier === null
+        ? "Unavailable"
+        : `${crafterInsight.modifier >= 0 ? "+" : ""}${crafterInsight.modifier}`,
+      selectedCrafterAssuranceLabel: crafterInsight.assuranceTotal === null
+        ? "Not available"
+        : `${crafterInsight.assuranceTotal}`,
+      selectedCrafterFeatSummary: crafterInsight.relevantCraftingFeats.length > 0
+        ? crafterInsight.relevantCraftingFeats.join(", ")
+        : "None detected",
+      craftingRulesSummary:
+        "Transfer Rune uses Crafting (1 day per rune, DC by transferred rune level, cost 10% of rune Price). " +
+        (isSwapMode
+          ? "Swapping moves each rune once with no runestone; a higher fundamental rune overwrites a lower one. "
+          : "The runestone is consumed. ") +
+        "Critical failures add retry time and lose 10% of transfer materials.",
+      totals: {
+        runeCount: totals.runeCount,
+        minimumDays: totals.minimumDays,
+        retryDays: totals.retryDays,
+        transferCostLabel: formatGp(totals.transferCostGp),
+        lostMaterialsLabel: formatGp(totals.lostMaterialsGp),
+        grandTotalLabel: formatGp(totals.grandTotalGp),
+      },
+      blockingIssues,
+      hasBlockingIssues: blockingIssues.length > 0,
+      canConfirm: !this.#busy && blockingIssues.length === 0,
+      isBusy: this.#busy,
+    };
+  }
+
+  override activateListeners(html: JQuery): void {
+    super.activateListeners(html);
+
+    const root = html[0];
+    root.addEventListener("dragover", (event) => {
+      event.preventDefault();
+    });
+
+    for (const target of root.querySelectorAll<HTMLElement>("[data-rune-etcher-dropzone]")) {
+      const role = target.dataset.runeEtcherDropzone;
+      target.addEventListener("dragenter", (event) => {
+        event.preventDefault();
+        target.classList.add("is-dragover");
+      });
+      target.addEventListener("dragover", (event) => {
+        event.preventDefault();
+        target.classList.add("is-dragover");
+      });
+      target.addEventListener("dragleave", (event) => {
+        const related = event.relatedTarget;
+        if (related instanceof Node && target.contains(related)) {
+          return;
+        }
+        target.classList.remove("is-dragover");
+      });
+      target.addEventListener("drop", (event) => {
+        event.preventDefault();
+        target.classList.remove("is-dragover");
+        void this.#handleDrop(event, role === "source" || role === "target" ? role : null);
+      });
+    }
+
+    html.find<HTMLButtonElement>("button[data-action='set-mode']").on("click", (event) => {
+      event.preventDefault();
+      const mode = event.currentTarget.dataset.mode === "swap" ? "swap" : "runestone";
+      if (mode !== this.#mode) {
+        this.#mode = mode;
+        this.#clear();
+      }
+      this.render();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='remove-entry']").on("click", (event) => {
+      event.preventDefault();
+      const entryKey = event.currentTarget.dataset.entryKey;
+      if (!entryKey) {
+        return;
+      }
+      if (this.#mode === "swap") {
+        this.#excludedSwapKeys.add(entryKey);
+      }
+      this.#runes = this.#runes.filter((rune) => rune.entryKey !== entryKey);
+      this.render();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='clear-source']").on("click", (event) => {
+      event.preventDefault();
+      this.#setSource(null);
+      this.render();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='clear-target']").on("click", (event) => {
+      event.preventDefault();
+      this.#target = null;
+      this.render();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='clear-all']").on("click", (event) => {
+      event.preventDefault();
+      this.#clear();
+      this.render();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='refresh']").on("click", (event) => {
+      event.preventDefault();
+      void this.#refreshSelections();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='confirm-etch']").on("click", (event) => {
+      event.preventDefault();
+      void this.#confirmAndExecute();
+    });
+
+    html.find<HTMLButtonElement>("button[data-action='roll-crafting']").on("click", (event) => {
+      event.preventDefault();
+      const entryKey = event.currentTarget.dataset.entryKey?.trim();
+      if (entryKey) {
+        void this.#rollCraftingForEntry(entryKey);
+      }
+    });
+
+    html.find<HTMLSelectElement>("select[data-action='payer-select']").on("change", (event) => {
+      const selected = (event.currentTarget as HTMLSelectElement).value.trim();
+      this.#payerActorId = selected || null;
+      this.render();
+    });
+
+    html.find<HTMLSelectElement>("select[data-action='crafter-select']").on("change", (event) => {
+      const selected = (event.currentTarget as HTMLSelectElement).value.trim();
+      this.#crafterActorId = selected || null;
+      this.render();
+    });
+  }
+
+  protected override async _updateObject(
+    _event: Event,
+    _formData: Record<string, unknown>,
+  ): Promise<void> {
+    // Form submission is handled by button actions.
+  }
+
+  #clear(): void {
+    this.#setSource(null);
+    this.#target = null;
+    this.#runes = [];
+  }
+
+  #setSource(source: EtchItem | null): void {
+    this.#source = source;
+    this.#excludedSwapKeys.clear();
+    this.#unresolved = [];
+    if (this.#mode === "swap") {
+      this.#runes = [];
+    }
+  }
+
+  async #handleDrop(event: DragEvent, role: "source" | "target" | null): Promise<void> {
+    if (this.#busy) {
+      return;
+    }
+
+    const raw = event.dataTransfer?.getData("text/plain")?.trim();
+    if (!raw) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Drop data was empty.`);
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw) as unknown;
+    } catch {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Unsupported drop payload.`);
+      return;
+    }
+
+    const item = await resolveDroppedItem(parsed);
+    if (!(item instanceof Item)) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Could not resolve an item from the drop.`);
+      return;
+    }
+
+    if (this.#mode === "swap") {
+      if (!isEtchableItem(item)) {
+        ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Only weapon, armor or shield items can swap runes.`);
+        return;
+      }
+
+      if (role === "target" || (role === null && this.#source && !this.#target)) {
+        this.#target = buildTarget(item);
+      } else {
+        this.#setSource(buildTarget(item));
+        await this.#rebuildSwapSelections();
+      }
+      this.render();
+      return;
+    }
+
+    if (isEtchableItem(item)) {
+      this.#target = buildTarget(item);
+      this.render();
+      return;
+    }
+
+    const selection = await this.#buildRuneSelection(item);
+    if (!selection) {
+      return;
+    }
+
+    if (this.#runes.some((rune) => rune.entryKey === selection.entryKey)) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | ${selection.sourceName} is already queued.`);
+      return;
+    }
+
+    this.#runes.push(selection);
+    this.render();
+  }
+
+  async #buildRuneSelection(item: Item, options: { silent?: boolean } = {}): Promise<EtchRuneSelection | null> {
+    const warn = (message: string): null => {
+      if (!options.silent) {
+        ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | ${message}`);
+      }
+      return null;
+    };
+
+    const runeKey = resolveRunestoneRuneKey(item);
+    if (!runeKey) {
+      return warn(`${item.name} is not a weapon, armor, or runestone holding a rune.`);
+    }
+    if (item.pack || !item.uuid) {
+      return warn("Drop runestones from an actor inventory or the Items directory so they can be consumed.");
+    }
+
+    const selection = await this.#buildCatalogSelection(runeKey, {
+      entryKey: item.uuid,
+      uuid: item.uuid,
+      name: item.name ?? humanizeRuneSlug(runeKey),
+      actorName: item.actor?.name?.trim() || "World Item Directory",
+    });
+    return selection ?? warn(`Could not resolve rune "${humanizeRuneSlug(runeKey)}" from PF2E compendiums.`);
+  }
+
+  async #buildCatalogSelection(
+    runeKey: string,
+    origin: { entryKey: string; uuid: string; name: string; actorName: string },
+  ): Promise<EtchRuneSelection | null> {
+    const catalog = await getRuneCatalog();
+    const catalogEntry = catalog?.runes.get(runeKey);
+    if (!catalogEntry) {
+      return null;
+    }
+
+    const descriptor = describeRuneKey(runeKey);
+    return {
+      entryKey: origin.entryKey,
+      sourceUuid: origin.uuid,
+      sourceName: origin.name,
+      actorName: origin.actorName,
+      kind: descriptor.kind,
+      key: runeKey,
+      value: descriptor.value,
+      itemTypes: descriptor.itemTypes,
+      name: catalogEntry.name,
+      usage: catalogEntry.usage,
+      level: catalogEntry.level,
+      transferDc: getTransferRuneDc(catalogEntry.level),
+      priceGp: roundGp(catalogEntry.priceGp),
+      transferCostGp: roundGp(catalogEntry.priceGp * 0.1),
+      attempts: 0,
+      succeeded: false,
+      failureCount: 0,
+      criticalFailureCount: 0,
+      lastOutcome: null,
+      lastRollTotal: null,
+    };
+  }
+
+  /** Lists the source item's runes as swap selections, keeping check results for runes that are still there. */
+  async #rebuildSwapSelections(): Promise<void> {
+    const source = this.#source;
+    if (!source) {
+      this.#runes = [];
+      return;
+    }
+
+    const previous = new Map(this.#runes.map((rune) => [rune.entryKey, rune]));
+    const runes: EtchRuneSelection[] = [];
+    const unresolved: string[] = [];
+    for (const { key } of listItemRuneKeys(source.itemType, source.runes)) {
+      if (this.#excludedSwapKeys.has(key)) {
+        continue;
+      }
+
+      const selection = await this.#buildCatalogSelection(key, {
+        entryKey: key,
+        uuid: source.uuid,
+        name: source.name,
+        actorName: source.actorName,
+      });
+      if (!selection) {
+        unresolved.push(`${source.name}: could not resolve rune "${humanizeRuneSlug(key)}" from PF2E compendiums.`);
+        continue;
+      }
+
+      const prior = previous.get(key);
+      runes.push(prior ? { ...selection, ...pickCheckProgress(prior) } : selection);
+    }
+
+    this.#runes = runes;
+    this.#unresolved = unresolved;
+  }
+
+  async #refreshSelections(options: { silent?: boolean } = {}): Promise<void> {
+    const removed: string[] = [];
+
+    if (this.#target) {
+      const current = await fromUuid(this.#target.uuid as any);
+      const rebuilt = current instanceof Item ? buildTarget(current) : null;
+      if (!rebuilt) {
+        removed.push(this.#target.name);
+      }
+      this.#target = rebuilt;
+    }
+
+    if (this.#mode === "swap") {
+      if (this.#source) {
+        const current = await fromUuid(this.#source.uuid as any);
+        const rebuilt = current instanceof Item ? buildTarget(current) : null;
+        if (!rebuilt) {
+          removed.push(this.#source.name);
+        }
+        this.#source = rebuilt;
+      }
+      await this.#rebuildSwapSelections();
+    } else {
+      const refreshed: EtchRuneSelection[] = [];
+      for (const rune of this.#runes) {
+        const current = await fromUuid(rune.sourceUuid as any);
+        const rebuilt = current instanceof Item ? await this.#buildRuneSelection(current, { silent: true }) : null;
+        if (!rebuilt || rebuilt.key !== rune.key) {
+          removed.push(rune.sourceName);
+          continue;
+        }
+
+        refreshed.push({ ...rebuilt, ...pickCheckProgress(rune) });
+      }
+      this.#runes = refreshed;
+    }
+
+    if (!options.silent && removed.length > 0) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Removed unavailable items: ${removed.join(", ")}.`);
+    } else if (!options.silent) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Rune Etcher refreshed.`);
+    }
+
+    this.render();
+  }
+
+  #resolvePayerOptions(): PayerOption[] {
+    const options = resolvePayerOptions(this.#payerActorId);
+    this.#payerActorId = options.find((option) => option.selected)?.actorId ?? null;
+    return options;
+  }
+
+  #resolveCrafterOptions(): CrafterOption[] {
+    const options = resolveCrafterOptions(this.#crafterActorId);
+    this.#crafterActorId = options.find((option) => option.selected)?.actorId ?? null;
+    return options;
+  }
+
+  #getSelectedPayerActor(): Actor | null {
+    if (!this.#payerActorId) {
+      return null;
+    }
+
+    return (game.actors?.get(this.#payerActorId) as Actor | null | undefined) ?? null;
+  }
+
+  #getSelectedCrafterActor(): Actor | null {
+    if (!this.#crafterActorId) {
+      return null;
+    }
+
+    const actor = (game.actors?.get(this.#crafterActorId) as Actor | null | undefined) ?? null;
+    return actor && isCharacterActor(actor) ? actor : null;
+  }
+
+  #checkCrafter(crafterInsight: CrafterInsight): crafterInsight is CrafterInsight & { actor: Actor } {
+    if (!crafterInsight.actor) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Select a crafter before rolling checks.`);
+      return false;
+    }
+    if (!crafterInsight.hasCraftingSkill) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Crafter must be trained in Crafting.`);
+      return false;
+    }
+    if (!crafterInsight.hasMagicalCrafting) {
+      ui.notifications?.warn(
+        `${CONSTANTS.MODULE_NAME} | ${crafterInsight.actor.name} needs Magical Crafting to transfer runes.`,
+      );
+      return false;
+    }
+    return true;
+  }
+
+  async #rollCraftingForEntry(entryKey: string): Promise<void> {
+    if (this.#busy) {
+      return;
+    }
+
+    const rune = this.#runes.find((candidate) => candidate.entryKey === entryKey);
+    if (!rune) {
+      return;
+    }
+
+    const crafterInsight = getCrafterInsight(this.#getSelectedCrafterActor());
+    if (!this.#checkCrafter(crafterInsight)) {
+      return;
+    }
+    if (!isRunePending(rune, crafterInsight)) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | ${rune.name} already has a resolved transfer check.`);
+      return;
+    }
+
+    const targetName = this.#target?.name ?? "the target item";
+    const result = await rollTransferRuneCheck(crafterInsight.actor, {
+      title: `Transfer Rune: ${rune.name} (${targetName})`,
+      dc: rune.transferDc,
+      note: `${escapeHtml(rune.name)} from ${escapeHtml(rune.sourceName)} onto ${escapeHtml(targetName)}`,
+      source: "rune-etcher",
+    });
+    if (result) {
+      rune.attempts += 1;
+      rune.lastOutcome = result.outcome;
+      rune.lastRollTotal = result.total;
+      if (isSuccessfulOutcome(result.outcome)) {
+        rune.succeeded = true;
+      } else if (result.outcome === "failure") {
+        rune.failureCount += 1;
+      } else {
+        rune.criticalFailureCount += 1;
+      }
+    }
+
+    this.render();
+  }
+
+  async #confirmAndExecute(): Promise<void> {
+    if (this.#busy) {
+      return;
+    }
+
+    await this.#refreshSelections({ silent: true });
+    const source = this.#mode === "swap" ? this.#source : null;
+    const target = this.#target;
+    if (!target || this.#runes.length === 0 || (this.#mode === "swap" && !source)) {
+      return;
+    }
+
+    const issues = source ? validateSwapPlan(source, target, this.#runes) : validateEtchPlan(target, this.#runes);
+    if (issues.length > 0) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | ${issues[0]}`);
+      return;
+    }
+
+    const payerActor = this.#getSelectedPayerActor();
+    if (!payerActor) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Select a payer before confirming.`);
+      return;
+    }
+
+    const crafterInsight = getCrafterInsight(this.#getSelectedCrafterActor());
+    if (!this.#checkCrafter(crafterInsight)) {
+      return;
+    }
+
+    const pendingCount = this.#runes.filter((rune) => isRunePending(rune, crafterInsight)).length;
+    if (pendingCount > 0) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | ${pendingCount} rune transfer checks are still unresolved.`);
+      return;
+    }
+
+    const totals = computeTotals(this.#runes);
+    const etched = applyEtchedRunes(target.runes, this.#runes);
+    const confirmationContent = [
+      `<div class="handy-dandy-rune-stripper-confirm">`,
+      source
+        ? `<p>Move <strong>${totals.runeCount}</strong> rune(s) from <strong>${escapeHtml(source.name)}</strong> ` +
+          `to <strong>${escapeHtml(target.name)}</strong>?</p>`
+        : `<p>Etch <strong>${totals.runeCount}</strong> rune(s) onto <strong>${escapeHtml(target.name)}</strong>?</p>`,
+      `<ul>`,
+      `<li>${escapeHtml(target.name)}: <strong>${escapeHtml(summarizeRunes(target.itemType, etched))}</strong></li>`,
+      ...(source
+        ? [
+          `<li>${escapeHtml(source.name)}: <strong>` +
+            `${escapeHtml(summarizeRunes(source.itemType, removeRunes(source.runes, this.#runes)))}</strong></li>`,
+        ]
+        : []),
+      `<li>Crafter: <strong>${escapeHtml(crafterInsight.actor.name ?? "Unknown")}</strong></li>`,
+      `<li>Base transfer time: <strong>${totals.minimumDays}</strong> day(s)</li>`,
+      `<li>Retry time from failed checks: <strong>${totals.retryDays}</strong> day(s)</li>`,
+      `<li>Transfer cost (RAW 10%): <strong>${formatGp(totals.transferCostGp)}</strong></li>`,
+      `<li>Critical failure material loss: <strong>${formatGp(totals.lostMaterialsGp)}</strong></li>`,
+      `<li>Total charge: <strong>${formatGp(totals.grandTotalGp)}</strong></li>`,
+      `</ul>`,
+      `<p class="notes">Payer: <strong>${escapeHtml(payerActor.name ?? "Unknown")}</strong></p>`,
+      source
+        ? `<p class="notes">Lower fundamental runes on ${escapeHtml(target.name)} are overwritten.</p>`
+        : `<p class="notes">The dropped runestones are consumed.</p>`,
+      `</div>`,
+    ].join("");
+
+    const confirmed = await waitForDialog<boolean>({
+      title: `${CONSTANTS.MODULE_NAME} | ${source ? "Confirm Rune Swap" : "Confirm Rune Etch"}`,
+      content: confirmationContent,
+      width: 520,
+      buttons: [
+        {
+          action: "confirm",
+          icon: '<i class="fas fa-hammer"></i>',
+          label: source ? "Confirm and Swap" : "Confirm and Etch",
+          default: true,
+          callback: () => true,
+        },
+        {
+          action: "cancel",
+          icon: '<i class="fas fa-times"></i>',
+          label: "Cancel",
+          callback: () => false,
+        },
+      ],
+      closeResult: false,
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    this.#busy = true;
+    this.render();
+    try {
+      await this.#executeEtch(source, target, payerActor, crafterInsight.actor);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Rune etching failed: ${message}`);
+      console.error(`${CONSTANTS.MODULE_NAME} | Rune etching failed`, error);
+    } finally {
+      this.#busy = false;
+      this.render();
+    }
+  }
+
+  async #rollbackExecutedSteps(steps: ExecutedEtchStep[]): Promise<string[]> {
+    const failures: string[] = [];
+
+    for (const step of [...steps].reverse()) {
+      try {
+        switch (step.type) {
+          case "item-update":
+            await step.document.update(
+              buildRuneUpdate(getItemType(step.document), step.originalRunes) as any,
+            );
+            break;
+          case "item-split": {
+            const splitItem = await fromUuid(step.splitItemUuid as any);
+            if (splitItem instanceof Item) {
+              await splitItem.delete();
+            }
+            await step.document.update({ "system.quantity": step.originalQuantity } as any);
+            break;
+          }
+          case "runestone-update":
+            await step.document.update({ "system.quantity": step.originalQuantity } as any);
+            break;
+          case "runestone-delete":
+            if (step.parent) {
+              await step.parent.createEmbeddedDocuments("Item", [step.source as any], { keepId: true } as any);
+            } else {
+              await Item.create(step.source as any, { keepId: true } as any);
+            }
+            break;
+        }
+      } catch {
+        failures.push(step.type === "runestone-delete" ? step.name : step.document.name ?? "Unknown item");
+      }
+    }
+
+    return failures;
+  }
+
+  /**
+   * Writes new runes to one item. A stacked item has a single copy split off with the new runes so the rest of the
+   * stack is untouched; the step is recorded before the write so a failure part-way through is still rolled back.
+   */
+  async #writeItemRunes(
+    document: Item,
+    item: EtchItem,
+    runes: ItemRuneState,
+    executed: ExecutedEtchStep[],
+  ): Promise<void> {
+    const originalQuantity = getItemQuantity(document);
+    if (originalQuantity <= 1) {
+      executed.push({ type: "item-update", document, originalRunes: item.runes });
+      await document.update(buildRuneUpdate(item.itemType, runes) as any);
+      return;
+    }
+
+    const splitSource = asRecord(document.toObject());
+    if (!splitSource) {
+      throw new Error(`Unable to clone "${item.name}" to change a single item from its stack.`);
+    }
+    delete splitSource["_id"];
+    const system = asRecord(splitSource["system"]) ?? {};
+    splitSource["system"] = system;
+    system["quantity"] = 1;
+    system["runes"] = buildRuneSource(item.itemType, runes);
+
+    const parent = document.actor;
+    const created = parent
+      ? (await parent.createEmbeddedDocuments("Item", [splitSource as any]))?.[0]
+      : await Item.create(splitSource as any);
+    if (!(created instanceof Item) || !created.uuid) {
+      throw new Error(`Failed to create the updated copy of "${item.name}".`);
+    }
+
+    executed.push({ type: "item-split", document, originalQuantity, splitItemUuid: created.uuid });
+    await document.update({ "system.quantity": originalQuantity - 1 } as any);
+  }
+
+  async #executeEtch(source: EtchItem | null, target: EtchItem, payerActor: Actor, crafterActor: Actor): Promise<void> {
+    const totals = computeTotals(this.#runes);
+    const totalCostCp = gpToCopper(totals.grandTotalGp);
+
+    const payerInventory = getPayerInventory(payerActor);
+    if (!payerInventory) {
+      throw new Error("Selected payer actor does not support PF2E currency transfers.");
+    }
+
+    const availableCopper = getPayerAvailableCopper(payerActor);
+    if (availableCopper !== null && availableCopper < totalCostCp) {
+      ui.notifications?.warn(
+        `${CONSTANTS.MODULE_NAME} | ${payerActor.name} does not have enough currency ` +
+          `(${formatGp(availableCopper / 100)} available; ${formatGp(totals.grandTotalGp)} required).`,
+      );
+      return;
+    }
+
+    const targetDocument = await fromUuid(target.uuid as any);
+    if (!(targetDocument instanceof Item) || !isEtchableItem(targetDocument)) {
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | ${target.name} is no longer available.`);
+      return;
+    }
+
+    let sourceDocument: Item | null = null;
+    const runestones: Item[] = [];
+    if (source) {
+      const document = await fromUuid(source.uuid as any);
+      if (!(document instanceof Item) || !isEtchableItem(document)) {
+        ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | ${source.name} is no longer available.`);
+        return;
+      }
+      sourceDocument = document;
+    } else {
+      for (const rune of this.#runes) {
+        const document = await fromUuid(rune.sourceUuid as any);
+        if (!(document instanceof Item)) {
+          ui.notifications?.warn(
+            `${CONSTANTS.MODULE_NAME} | ${rune.sourceName} is no longer available. Refresh and try again.`,
+          );
+          return;
+        }
+        runestones.push(document);
+      }
+    }
+
+    const executed: ExecutedEtchStep[] = [];
+    const fail = async (error: unknown, context: string): Promise<never> => {
+      const rollbackFailures = await this.#rollbackExecutedSteps(executed);
+      const message = error instanceof Error ? error.message : String(error);
+      const rollbackMessage = rollbackFailures.length > 0
+        ? ` Rollback failed for: ${rollbackFailures.join(", ")}.`
+        : "";
+      throw new Error(`${context} (${message}). No charges were applied.${rollbackMessage}`);
+    };
+
+    try {
+      await this.#writeItemRunes(targetDocument, target, applyEtchedRunes(target.runes, this.#runes), executed);
+    } catch (error) {
+      await fail(error, `Could not etch runes onto "${target.name}"`);
+    }
+
+    if (source && sourceDocument) {
+      try {
+        await this.#writeItemRunes(sourceDocument, source, removeRunes(source.runes, this.#runes), executed);
+      } catch (error) {
+        await fail(error, `Could not remove the moved runes from "${source.name}"`);
+      }
+    }
+
+    for (const runestone of runestones) {
+      try {
+        const quantity = getItemQuantity(runestone);
+        if (quantity > 1) {
+          executed.push({ type: "runestone-update", document: runestone, originalQuantity: quantity });
+          await runestone.update({ "system.quantity": quantity - 1 } as any);
+        } else {
+          const runestoneSource = asRecord(runestone.toObject()) ?? {};
+          await runestone.delete();
+          executed.push({
+            type: "runestone-delete",
+            name: runestone.name ?? "Runestone",
+            parent: runestone.actor ?? null,
+            source: runestoneSource,
+          });
+        }
+      } catch (error) {
+        await fail(error, `Could not consume "${runestone.name}"`);
+      }
+    }
+
+    const charged = await payerInventory.removeCoins({ cp: totalCostCp }, { byValue: true });
+    if (!charged) {
+      const rollbackFailures = await this.#rollbackExecutedSteps(executed);
+      const rollbackMessage = rollbackFailures.length > 0
+        ? ` Restoration failed for: ${rollbackFailures.join(", ")}.`
+        : "";
+      ui.notifications?.warn(
+        `${CONSTANTS.MODULE_NAME} | ${payerActor.name} does not have enough funds. ` +
+          `${source ? "Both items were" : "The item and runestones were"} restored.${rollbackMessage}`,
+      );
+      return;
+    }
+
+    const summary = source
+      ? `Moved ${totals.runeCount} rune(s) from ${source.name} to ${target.name}`
+      : `Etched ${totals.runeCount} rune(s) onto ${target.name}`;
+    await recordTreasureTransaction({
+      source: "rune-etcher",
+      label: summary,
+      deltaGp: -totals.grandTotalGp,
+      actor: payerActor,
+    });
+
+    ui.notifications?.info(
+      `${CONSTANTS.MODULE_NAME} | ${summary}. Charged ${formatGp(totals.grandTotalGp)} to ${payerActor.name}. ` +
+        `Crafter: ${crafterActor.name}.`,
+    );
+
+    this.#clear();
+  }
+}
+
+export async function runRuneEtcherFlow(): Promise<void> {
+  if (!runeEtcherApp) {
+    runeEtcherApp = new RuneEtcherApplication();
+  }
+
+  runeEtcherApp.render(true);
+}
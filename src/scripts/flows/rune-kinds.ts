@@ -0,0 +1,220 @@
+// Registry of graded ("fundamental") rune kinds the rune tools understand. Property runes are handled separately:
+// they live in `system.runes.property` and take the slots granted by kinds flagged with `grantsPropertySlots`.
+
+export const PROPERTY_RUNE_KIND = "property" as const;
+
+export interface RuneKeyMatch {
+  value: number;
+  /** Item types this particular key can be etched onto, e.g. only weapons for `weaponPotency2`. */
+  itemTypes: readonly string[];
+}
+
+export interface RuneKindDefinition {
+  /** Unique kind id, e.g. `potency` or `reinforcing`. */
+  id: string;
+  label: string;
+  /** Foundry item types (`item.type`) that carry this kind. */
+  itemTypes: readonly string[];
+  /** Field under `system.runes` holding the kind's grade. */
+  field: string;
+  /** When set, the kind's grade is the number of property rune slots on the item. */
+  grantsPropertySlots?: boolean;
+  /** Rune catalog key for a grade on an item type, or null when that grade does not exist. */
+  keyForValue: (value: number, itemType: string) => string | null;
+  /** Grade and compatible item types for a catalog key, or null when the key is not of this kind. */
+  matchKey: (key: string) => RuneKeyMatch | null;
+  /** Claims a compendium rune by name ahead of the generic name-to-key conversion. */
+  keyFromName?: (name: string) => string | null;
+  /** Display note for side effects of changing the grade on an item, e.g. shield Hardness and HP. */
+  describeChange?: (item: Item, from: number, to: number) => string | null;
+}
+
+const GRADE_PREFIXES = ["", "greater", "major", "mythic"] as const;
+
+function gradedKey(base: string, value: number): string | null {
+  const prefix = GRADE_PREFIXES[value - 1];
+  if (prefix === undefined) {
+    return null;
+  }
+
+  return prefix ? `${prefix}${base.charAt(0).toUpperCase()}${base.slice(1)}` : base;
+}
+
+function gradedKind(id: string, label: string, itemType: string): RuneKindDefinition {
+  return {
+    id,
+    label,
+    itemTypes: [itemType],
+    field: id,
+    keyForValue: (value) => gradedKey(id, value),
+    matchKey: (key) => {
+      for (let value = 1; value <= GRADE_PREFIXES.length; value += 1) {
+        if (gradedKey(id, value) === key) {
+          return { value, itemTypes: [itemType] };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+const POTENCY_RUNE_KIND: RuneKindDefinition = {
+  id: "potency",
+  label: "Potency",
+  itemTypes: ["weapon", "armor"],
+  field: "potency",
+  grantsPropertySlots: true,
+  keyForValue: (value, itemType) => {
+    if (value < 1 || value > 4 || (itemType !== "weapon" && itemType !== "armor")) {
+      return null;
+    }
+    return `${itemType}Potency${value}`;
+  },
+  matchKey: (key) => {
+    const match = /^(weapon|armor)Potency([1-4])$/.exec(key);
+    return match ? { value: Number(match[2]), itemTypes: [match[1]] } : null;
+  },
+  keyFromName: (name) => {
+    const match = /^(Weapon|Armor) Potency\s*\(\s*\+([1-4])\s*\)$/i.exec(name);
+    if (match) {
+      return `${match[1].toLowerCase()}Potency${match[2]}`;
+    }
+
+    const mythic = /^Mythic (Weapon|Armor) Potency$/i.exec(name);
+    return mythic ? `${mythic[1].toLowerCase()}Potency4` : null;
+  },
+};
+
+// GM Core reinforcing rune grades: [Hardness increase, Hardness cap, HP increase, HP cap].
+const REINFORCING_GRADES = [
+  ["minor", 3, 8, 44, 64],
+  ["lesser", 3, 10, 52, 80],
+  ["moderate", 3, 13, 64, 104],
+  ["greater", 5, 15, 80, 120],
+  ["major", 5, 17, 84, 136],
+  ["supreme", 7, 20, 108, 160],
+] as const;
+
+function reinforce(base: number, increase: number, cap: number): number {
+  return Math.max(base, Math.min(base + increase, cap));
+}
+
+function readShieldDurability(item: Item): { hardness: number; hp: number } {
+  // Source data holds the unreinforced values; PF2E applies the rune's increase when it prepares the item.
+  const source = (item as unknown as { _source?: { system?: { hardness?: unknown; hp?: { max?: unknown } } } })._source;
+  const hardness = Number(source?.system?.hardness);
+  const hp = Number(source?.system?.hp?.max);
+  return {
+    hardness: Number.isFinite(hardness) ? hardness : 0,
+    hp: Number.isFinite(hp) ? hp : 0,
+  };
+}
+
+function reinforcedDurability(item: Item, value: number): { hardness: number; hp: number } {
+  const base = readShieldDurability(item);
+  const grade = REINFORCING_GRADES[value - 1];
+  if (!grade) {
+    return base;
+  }
+
+  const [, hardnessIncrease, hardnessCap, hpIncrease, hpCap] = grade;
+  return {
+    hardness: reinforce(base.hardness, hardnessIncrease, hardnessCap),
+    hp: reinforce(base.hp, hpIncrease, hpCap),
+  };
+}
+
+const REINFORCING_RUNE_KIND: RuneKindDefinition = {
+  id: "reinforcing",
+  label: "Reinforcing",
+  itemTypes: ["shield"],
+  field: "reinforcing",
+  keyForValue: (value) => {
+    const grade = REINFORCING_GRADES[value - 1];
+    return grade ? `${grade[0]}Reinforcing` : null;
+  },
+  matchKey: (key) => {
+    const index = REINFORCING_GRADES.findIndex(([grade]) => `${grade}Reinforcing` === key);
+    return index >= 0 ? { value: index + 1, itemTypes: ["shield"] } : null;
+  },
+  keyFromName: (name) => {
+    const match = /^(?:(\w+)\s+)?Reinforcing(?:\s+Rune)?(?:\s*\((\w+)\))?$/i.exec(name.trim());
+    const grade = (match?.[2] ?? match?.[1])?.toLowerCase();
+    return grade && REINFORCING_GRADES.some(([candidate]) => candidate === grade) ? `${grade}Reinforcing` : null;
+  },
+  describeChange: (item, from, to) => {
+    const before = reinforcedDurability(item, from);
+    const after = reinforcedDurability(item, to);
+    if (before.hardness === after.hardness && before.hp === after.hp) {
+      return null;
+    }
+    return `Hardness ${before.hardness} -> ${after.hardness}, HP ${before.hp} -> ${after.hp}`;
+  },
+};
+
+const registry = new Map<string, RuneKindDefinition>();
+let registryVersion = 0;
+
+/**
+ * Adds or replaces a rune kind. Other modules and game systems (e.g. SF2E weapon upgrades) can register their own
+ * kinds through `game.handyDandy.runeKinds.register`; the rune catalog is rebuilt on next use.
+ */
+export function registerRuneKind(definition: RuneKindDefinition): void {
+  if (definition.id === PROPERTY_RUNE_KIND) {
+    throw new Error(`"${PROPERTY_RUNE_KIND}" is reserved for property runes.`);
+  }
+
+  registry.set(definition.id, definition);
+  registryVersion += 1;
+}
+
+export function getRuneKindRegistryVersion(): number {
+  return registryVersion;
+}
+
+export function getRuneKind(id: string): RuneKindDefinition | null {
+  return registry.get(id) ?? null;
+}
+
+export function getRuneKindLabel(id: string): string {
+  return id === PROPERTY_RUNE_KIND ? "Property" : registry.get(id)?.label ?? id;
+}
+
+export function getRuneKindsForItemType(itemType: string): RuneKindDefinition[] {
+  return [...registry.values()].filter((kind) => kind.itemTypes.includes(itemType));
+}
+
+export function isRuneItemType(itemType: string): boolean {
+  return getRuneKindsForItemType(itemType).length > 0;
+}
+
+export function supportsPropertyRunes(itemType: string): boolean {
+  return getRuneKindsForItemType(itemType).some((kind) => kind.grantsPropertySlots);
+}
+
+export function matchRuneKindKey(key: string): { kind: RuneKindDefinition; match: RuneKeyMatch } | null {
+  for (const kind of registry.values()) {
+    const match = kind.matchKey(key);
+    if (match) {
+      return { kind, match };
+    }
+  }
+
+  return null;
+}
+
+export function runeKindKeyFromName(name: string): string | null {
+  for (const kind of registry.values()) {
+    const key = kind.keyFromName?.(name.trim()) ?? null;
+    if (key) {
+      return key;
+    }
+  }
+
+  return null;
+}
+
+registerRuneKind(POTENCY_RUNE_KIND);
+registerRuneKind(gradedKind("striking", "Striking", "weapon"));
+registerRuneKind(gradedKind("resilient", "Resilient", "armor"));
+registerRuneKind(REINFORCING_RUNE_KIND);
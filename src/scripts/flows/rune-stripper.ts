@@ -1,80 +1,64 @@
 import { CONSTANTS } from "../constants";
 import { waitForDialog } from "../foundry/dialog";
+import {
+  type DowntimeActivityOrigin,
+  findDowntimeActivityByOrigin,
+  queueRuneTransferDowntime,
+  readDowntimeLedger,
+} from "./downtime-ledger";
+import { refreshDowntimeTracker } from "./downtime-tracker";
+import { getRuneKindsForItemType } from "./rune-kinds";
+import {
+  asRecord,
+  buildRuneSource,
+  buildRuneUpdate,
+  coinsFromGp,
+  type CrafterInsight,
+  type CrafterOption,
+  type CraftingOutcome,
+  deepClone,
+  escapeHtml,
+  extractItemRuneState,
+  formatGp,
+  getCrafterInsight,
+  getItemQuantity,
+  getItemType,
+  getPayerAvailableCopper,
+  getPayerInventory,
+  getRuneCatalog,
+  getStringValue,
+  getTransferRuneDc,
+  gpToCopper,
+  humanizeRuneSlug,
+  isCharacterActor,
+  isFailureOutcome,
+  isRuneItem,
+  isSuccessfulOutcome,
+  type ItemRuneState,
+  listItemRuneKeys,
+  type PayerOption,
+  resolveCrafterOptions,
+  resolveDroppedItem,
+  resolvePayerOptions,
+  rollTransferRuneCheck,
+  roundGp,
+  type RuneCatalog,
+  type RuneKind,
+  toNumber,
+  type TransferRuneCheckResult,
+  type UnknownRecord,
+} from "./rune-transfer";
+import { recordTreasureTransaction } from "./treasure-ledger";
 
 import appv1 = foundry.appv1;
 
 const RUNE_STRIPPER_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/rune-stripper.hbs`;
-const RUNE_COMPENDIUM_PACK_IDS = ["pf2e.equipment-srd", "pf2e.equipment"] as const;
 const SUMMARY_TEMPLATE_UUIDS = [
   "Compendium.pf2e.equipment-srd.Item.B6B7tBWJSqOBz5zz",
   "Compendium.pf2e.equipment.Item.B6B7tBWJSqOBz5zz",
 ] as const;
+const STRIPPED_RUNES: ItemRuneState = { fundamentals: {}, property: [] };
 const SUMMARY_LEDGER_IMAGE = "systems/pf2e/icons/equipment/adventuring-gear/scholarly-journal.webp";
-const RUNE_QUALIFIER_PREFIXES = new Set([
-  "greater",
-  "major",
-  "minor",
-  "lesser",
-  "moderate",
-  "supreme",
-  "mythic",
-  "true",
-]);
-const LEVEL_BASED_DCS = new Map<number, number>([
-  [-1, 13],
-  [0, 14],
-  [1, 15],
-  [2, 16],
-  [3, 18],
-  [4, 19],
-  [5, 20],
-  [6, 22],
-  [7, 23],
-  [8, 24],
-  [9, 26],
-  [10, 27],
-  [11, 28],
-  [12, 30],
-  [13, 31],
-  [14, 32],
-  [15, 34],
-  [16, 35],
-  [17, 36],
-  [18, 38],
-  [19, 39],
-  [20, 40],
-  [21, 42],
-  [22, 44],
-  [23, 46],
-  [24, 48],
-  [25, 50],
-]);
-const PROFICIENCY_RANK_BONUS = [0, 2, 4, 6, 8] as const;
-
-type UnknownRecord = Record<string, unknown>;
-type RuneKind = "potency" | "striking" | "resilient" | "property";
-type RuneStripItemType = "weapon" | "armor";
-type CraftingOutcome = "criticalSuccess" | "success" | "failure" | "criticalFailure";
-
-interface RuneCatalogEntry {
-  key: string;
-  name: string;
-  priceGp: number;
-  level: number;
-  uuid: string;
-  img: string;
-  packId: string;
-  documentId: string;
-  priority: number;
-}
-
-interface RuneCatalog {
-  runes: Map<string, RuneCatalogEntry>;
-  runestoneSource: UnknownRecord;
-  runestoneName: string;
-  runestoneBasePriceGp: number;
-  runestoneUuid: string;
-}
 
 interface RuneSelection {
   kind: RuneKind;
@@ -98,7 +82,7 @@ interface RuneSelection {
 
 interface WeaponSelection {
   entryKey: string;
-  itemType: RuneStripItemType;
+  itemType: string;
   itemTypeLabel: string;
   weaponUuid: string;
   weaponName: string;
@@ -111,18 +95,7 @@ interface WeaponSelection {
   totalCostGp: number;
   runeCount: number;
   runeSummary: string;
-}
-
-interface PayerOption {
-  actorId: string;
-  label: string;
-  selected: boolean;
-}
-
-interface CrafterOption {
-  actorId: string;
-  label: string;
-  selected: boolean;
+  effectSummary: string;
 }
 
 interface RuneStripperViewEntry {
@@ -132,6 +105,7 @@ interface RuneStripperViewEntry {
   itemQuantityLabel: string;
   actorName: string;
   runeSummary: string;
+  effectSummary: string;
   runeCount: number;
   transferCostLabel: string;
   runestoneCostLabel: string;
@@ -183,28 +157,11 @@ interface RuneTotals {
   grandTotalGp: number;
 }
 
-interface CrafterInsight {
-  actor: Actor | null;
-  skill: unknown;
-  rank: number;
-  modifier: number | null;
-  hasCraftingSkill: boolean;
-  hasMagicalCrafting: boolean;
-  hasAssuranceCrafting: boolean;
-  assuranceTotal: number | null;
-  relevantCraftingFeats: string[];
-}
-
 interface WeaponStripTarget {
   entry: WeaponSelection;
   document: Item;
   originalQuantity: number;
-  originalRunes: {
-    potency: number;
-    striking: number;
-    resilient: number;
-    property: string[];
-  };
+  originalRunes: ItemRuneState;
 }
 
 interface ExecutedStripTarget {
@@ -213,476 +170,9 @@ interface ExecutedStripTarget {
   splitItemUuid?: string;
 }
 
-let cachedRuneCatalogPromise: Promise<RuneCatalog | null> | null = null;
 let cachedSummaryTemplatePromise: Promise<UnknownRecord | null> | null = null;
 let runeStripperApp: RuneStripperApplication | null = null;
 
-function asRecord(value: unknown): UnknownRecord | null {
-  return value && typeof value === "object" ? (value as UnknownRecord) : null;
-}
-
-function toNumber(value: unknown): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
-
-  if (typeof value === "string") {
-    const parsed = Number(value.trim());
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-
-  return null;
-}
-
-function deepClone<T>(value: T): T {
-  const foundryUtils = (globalThis as {
-    foundry?: { utils?: { deepClone?: <U>(input: U) => U } };
-  }).foundry?.utils;
-
-  if (typeof foundryUtils?.deepClone === "function") {
-    return foundryUtils.deepClone(value);
-  }
-
-  if (typeof structuredClone === "function") {
-    return structuredClone(value);
-  }
-
-  return JSON.parse(JSON.stringify(value)) as T;
-}
-
-function normalizeWordTokens(value: string): string[] {
-  return value
-    .normalize("NFKD")
-    .replace(/[`'’]/g, "")
-    .replace(/[^A-Za-z0-9]+/g, " ")
-    .trim()
-    .toLowerCase()
-    .split(/\s+/)
-    .filter((entry) => entry.length > 0);
-}
-
-function toCamelCase(words: string[]): string {
-  if (words.length === 0) {
-    return "";
-  }
-
-  return words
-    .map((word, index) => (index === 0 ? word : `${word.charAt(0).toUpperCase()}${word.slice(1)}`))
-    .join("");
-}
-
-function capitalize(value: string): string {
-  return value ? `${value.charAt(0).toUpperCase()}${value.slice(1)}` : "";
-}
-
-function qualifierToPrefix(value: string): string | null {
-  const token = normalizeWordTokens(value).at(0);
-  if (!token) {
-    return null;
-  }
-
-  return RUNE_QUALIFIER_PREFIXES.has(token) ? token : null;
-}
-
-function buildRuneKeyFromName(name: string): string | null {
-  const trimmed = name.trim();
-  if (!trimmed) {
-    return null;
-  }
-
-  const potencyMatch = /^Weapon Potency\s*\(\s*\+([1-4])\s*\)$/i.exec(trimmed);
-  if (potencyMatch) {
-    return `weaponPotency${potencyMatch[1]}`;
-  }
-
-  const armorPotencyMatch = /^Armor Potency\s*\(\s*\+([1-4])\s*\)$/i.exec(trimmed);
-  if (armorPotencyMatch) {
-    return `armorPotency${armorPotencyMatch[1]}`;
-  }
-
-  if (/^Mythic Weapon Potency$/i.test(trimmed)) {
-    return "weaponPotency4";
-  }
-
-  if (/^Mythic Armor Potency$/i.test(trimmed)) {
-    return "armorPotency4";
-  }
-
-  let basePart = trimmed;
-  let qualifierPart: string | null = null;
-  const parentheticalMatch = /^(.*?)\s*\(([^)]+)\)\s*$/.exec(trimmed);
-  if (parentheticalMatch) {
-    basePart = parentheticalMatch[1].trim();
-    qualifierPart = parentheticalMatch[2].trim();
-  }
-
-  const baseWords = normalizeWordTokens(basePart);
-  if (baseWords.length === 0) {
-    return null;
-  }
-
-  const leadingPrefix = qualifierToPrefix(baseWords[0]);
-  const qualifierPrefix = qualifierPart ? qualifierToPrefix(qualifierPart) : null;
-  const prefix = qualifierPrefix ?? leadingPrefix;
-
-  const coreWords = prefix && leadingPrefix ? baseWords.slice(1) : baseWords;
-  const core = toCamelCase(coreWords);
-  if (!core) {
-    return null;
-  }
-
-  if (prefix) {
-    return `${prefix}${capitalize(core)}`;
-  }
-
-  return core;
-}
-
-function extractPriceGp(value: unknown): number {
-  const record = asRecord(value);
-  if (!record) {
-    return 0;
-  }
-
-  const pp = toNumber(record["pp"]) ?? 0;
-  const gp = toNumber(record["gp"]) ?? 0;
-  const sp = toNumber(record["sp"]) ?? 0;
-  const cp = toNumber(record["cp"]) ?? 0;
-  const credits = toNumber(record["credits"]) ?? 0;
-
-  return pp * 10 + gp + sp / 10 + cp / 100 + credits / 10;
-}
-
-function roundGp(value: number): number {
-  return Math.round(value * 100) / 100;
-}
-
-function gpToCopper(gp: number): number {
-  return Math.max(Math.round(gp * 100), 0);
-}
-
-function coinsFromGp(gpValue: number): UnknownRecord {
-  let copper = gpToCopper(gpValue);
-  const pp = Math.floor(copper / 1000);
-  copper -= pp * 1000;
-  const gp = Math.floor(copper / 100);
-  copper -= gp * 100;
-  const sp = Math.floor(copper / 10);
-  copper -= sp * 10;
-  const cp = copper;
-
-  const result: UnknownRecord = {};
-  if (pp > 0) result["pp"] = pp;
-  if (gp > 0) result["gp"] = gp;
-  if (sp > 0) result["sp"] = sp;
-  if (cp > 0) result["cp"] = cp;
-  if (Object.keys(result).length === 0) {
-    result["gp"] = 0;
-  }
-  return result;
-}
-
-function formatGp(gp: number): string {
-  const rounded = roundGp(gp);
-  const fixed = rounded.toFixed(2).replace(/\.00$/, "").replace(/(\.\d)0$/, "$1");
-  return `${fixed} gp`;
-}
-
-function escapeHtml(value: string): string {
-  const utils = foundry.utils as { escapeHTML?: (input: string) => string };
-  if (typeof utils.escapeHTML === "function") {
-    return utils.escapeHTML(value);
-  }
-
-  return value
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
-}
-
-function buildRuneUuid(packId: string, documentId: string): string {
-  return `Compendium.${packId}.Item.${documentId}`;
-}
-
-function getEntryId(entry: UnknownRecord): string | null {
-  const value = entry["_id"] ?? entry["id"];
-  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
-}
-
-function extractIndexEntries(index: unknown): UnknownRecord[] {
-  if (!index) {
-    return [];
-  }
-
-  if (Array.isArray(index)) {
-    return index.filter((entry): entry is UnknownRecord => !!asRecord(entry));
-  }
-
-  const candidate = index as {
-    values?: () => Iterable<unknown>;
-    contents?: unknown;
-  };
-
-  if (typeof candidate.values === "function") {
-    return Array.from(candidate.values())
-      .map((entry) => asRecord(entry))
-      .filter((entry): entry is UnknownRecord => entry !== null);
-  }
-
-  if (Array.isArray(candidate.contents)) {
-    return candidate.contents
-      .map((entry) => asRecord(entry))
-      .filter((entry): entry is UnknownRecord => entry !== null);
-  }
-
-  return [];
-}
-
-function extractCollectionValues<T>(collection: unknown): T[] {
-  if (!collection) {
-    return [];
-  }
-
-  if (Array.isArray(collection)) {
-    return collection as T[];
-  }
-
-  const candidate = collection as {
-    values?: () => Iterable<T>;
-    contents?: unknown;
-  };
-
-  if (typeof candidate.values === "function") {
-    return Array.from(candidate.values());
-  }
-
-  if (Array.isArray(candidate.contents)) {
-    return candidate.contents as T[];
-  }
-
-  return [];
-}
-
-function getUsageValue(entry: UnknownRecord): string {
-  const system = asRecord(entry["system"]);
-  const usage = asRecord(system?.["usage"]);
-  const value = usage?.["value"];
-  return typeof value === "string" ? value.trim() : "";
-}
-
-function getLevelValue(entry: UnknownRecord): number {
-  const system = asRecord(entry["system"]);
-  const level = asRecord(system?.["level"]);
-  return toNumber(level?.["value"] ?? system?.["level"]) ?? 0;
-}
-
-function getPriceValue(entry: UnknownRecord): number {
-  const system = asRecord(entry["system"]);
-  const price = asRecord(system?.["price"]);
-  return extractPriceGp(price?.["value"]);
-}
-
-function getStringValue(record: UnknownRecord, key: string): string {
-  const value = record[key];
-  return typeof value === "string" ? value.trim() : "";
-}
-
-function potencyKeyForValue(value: number): string | null {
-  if (value < 1 || value > 4) {
-    return null;
-  }
-  return `weaponPotency${value}`;
-}
-
-function armorPotencyKeyForValue(value: number): string | null {
-  if (value < 1 || value > 4) {
-    return null;
-  }
-
-  return `armorPotency${value}`;
-}
-
-function strikingKeyForValue(value: number): string | null {
-  switch (value) {
-    case 1:
-      return "striking";
-    case 2:
-      return "greaterStriking";
-    case 3:
-      return "majorStriking";
-    case 4:
-      return "mythicStriking";
-    default:
-      return null;
-  }
-}
-
-function resilientKeyForValue(value: number): string | null {
-  switch (value) {
-    case 1:
-      return "resilient";
-    case 2:
-      return "greaterResilient";
-    case 3:
-      return "majorResilient";
-    case 4:
-      return "mythicResilient";
-    default:
-      return null;
-  }
-}
-
-function humanizeRuneSlug(slug: string): string {
-  return slug
-    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
-    .replace(/[-_]+/g, " ")
-    .replace(/\s+/g, " ")
-    .trim()
-    .replace(/\b\w/g, (match) => match.toUpperCase());
-}
-
-async function buildRuneCatalog(): Promise<RuneCatalog | null> {
-  const runes = new Map<string, RuneCatalogEntry>();
-  let runestoneSource: UnknownRecord | null = null;
-  let runestoneBasePriceGp = 3;
-  let runestoneName = "Runestone";
-  let runestoneUuid = "";
-
-  for (const [priority, packId] of RUNE_COMPENDIUM_PACK_IDS.entries()) {
-    const pack = game.packs?.get(packId);
-    if (!pack) {
-      continue;
-    }
-
-    const packAccess = pack as unknown as {
-      collection?: unknown;
-      getIndex?: (options?: unknown) => Promise<unknown>;
-      getDocument?: (id: string) => Promise<unknown>;
-      index?: unknown;
-    };
-    const resolvedPackId =
-      typeof packAccess.collection === "string" && packAccess.collection.trim().length > 0
-        ? packAccess.collection.trim()
-        : packId;
-
-    const index = typeof packAccess.getIndex === "function"
-      ? await packAccess.getIndex({
-        fields: [
-          "name",
-          "type",
-          "img",
-          "system.usage.value",
-          "system.price.value",
-          "system.level.value",
-        ] as string[],
-      })
-      : packAccess.index;
-
-    for (const entry of extractIndexEntries(index)) {
-      const documentId = getEntryId(entry);
-      const name = getStringValue(entry, "name");
-      const type = getStringValue(entry, "type");
-      if (!documentId || !name) {
-        continue;
-      }
-
-      if (!runestoneSource && name.toLowerCase() === "runestone") {
-        const document = typeof packAccess.getDocument === "function"
-          ? await packAccess.getDocument(documentId)
-          : null;
-        const source = asRecord((document as { toObject?: () => unknown } | null)?.toObject?.());
-        if (source) {
-          runestoneSource = source;
-          const sourceName = getStringValue(source, "name");
-          if (sourceName) {
-            runestoneName = sourceName;
-          }
-          const system = asRecord(source["system"]);
-          const price = asRecord(system?.["price"]);
-          runestoneBasePriceGp = extractPriceGp(price?.["value"]);
-          runestoneUuid = buildRuneUuid(resolvedPackId, documentId);
-        }
-      }
-
-      if (type !== "equipment") {
-        continue;
-      }
-
-      const usage = getUsageValue(entry);
-      if (!usage.startsWith("etched-onto-")) {
-        continue;
-      }
-
-      const key = buildRuneKeyFromName(name);
-      if (!key) {
-        continue;
-      }
-
-      const candidate: RuneCatalogEntry = {
-        key,
-        name,
-        priceGp: getPriceValue(entry),
-        level: getLevelValue(entry),
-        uuid: buildRuneUuid(resolvedPackId, documentId),
-        img: getStringValue(entry, "img"),
-        packId: resolvedPackId,
-        documentId,
-        priority,
-      };
-
-      const existing = runes.get(key);
-      if (
-        !existing ||
-        candidate.priority < existing.priority ||
-        (candidate.priority === existing.priority &&
-          (candidate.level < existing.level ||
-            (candidate.level === existing.level && candidate.priceGp < existing.priceGp)))
-      ) {
-        runes.set(key, candidate);
-      }
-    }
-  }
-
-  if (!runestoneSource) {
-    const fallbackUuid = "Compendium.pf2e.equipment-srd.Item.ev3F9qlMNlNdCOAI";
-    const fallbackDocument = await fromUuid(fallbackUuid as any);
-    if (fallbackDocument instanceof Item) {
-      runestoneSource = asRecord(fallbackDocument.toObject());
-      runestoneBasePriceGp = extractPriceGp(
-        asRecord(asRecord(runestoneSource?.["system"])?.["price"])?.["value"],
-      );
-      runestoneUuid = fallbackUuid;
-      const fallbackName = fallbackDocument.name?.trim();
-      if (fallbackName) {
-        runestoneName = fallbackName;
-      }
-    }
-  }
-
-  if (!runestoneSource) {
-    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Could not locate the PF2E Runestone item.`);
-    return null;
-  }
-
-  return {
-    runes,
-    runestoneSource,
-    runestoneName,
-    runestoneBasePriceGp: roundGp(runestoneBasePriceGp),
-    runestoneUuid,
-  };
-}
-
-async function getRuneCatalog(): Promise<RuneCatalog | null> {
-  if (!cachedRuneCatalogPromise) {
-    cachedRuneCatalogPromise = buildRuneCatalog();
-  }
-
-  return await cachedRuneCatalogPromise;
-}
-
 async function loadSummaryTemplateSource(): Promise<UnknownRecord | null> {
   for (const uuid of SUMMARY_TEMPLATE_UUIDS) {
     const document = await fromUuid(uuid as any);
@@ -707,363 +197,15 @@ async function getSummaryTemplateSource(): Promise<UnknownRecord | null> {
   return await cachedSummaryTemplatePromise;
 }
 
-async function resolveDroppedItem(dropData: unknown): Promise<Item | null> {
-  const record = asRecord(dropData);
-  if (!record) {
-    return null;
-  }
-
-  const uuid = typeof record["uuid"] === "string" ? record["uuid"] : "";
-  if (uuid) {
-    const document = await fromUuid(uuid as any);
-    if (document instanceof Item) {
-      return document;
-    }
-  }
-
-  const actorUuid = typeof record["actorUUID"] === "string" ? record["actorUUID"] : "";
-  const itemId = typeof record["id"] === "string" ? record["id"] : "";
-  if (actorUuid && itemId) {
-    const actorDocument = await fromUuid(actorUuid as any);
-    if (actorDocument instanceof Actor) {
-      const embedded = actorDocument.items.get(itemId);
-      if (embedded) {
-        return embedded;
-      }
-    }
-  }
-
-  const dropResolver = Item as unknown as {
-    fromDropData?: (data: unknown) => Promise<Item | null>;
-    implementation?: { fromDropData?: (data: unknown) => Promise<Item | null> };
-  };
-  if (typeof dropResolver.fromDropData === "function") {
-    return await dropResolver.fromDropData(record);
-  }
-  if (typeof dropResolver.implementation?.fromDropData === "function") {
-    return await dropResolver.implementation.fromDropData(record);
-  }
-
-  return null;
-}
-
-function extractItemRuneState(item: Item): {
-  potency: number;
-  striking: number;
-  resilient: number;
-  property: string[];
-} {
-  const sourceRecord = asRecord((item as unknown as { _source?: unknown })._source);
-  const sourceSystem = asRecord(sourceRecord?.["system"]);
-  const sourceRunes = asRecord(sourceSystem?.["runes"]);
-
-  const liveSystem = asRecord((item as unknown as { system?: unknown }).system);
-  const liveRunes = asRecord(liveSystem?.["runes"]);
-  const runes = sourceRunes ?? liveRunes ?? {};
-
-  const potency = Math.max(Math.floor(toNumber(runes["potency"]) ?? 0), 0);
-  const striking = Math.max(Math.floor(toNumber(runes["striking"]) ?? 0), 0);
-  const resilient = Math.max(Math.floor(toNumber(runes["resilient"]) ?? 0), 0);
-  const property = Array.isArray(runes["property"])
-    ? runes["property"]
-      .filter((entry): entry is string => typeof entry === "string")
-      .map((entry) => entry.trim())
-      .filter((entry) => entry.length > 0)
-    : [];
-
-  return { potency, striking, resilient, property };
-}
-
-function isWeaponItem(item: Item | null | undefined): item is Item {
-  const type = (item as unknown as { type?: unknown } | null | undefined)?.type;
-  return typeof type === "string" && type === "weapon";
-}
-
-function isArmorItem(item: Item | null | undefined): item is Item {
-  const type = (item as unknown as { type?: unknown } | null | undefined)?.type;
-  return typeof type === "string" && type === "armor";
-}
-
 function isRunnableStripItem(item: Item | null | undefined): item is Item {
-  return isWeaponItem(item) || isArmorItem(item);
+  return isRuneItem(item);
 }
 
-function isCharacterActor(actor: Actor | null | undefined): actor is Actor {
-  const type = (actor as unknown as { type?: unknown } | null | undefined)?.type;
-  return typeof type === "string" && type === "character";
-}
-
-function isPartyActor(actor: Actor | null | undefined): actor is Actor {
-  const type = (actor as unknown as { type?: unknown } | null | undefined)?.type;
-  return typeof type === "string" && type === "party";
-}
-
-function getPwolEnabled(): boolean {
-  const variantRules = (game as unknown as {
-    pf2e?: { settings?: { variants?: { pwol?: { enabled?: unknown } } } };
-  }).pf2e?.settings?.variants;
-  return variantRules?.pwol?.enabled === true;
-}
-
-function calculateLevelDc(level: number): number {
-  const normalized = Number.isFinite(level) ? Math.trunc(level) : 0;
-  const base = LEVEL_BASED_DCS.get(normalized) ?? 14;
-  return getPwolEnabled() ? base - Math.max(normalized, 0) : base;
-}
-
-function getActorLevel(actor: Actor | null): number {
-  if (!(actor instanceof Actor)) {
-    return 0;
-  }
-
-  const system = asRecord((actor as unknown as { system?: unknown }).system);
-  const details = asRecord(system?.["details"]);
-  const levelField = details?.["level"];
-  const level = toNumber(asRecord(levelField)?.["value"] ?? levelField) ?? 0;
-  return Math.max(Math.trunc(level), 0);
-}
-
-function getItemLevel(item: Item): number {
-  const sourceRecord = asRecord((item as unknown as { _source?: unknown })._source);
-  const sourceSystem = asRecord(sourceRecord?.["system"]);
-  const sourceLevel = sourceSystem?.["level"];
-
-  const liveSystem = asRecord((item as unknown as { system?: unknown }).system);
-  const liveLevel = liveSystem?.["level"];
-
-  const level = toNumber(asRecord(sourceLevel)?.["value"] ?? sourceLevel ?? asRecord(liveLevel)?.["value"] ?? liveLevel) ?? 0;
-  return Math.max(Math.trunc(level), -1);
-}
-
-function getTransferRuneDc(runeLevel: number): number {
-  return calculateLevelDc(Math.trunc(runeLevel));
-}
-
-function getItemQuantity(item: Item): number {
-  const sourceRecord = asRecord((item as unknown as { _source?: unknown })._source);
-  const sourceSystem = asRecord(sourceRecord?.["system"]);
-  const sourceQuantity = sourceSystem?.["quantity"];
-
-  const liveSystem = asRecord((item as unknown as { system?: unknown }).system);
-  const liveQuantity = liveSystem?.["quantity"];
-
-  const quantity = toNumber(sourceQuantity ?? liveQuantity) ?? 1;
-  return Math.max(Math.floor(quantity), 1);
-}
-
-function getItemSlug(item: Item): string {
-  const directSlug = (item as unknown as { slug?: unknown }).slug;
-  if (typeof directSlug === "string" && directSlug.trim().length > 0) {
-    return directSlug.trim();
-  }
-
-  const sourceRecord = asRecord((item as unknown as { _source?: unknown })._source);
-  const sourceSystem = asRecord(sourceRecord?.["system"]);
-  const sourceSlug = sourceSystem?.["slug"];
-  if (typeof sourceSlug === "string" && sourceSlug.trim().length > 0) {
-    return sourceSlug.trim();
-  }
-
-  const liveSystem = asRecord((item as unknown as { system?: unknown }).system);
-  const liveSlug = liveSystem?.["slug"];
-  return typeof liveSlug === "string" && liveSlug.trim().length > 0 ? liveSlug.trim() : "";
-}
-
-function getItemRulesSelection(item: Item, selectionKey: string): string | null {
-  const sourceFlags = asRecord(asRecord((item as unknown as { _source?: unknown })._source)?.["flags"]);
-  const liveFlags = asRecord((item as unknown as { flags?: unknown }).flags);
-
-  for (const flags of [sourceFlags, liveFlags]) {
-    const pf2eFlags = asRecord(flags?.["pf2e"]);
-    const systemFlags = asRecord(flags?.["system"]);
-    const rulesSelections = asRecord(pf2eFlags?.["rulesSelections"]) ?? asRecord(systemFlags?.["rulesSelections"]);
-    const value = rulesSelections?.[selectionKey];
-    if (typeof value === "string" && value.trim().length > 0) {
-      return value.trim();
-    }
-  }
-
-  return null;
-}
-
-function getFeatItems(actor: Actor | null): Item[] {
-  if (!(actor instanceof Actor)) {
-    return [];
-  }
-
-  const itemTypes = (actor as unknown as { itemTypes?: { feat?: unknown } }).itemTypes;
-  if (Array.isArray(itemTypes?.feat)) {
-    return itemTypes.feat.filter((entry): entry is Item => entry instanceof Item);
-  }
-
-  return extractCollectionValues<Item>((actor as unknown as { items?: unknown }).items).filter((item) => {
-    const itemType = (item as unknown as { type?: unknown }).type;
-    return itemType === "feat";
-  });
-}
-
-function getCraftingSkill(actor: Actor | null): unknown {
-  if (!(actor instanceof Actor)) {
-    return null;
-  }
-
-  const skills = asRecord((actor as unknown as { skills?: unknown }).skills);
-  if (skills?.["crafting"]) {
-    return skills["crafting"];
-  }
-  if (skills?.["cra"]) {
-    return skills["cra"];
-  }
-
-  const systemSkills = asRecord(asRecord((actor as unknown as { system?: unknown }).system)?.["skills"]);
-  if (systemSkills?.["crafting"]) {
-    return systemSkills["crafting"];
-  }
-  if (systemSkills?.["cra"]) {
-    return systemSkills["cra"];
-  }
-
-  return null;
-}
-
-function getCraftingRank(actor: Actor | null, skill: unknown): number {
-  const rankFromSkill = toNumber(asRecord(skill)?.["rank"]);
-  if (typeof rankFromSkill === "number") {
-    return Math.clamp(Math.trunc(rankFromSkill), 0, 4);
-  }
-
-  const systemSkills = asRecord(asRecord((actor as unknown as { system?: unknown }).system)?.["skills"]);
-  const rankFromSystem = toNumber(
-    asRecord(systemSkills?.["crafting"])?.["rank"] ??
-      asRecord(systemSkills?.["cra"])?.["rank"],
-  );
-  return typeof rankFromSystem === "number" ? Math.clamp(Math.trunc(rankFromSystem), 0, 4) : 0;
-}
-
-function getCraftingModifier(skill: unknown): number | null {
-  const skillRecord = asRecord(skill);
-  if (!skillRecord) {
-    return null;
-  }
-
-  const check = asRecord(skillRecord["check"]);
-  const mod = toNumber(check?.["mod"] ?? skillRecord["mod"] ?? skillRecord["totalModifier"]);
-  return typeof mod === "number" ? Math.trunc(mod) : null;
-}
-
-function getAssuranceTotal(actor: Actor | null, rank: number): number | null {
-  if (rank <= 0) {
-    return null;
-  }
-
-  const proficiencyBonus = PROFICIENCY_RANK_BONUS[Math.clamp(rank, 0, 4)];
-  const level = getPwolEnabled() ? 0 : getActorLevel(actor);
-  return 10 + proficiencyBonus + level;
-}
-
-function isAssuranceForCrafting(feat: Item): boolean {
-  const slug = getItemSlug(feat).toLowerCase();
-  if (slug === "assurance-crafting") {
-    return true;
-  }
-  if (slug !== "assurance") {
-    return false;
-  }
-
-  const selection = (getItemRulesSelection(feat, "assurance") ?? "").toLowerCase();
-  return selection === "crafting" || selection === "cra" || selection.includes("craft");
-}
-
-function isRelevantCraftingFeat(feat: Item): boolean {
-  if (isAssuranceForCrafting(feat)) {
-    return true;
-  }
-
-  const slug = getItemSlug(feat).toLowerCase();
-  if (slug.includes("craft")) {
-    return true;
-  }
-
-  const name = feat.name?.toLowerCase().trim() ?? "";
-  return name.includes("craft");
-}
-
-function getCrafterInsight(actor: Actor | null): CrafterInsight {
-  if (!(actor instanceof Actor) || !isCharacterActor(actor)) {
-    return {
-      actor: null,
-      skill: null,
-      rank: 0,
-      modifier: null,
-      hasCraftingSkill: false,
-      hasMagicalCrafting: false,
-      hasAssuranceCrafting: false,
-      assuranceTotal: null,
-      relevantCraftingFeats: [],
-    };
-  }
-
-  const skill = getCraftingSkill(actor);
-  const rank = getCraftingRank(actor, skill);
-  const modifier = getCraftingModifier(skill);
-  const feats = getFeatItems(actor);
-  const hasMagicalCrafting = feats.some((feat) => getItemSlug(feat).toLowerCase() === "magical-crafting");
-  const hasAssuranceCrafting = feats.some((feat) => isAssuranceForCrafting(feat));
-  const relevantCraftingFeats = feats
-    .filter((feat) => isRelevantCraftingFeat(feat))
-    .map((feat) => feat.name?.trim() ?? "Unnamed feat")
-    .sort((a, b) => a.localeCompare(b));
-
-  const hasCraftingSkill = rank > 0 && skill !== null;
-
-  return {
-    actor,
-    skill,
-    rank,
-    modifier,
-    hasCraftingSkill,
-    hasMagicalCrafting,
-    hasAssuranceCrafting,
-    assuranceTotal: hasAssuranceCrafting && hasCraftingSkill ? getAssuranceTotal(actor, rank) : null,
-    relevantCraftingFeats,
-  };
-}
-
-function degreeToCraftingOutcome(degree: number | null): CraftingOutcome | null {
-  const normalized = typeof degree === "number" ? Math.trunc(degree) : null;
-  switch (normalized) {
-    case 3:
-      return "criticalSuccess";
-    case 2:
-      return "success";
-    case 1:
-      return "failure";
-    case 0:
-      return "criticalFailure";
-    default:
-      return null;
-  }
-}
-
-function craftingOutcomeFromTotal(total: number, dc: number): CraftingOutcome {
-  if (total >= dc + 10) {
-    return "criticalSuccess";
-  }
-  if (total >= dc) {
-    return "success";
-  }
-  if (total <= dc - 10) {
-    return "criticalFailure";
-  }
-  return "failure";
-}
-
-function isSuccessfulOutcome(outcome: CraftingOutcome | null): boolean {
-  return outcome === "success" || outcome === "criticalSuccess";
-}
-
-function isFailureOutcome(outcome: CraftingOutcome | null): boolean {
-  return outcome === "failure" || outcome === "criticalFailure";
+function describeStripEffects(item: Item, itemType: string, runes: ItemRuneState): string {
+  return getRuneKindsForItemType(itemType)
+    .map((kind) => kind.describeChange?.(item, runes.fundamentals[kind.id] ?? 0, 0) ?? null)
+    .filter((effect): effect is string => Boolean(effect))
+    .join("; ");
 }
 
 function getAssuranceAutoSuccessCopies(rune: RuneSelection, crafterInsight: CrafterInsight): number {
@@ -1341,10 +483,11 @@ class RuneStripperApplication extends appv1.api.FormApplication {
     const totals = computeTotals(this.#entries);
     const payerOptions = this.#resolvePayerOptions();
     const selectedPayer = this.#getSelectedPayerActor();
-    const availableCopper = this.#getPayerAvailableCopper(selectedPayer);
+    const availableCopper = getPayerAvailableCopper(selectedPayer);
     const totalCopper = gpToCopper(totals.grandTotalGp);
     const crafterOptions = this.#resolveCrafterOptions();
     const selectedCrafter = this.#getSelectedCrafterActor();
+    this.#applyDowntimeProgress(selectedCrafter);
     const crafterInsight = getCrafterInsight(selectedCrafter);
 
     const selectedPayerName = selectedPayer?.name ?? "None";
@@ -1422,6 +565,7 @@ class RuneStripperApplication extends appv1.api.FormApplication {
         itemQuantityLabel: `x${entry.itemQuantity}`,
         actorName: entry.actorName,
         runeSummary: entry.runeSummary,
+        effectSummary: entry.effectSummary,
         runeCount: entry.runeCount,
         transferCostLabel: formatGp(entry.transferCostGp),
         runestoneCostLabel: formatGp(entry.runestoneCostGp),
@@ -1440,7 +584,7 @@ class RuneStripperApplication extends appv1.api.FormApplication {
 
     const blockingIssues: string[] = [];
     if (this.#entries.length === 0) {
-      blockingIssues.push("Add at least one weapon or armor item with transferable runes.");
+      blockingIssues.push("Add at least one weapon, armor or shield item with transferable runes.");
     }
     if (payerOptions.length === 0) {
       blockingIssues.push("Select a payer linked to a player character or party sheet.");
@@ -1599,6 +743,14 @@ class RuneStripperApplication extends appv1.api.FormApplication {
       void this.#rollCraftingForEntry(entryKey);
     });
 
+    html.find<HTMLButtonElement>("button[data-action='queue-downtime']").on("click", (event) => {
+      event.preventDefault();
+      const entryKey = event.currentTarget.dataset.entryKey?.trim();
+      if (entryKey) {
+        void this.#queueDowntimeForEntry(entryKey);
+      }
+    });
+
     html.find<HTMLSelectElement>("select[data-action='payer-select']").on("change", (event) => {
       const selected = (event.currentTarget as HTMLSelectElement).value.trim();
       this.#payerActorId = selected || null;
@@ -1645,7 +797,7 @@ class RuneStripperApplication extends appv1.api.FormApplication {
     }
 
     if (!isRunnableStripItem(item)) {
-      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Only PF2E weapon or armor items can be stripped.`);
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Only weapon, armor or shield items can be stripped.`);
       return;
     }
 
@@ -1732,7 +884,7 @@ class RuneStripperApplication extends appv1.api.FormApplication {
 
   async #addWeapon(item: Item, requestedQuantity?: number): Promise<void> {
     if (!isRunnableStripItem(item)) {
-      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Only PF2E weapon or armor items can be stripped.`);
+      ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Only weapon, armor or shield items can be stripped.`);
       return;
     }
 
@@ -1745,7 +897,7 @@ class RuneStripperApplication extends appv1.api.FormApplication {
     const selection = await this.#buildSelection(item, requestedQuantity);
     if (!selection) {
       ui.notifications?.warn(
-        `${CONSTANTS.MODULE_NAME} | ${item.name} has no transferable weapon/armor runes.`,
+        `${CONSTANTS.MODULE_NAME} | ${item.name} has no transferable runes.`,
       );
       return;
     }
@@ -1805,33 +957,11 @@ class RuneStripperApplication extends appv1.api.FormApplication {
       return null;
     }
 
-    const itemType: RuneStripItemType = isArmorItem(item) ? "armor" : "weapon";
-    const itemTypeLabel = itemType === "armor" ? "Armor" : "Weapon";
+    const itemType = getItemType(item);
+    const itemTypeLabel = itemType.charAt(0).toUpperCase() + itemType.slice(1);
     const runes = extractItemRuneState(item);
-    const requested: Array<{ kind: RuneKind; key: string; slug: string }> = [];
-
-    const potencyKey = itemType === "armor"
-      ? armorPotencyKeyForValue(runes.potency)
-      : potencyKeyForValue(runes.potency);
-    if (potencyKey) {
-      requested.push({ kind: "potency", key: potencyKey, slug: potencyKey });
-    }
-
-    if (itemType === "weapon") {
-      const strikingKey = strikingKeyForValue(runes.striking);
-      if (strikingKey) {
-        requested.push({ kind: "striking", key: strikingKey, slug: strikingKey });
-      }
-    } else {
-      const resilientKey = resilientKeyForValue(runes.resilient);
-      if (resilientKey) {
-        requested.push({ kind: "resilient", key: resilientKey, slug: resilientKey });
-      }
-    }
-
-    for (const propertySlug of runes.property) {
-      requested.push({ kind: "property", key: propertySlug, slug: propertySlug });
-    }
+    const requested: Array<{ kind: RuneKind; key: string; slug: string }> = listItemRuneKeys(itemType, runes)
+      .map(({ kind, key }) => ({ kind, key, slug: key }));
 
     if (requested.length === 0) {
       return null;
@@ -1899,168 +1029,20 @@ class RuneStripperApplication extends appv1.api.FormApplication {
       totalCostGp,
       runeCount: selectedRunes.reduce((sum, rune) => sum + rune.copies, 0),
       runeSummary: selectedRunes.map((rune) => rune.name).join(", "),
+      effectSummary: describeStripEffects(item, itemType, runes),
     };
   }
 
   #resolvePayerOptions(): PayerOption[] {
-    const options: PayerOption[] = [];
-    const seenActorIds = new Set<string>();
-
-    if (game.user?.isGM) {
-      const users = extractCollectionValues<User>(game.users);
-      for (const user of users) {
-        const character = user.character;
-        if (!(character instanceof Actor) || !isCharacterActor(character) || !character.id) {
-          continue;
-        }
-        if (seenActorIds.has(character.id)) {
-          continue;
-        }
-        seenActorIds.add(character.id);
-        options.push({
-          actorId: character.id,
-          label: `${user.name} -> ${character.name}`,
-          selected: false,
-        });
-      }
-
-      for (const actor of extractCollectionValues<Actor>(game.actors)) {
-        if (!isPartyActor(actor) || !actor.id || seenActorIds.has(actor.id)) {
-          continue;
-        }
-        seenActorIds.add(actor.id);
-        options.push({
-          actorId: actor.id,
-          label: `Party -> ${actor.name}`,
-          selected: false,
-        });
-      }
-
-      for (const actor of extractCollectionValues<Actor>(game.actors)) {
-        if (!isCharacterActor(actor) || !actor.id || seenActorIds.has(actor.id)) {
-          continue;
-        }
-        seenActorIds.add(actor.id);
-        options.push({
-          actorId: actor.id,
-          label: `${actor.name}`,
-          selected: false,
-        });
-      }
-    } else {
-      const character = game.user?.character;
-      if (character instanceof Actor && isCharacterActor(character) && character.id) {
-        seenActorIds.add(character.id);
-        options.push({
-          actorId: character.id,
-          label: character.name ?? "Character",
-          selected: false,
-        });
-      }
-
-      for (const actor of extractCollectionValues<Actor>(game.actors)) {
-        if (!isPartyActor(actor) || !actor.id || seenActorIds.has(actor.id) || !actor.isOwner) {
-          continue;
-        }
-        seenActorIds.add(actor.id);
-        options.push({
-          actorId: actor.id,
-          label: `Party -> ${actor.name}`,
-          selected: false,
-        });
-      }
-    }
-
-    if (options.length === 0) {
-      this.#payerActorId = null;
-      return options;
-    }
-
-    if (!this.#payerActorId || !options.some((option) => option.actorId === this.#payerActorId)) {
-      this.#payerActorId = options[0].actorId;
-    }
-
-    return options.map((option) => ({
-      ...option,
-      selected: option.actorId === this.#payerActorId,
-    }));
+    const options = resolvePayerOptions(this.#payerActorId);
+    this.#payerActorId = options.find((option) => option.selected)?.actorId ?? null;
+    return options;
   }
 
   #resolveCrafterOptions(): CrafterOption[] {
-    const options: CrafterOption[] = [];
-    const seenActorIds = new Set<string>();
-
-    if (game.user?.isGM) {
-      const users = extractCollectionValues<User>(game.users);
-      for (const user of users) {
-        const character = user.character;
-        if (!(character instanceof Actor) || !isCharacterActor(character) || !character.id) {
-          continue;
-        }
-        if (seenActorIds.has(character.id)) {
-          continue;
-        }
-        seenActorIds.add(character.id);
-        options.push({
-          actorId: character.id,
-          label: `${user.name} -> ${character.name}`,
-          selected: false,
-        });
-      }
-
-      for (const actor of extractCollectionValues<Actor>(game.actors)) {
-        if (!isCharacterActor(actor) || !actor.id || seenActorIds.has(actor.id)) {
-          continue;
-        }
-        seenActorIds.add(actor.id);
-        options.push({
-          actorId: actor.id,
-          label: actor.name ?? "Character",
-          selected: false,
-        });
-      }
-    } else {
-      const preferredCharacter = game.user?.character;
-      if (preferredCharacter instanceof Actor && isCharacterActor(preferredCharacter) && preferredCharacter.id) {
-        seenActorIds.add(preferredCharacter.id);
-        options.push({
-          actorId: preferredCharacter.id,
-          label: preferredCharacter.name ?? "Character",
-          selected: false,
-        });
-      }
-
-      for (const actor of extractCollectionValues<Actor>(game.actors)) {
-        if (!isCharacterActor(actor) || !actor.id || seenActorIds.has(actor.id) || !actor.isOwner) {
-          continue;
-        }
-        seenActorIds.add(actor.id);
-        options.push({
-          actorId: actor.id,
-          label: actor.name ?? "Character",
-          selected: false,
-        });
-      }
-    }
-
-    if (options.length === 0) {
-      this.#crafterActorId = null;
-      return options;
-    }
-
-    const preferredActorId = game.user?.character?.id ?? null;
-    const hasCurrentSelection = !!this.#crafterActorId && options.some((option) => option.actorId === this.#crafterActorId);
-    if (!hasCurrentSelection) {
-      this.#crafterActorId =
-        (preferredActorId && options.some((option) => option.actorId === preferredActorId))
-          ? preferredActorId
-          : options[0].actorId;
-    }
-
-    return options.map((option) => ({
-      ...option,
-      selected: option.actorId === this.#crafterActorId,
-    }));
+    const options = resolveCrafterOptions(this.#crafterActorId);
+    this.#crafterActorId = options.find((option) => option.selected)?.actorId ?? null;
+    return options;
   }
 
   #getSelectedPayerActor(): Actor | null {
@@ -2080,16 +1062,6 @@ class RuneStripperApplication extends appv1.api.FormApplication {
     return actor && isCharacterActor(actor) ? actor : null;
   }
 
-  #getPayerAvailableCopper(actor: Actor | null): number | null {
-    if (!actor) {
-      return null;
-    }
-
-    const inventory = (actor as unknown as { inventory?: { currency?: { copperValue?: unknown } } }).inventory;
-    const copper = toNumber(inventory?.currency?.copperValue);
-    return typeof copper === "number" ? Math.max(Math.floor(copper), 0) : null;
-  }
-
   #mergeCraftingProgress(previous: WeaponSelection, rebuilt: WeaponSelection): void {
     const previousByRuneKey = new Map<string, RuneSelection>();
     for (const rune of previous.runes) {
@@ -2111,29 +1083,119 @@ class RuneStripperApplication extends appv1.api.FormApplication {
     }
   }
 
-  async #rollCraftingForEntry(entryKey: string): Promise<void> {
-    if (this.#busy) {
+  #getDowntimeOrigin(entry: WeaponSelection, rune: RuneSelection): DowntimeActivityOrigin {
+    return { tool: "rune-stripper", entryKey: entry.entryKey, runeKey: `${rune.kind}:${rune.key}` };
+  }
+
+  /** Picks up checks the crafter rolled for queued entries through the Downtime Tracker. */
+  #applyDowntimeProgress(crafter: Actor | null): void {
+    if (!crafter) {
       return;
     }
 
-    const entry = this.#entries.find((candidate) => candidate.entryKey === entryKey);
-    if (!entry) {
-      return;
+    const ledger = readDowntimeLedger(crafter);
+    for (const entry of this.#entries) {
+      for (const rune of entry.runes) {
+        const activity = findDowntimeActivityByOrigin(ledger, this.#getDowntimeOrigin(entry, rune));
+        if (!activity) {
+          continue;
+        }
+
+        const checks = activity.days.filter((day) => day.outcome !== null);
+        rune.successfulCopies = Math.max(rune.successfulCopies, Math.min(activity.checksSucceeded, rune.copies));
+        rune.failureCount = Math.max(rune.failureCount, checks.filter((day) => day.outcome === "failure").length);
+        rune.criticalFailureCount = Math.max(
+          rune.criticalFailureCount,
+          checks.filter((day) => day.outcome === "criticalFailure").length,
+        );
+        const last = checks[checks.length - 1];
+        if (last && checks.length >= rune.attempts) {
+          rune.attempts = checks.length;
+          rune.lastOutcome = last.outcome;
+          rune.lastRollTotal = last.total;
+        }
+      }
     }
+  }
 
+  #requireCrafter(): CrafterInsight | null {
     const crafterInsight = getCrafterInsight(this.#getSelectedCrafterActor());
     if (!crafterInsight.actor) {
       ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Select a crafter before rolling checks.`);
-      return;
+      return null;
     }
     if (!crafterInsight.hasCraftingSkill) {
       ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | Crafter must be trained in Crafting.`);
-      return;
+      return null;
     }
     if (!crafterInsight.hasMagicalCrafting) {
       ui.notifications?.warn(
         `${CONSTANTS.MODULE_NAME} | ${crafterInsight.actor.name} needs Magical Crafting to transfer runes.`,
       );
+      return null;
+    }
+
+    return crafterInsight;
+  }
+
+  /** Queues one Transfer Rune downtime activity per pending rune, so the checks are rolled a day at a time. */
+  async #queueDowntimeForEntry(entryKey: string): Promise<void> {
+    if (this.#busy) {
+      return;
+    }
+
+    const entry = this.#entries.find((candidate) => candidate.entryKey === entryKey);
+    const crafterInsight = entry ? this.#requireCrafter() : null;
+    const crafter = crafterInsight?.actor;
+    if (!entry || !crafterInsight || !crafter) {
+      return;
+    }
+
+    const ledger = readDowntimeLedger(crafter);
+    let queued = 0;
+    for (const rune of entry.runes.filter((candidate) => isRunePending(candidate, crafterInsight))) {
+      const origin = this.#getDowntimeOrigin(entry, rune);
+      if (findDowntimeActivityByOrigin(ledger, origin)?.status === "active") {
+        continue;
+      }
+
+      await queueRuneTransferDowntime(crafter, {
+        runeName: rune.name,
+        itemName: entry.weaponName,
+        itemUuid: entry.weaponUuid,
+        dc: rune.transferDc,
+        copies: rune.copies,
+        copiesDone: getRuneResolvedCopies(rune, crafterInsight),
+        transferCostGp: rune.transferCostGp,
+        origin,
+      });
+      queued += 1;
+    }
+
+    if (queued === 0) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | ${entry.weaponName} has no runes left to queue.`);
+      return;
+    }
+
+    ui.notifications?.info(
+      `${CONSTANTS.MODULE_NAME} | Queued ${queued} rune transfer(s) from ${entry.weaponName} as downtime for ` +
+        `${crafter.name}. Resolve them from the Downtime Tracker, then refresh this queue.`,
+    );
+    refreshDowntimeTracker();
+  }
+
+  async #rollCraftingForEntry(entryKey: string): Promise<void> {
+    if (this.#busy) {
+      return;
+    }
+
+    const entry = this.#entries.find((candidate) => candidate.entryKey === entryKey);
+    if (!entry) {
+      return;
+    }
+
+    const crafterInsight = this.#requireCrafter();
+    if (!crafterInsight?.actor) {
       return;
     }
 
@@ -2172,48 +1234,15 @@ class RuneStripperApplication extends appv1.api.FormApplication {
     entry: WeaponSelection,
     rune: RuneSelection,
     crafter: Actor,
-  ): Promise<{ outcome: CraftingOutcome; total: number | null } | null> {
-    const skill = getCraftingSkill(crafter);
-    const check = asRecord(asRecord(skill)?.["check"]);
-    const roll = check?.["roll"];
-    if (typeof roll !== "function") {
-      ui.notifications?.warn(
-        `${CONSTANTS.MODULE_NAME} | Could not resolve a PF2E Crafting roll handler for ${crafter.name}.`,
-      );
-      return null;
-    }
-
+  ): Promise<TransferRuneCheckResult | null> {
     const attemptNumber = Math.max(Math.trunc(rune.attempts) + 1, 1);
-    const runeTransferNote = `${escapeHtml(rune.name)} from ${escapeHtml(entry.weaponName)} ` +
-      `(copy ${attemptNumber}/${Math.max(rune.copies, 1)})`;
-
-    const rollResult = await (roll as (args: unknown) => Promise<unknown>).call(check, {
-      action: "craft",
-      slug: "crafting",
+    return await rollTransferRuneCheck(crafter, {
       title: `Transfer Rune: ${rune.name} (${entry.weaponName})`,
-      dc: { value: rune.transferDc, visible: true },
-      extraRollOptions: ["action:craft", "activity:transfer-rune", `${CONSTANTS.MODULE_ID}:rune-stripper`],
-      extraRollNotes: [
-        {
-          selector: "crafting",
-          title: "Rune Transfer Target",
-          text: runeTransferNote,
-        },
-      ],
+      dc: rune.transferDc,
+      note: `${escapeHtml(rune.name)} from ${escapeHtml(entry.weaponName)} ` +
+        `(copy ${attemptNumber}/${Math.max(rune.copies, 1)})`,
+      source: "rune-stripper",
     });
-    if (!rollResult) {
-      return null;
-    }
-
-    const rollRecord = asRecord(rollResult);
-    const total = toNumber(rollRecord?.["total"]);
-    const degree = toNumber(asRecord(rollRecord?.["options"])?.["degreeOfSuccess"]);
-    const degreeOutcome = degreeToCraftingOutcome(degree);
-
-    return {
-      outcome: degreeOutcome ?? craftingOutcomeFromTotal(total ?? 0, rune.transferDc),
-      total,
-    };
   }
 
   async #resolveStripTargets(): Promise<{ targets: WeaponStripTarget[]; missing: string[] }> {
@@ -2256,19 +1285,7 @@ class RuneStripperApplication extends appv1.api.FormApplication {
           continue;
         }
 
-        const restoreUpdate = target.entry.itemType === "armor"
-            ? {
-              "system.runes.potency": target.originalRunes.potency,
-              "system.runes.resilient": target.originalRunes.resilient,
-              "system.runes.property": [...target.originalRunes.property],
-            }
-            : {
-              "system.runes.potency": target.originalRunes.potency,
-              "system.runes.striking": target.originalRunes.striking,
-              "system.runes.property": [...target.originalRunes.property],
-            };
-
-        await target.document.update(restoreUpdate as any);
+        await target.document.update(buildRuneUpdate(target.entry.itemType, target.originalRunes) as any);
       } catch {
         failures.push(target.entry.weaponName);
       }
@@ -2389,19 +1406,12 @@ class RuneStripperApplication extends appv1.api.FormApplication {
     const totals = computeTotals(this.#entries);
     const totalCostCp = gpToCopper(totals.grandTotalGp);
 
-    const payerInventory = (payerActor as unknown as {
-      inventory?: {
-        removeCoins?: (
-          coins: Partial<Record<"pp" | "gp" | "sp" | "cp" | "credits" | "upb", number>>,
-          options?: { byValue?: boolean },
-        ) => Promise<boolean>;
-      };
-    }).inventory;
-    if (!payerInventory || typeof payerInventory.removeCoins !== "function") {
+    const payerInventory = getPayerInventory(payerActor);
+    if (!payerInventory) {
       throw new Error("Selected payer actor does not support PF2E currency transfers.");
     }
 
-    const availableCopper = this.#getPayerAvailableCopper(payerActor);
+    const availableCopper = getPayerAvailableCopper(payerActor);
     if (availableCopper !== null && availableCopper < totalCostCp) {
       ui.notifications?.warn(
         `${CONSTANTS.MODULE_NAME} | ${payerActor.name} does not have enough currency ` +
@@ -2450,19 +1460,7 @@ class RuneStripperApplication extends appv1.api.FormApplication {
           const system = asRecord(strippedSource["system"]) ?? {};
           strippedSource["system"] = system;
           system["quantity"] = target.entry.itemQuantity;
-          if (target.entry.itemType === "armor") {
-            system["runes"] = {
-              potency: 0,
-              resilient: 0,
-              property: [],
-            };
-          } else {
-            system["runes"] = {
-              potency: 0,
-              striking: 0,
-              property: [],
-            };
-          }
+          system["runes"] = buildRuneSource(target.entry.itemType, STRIPPED_RUNES);
 
           const targetActor = target.document.actor;
           let createdSplit: unknown;
@@ -2491,19 +1489,7 @@ class RuneStripperApplication extends appv1.api.FormApplication {
           continue;
         }
 
-        const stripUpdate = target.entry.itemType === "armor"
-          ? {
-            "system.runes.potency": 0,
-            "system.runes.resilient": 0,
-            "system.runes.property": [],
-          }
-          : {
-            "system.runes.potency": 0,
-            "system.runes.striking": 0,
-            "system.runes.property": [],
-          };
-
-        await target.document.update(stripUpdate as any);
+        await target.document.update(buildRuneUpdate(target.entry.itemType, STRIPPED_RUNES) as any);
         executedTargets.push({ target, mode: "full" });
       } catch {
         const rollbackFailures = await this.#rollbackExecutedStrips(executedTargets);
@@ -2575,6 +1561,13 @@ class RuneStripperApplication extends appv1.api.FormApplication {
       return;
     }
 
+    await recordTreasureTransaction({
+      source: "rune-stripper",
+      label: `Stripped ${totals.runeCount} rune(s) from ${totals.weaponCount} item(s) into runestones`,
+      deltaGp: -totals.grandTotalGp,
+      actor: payerActor,
+    });
+
     ui.notifications?.info(
       `${CONSTANTS.MODULE_NAME} | Stripped ${totals.runeCount} rune(s) from ${totals.weaponCount} item(s). ` +
         `Charged ${formatGp(totals.grandTotalGp)} to ${payerActor.name}. ` +
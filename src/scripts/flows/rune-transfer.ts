@@ -0,0 +1,1199 @@
+import { CONSTANTS } from "../constants";
+import { getLevelBasedDc } from "../pf2e/level-based-dc";
+import {
+  getRuneKindRegistryVersion,
+  getRuneKindsForItemType,
+  isRuneItemType,
+  matchRuneKindKey,
+  PROPERTY_RUNE_KIND,
+  runeKindKeyFromName,
+  supportsPropertyRunes,
+} from "./rune-kinds";
+
+const RUNE_COMPENDIUM_SUFFIXES = ["equipment-srd", "equipment"] as const;
+
+const RUNE_QUALIFIER_PREFIXES = new Set([
+  "greater",
+  "major",
+  "minor",
+  "lesser",
+  "moderate",
+  "supreme",
+  "mythic",
+  "true",
+]);
+const PROFICIENCY_RANK_BONUS = [0, 2, 4, 6, 8] as const;
+
+export type UnknownRecord = Record<string, unknown>;
+/** Id of a registered rune kind (see `rune-kinds.ts`), or `property`. */
+export type RuneKind = string;
+
+/** Grades of each rune kind the item type carries, keyed by kind id, plus its property rune slugs. */
+export interface ItemRuneState {
+  fundamentals: Record<string, number>;
+  property: string[];
+}
+
+export type CraftingOutcome = "criticalSuccess" | "success" | "failure" | "criticalFailure";
+
+export interface RuneCatalogEntry {
+  key: string;
+  name: string;
+  priceGp: number;
+  level: number;
+  /** PF2E usage slug such as `etched-onto-a-weapon`, naming what the rune can be etched onto. */
+  usage: string;
+  uuid: string;
+  img: string;
+  packId: string;
+  documentId: string;
+  priority: number;
+}
+
+export interface RuneCatalog {
+  runes: Map<string, RuneCatalogEntry>;
+  runestoneSource: UnknownRecord;
+  runestoneName: string;
+  runestoneBasePriceGp: number;
+  runestoneUuid: string;
+}
+
+export interface PayerOption {
+  actorId: string;
+  label: string;
+  selected: boolean;
+}
+
+export interface CrafterOption {
+  actorId: string;
+  label: string;
+  selected: boolean;
+}
+
+export interface CrafterInsight {
+  actor: Actor | null;
+  skill: unknown;
+  rank: number;
+  modifier: number | null;
+  hasCraftingSkill: boolean;
+  hasMagicalCrafting: boolean;
+  hasAssuranceCrafting: boolean;
+  assuranceTotal: number | null;
+  relevantCraftingFeats: string[];
+}
+
+let cachedRuneCatalogPromise: Promise<RuneCatalog | null> | null = null;
+let cachedRuneCatalogVersion = -1;
+
+export function asRecord(value: unknown): UnknownRecord | null {
+  return value && typeof value === "object" ? (value as UnknownRecord) : null;
+}
+
+export function toNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  return null;
+}
+
+export function deepClone<T>(value: T): T {
+  const foundryUtils = (globalThis as {
+    foundry?: { utils?: { deepClone?: <U>(input: U) => U } };
+  }).foundry?.utils;
+
+  if (typeof foundryUtils?.deepClone === "function") {
+    return foundryUtils.deepClone(value);
+  }
+
+  if (typeof structuredClone === "function") {
+    return structuredClone(value);
+  }
+
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function normalizeWordTokens(value: string): string[] {
+  return value
+    .normalize("NFKD")
+    .replace(/[`'’]/g, "")
+    .replace(/[^A-Za-z0-9]+/g, " ")
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((entry) => entry.length > 0);
+}
+
+function toCamelCase(words: string[]): string {
+  if (words.length === 0) {
+    return "";
+  }
+
+  return words
+    .map((word, index) => (index === 0 ? word : `${word.charAt(0).toUpperCase()}${word.slice(1)}`))
+    .join("");
+}
+
+function capitalize(value: string): string {
+  return value ? `${value.charAt(0).toUpperCase()}${value.slice(1)}` : "";
+}
+
+function qualifierToPrefix(value: string): string | null {
+  const token = normalizeWordTokens(value).at(0);
+  if (!token) {
+    return null;
+  }
+
+  return RUNE_QUALIFIER_PREFIXES.has(token) ? token : null;
+}
+
+function buildRuneKeyFromName(name: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const kindKey = runeKindKeyFromName(trimmed);
+  if (kindKey) {
+    return kindKey;
+  }
+
+  let basePart = trimmed;
+  let qualifierPart: string | null = null;
+  const parentheticalMatch = /^(.*?)\s*\(([^)]+)\)\s*$/.exec(trimmed);
+  if (parentheticalMatch) {
+    basePart = parentheticalMatch[1].trim();
+    qualifierPart = parentheticalMatch[2].trim();
+  }
+
+  const baseWords = normalizeWordTokens(basePart);
+  if (baseWords.length === 0) {
+    return null;
+  }
+
+  const leadingPrefix = qualifierToPrefix(baseWords[0]);
+  const qualifierPrefix = qualifierPart ? qualifierToPrefix(qualifierPart) : null;
+  const prefix = qualifierPrefix ?? leadingPrefix;
+
+  const coreWords = prefix && leadingPrefix ? baseWords.slice(1) : baseWords;
+  const core = toCamelCase(coreWords);
+  if (!core) {
+    return null;
+  }
+
+  if (prefix) {
+    return `${prefix}${capitalize(core)}`;
+  }
+
+  return core;
+}
+
+function extractPriceGp(value: unknown): number {
+  const record = asRecord(value);
+  if (!record) {
+    return 0;
+  }
+
+  const pp = toNumber(record["pp"]) ?? 0;
+  const gp = toNumber(record["gp"]) ?? 0;
+  const sp = toNumber(record["sp"]) ?? 0;
+  const cp = toNumber(record["cp"]) ?? 0;
+  const credits = toNumber(record["credits"]) ?? 0;
+
+  return pp * 10 + gp + sp / 10 + cp / 100 + credits / 10;
+}
+
+export function roundGp(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function gpToCopper(gp: number): number {
+  return Math.max(Math.round(gp * 100), 0);
+}
+
+export function coinsFromGp(gpValue: number): UnknownRecord {
+  let copper = gpToCopper(gpValue);
+  const pp = Math.floor(copper / 1000);
+  copper -= pp * 1000;
+  const gp = Math.floor(copper / 100);
+  copper -= gp * 100;
+  const sp = Math.floor(copper / 10);
+  copper -= sp * 10;
+  const cp = copper;
+
+  const result: UnknownRecord = {};
+  if (pp > 0) result["pp"] = pp;
+  if (gp > 0) result["gp"] = gp;
+  if (sp > 0) result["sp"] = sp;
+  if (cp > 0) result["cp"] = cp;
+  if (Object.keys(result).length === 0) {
+    result["gp"] = 0;
+  }
+  return result;
+}
+
+export function formatGp(gp: number): string {
+  const rounded = roundGp(gp);
+  const fixed = rounded.toFixed(2).replace(/\.00$/, "").replace(/(\.\d)0$/, "$1");
+  return `${fixed} gp`;
+}
+
+export function escapeHtml(value: string): string {
+  const utils = foundry.utils as { escapeHTML?: (input: string) => string };
+  if (typeof utils.escapeHTML === "function") {
+    return utils.escapeHTML(value);
+  }
+
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function buildRuneUuid(packId: string, documentId: string): string {
+  return `Compendium.${packId}.Item.${documentId}`;
+}
+
+function getEntryId(entry: UnknownRecord): string | null {
+  const value = entry["_id"] ?? entry["id"];
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function extractIndexEntries(index: unknown): UnknownRecord[] {
+  if (!index) {
+    return [];
+  }
+
+  if (Array.isArray(index)) {
+    return index.filter((entry): entry is UnknownRecord => !!asRecord(entry));
+  }
+
+  const candidate = index as {
+    values?: () => Iterable<unknown>;
+    contents?: unknown;
+  };
+
+  if (typeof candidate.values === "function") {
+    return Array.from(candidate.values())
+      .map((entry) => asRecord(entry))
+      .filter((entry): entry is UnknownRecord => entry !== null);
+  }
+
+  if (Array.isArray(candidate.contents)) {
+    return candidate.contents
+      .map((entry) => asRecord(entry))
+      .filter((entry): entry is UnknownRecord => entry !== null);
+  }
+
+  return [];
+}
+
+export function extractCollectionValues<T>(collection: unknown): T[] {
+  if (!collection) {
+    return [];
+  }
+
+  if (Array.isArray(collection)) {
+    return collection as T[];
+  }
+
+  const candidate = collection as {
+    values?: () => Iterable<T>;
+    contents?: unknown;
+  };
+
+  if (typeof candidate.values === "function") {
+    return Array.from(candidate.values());
+  }
+
+  if (Array.isArray(candidate.contents)) {
+    return candidate.contents as T[];
+  }
+
+  return [];
+}
+
+function getUsageValue(entry: UnknownRecord): string {
+  const system = asRecord(entry["system"]);
+  const usage = asRecord(system?.["usage"]);
+  const value = usage?.["value"];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function getLevelValue(entry: UnknownRecord): number {
+  const system = asRecord(entry["system"]);
+  const level = asRecord(system?.["level"]);
+  return toNumber(level?.["value"] ?? system?.["level"]) ?? 0;
+}
+
+export function getPriceValue(entry: UnknownRecord): number {
+  const system = asRecord(entry["system"]);
+  const price = asRecord(system?.["price"]);
+  return extractPriceGp(price?.["value"]);
+}
+
+export function getStringValue(record: UnknownRecord, key: string): string {
+  const value = record[key];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function humanizeRuneSlug(slug: string): string {
+  return slug
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[-_]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/\b\w/g, (match) => match.toUpperCase());
+}
+
+export interface RuneKeyDescriptor {
+  kind: RuneKind;
+  /** Grade of a registered rune kind; 0 for property runes. */
+  value: number;
+  /** Item types a graded rune fits; property runes are checked against their usage instead. */
+  itemTypes: readonly string[] | null;
+}
+
+export function describeRuneKey(key: string): RuneKeyDescriptor {
+  const matched = matchRuneKindKey(key);
+  return matched
+    ? { kind: matched.kind.id, value: matched.match.value, itemTypes: matched.match.itemTypes }
+    : { kind: PROPERTY_RUNE_KIND, value: 0, itemTypes: null };
+}
+
+/** Property rune key without its grade prefix, so `greaterFlaming` and `flaming` count as the same rune. */
+export function getPropertyRuneBase(key: string): string {
+  const match = /^([a-z]+)([A-Z].*)$/.exec(key);
+  if (match && RUNE_QUALIFIER_PREFIXES.has(match[1])) {
+    return `${match[2].charAt(0).toLowerCase()}${match[2].slice(1)}`;
+  }
+
+  return key;
+}
+
+async function buildRuneCatalog(): Promise<RuneCatalog | null> {
+  const runes = new Map<string, RuneCatalogEntry>();
+  let runestoneSource: UnknownRecord | null = null;
+  let runestoneBasePriceGp = 3;
+  let runestoneName = "Runestone";
+  let runestoneUuid = "";
+
+  const systemId = game.system?.id ?? "pf2e";
+  const packIds = RUNE_COMPENDIUM_SUFFIXES.map((suffix) => `${systemId}.${suffix}`);
+  for (const [priority, packId] of packIds.entries()) {
+    const pack = game.packs?.get(packId);
+    if (!pack) {
+      continue;
+    }
+
+    const packAccess = pack as unknown as {
+      collection?: unknown;
+      getIndex?: (options?: unknown) => Promise<unknown>;
+      getDocument?: (id: string) => Promise<unknown>;
+      index?: unknown;
+    };
+    const resolvedPackId =
+      typeof packAccess.collection === "string" && packAccess.collection.trim().length > 0
+        ? packAccess.collection.trim()
+        : packId;
+
+    const index = typeof packAccess.getIndex === "function"
+      ? await packAccess.getIndex({
+        fields: [
+          "name",
+          "type",
+          "img",
+          "system.usage.value",
+          "system.price.value",
+          "system.level.value",
+        ] as string[],
+      })
+      : packAccess.index;
+
+    for (const entry of extractIndexEntries(index)) {
+      const documentId = getEntryId(entry);
+      const name = getStringValue(entry, "name");
+      const type = getStringValue(entry, "type");
+      if (!documentId || !name) {
+        continue;
+      }
+
+      if (!runestoneSource && name.toLowerCase() === "runestone") {
+        const document = typeof packAccess.getDocument === "function"
+          ? await packAccess.getDocument(documentId)
+          : null;
+        const source = asRecord((document as { toObject?: () => unknown } | null)?.toObject?.());
+        if (source) {
+          runestoneSource = source;
+          const sourceName = getStringValue(source, "name");
+          if (sourceName) {
+            runestoneName = sourceName;
+          }
+          const system = asRecord(source["system"]);
+          const price = asRecord(system?.["price"]);
+          runestoneBasePriceGp = extractPriceGp(price?.["value"]);
+          runestoneUuid = buildRuneUuid(resolvedPackId, documentId);
+        }
+      }
+
+      if (type !== "equipment") {
+        continue;
+      }
+
+      const usage = getUsageValue(entry);
+      if (!usage.startsWith("etched-onto-")) {
+        continue;
+      }
+
+      const key = buildRuneKeyFromName(name);
+      if (!key) {
+        continue;
+      }
+
+      const candidate: RuneCatalogEntry = {
+        key,
+        name,
+        priceGp: getPriceValue(entry),
+        level: getLevelValue(entry),
+        usage,
+        uuid: buildRuneUuid(resolvedPackId, documentId),
+        img: getStringValue(entry, "img"),
+        packId: resolvedPackId,
+        documentId,
+        priority,
+      };
+
+      const existing = runes.get(key);
+      if (
+        !existing ||
+        candidate.priority < existing.priority ||
+        (candidate.priority === existing.priority &&
+          (candidate.level < existing.level ||
+            (candidate.level === existing.level && candidate.priceGp < existing.priceGp)))
+      ) {
+        runes.set(key, candidate);
+      }
+    }
+  }
+
+  if (!runestoneSource) {
+    const fallbackUuid = "Compendium.pf2e.equipment-srd.Item.ev3F9qlMNlNdCOAI";
+    const fallbackDocument = await fromUuid(fallbackUuid as any);
+    if (fallbackDocument instanceof Item) {
+      runestoneSource = asRecord(fallbackDocument.toObject());
+      runestoneBasePriceGp = extractPriceGp(
+        asRecord(asRecord(runestoneSource?.["system"])?.["price"])?.["value"],
+      );
+      runestoneUuid = fallbackUuid;
+      const fallbackName = fallbackDocument.name?.trim();
+      if (fallbackName) {
+        runestoneName = fallbackName;
+      }
+    }
+  }
+
+  if (!runestoneSource) {
+    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Could not locate the PF2E Runestone item.`);
+    return null;
+  }
+
+  return {
+    runes,
+    runestoneSource,
+    runestoneName,
+    runestoneBasePriceGp: roundGp(runestoneBasePriceGp),
+    runestoneUuid,
+  };
+}
+
+export async function getRuneCatalog(): Promise<RuneCatalog | null> {
+  const version = getRuneKindRegistryVersion();
+  if (!cachedRuneCatalogPromise || cachedRuneCatalogVersion !== version) {
+    cachedRuneCatalogPromise = buildRuneCatalog();
+    cachedRuneCatalogVersion = version;
+  }
+
+  return await cachedRuneCatalogPromise;
+}
+
+export async function resolveDroppedItem(dropData: unknown): Promise<Item | null> {
+  const record = asRecord(dropData);
+  if (!record) {
+    return null;
+  }
+
+  const uuid = typeof record["uuid"] === "string" ? record["uuid"] : "";
+  if (uuid) {
+    const document = await fromUuid(uuid as any);
+    if (document instanceof Item) {
+      return document;
+    }
+  }
+
+  const actorUuid = typeof record["actorUUID"] === "string" ? record["actorUUID"] : "";
+  const itemId = typeof record["id"] === "string" ? record["id"] : "";
+  if (actorUuid && itemId) {
+    const actorDocument = await fromUuid(actorUuid as any);
+    if (actorDocument instanceof Actor) {
+      const embedded = actorDocument.items.get(itemId);
+      if (embedded) {
+        return embedded;
+      }
+    }
+  }
+
+  const dropResolver = Item as unknown as {
+    fromDropData?: (data: unknown) => Promise<Item | null>;
+    implementation?: { fromDropData?: (data: unknown) => Promise<Item | null> };
+  };
+  if (typeof dropResolver.fromDropData === "function") {
+    return await dropResolver.fromDropData(record);
+  }
+  if (typeof dropResolver.implementation?.fromDropData === "function") {
+    return await dropResolver.implementation.fromDropData(record);
+  }
+
+  return null;
+}
+
+export function getItemType(item: Item): string {
+  const type = (item as unknown as { type?: unknown }).type;
+  return typeof type === "string" ? type : "";
+}
+
+export function extractItemRuneState(item: Item): ItemRuneState {
+  const sourceRecord = asRecord((item as unknown as { _source?: unknown })._source);
+  const sourceSystem = asRecord(sourceRecord?.["system"]);
+  const sourceRunes = asRecord(sourceSystem?.["runes"]);
+
+  const liveSystem = asRecord((item as unknown as { system?: unknown }).system);
+  const liveRunes = asRecord(liveSystem?.["runes"]);
+  const runes = sourceRunes ?? liveRunes ?? {};
+
+  const itemType = getItemType(item);
+  const fundamentals: Record<string, number> = {};
+  for (const kind of getRuneKindsForItemType(itemType)) {
+    fundamentals[kind.id] = Math.max(Math.floor(toNumber(runes[kind.field]) ?? 0), 0);
+  }
+
+  const property = supportsPropertyRunes(itemType) && Array.isArray(runes["property"])
+    ? runes["property"]
+      .filter((entry): entry is string => typeof entry === "string")
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0)
+    : [];
+
+  return { fundamentals, property };
+}
+
+export function getPropertyRuneSlots(itemType: string, state: ItemRuneState): number {
+  return getRuneKindsForItemType(itemType)
+    .filter((kind) => kind.grantsPropertySlots)
+    .reduce((sum, kind) => sum + (state.fundamentals[kind.id] ?? 0), 0);
+}
+
+/** Catalog keys of every rune on an item, fundamental kinds first. */
+export function listItemRuneKeys(itemType: string, state: ItemRuneState): Array<{ kind: RuneKind; key: string }> {
+  const keys: Array<{ kind: RuneKind; key: string }> = [];
+  for (const kind of getRuneKindsForItemType(itemType)) {
+    const key = kind.keyForValue(state.fundamentals[kind.id] ?? 0, itemType);
+    if (key) {
+      keys.push({ kind: kind.id, key });
+    }
+  }
+
+  keys.push(...state.property.map((key) => ({ kind: PROPERTY_RUNE_KIND, key })));
+  return keys;
+}
+
+/** `system.runes` source object for an item type, as used when creating a split copy of an item. */
+export function buildRuneSource(itemType: string, state: ItemRuneState): UnknownRecord {
+  const runes: UnknownRecord = {};
+  for (const kind of getRuneKindsForItemType(itemType)) {
+    runes[kind.field] = state.fundamentals[kind.id] ?? 0;
+  }
+  if (supportsPropertyRunes(itemType)) {
+    runes["property"] = [...state.property];
+  }
+  return runes;
+}
+
+/** Flattened `system.runes.*` update writing the whole rune state of an item. */
+export function buildRuneUpdate(itemType: string, state: ItemRuneState): UnknownRecord {
+  return Object.fromEntries(
+    Object.entries(buildRuneSource(itemType, state)).map(([field, value]) => [`system.runes.${field}`, value]),
+  );
+}
+
+/**
+ * Catalog key of the rune a runestone holds. Runestones made by the Rune Stripper carry the key in their flags;
+ * PF2E rune items and "<Rune> Runestone" items fall back to the rune name.
+ */
+export function resolveRunestoneRuneKey(item: Item): string | null {
+  const moduleFlags = asRecord(asRecord((item as unknown as { flags?: unknown }).flags)?.[CONSTANTS.MODULE_ID]);
+  const flaggedKey = getStringValue(asRecord(moduleFlags?.["runeStripper"]) ?? {}, "runeKey");
+  if (flaggedKey) {
+    return flaggedKey;
+  }
+
+  const name = item.name?.trim() ?? "";
+  const type = (item as unknown as { type?: unknown }).type;
+  const usage = getUsageValue({ system: (item as unknown as { system?: unknown }).system });
+  if (type === "equipment" && usage.startsWith("etched-onto-")) {
+    return buildRuneKeyFromName(name);
+  }
+
+  const runestoneMatch = /^(.+?)\s+Runestone$/i.exec(name);
+  return runestoneMatch ? buildRuneKeyFromName(runestoneMatch[1]) : null;
+}
+
+/** Whether the item is of a type some registered rune kind can be etched onto. */
+export function isRuneItem(item: Item | null | undefined): item is Item {
+  return item instanceof Item && isRuneItemType(getItemType(item));
+}
+
+export function isCharacterActor(actor: Actor | null | undefined): actor is Actor {
+  const type = (actor as unknown as { type?: unknown } | null | undefined)?.type;
+  return typeof type === "string" && type === "character";
+}
+
+export function isPartyActor(actor: Actor | null | undefined): actor is Actor {
+  const type = (actor as unknown as { type?: unknown } | null | undefined)?.type;
+  return typeof type === "string" && type === "party";
+}
+
+function getPwolEnabled(): boolean {
+  const variantRules = (game as unknown as {
+    pf2e?: { settings?: { variants?: { pwol?: { enabled?: unknown } } } };
+  }).pf2e?.settings?.variants;
+  return variantRules?.pwol?.enabled === true;
+}
+
+function calculateLevelDc(level: number): number {
+  const normalized = Number.isFinite(level) ? Math.trunc(level) : 0;
+  const base = getLevelBasedDc(normalized);
+  return getPwolEnabled() ? base - Math.max(normalized, 0) : base;
+}
+
+export function getActorLevel(actor: Actor | null): number {
+  if (!(actor instanceof Actor)) {
+    return 0;
+  }
+
+  const system = asRecord((actor as unknown as { system?: unknown }).system);
+  const details = asRecord(system?.["details"]);
+  const levelField = details?.["level"];
+  const level = toNumber(asRecord(levelField)?.["value"] ?? levelField) ?? 0;
+  return Math.max(Math.trunc(level), 0);
+}
+
+export function getItemLevel(item: Item): number {
+  const sourceRecord = asRecord((item as unknown as { _source?: unknown })._source);
+  const sourceSystem = asRecord(sourceRecord?.["system"]);
+  const sourceLevel = sourceSystem?.["level"];
+
+  const liveSystem = asRecord((item as unknown as { system?: unknown }).system);
+  const liveLevel = liveSystem?.["level"];
+
+  const level = toNumber(asRecord(sourceLevel)?.["value"] ?? sourceLevel ?? asRecord(liveLevel)?.["value"] ?? liveLevel) ?? 0;
+  return Math.max(Math.trunc(level), -1);
+}
+
+export function getTransferRuneDc(runeLevel: number): number {
+  return calculateLevelDc(Math.trunc(runeLevel));
+}
+
+const RARITY_DC_ADJUSTMENTS: Record<string, number> = { uncommon: 2, rare: 5, unique: 10 };
+
+/** Crafting DC for an item: the DC for its level, raised for uncommon, rare and unique items. */
+export function getCraftItemDc(item: Item): number {
+  const system = asRecord((item as unknown as { system?: unknown }).system);
+  const rarity = getStringValue(asRecord(system?.["traits"]) ?? {}, "rarity");
+  return calculateLevelDc(getItemLevel(item)) + (RARITY_DC_ADJUSTMENTS[rarity] ?? 0);
+}
+
+export function getItemQuantity(item: Item): number {
+  const sourceRecord = asRecord((item as unknown as { _source?: unknown })._source);
+  const sourceSystem = asRecord(sourceRecord?.["system"]);
+  const sourceQuantity = sourceSystem?.["quantity"];
+
+  const liveSystem = asRecord((item as unknown as { system?: unknown }).system);
+  const liveQuantity = liveSystem?.["quantity"];
+
+  const quantity = toNumber(sourceQuantity ?? liveQuantity) ?? 1;
+  return Math.max(Math.floor(quantity), 1);
+}
+
+function getItemSlug(item: Item): string {
+  const directSlug = (item as unknown as { slug?: unknown }).slug;
+  if (typeof directSlug === "string" && directSlug.trim().length > 0) {
+    return directSlug.trim();
+  }
+
+  const sourceRecord = asRecord((item as unknown as { _source?: unknown })._source);
+  const sourceSystem = asRecord(sourceRecord?.["system"]);
+  const sourceSlug = sourceSystem?.["slug"];
+  if (typeof sourceSlug === "string" && sourceSlug.trim().length > 0) {
+    return sourceSlug.trim();
+  }
+
+  const liveSystem = asRecord((item as unknown as { system?: unknown }).system);
+  const liveSlug = liveSystem?.["slug"];
+  return typeof liveSlug === "string" && liveSlug.trim().length > 0 ? liveSlug.trim() : "";
+}
+
+function getItemRulesSelection(item: Item, selectionKey: string): string | null {
+  const sourceFlags = asRecord(asRecord((item as unknown as { _source?: unknown })._source)?.["flags"]);
+  const liveFlags = asRecord((item as unknown as { flags?: unknown }).flags);
+
+  for (const flags of [sourceFlags, liveFlags]) {
+    const pf2eFlags = asRecord(flags?.["pf2e"]);
+    const systemFlags = asRecord(flags?.["system"]);
+    const rulesSelections = asRecord(pf2eFlags?.["rulesSelections"]) ?? asRecord(systemFlags?.["rulesSelections"]);
+    const value = rulesSelections?.[selectionKey];
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value.trim();
+    }
+  }
+
+  return null;
+}
+
+function getFeatItems(actor: Actor | null): Item[] {
+  if (!(actor instanceof Actor)) {
+    return [];
+  }
+
+  const itemTypes = (actor as unknown as { itemTypes?: { feat?: unknown } }).itemTypes;
+  if (Array.isArray(itemTypes?.feat)) {
+    return itemTypes.feat.filter((entry): entry is Item => entry instanceof Item);
+  }
+
+  return extractCollectionValues<Item>((actor as unknown as { items?: unknown }).items).filter((item) => {
+    const itemType = (item as unknown as { type?: unknown }).type;
+    return itemType === "feat";
+  });
+}
+
+function getCraftingSkill(actor: Actor | null): unknown {
+  if (!(actor instanceof Actor)) {
+    return null;
+  }
+
+  const skills = asRecord((actor as unknown as { skills?: unknown }).skills);
+  if (skills?.["crafting"]) {
+    return skills["crafting"];
+  }
+  if (skills?.["cra"]) {
+    return skills["cra"];
+  }
+
+  const systemSkills = asRecord(asRecord((actor as unknown as { system?: unknown }).system)?.["skills"]);
+  if (systemSkills?.["crafting"]) {
+    return systemSkills["crafting"];
+  }
+  if (systemSkills?.["cra"]) {
+    return systemSkills["cra"];
+  }
+
+  return null;
+}
+
+function getCraftingRank(actor: Actor | null, skill: unknown): number {
+  const rankFromSkill = toNumber(asRecord(skill)?.["rank"]);
+  if (typeof rankFromSkill === "number") {
+    return Math.clamp(Math.trunc(rankFromSkill), 0, 4);
+  }
+
+  const systemSkills = asRecord(asRecord((actor as unknown as { system?: unknown }).system)?.["skills"]);
+  const rankFromSystem = toNumber(
+    asRecord(systemSkills?.["crafting"])?.["rank"] ??
+      asRecord(systemSkills?.["cra"])?.["rank"],
+  );
+  return typeof rankFromSystem === "number" ? Math.clamp(Math.trunc(rankFromSystem), 0, 4) : 0;
+}
+
+function getCraftingModifier(skill: unknown): number | null {
+  const skillRecord = asRecord(skill);
+  if (!skillRecord) {
+    return null;
+  }
+
+  const check = asRecord(skillRecord["check"]);
+  const mod = toNumber(check?.["mod"] ?? skillRecord["mod"] ?? skillRecord["totalModifier"]);
+  return typeof mod === "number" ? Math.trunc(mod) : null;
+}
+
+function getAssuranceTotal(actor: Actor | null, rank: number): number | null {
+  if (rank <= 0) {
+    return null;
+  }
+
+  const proficiencyBonus = PROFICIENCY_RANK_BONUS[Math.clamp(rank, 0, 4)];
+  const level = getPwolEnabled() ? 0 : getActorLevel(actor);
+  return 10 + proficiencyBonus + level;
+}
+
+function isAssuranceForCrafting(feat: Item): boolean {
+  const slug = getItemSlug(feat).toLowerCase();
+  if (slug === "assurance-crafting") {
+    return true;
+  }
+  if (slug !== "assurance") {
+    return false;
+  }
+
+  const selection = (getItemRulesSelection(feat, "assurance") ?? "").toLowerCase();
+  return selection === "crafting" || selection === "cra" || selection.includes("craft");
+}
+
+function isRelevantCraftingFeat(feat: Item): boolean {
+  if (isAssuranceForCrafting(feat)) {
+    return true;
+  }
+
+  const slug = getItemSlug(feat).toLowerCase();
+  if (slug.includes("craft")) {
+    return true;
+  }
+
+  const name = feat.name?.toLowerCase().trim() ?? "";
+  return name.includes("craft");
+}
+
+export function getCrafterInsight(actor: Actor | null): CrafterInsight {
+  if (!(actor instanceof Actor) || !isCharacterActor(actor)) {
+    return {
+      actor: null,
+      skill: null,
+      rank: 0,
+      modifier: null,
+      hasCraftingSkill: false,
+      hasMagicalCrafting: false,
+      hasAssuranceCrafting: false,
+      assuranceTotal: null,
+      relevantCraftingFeats: [],
+    };
+  }
+
+  const skill = getCraftingSkill(actor);
+  const rank = getCraftingRank(actor, skill);
+  const modifier = getCraftingModifier(skill);
+  const feats = getFeatItems(actor);
+  const hasMagicalCrafting = feats.some((feat) => getItemSlug(feat).toLowerCase() === "magical-crafting");
+  const hasAssuranceCrafting = feats.some((feat) => isAssuranceForCrafting(feat));
+  const relevantCraftingFeats = feats
+    .filter((feat) => isRelevantCraftingFeat(feat))
+    .map((feat) => feat.name?.trim() ?? "Unnamed feat")
+    .sort((a, b) => a.localeCompare(b));
+
+  const hasCraftingSkill = rank > 0 && skill !== null;
+
+  return {
+    actor,
+    skill,
+    rank,
+    modifier,
+    hasCraftingSkill,
+    hasMagicalCrafting,
+    hasAssuranceCrafting,
+    assuranceTotal: hasAssuranceCrafting && hasCraftingSkill ? getAssuranceTotal(actor, rank) : null,
+    relevantCraftingFeats,
+  };
+}
+
+function degreeToCraftingOutcome(degree: number | null): CraftingOutcome | null {
+  const normalized = typeof degree === "number" ? Math.trunc(degree) : null;
+  switch (normalized) {
+    case 3:
+      return "criticalSuccess";
+    case 2:
+      return "success";
+    case 1:
+      return "failure";
+    case 0:
+      return "criticalFailure";
+    default:
+      return null;
+  }
+}
+
+function craftingOutcomeFromTotal(total: number, dc: number): CraftingOutcome {
+  if (total >= dc + 10) {
+    return "criticalSuccess";
+  }
+  if (total >= dc) {
+    return "success";
+  }
+  if (total <= dc - 10) {
+    return "criticalFailure";
+  }
+  return "failure";
+}
+
+export function isSuccessfulOutcome(outcome: CraftingOutcome | null): boolean {
+  return outcome === "success" || outcome === "criticalSuccess";
+}
+
+export function isFailureOutcome(outcome: CraftingOutcome | null): boolean {
+  return outcome === "failure" || outcome === "criticalFailure";
+}
+
+export function resolvePayerOptions(selectedActorId: string | null): PayerOption[] {
+  const options: PayerOption[] = [];
+  const seenActorIds = new Set<string>();
+
+  if (game.user?.isGM) {
+    const users = extractCollectionValues<User>(game.users);
+    for (const user of users) {
+      const character = user.character;
+      if (!(character instanceof Actor) || !isCharacterActor(character) || !character.id) {
+        continue;
+      }
+      if (seenActorIds.has(character.id)) {
+        continue;
+      }
+      seenActorIds.add(character.id);
+      options.push({
+        actorId: character.id,
+        label: `${user.name} -> ${character.name}`,
+        selected: false,
+      });
+    }
+
+    for (const actor of extractCollectionValues<Actor>(game.actors)) {
+      if (!isPartyActor(actor) || !actor.id || seenActorIds.has(actor.id)) {
+        continue;
+      }
+      seenActorIds.add(actor.id);
+      options.push({
+        actorId: actor.id,
+        label: `Party -> ${actor.name}`,
+        selected: false,
+      });
+    }
+
+    for (const actor of extractCollectionValues<Actor>(game.actors)) {
+      if (!isCharacterActor(actor) || !actor.id || seenActorIds.has(actor.id)) {
+        continue;
+      }
+      seenActorIds.add(actor.id);
+      options.push({
+        actorId: actor.id,
+        label: `${actor.name}`,
+        selected: false,
+      });
+    }
+  } else {
+    const character = game.user?.character;
+    if (character instanceof Actor && isCharacterActor(character) && character.id) {
+      seenActorIds.add(character.id);
+      options.push({
+        actorId: character.id,
+        label: character.name ?? "Character",
+        selected: false,
+      });
+    }
+
+    for (const actor of extractCollectionValues<Actor>(game.actors)) {
+      if (!isPartyActor(actor) || !actor.id || seenActorIds.has(actor.id) || !actor.isOwner) {
+        continue;
+      }
+      seenActorIds.add(actor.id);
+      options.push({
+        actorId: actor.id,
+        label: `Party -> ${actor.name}`,
+        selected: false,
+      });
+    }
+  }
+
+  if (options.length === 0) {
+    return options;
+  }
+
+  const selected = selectedActorId && options.some((option) => option.actorId === selectedActorId)
+    ? selectedActorId
+    : options[0].actorId;
+
+  return options.map((option) => ({
+    ...option,
+    selected: option.actorId === selected,
+  }));
+}
+
+export function resolveCrafterOptions(selectedActorId: string | null): CrafterOption[] {
+  const options: CrafterOption[] = [];
+  const seenActorIds = new Set<string>();
+
+  if (game.user?.isGM) {
+    const users = extractCollectionValues<User>(game.users);
+    for (const user of users) {
+      const character = user.character;
+      if (!(character instanceof Actor) || !isCharacterActor(character) || !character.id) {
+        continue;
+      }
+      if (seenActorIds.has(character.id)) {
+        continue;
+      }
+      seenActorIds.add(character.id);
+      options.push({
+        actorId: character.id,
+        label: `${user.name} -> ${character.name}`,
+        selected: false,
+      });
+    }
+
+    for (const actor of extractCollectionValues<Actor>(game.actors)) {
+      if (!isCharacterActor(actor) || !actor.id || seenActorIds.has(actor.id)) {
+        continue;
+      }
+      seenActorIds.add(actor.id);
+      options.push({
+        actorId: actor.id,
+        label: actor.name ?? "Character",
+        selected: false,
+      });
+    }
+  } else {
+    const preferredCharacter = game.user?.character;
+    if (preferredCharacter instanceof Actor && isCharacterActor(preferredCharacter) && preferredCharacter.id) {
+      seenActorIds.add(preferredCharacter.id);
+      options.push({
+        actorId: preferredCharacter.id,
+        label: preferredCharacter.name ?? "Character",
+        selected: false,
+      });
+    }
+
+    for (const actor of extractCollectionValues<Actor>(game.actors)) {
+      if (!isCharacterActor(actor) || !actor.id || seenActorIds.has(actor.id) || !actor.isOwner) {
+        continue;
+      }
+      seenActorIds.add(actor.id);
+      options.push({
+        actorId: actor.id,
+        label: actor.name ?? "Character",
+        selected: false,
+      });
+    }
+  }
+
+  if (options.length === 0) {
+    return options;
+  }
+
+  const preferredActorId = game.user?.character?.id ?? null;
+  const hasCurrentSelection = !!selectedActorId && options.some((option) => option.actorId === selectedActorId);
+  const selected = hasCurrentSelection
+    ? selectedActorId
+    : (preferredActorId && options.some((option) => option.actorId === preferredActorId))
+    ? preferredActorId
+    : options[0].actorId;
+
+  return options.map((option) => ({
+    ...option,
+    selected: option.actorId === selected,
+  }));
+}
+
+export function getPayerAvailableCopper(actor: Actor | null): number | null {
+  if (!actor) {
+    return null;
+  }
+
+  const inventory = (actor as unknown as { inventory?: { currency?: { copperValue?: unknown } } }).inventory;
+  const copper = toNumber(inventory?.currency?.copperValue);
+  return typeof copper === "number" ? Math.max(Math.floor(copper), 0) : null;
+}
+
+export interface PayerInventory {
+  removeCoins: (
+    coins: Partial<Record<"pp" | "gp" | "sp" | "cp" | "credits" | "upb", number>>,
+    options?: { byValue?: boolean },
+  ) => Promise<boolean>;
+}
+
+export function getPayerInventory(actor: Actor): PayerInventory | null {
+  const inventory = (actor as unknown as { inventory?: Partial<PayerInventory> }).inventory;
+  return inventory && typeof inventory.removeCoins === "function" ? inventory as PayerInventory : null;
+}
+
+export interface TransferRuneCheckRequest {
+  title: string;
+  dc: number;
+  /** Chat note naming the rune and item the check is for. */
+  note: string;
+  /** Tool that requested the check, added as a `handy-dandy:<source>` roll option. */
+  source: string;
+}
+
+export interface CraftingCheckRequest extends TransferRuneCheckRequest {
+  /** Downtime activity slug added as an `activity:<slug>` roll option, e.g. `craft`. */
+  activity: string;
+  noteTitle: string;
+}
+
+export interface TransferRuneCheckResult {
+  outcome: CraftingOutcome;
+  total: number | null;
+}
+
+/** Rolls the crafter's Crafting check for the Transfer Rune activity through the PF2E statistic roller. */
+export async function rollTransferRuneCheck(
+  crafter: Actor,
+  request: TransferRuneCheckRequest,
+): Promise<TransferRuneCheckResult | null> {
+  return await rollCraftingCheck(crafter, { ...request, activity: "transfer-rune", noteTitle: "Rune Transfer Target" });
+}
+
+/** Rolls the crafter's Crafting check for a Crafting downtime activity through the PF2E statistic roller. */
+export async function rollCraftingCheck(
+  crafter: Actor,
+  request: CraftingCheckRequest,
+): Promise<TransferRuneCheckResult | null> {
+  const skill = getCraftingSkill(crafter);
+  const check = asRecord(asRecord(skill)?.["check"]);
+  const roll = check?.["roll"];
+  if (typeof roll !== "function") {
+    ui.notifications?.warn(
+      `${CONSTANTS.MODULE_NAME} | Could not resolve a PF2E Crafting roll handler for ${crafter.name}.`,
+    );
+    return null;
+  }
+
+  const rollResult = await (roll as (args: unknown) => Promise<unknown>).call(check, {
+    action: "craft",
+    slug: "crafting",
+    title: request.title,
+    dc: { value: request.dc, visible: true },
+    extraRollOptions: ["action:craft", `activity:${request.activity}`, `${CONSTANTS.MODULE_ID}:${request.source}`],
+    extraRollNotes: [
+      {
+        selector: "crafting",
+        title: request.noteTitle,
+        text: request.note,
+      },
+    ],
+  });
+  if (!rollResult) {
+    return null;
+  }
+
+  const rollRecord = asRecord(rollResult);
+  const total = toNumber(rollRecord?.["total"]);
+  const degree = toNumber(asRecord(rollRecord?.["options"])?.["degreeOfSuccess"]);
+  const degreeOutcome = degreeToCraftingOutcome(degree);
+
+  return {
+    outcome: degreeOutcome ?? craftingOutcomeFromTotal(total ?? 0, request.dc),
+    total,
+  };
+}
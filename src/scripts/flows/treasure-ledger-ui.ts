@@ -0,0 +1,234 @@
+import { CONSTANTS } from "../constants";
+import { waitForDialog } from "../foundry/dialog";
+import { renderApplicationTemplate } from "../foundry/templates";
+import type { TreasureStatus } from "../pf2e/party-treasure";
+import { formatWorldDay } from "./downtime-ledger";
+import { formatGp, roundGp } from "./rune-transfer";
+import {
+  TREASURE_LEDGER_LIMIT,
+  TREASURE_SOURCE_LABELS,
+  buildPartyWealthReport,
+  clearTreasureLedger,
+  getActiveParty,
+  readTreasureLedger,
+  type TreasureHolding,
+  type TreasureLedgerEntry,
+  type TreasureSource,
+} from "./treasure-ledger";
+
+const TREASURE_LEDGER_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/treasure-ledger.hbs`;
+const RECENT_TRANSACTION_COUNT = 50;
+
+const STATUS_LABELS: Record<TreasureStatus, string> = {
+  under: "Under-rewarded",
+  "on-track": "On track",
+  over: "Over-rewarded",
+};
+
+interface HoldingViewData {
+  name: string;
+  currency: string;
+  runestones: string;
+  items: string;
+  total: string;
+  isStash: boolean;
+}
+
+interface TransactionViewData {
+  date: string;
+  worldDay: string;
+  source: string;
+  label: string;
+  delta: string;
+  isDebit: boolean;
+  actorName: string;
+  userName: string;
+}
+
+interface TreasureLedgerDialogData {
+  hasParty: boolean;
+  partyName: string;
+  level: number;
+  partySize: number;
+  holdings: HoldingViewData[];
+  totals: HoldingViewData;
+  expectedRange: string;
+  status: TreasureStatus | null;
+  statusLabel: string;
+  statusNote: string;
+  sources: { label: string; count: number; net: string; isDebit: boolean }[];
+  transactions: TransactionViewData[];
+  transactionCount: number;
+  limit: number;
+}
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+function formatDelta(gp: number): string {
+  return gp > 0 ? `+${formatGp(gp)}` : formatGp(gp);
+}
+
+function toHoldingViewData(holding: Omit<TreasureHolding, "actorId">): HoldingViewData {
+  return {
+    name: holding.name,
+    currency: formatGp(holding.currencyGp),
+    runestones: formatGp(holding.runestonesGp),
+    items: formatGp(holding.itemsGp),
+    total: formatGp(holding.totalGp),
+    isStash: holding.isStash,
+  };
+}
+
+function toTransactionViewData(entry: TreasureLedgerEntry): TransactionViewData {
+  return {
+    date: dateFormatter.format(new Date(entry.timestamp)),
+    worldDay: formatWorldDay(entry.worldTime),
+    source: TREASURE_SOURCE_LABELS[entry.source],
+    label: entry.label,
+    delta: formatDelta(entry.deltaGp),
+    isDebit: entry.deltaGp < 0,
+    actorName: entry.actorName,
+    userName: entry.userName,
+  };
+}
+
+function summarizeSources(entries: readonly TreasureLedgerEntry[]): TreasureLedgerDialogData["sources"] {
+  const totals = new Map<TreasureSource, { count: number; net: number }>();
+  for (const entry of entries) {
+    const total = totals.get(entry.source) ?? { count: 0, net: 0 };
+    total.count += 1;
+    total.net = roundGp(total.net + entry.deltaGp);
+    totals.set(entry.source, total);
+  }
+
+  return Array.from(totals, ([source, total]) => ({
+    label: TREASURE_SOURCE_LABELS[source],
+    count: total.count,
+    net: formatDelta(total.net),
+    isDebit: total.net < 0,
+  }));
+}
+
+function buildDialogData(): TreasureLedgerDialogData {
+  const party = getActiveParty();
+  if (!party) {
+    return {
+      hasParty: false,
+      partyName: "",
+      level: 0,
+      partySize: 0,
+      holdings: [],
+      totals: toHoldingViewData({ name: "", isStash: false, currencyGp: 0, runestonesGp: 0, itemsGp: 0, totalGp: 0 }),
+      expectedRange: "",
+      status: null,
+      statusLabel: "",
+      statusNote: "",
+      sources: [],
+      transactions: [],
+      transactionCount: 0,
+      limit: TREASURE_LEDGER_LIMIT,
+    };
+  }
+
+  const report = buildPartyWealthReport(party);
+  const { min, max } = report.expectation;
+  const entries = readTreasureLedger(party);
+  let statusNote = `${formatGp(max - report.totals.totalGp)} of this level's treasure is still to come.`;
+  if (report.status === "under") {
+    statusNote = `${formatGp(min - report.totals.totalGp)} below what the party should already have.`;
+  } else if (report.status === "over") {
+    statusNote = `${formatGp(report.totals.totalGp - max)} above what the party should have by the end of the level.`;
+  }
+
+  return {
+    hasParty: true,
+    partyName: party.name ?? "Party",
+    level: report.level,
+    partySize: report.partySize,
+    holdings: report.holdings.map((holding) => toHoldingViewData(holding)),
+    totals: toHoldingViewData({ ...report.totals, name: "Total", isStash: false }),
+    expectedRange: `${formatGp(min)} - ${formatGp(max)}`,
+    status: report.status,
+    statusLabel: STATUS_LABELS[report.status],
+    statusNote,
+    sources: summarizeSources(entries),
+    transactions: entries.slice(-RECENT_TRANSACTION_COUNT).reverse().map((entry) => toTransactionViewData(entry)),
+    transactionCount: entries.length,
+    limit: TREASURE_LEDGER_LIMIT,
+  } satisfies TreasureLedgerDialogData;
+}
+
+async function clearPartyLedger(): Promise<void> {
+  const party = getActiveParty();
+  if (!party?.isOwner) {
+    ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | You do not have permission to clear the treasure ledger.`);
+    return;
+  }
+
+  const confirmed = await waitForDialog<boolean>({
+    title: `${CONSTANTS.MODULE_NAME} | Clear Treasure Ledger`,
+    content: `<p>Delete every transaction recorded for ${party.name}? Party wealth is not changed.</p>`,
+    closeResult: false,
+    buttons: [
+      {
+        action: "clear",
+        icon: '<i class="fas fa-trash"></i>',
+        label: "Clear",
+        callback: () => true,
+      },
+      {
+        action: "cancel",
+        icon: '<i class="fas fa-times"></i>',
+        label: "Cancel",
+        default: true,
+        callback: () => false,
+      },
+    ],
+  });
+  if (!confirmed) {
+    return;
+  }
+
+  await clearTreasureLedger(party);
+  ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Treasure ledger cleared.`);
+}
+
+export async function runTreasureLedgerFlow(): Promise<void> {
+  const content = await renderApplicationTemplate(TREASURE_LEDGER_TEMPLATE, buildDialogData());
+
+  const action = await waitForDialog<"refresh" | "clear" | "close">({
+    title: `${CONSTANTS.MODULE_NAME} | Party Treasure Ledger`,
+    content,
+    width: 820,
+    resizable: true,
+    closeResult: "close",
+    buttons: [
+      {
+        action: "refresh",
+        icon: '<i class="fas fa-rotate-right"></i>',
+        label: "Refresh",
+        default: true,
+        callback: () => "refresh",
+      },
+      {
+        action: "clear",
+        icon: '<i class="fas fa-trash"></i>',
+        label: "Clear Log",
+        callback: () => "clear",
+      },
+      {
+        action: "close",
+        icon: '<i class="fas fa-times"></i>',
+        label: "Close",
+        callback: () => "close",
+      },
+    ],
+  });
+
+  if (action === "clear") {
+    await clearPartyLedger();
+    void runTreasureLedgerFlow();
+  } else if (action === "refresh") {
+    void runTreasureLedgerFlow();
+  }
+}
@@ -0,0 +1,305 @@
+import { CONSTANTS } from "../constants";
+import {
+  getPartyTreasureExpectation,
+  getTreasureStatus,
+  type PartyTreasureExpectation,
+  type TreasureStatus,
+} from "../pf2e/party-treasure";
+import { getWorldTime } from "./downtime-ledger";
+import {
+  asRecord,
+  extractCollectionValues,
+  formatGp,
+  getActorLevel,
+  getItemQuantity,
+  getPayerAvailableCopper,
+  getPriceValue,
+  isCharacterActor,
+  isPartyActor,
+  resolveRunestoneRuneKey,
+  roundGp,
+  toNumber,
+} from "./rune-transfer";
+
+export const TREASURE_LEDGER_FLAG_KEY = "treasureLedger" as const;
+export const TREASURE_LEDGER_LIMIT = 500;
+
+export type TreasureSource = "rune-stripper" | "rune-etcher" | "item-remix" | "generated-loot";
+
+export const TREASURE_SOURCE_LABELS: Record<TreasureSource, string> = {
+  "rune-stripper": "Rune Stripper",
+  "rune-etcher": "Rune Etcher",
+  "item-remix": "Item Remix",
+  "generated-loot": "Generated Loot",
+};
+
+export interface TreasureLedgerEntry {
+  timestamp: number;
+  /** World time (seconds) when the transaction happened. */
+  worldTime: number;
+  source: TreasureSource;
+  label: string;
+  /** Change in value: negative for coins spent, positive for treasure added or made more valuable. */
+  deltaGp: number;
+  actorName: string;
+  userName: string;
+}
+
+export interface TreasureTransactionInput {
+  source: TreasureSource;
+  label: string;
+  deltaGp: number;
+  actor?: Actor | null;
+}
+
+export interface TreasureHolding {
+  actorId: string;
+  name: string;
+  isStash: boolean;
+  currencyGp: number;
+  runestonesGp: number;
+  itemsGp: number;
+  totalGp: number;
+}
+
+export interface PartyWealthReport {
+  party: Actor;
+  level: number;
+  /** Player characters in the party; familiars and other members still count towards its wealth. */
+  partySize: number;
+  holdings: TreasureHolding[];
+  totals: Omit<TreasureHolding, "actorId" | "name" | "isStash">;
+  expectation: PartyTreasureExpectation;
+  status: TreasureStatus;
+}
+
+const PHYSICAL_ITEM_TYPES = new Set([
+  "ammo",
+  "armor",
+  "backpack",
+  "book",
+  "consumable",
+  "equipment",
+  "shield",
+  "treasure",
+  "weapon",
+]);
+const TREASURE_SOURCES = Object.keys(TREASURE_SOURCE_LABELS) as TreasureSource[];
+
+const toText = (value: unknown): string => (typeof value === "string" ? value : "");
+
+/** The party the ledger belongs to: the system's active party, or the first party actor in the world. */
+export function getActiveParty(): Actor | null {
+  const activeParty = (game.actors as unknown as { party?: unknown } | undefined)?.party;
+  if (activeParty instanceof Actor && isPartyActor(activeParty)) {
+    return activeParty;
+  }
+
+  return extractCollectionValues<Actor>(game.actors).find((actor) => isPartyActor(actor)) ?? null;
+}
+
+export function getPartyMembers(party: Actor): Actor[] {
+  const members = (party as unknown as { members?: unknown }).members;
+  return extractCollectionValues<unknown>(members).filter((member): member is Actor => member instanceof Actor);
+}
+
+/** The party stash and every member, for checking whether an item belongs to the party's wealth. */
+function getPartyActorIds(party: Actor): Set<string> {
+  return new Set(
+    [party, ...getPartyMembers(party)]
+      .map((actor) => actor.id)
+      .filter((id): id is string => typeof id === "string"),
+  );
+}
+
+function isCoinItem(item: Item): boolean {
+  if ((item as unknown as { isCoinage?: unknown }).isCoinage === true) {
+    return true;
+  }
+
+  const system = asRecord((item as unknown as { system?: unknown }).system);
+  return system?.["category"] === "coin" || system?.["stackGroup"] === "coins";
+}
+
+/** Value of a stack, preferring the system's asset value so runes and precious materials are included. */
+function getItemValueGp(item: Item): number {
+  const assetValue = asRecord((item as unknown as { assetValue?: unknown }).assetValue);
+  const copper = toNumber(assetValue?.["copperValue"]);
+  if (copper !== null) {
+    return copper / 100;
+  }
+
+  const system = asRecord((item as unknown as { system?: unknown }).system);
+  const per = Math.max(toNumber(asRecord(system?.["price"])?.["per"]) ?? 1, 1);
+  return (getPriceValue({ system }) * getItemQuantity(item)) / per;
+}
+
+function summarizeHolding(actor: Actor, isStash: boolean): TreasureHolding {
+  let runestonesGp = 0;
+  let itemsGp = 0;
+  for (const item of extractCollectionValues<Item>(actor.items)) {
+    if (!PHYSICAL_ITEM_TYPES.has(String(item.type)) || isCoinItem(item)) {
+      continue;
+    }
+
+    if (resolveRunestoneRuneKey(item)) {
+      runestonesGp += getItemValueGp(item);
+    } else {
+      itemsGp += getItemValueGp(item);
+    }
+  }
+
+  const currencyGp = (getPayerAvailableCopper(actor) ?? 0) / 100;
+  return {
+    actorId: actor.id ?? "",
+    name: actor.name ?? "",
+    isStash,
+    currencyGp: roundGp(currencyGp),
+    runestonesGp: roundGp(runestonesGp),
+    itemsGp: roundGp(itemsGp),
+    totalGp: roundGp(currencyGp + runestonesGp + itemsGp),
+  };
+}
+
+/** Average level of the party's characters, falling back to the level the party actor reports. */
+function getPartyLevel(party: Actor, characters: readonly Actor[]): number {
+  if (characters.length === 0) {
+    return Math.max(getActorLevel(party), 1);
+  }
+
+  const total = characters.reduce((sum, actor) => sum + getActorLevel(actor), 0);
+  return Math.max(Math.round(total / characters.length), 1);
+}
+
+export function buildPartyWealthReport(party: Actor): PartyWealthReport {
+  const members = getPartyMembers(party);
+  const characters = members.filter((actor) => isCharacterActor(actor));
+  const holdings = [summarizeHolding(party, true), ...members.map((actor) => summarizeHolding(actor, false))];
+  const totals = holdings.reduce(
+    (sum, holding) => ({
+      currencyGp: roundGp(sum.currencyGp + holding.currencyGp),
+      runestonesGp: roundGp(sum.runestonesGp + holding.runestonesGp),
+      itemsGp: roundGp(sum.itemsGp + holding.itemsGp),
+      totalGp: roundGp(sum.totalGp + holding.totalGp),
+    }),
+    { currencyGp: 0, runestonesGp: 0, itemsGp: 0, totalGp: 0 },
+  );
+  const level = getPartyLevel(party, characters);
+  const expectation = getPartyTreasureExpectation(level, characters.length || members.length);
+
+  return {
+    party,
+    level: expectation.level,
+    partySize: expectation.partySize,
+    holdings,
+    totals,
+    expectation,
+    status: getTreasureStatus(totals.totalGp, expectation),
+  };
+}
+
+function normalizeEntry(value: unknown): TreasureLedgerEntry | null {
+  const record = asRecord(value);
+  const source = TREASURE_SOURCES.find((candidate) => candidate === record?.["source"]);
+  const deltaGp = toNumber(record?.["deltaGp"]);
+  if (!record || !source || deltaGp === null) {
+    return null;
+  }
+
+  return {
+    timestamp: toNumber(record["timestamp"]) ?? 0,
+    worldTime: toNumber(record["worldTime"]) ?? 0,
+    source,
+    label: toText(record["label"]),
+    deltaGp: roundGp(deltaGp),
+    actorName: toText(record["actorName"]),
+    userName: toText(record["userName"]),
+  };
+}
+
+/** Transactions recorded against the party, oldest first. */
+export function readTreasureLedger(party: Actor): TreasureLedgerEntry[] {
+  try {
+    const stored = party.getFlag(CONSTANTS.MODULE_ID, TREASURE_LEDGER_FLAG_KEY);
+    return Array.isArray(stored)
+      ? stored.map((entry) => normalizeEntry(entry)).filter((entry): entry is TreasureLedgerEntry => Boolean(entry))
+      : [];
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to read treasure ledger for ${party.name}`, error);
+    return [];
+  }
+}
+
+export async function clearTreasureLedger(party: Actor): Promise<void> {
+  await party.unsetFlag(CONSTANTS.MODULE_ID, TREASURE_LEDGER_FLAG_KEY);
+}
+
+/**
+ * Appends a transaction to the active party's ledger. Recording never interrupts the tool that made the change: with
+ * no party, or a user who cannot update it, the transaction is only reported to the console.
+ */
+export async function recordTreasureTransaction(input: TreasureTransactionInput): Promise<void> {
+  const deltaGp = roundGp(input.deltaGp);
+  if (deltaGp === 0) {
+    return;
+  }
+
+  const party = getActiveParty();
+  if (!party?.isOwner) {
+    console.warn(
+      `${CONSTANTS.MODULE_NAME} | Treasure transaction not recorded: ` +
+        `${party ? `no permission to update ${party.name}` : "no party actor"}.`,
+      input,
+    );
+    return;
+  }
+
+  const entry: TreasureLedgerEntry = {
+    timestamp: Date.now(),
+    worldTime: getWorldTime(),
+    source: input.source,
+    label: input.label,
+    deltaGp,
+    actorName: input.actor?.name ?? "",
+    userName: game.user?.name ?? "",
+  };
+
+  try {
+    const entries = [...readTreasureLedger(party), entry].slice(-TREASURE_LEDGER_LIMIT);
+    await party.setFlag(CONSTANTS.MODULE_ID, TREASURE_LEDGER_FLAG_KEY, entries);
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to record treasure transaction`, error);
+  }
+}
+
+/** Records a remix that changed an item's Price, when the item is held by the party or one of its members. */
+export async function recordItemPriceChange(item: Item, beforeGp: number, afterGp: number): Promise<void> {
+  const party = getActiveParty();
+  const actorId = item.actor?.id;
+  if (!party || !actorId || !getPartyActorIds(party).has(actorId)) {
+    return;
+  }
+
+  const quantity = getItemQuantity(item);
+  const stack = quantity > 1 ? ` (x${quantity})` : "";
+  await recordTreasureTransaction({
+    source: "item-remix",
+    label: `${item.name}: Price ${formatGp(beforeGp)} -> ${formatGp(afterGp)}${stack}`,
+    deltaGp: (afterGp - beforeGp) * quantity,
+    actor: item.actor,
+  });
+}
+
+/** Records the value of a generated loot actor, returning the actor so importers can pass it straight through. */
+export async function recordGeneratedLoot(actor: Actor): Promise<Actor> {
+  if ((actor as unknown as { type?: unknown }).type === "loot") {
+    await recordTreasureTransaction({
+      source: "generated-loot",
+      label: `Generated ${actor.name}`,
+      deltaGp: summarizeHolding(actor, false).totalGp,
+      actor,
+    });
+  }
+
+  return actor;
+}
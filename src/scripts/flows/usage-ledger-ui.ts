@@ -0,0 +1,214 @@
+import { CONSTANTS } from "../constants";
+import { waitForDialog } from "../foundry/dialog";
+import { renderApplicationTemplate } from "../foundry/templates";
+import {
+  USAGE_LEDGER_LIMIT,
+  aggregateUsage,
+  clearUsageLedger,
+  readUsageLedger,
+  summarizeUsage,
+  type UsageAggregateKey,
+  type UsageAggregateRow,
+  type UsageLedgerEntry,
+} from "../openrouter/usage-ledger";
+
+const USAGE_LEDGER_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/usage-ledger.hbs`;
+const ALL_USERS = "all";
+
+interface UsageRowViewData {
+  label: string;
+  calls: string;
+  failures: string;
+  inputTokens: string;
+  outputTokens: string;
+  duration: string;
+  cost: string;
+}
+
+interface UsageTableViewData {
+  title: string;
+  keyLabel: string;
+  rows: UsageRowViewData[];
+}
+
+interface UsageLedgerDialogData {
+  canViewAllUsers: boolean;
+  userOptions: { value: string; label: string; selected: boolean }[];
+  scopeLabel: string;
+  hasEntries: boolean;
+  totals: { calls: string; totalTokens: string; cost: string; costIncomplete: boolean };
+  tables: UsageTableViewData[];
+  limit: number;
+}
+
+const countFormatter = new Intl.NumberFormat();
+const costFormatter = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "USD",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 4,
+});
+
+const TABLES: { key: UsageAggregateKey; title: string; keyLabel: string }[] = [
+  { key: "day", title: "By Day", keyLabel: "Day" },
+  { key: "flow", title: "By Flow", keyLabel: "Flow" },
+  { key: "model", title: "By Model", keyLabel: "Model" },
+];
+
+function formatCost(value: number, incomplete: boolean): string {
+  const formatted = costFormatter.format(value);
+  return incomplete ? `≥ ${formatted}` : formatted;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = ms / 1000;
+  return seconds >= 60 ? `${(seconds / 60).toFixed(1)} min` : `${seconds.toFixed(1)} s`;
+}
+
+function toRowViewData(row: UsageAggregateRow): UsageRowViewData {
+  return {
+    label: row.label,
+    calls: countFormatter.format(row.calls),
+    failures: countFormatter.format(row.failures),
+    inputTokens: countFormatter.format(row.inputTokens),
+    outputTokens: countFormatter.format(row.outputTokens),
+    duration: formatDuration(row.durationMs),
+    cost: formatCost(row.costUsd, row.costIncomplete),
+  };
+}
+
+function listLedgerUsers(): User[] {
+  const currentUser = game.user;
+  if (!currentUser?.isGM) {
+    return currentUser ? [currentUser] : [];
+  }
+
+  return Array.from((game.users ?? []) as Iterable<User>);
+}
+
+function collectEntries(userId: string): UsageLedgerEntry[] {
+  const users = listLedgerUsers().filter((user) => userId === ALL_USERS || user.id === userId);
+  return users.flatMap((user) => readUsageLedger(user));
+}
+
+function buildDialogData(userId: string): UsageLedgerDialogData {
+  const canViewAllUsers = Boolean(game.user?.isGM);
+  const entries = collectEntries(userId);
+  const summary = summarizeUsage(entries);
+  const users = listLedgerUsers();
+  const selectedUser = users.find((user) => user.id === userId);
+
+  return {
+    canViewAllUsers,
+    userOptions: [
+      { value: ALL_USERS, label: "All users", selected: userId === ALL_USERS },
+      ...users.map((user) => ({ value: user.id ?? "", label: user.name ?? "", selected: user.id === userId })),
+    ],
+    scopeLabel: userId === ALL_USERS ? "All users" : selectedUser?.name ?? "Current user",
+    hasEntries: entries.length > 0,
+    totals: {
+      calls: countFormatter.format(summary.calls),
+      totalTokens: countFormatter.format(summary.totalTokens),
+      cost: formatCost(summary.costUsd, summary.costIncomplete),
+      costIncomplete: summary.costIncomplete,
+    },
+    tables: TABLES.map((table) => ({
+      title: table.title,
+      keyLabel: table.keyLabel,
+      rows: aggregateUsage(entries, table.key).map((row) => toRowViewData(row)),
+    })),
+    limit: USAGE_LEDGER_LIMIT,
+  } satisfies UsageLedgerDialogData;
+}
+
+async function clearSelectedLedgers(userId: string): Promise<void> {
+  const users = listLedgerUsers().filter((user) => userId === ALL_USERS || user.id === userId);
+  const target = users.length === 1 ? users[0]?.name ?? "this user" : `${users.length} users`;
+  const confirmed = await waitForDialog<boolean>({
+    title: `${CONSTANTS.MODULE_NAME} | Clear Usage Ledger`,
+    content: `<p>Delete the recorded AI usage for ${target}? This cannot be undone.</p>`,
+    closeResult: false,
+    buttons: [
+      {
+        action: "clear",
+        icon: '<i class="fas fa-trash"></i>',
+        label: "Clear",
+        callback: () => true,
+      },
+      {
+        action: "cancel",
+        icon: '<i class="fas fa-times"></i>',
+        label: "Cancel",
+        default: true,
+        callback: () => false,
+      },
+    ],
+  });
+  if (!confirmed) {
+    return;
+  }
+
+  for (const user of users) {
+    await clearUsageLedger(user);
+  }
+  ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Usage ledger cleared.`);
+}
+
+export async function runUsageLedgerFlow(initialUserId?: string): Promise<void> {
+  const defaultUserId = game.user?.isGM ? ALL_USERS : game.user?.id ?? ALL_USERS;
+  let selectedUserId = initialUserId ?? defaultUserId;
+  const content = await renderApplicationTemplate(USAGE_LEDGER_TEMPLATE, buildDialogData(selectedUserId));
+
+  const action = await waitForDialog<"refresh" | "clear" | "close">({
+    title: `${CONSTANTS.MODULE_NAME} | AI Usage Ledger`,
+    content,
+    width: 720,
+    resizable: true,
+    closeResult: "close",
+    render: (root) => {
+      const rerender = async (): Promise<void> => {
+        const section = root.querySelector<HTMLElement>(".handy-dandy-usage-ledger");
+        if (!section) {
+          return;
+        }
+        section.outerHTML = await renderApplicationTemplate(USAGE_LEDGER_TEMPLATE, buildDialogData(selectedUserId));
+        bindUserSelect();
+      };
+      const bindUserSelect = (): void => {
+        root.querySelector<HTMLSelectElement>("select[name='userId']")?.addEventListener("change", (event) => {
+          selectedUserId = (event.currentTarget as HTMLSelectElement).value || ALL_USERS;
+          void rerender();
+        });
+      };
+      bindUserSelect();
+    },
+    buttons: [
+      {
+        action: "refresh",
+        icon: '<i class="fas fa-rotate-right"></i>',
+        label: "Refresh",
+        default: true,
+        callback: () => "refresh",
+      },
+      {
+        action: "clear",
+        icon: '<i class="fas fa-trash"></i>',
+        label: "Clear",
+        callback: () => "clear",
+      },
+      {
+        action: "close",
+        icon: '<i class="fas fa-times"></i>',
+        label: "Close",
+        callback: () => "close",
+      },
+    ],
+  });
+
+  if (action === "clear") {
+    await clearSelectedLedgers(selectedUserId);
+    void runUsageLedgerFlow(selectedUserId);
+  } else if (action === "refresh") {
+    void runUsageLedgerFlow(selectedUserId);
+  }
+}
@@ -0,0 +1,104 @@
+import { fromFoundryActor, type FoundryActor } from "../mappers/export";
+import {
+  mapCanonicalActor,
+  normalizeGeneratedEntity,
+  toGeneratedActorResultFromFoundry,
+} from "../generation/pipeline";
+import type { CanonicalEntityMap, EntityType, GeneratedEntityMap } from "../schemas";
+
+export interface VariantMergeSection<T extends EntityType = EntityType> {
+  readonly id: string;
+  readonly label: string;
+  readonly keys: readonly (keyof CanonicalEntityMap[T])[];
+}
+
+/** Section id → index of the variant that section is taken from. Missing sections fall back to the first variant. */
+export type VariantMergeSelection = Readonly<Record<string, number>>;
+
+const ACTOR_SECTIONS: readonly VariantMergeSection<"actor">[] = [
+  { id: "identity", label: "Name, level & traits", keys: ["name", "slug", "rarity", "level", "size", "traits", "alignment", "languages"] },
+  { id: "abilities", label: "Ability modifiers", keys: ["abilities"] },
+  { id: "defenses", label: "Perception, defenses & speed", keys: ["attributes"] },
+  { id: "skills", label: "Skills", keys: ["skills"] },
+  { id: "strikes", label: "Strikes", keys: ["strikes"] },
+  { id: "actions", label: "Actions & abilities", keys: ["actions"] },
+  { id: "spellcasting", label: "Spellcasting", keys: ["spellcasting"] },
+  { id: "inventory", label: "Inventory & loot", keys: ["inventory", "loot"] },
+  { id: "hazard", label: "Hazard details", keys: ["hazard"] },
+  { id: "narrative", label: "Description & recall knowledge", keys: ["description", "recallKnowledge"] },
+  { id: "art", label: "Art", keys: ["img"] },
+];
+
+const ITEM_SECTIONS: readonly VariantMergeSection<"item">[] = [
+  { id: "identity", label: "Name, level, price & traits", keys: ["name", "slug", "rarity", "level", "price", "traits"] },
+  { id: "description", label: "Description", keys: ["description"] },
+  { id: "mechanics", label: "Item mechanics", keys: ["system", "spell", "feat"] },
+  { id: "art", label: "Art", keys: ["img"] },
+];
+
+const ACTION_SECTIONS: readonly VariantMergeSection<"action">[] = [
+  { id: "identity", label: "Name, cost & traits", keys: ["name", "slug", "actionType", "rarity", "traits", "requirements"] },
+  { id: "description", label: "Description", keys: ["description"] },
+  { id: "art", label: "Art", keys: ["img"] },
+];
+
+export function getVariantMergeSections<T extends EntityType>(type: T): readonly VariantMergeSection<T>[] {
+  switch (type) {
+    case "actor":
+      return ACTOR_SECTIONS as readonly VariantMergeSection<T>[];
+    case "item":
+      return ITEM_SECTIONS as readonly VariantMergeSection<T>[];
+    default:
+      return ACTION_SECTIONS as readonly VariantMergeSection<T>[];
+  }
+}
+
+/** Canonical view of a generated entry; actors come back from generation already mapped to Foundry data. */
+export function toCanonicalVariantData<T extends EntityType>(type: T, data: GeneratedEntityMap[T]): CanonicalEntityMap[T] {
+  if (type === "actor") {
+    return fromFoundryActor(data as unknown as FoundryActor) as CanonicalEntityMap[T];
+  }
+  return data as unknown as CanonicalEntityMap[T];
+}
+
+/**
+ * Builds one entry from several variants by copying each merge section from the chosen variant, then validates the
+ * result like any other generation so mismatched picks (for example strikes from a different level) are normalized.
+ */
+export async function mergeWorkbenchVariants<T extends EntityType>(
+  type: T,
+  variants: readonly GeneratedEntityMap[T][],
+  selection: VariantMergeSelection,
+): Promise<GeneratedEntityMap[T]> {
+  if (!variants.length) {
+    throw new Error("No variants to merge.");
+  }
+
+  const canonical = variants.map((variant) => toCanonicalVariantData(type, variant) as unknown as Record<string, unknown>);
+  const merged: Record<string, unknown> = { ...canonical[0] };
+  for (const section of getVariantMergeSections(type)) {
+    const index = selection[section.id] ?? 0;
+    const source = canonical[index] ?? canonical[0];
+    for (const key of section.keys) {
+      const field = key as string;
+      if (source[field] === undefined) {
+        delete merged[field];
+      } else {
+        merged[field] = source[field];
+      }
+    }
+  }
+
+  switch (type) {
+    case "actor": {
+      const normalized = await normalizeGeneratedEntity("actor", merged);
+      const foundry = await mapCanonicalActor(normalized);
+      const identity = variants[selection.identity ?? 0] ?? variants[0];
+      return toGeneratedActorResultFromFoundry(identity as GeneratedEntityMap["actor"], foundry) as GeneratedEntityMap[T];
+    }
+    case "item":
+      return (await normalizeGeneratedEntity("item", merged)) as GeneratedEntityMap[T];
+    default:
+      return (await normalizeGeneratedEntity("action", merged)) as GeneratedEntityMap[T];
+  }
+}
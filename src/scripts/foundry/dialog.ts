@@ -30,6 +30,8 @@ export interface OpenDialogOptions {
   width?: number;
   resizable?: boolean;
   render?: (root: HTMLElement) => void;
+  /** Fires whenever the window closes, including through its header close control. */
+  onClose?: () => void;
 }
 
 export interface OpenDialogHandle {
@@ -184,6 +186,11 @@ export async function openDialog(options: OpenDialogOptions): Promise<OpenDialog
     content: options.content,
   } as never);
 
+  if (options.onClose) {
+    const onClose = options.onClose;
+    (dialog as unknown as EventTarget).addEventListener("close", () => onClose(), { once: true });
+  }
+
   await dialog.render({ force: true });
   const root = resolveDialogRoot(dialog);
   options.render?.(root);
@@ -1,7 +1,11 @@
 import {
   buildActionPrompt,
   buildActorPrompt,
+  buildHazardPrompt,
+  buildFeatPrompt,
   buildItemPrompt,
+  buildSpellPrompt,
+  getHazardStealthBonus,
   type ActionPromptInput,
   type ActorPromptInput,
   type ItemPromptInput,
@@ -9,6 +13,7 @@ import {
 import { getDefaultItemImage } from "../data/item-images";
 import { generateItemImage, generateTransparentTokenImage } from "./token-image";
 import {
+  hazardValidator,
   type ActionSchemaData,
   type ActorSchemaData,
   type ActorGenerationResult,
@@ -16,20 +21,39 @@ import {
 } from "../schemas";
 import {
   generateStructuredOutput,
+  getHazardSchemaDefinition,
+  getFeatSchemaDefinition,
   getSchemaDefinition,
+  getSpellSchemaDefinition,
   mapCanonicalActor,
   normalizeGeneratedEntity,
+  type GeneratedEntityRepairOptions,
 } from "./pipeline";
 import type {
   GenerateWithSchemaOptions,
+  JsonSchemaDefinition,
   OpenRouterRoutingRetryEvent,
   OpenRouterClient,
 } from "../openrouter/client";
+import type { CorrectionContext } from "../prompts";
+import type { ValidatorKey } from "../schemas";
+import { CONSTANTS } from "../constants";
+import { generateRuleElements } from "../flows/rule-element-generator";
+import { applyStatBlockFields, parseStatBlock, type ParsedStatBlock } from "../text/stat-block-parser";
+import { clampRepairAttempts } from "../validation/ensure-valid";
+import {
+  BALANCE_REPORT_FLAG_KEY,
+  correctCreatureBalance,
+  evaluateCreatureBalance,
+  type CreatureBalanceReport,
+} from "../validation/creature-balance";
 
 export interface GenerateOptions extends GenerateWithSchemaOptions {
   openRouterClient: Pick<OpenRouterClient, "generateWithSchema"> &
     Partial<Pick<OpenRouterClient, "generateImage">>;
   onProgress?: (update: GenerationProgressUpdate) => void;
+  /** Overrides the GenerationRepairAttempts setting; 0 disables the repair loop. */
+  maxRepairAttempts?: number;
 }
 
 function canGenerateImages(
@@ -43,6 +67,7 @@ function isRecord(value: unknown): value is Record<string, unknown> {
 }
 
 export const DEFAULT_GENERATION_SEED = 1337;
+export const DEFAULT_REPAIR_ATTEMPTS = 2;
 
 export type GenerationProgressStep =
   | "prompt"
@@ -50,7 +75,9 @@ export type GenerationProgressStep =
   | "routing"
   | "generation"
   | "validation"
+  | "repair"
   | "image"
+  | "rules"
   | "mapping"
   | "done";
 
@@ -119,11 +146,89 @@ function createRoutingResolvedReporter(
   };
 }
 
+function readRepairAttemptsSetting(): number {
+  const settings = (globalThis as {
+    game?: {
+      settings?: {
+        get?: (moduleId: string, key: string) => unknown;
+      };
+    };
+  }).game?.settings;
+
+  if (!settings || typeof settings.get !== "function") {
+    return DEFAULT_REPAIR_ATTEMPTS;
+  }
+
+  try {
+    return clampRepairAttempts(
+      settings.get(CONSTANTS.MODULE_ID, "GenerationRepairAttempts"),
+      DEFAULT_REPAIR_ATTEMPTS,
+    );
+  } catch (_error) {
+    return DEFAULT_REPAIR_ATTEMPTS;
+  }
+}
+
+function readBenchmarkAutoCorrectSetting(): boolean {
+  const settings = (globalThis as {
+    game?: {
+      settings?: {
+        get?: (moduleId: string, key: string) => unknown;
+      };
+    };
+  }).game?.settings;
+
+  if (!settings || typeof settings.get !== "function") {
+    return false;
+  }
+
+  try {
+    return settings.get(CONSTANTS.MODULE_ID, "CreatureBenchmarkAutoCorrect") === true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+function resolveRepairAttempts(options: Pick<GenerateOptions, "maxRepairAttempts">): number {
+  return options.maxRepairAttempts === undefined
+    ? readRepairAttemptsSetting()
+    : clampRepairAttempts(options.maxRepairAttempts, 0);
+}
+
+function createRepairOptions<K extends ValidatorKey>(
+  options: Pick<GenerateOptions, "onProgress" | "maxRepairAttempts">,
+  label: string,
+  percent: number,
+  regenerate: (correction: CorrectionContext) => Promise<unknown>,
+): GeneratedEntityRepairOptions<K> {
+  return {
+    maxAttempts: resolveRepairAttempts(options),
+    regenerate,
+    onAttempt: (request) => {
+      const errorCount = request.errors.length;
+      reportProgress(options, {
+        step: "repair",
+        message:
+          `Repairing ${label} JSON (attempt ${request.attempt}/${request.maxAttempts}, ` +
+          `${errorCount} validation error${errorCount === 1 ? "" : "s"})...`,
+        percent,
+      });
+    },
+  };
+}
+
 export async function generateAction(
   input: ActionPromptInput,
   options: GenerateOptions,
 ): Promise<ActionSchemaData> {
-  const { openRouterClient, seed = DEFAULT_GENERATION_SEED } = options;
+  const {
+    openRouterClient,
+    seed,
+    temperature,
+    usageFlow = "workbench",
+    signal,
+    onPartial,
+  } = options;
   reportProgress(options, {
     step: "prompt",
     message: "Preparing action prompt...",
@@ -146,6 +251,10 @@ export async function generateAction(
     getSchemaDefinition("action"),
     {
       seed,
+      temperature,
+      usageFlow,
+      signal,
+      onPartial,
       onRoutingRetry: createRoutingRetryReporter(options, 55),
       onRoutingResolved: createRoutingResolvedReporter(
         options,
@@ -159,7 +268,17 @@ export async function generateAction(
     message: "Normalizing and validating action structure...",
     percent: 75,
   });
-  const validated = await normalizeGeneratedEntity("action", draft);
+  const validated = await normalizeGeneratedEntity(
+    "action",
+    draft,
+    createRepairOptions<"action">(options, "action", 78, async (correction) =>
+      generateStructuredOutput<unknown>(
+        openRouterClient,
+        buildActionPrompt({ ...input, correction }),
+        getSchemaDefinition("action"),
+        { seed, temperature, usageFlow, signal, onPartial },
+      )),
+  );
   reportProgress(options, {
     step: "done",
     message: "Action generation complete.",
@@ -168,17 +287,109 @@ export async function generateAction(
   return validated;
 }
 
+function buildItemGenerationPrompt(input: ItemPromptInput, correction?: CorrectionContext): string {
+  const shared = {
+    systemId: input.systemId,
+    name: input.name,
+    referenceText: input.referenceText,
+    slug: input.slug,
+    correction,
+    img: input.img,
+    generateItemImage: input.generateItemImage,
+    itemImagePrompt: input.itemImagePrompt,
+    publication: input.publication,
+  };
+
+  switch (input.itemType) {
+    case "spell":
+      return buildSpellPrompt({ ...shared, rank: input.level });
+    case "feat":
+      return buildFeatPrompt({ ...shared, level: input.level, category: input.featCategory });
+    default:
+      return buildItemPrompt({ ...input, correction });
+  }
+}
+
+function getItemSchemaDefinition(input: ItemPromptInput): JsonSchemaDefinition {
+  switch (input.itemType) {
+    case "spell":
+      return getSpellSchemaDefinition();
+    case "feat":
+      return getFeatSchemaDefinition();
+    default:
+      return getSchemaDefinition("item");
+  }
+}
+
+function applyItemDraftDefaults<T>(draft: T, input: ItemPromptInput): T {
+  if ((input.itemType !== "spell" && input.itemType !== "feat") || !isRecord(draft)) {
+    return draft;
+  }
+
+  const record: Record<string, unknown> = draft;
+  const spell = isRecord(record.spell) ? record.spell : null;
+  if (input.itemType === "spell" && spell && typeof spell.rank === "number" && Number.isFinite(spell.rank)) {
+    record.level = spell.rank;
+  }
+
+  const feat = isRecord(record.feat) ? record.feat : null;
+  if (input.itemType === "feat" && feat && input.featCategory) {
+    feat.category = input.featCategory;
+  }
+
+  record.itemType = input.itemType;
+  return draft;
+}
+
+async function attachFeatRuleElements(
+  item: ItemSchemaData,
+  options: GenerateOptions,
+  seed: number | undefined,
+): Promise<void> {
+  reportProgress(options, {
+    step: "rules",
+    message: "Generating rule elements for feat...",
+    percent: 80,
+  });
+
+  try {
+    const result = await generateRuleElements(options.openRouterClient, {
+      objective: item.description?.trim() || item.name,
+      targetItemType: item.feat?.category === "classfeature" ? "class feature" : "feat",
+      contextJson: JSON.stringify({ name: item.name, level: item.level, traits: item.traits ?? [], feat: item.feat }),
+      constraints: "Only automate effects the feat text states. Omit rules for purely narrative benefits.",
+      seed,
+      signal: options.signal,
+    });
+    item.system = { ...(item.system ?? {}), rules: result.rules };
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
+    console.warn(`${CONSTANTS.MODULE_NAME} | Rule element generation failed for ${item.name}`, error);
+  }
+}
+
 export async function generateItem(
   input: ItemPromptInput,
   options: GenerateOptions,
 ): Promise<ItemSchemaData> {
-  const { openRouterClient, seed = DEFAULT_GENERATION_SEED } = options;
+  const {
+    openRouterClient,
+    seed,
+    temperature,
+    usageFlow = "workbench",
+    signal,
+    onPartial,
+  } = options;
+  const label = input.itemType === "spell" || input.itemType === "feat" ? input.itemType : "item";
   reportProgress(options, {
     step: "prompt",
-    message: "Preparing item prompt...",
+    message: `Preparing ${label} prompt...`,
     percent: 10,
   });
-  const prompt = buildItemPrompt(input);
+  const prompt = buildItemGenerationPrompt(input);
+  const schemaDefinition = getItemSchemaDefinition(input);
   reportProgress(options, {
     step: "model",
     message: "Starting generation request...",
@@ -192,9 +403,13 @@ export async function generateItem(
   const draft = await generateStructuredOutput<ItemSchemaData>(
     openRouterClient,
     prompt,
-    getSchemaDefinition("item"),
+    schemaDefinition,
     {
       seed,
+      temperature,
+      usageFlow,
+      signal,
+      onPartial,
       onRoutingRetry: createRoutingRetryReporter(options, 52),
       onRoutingResolved: createRoutingResolvedReporter(
         options,
@@ -208,8 +423,27 @@ export async function generateItem(
     message: "Normalizing and validating item structure...",
     percent: 70,
   });
-  const canonical = await normalizeGeneratedEntity("item", draft);
+  const canonical = await normalizeGeneratedEntity(
+    "item",
+    applyItemDraftDefaults(draft, input),
+    createRepairOptions<"item">(options, label, 74, async (correction) =>
+      applyItemDraftDefaults(
+        await generateStructuredOutput<unknown>(
+          openRouterClient,
+          buildItemGenerationPrompt(input, correction),
+          schemaDefinition,
+          { seed, temperature, usageFlow, signal, onPartial },
+        ),
+        input,
+      )),
+  );
 
+  signal?.throwIfAborted();
+  if (canonical.itemType === "feat") {
+    await attachFeatRuleElements(canonical, options, seed);
+  }
+
+  signal?.throwIfAborted();
   if (input.generateItemImage && canGenerateImages(openRouterClient)) {
     reportProgress(options, {
       step: "image",
@@ -222,9 +456,13 @@ export async function generateItem(
         itemSlug: canonical.slug,
         itemDescription: canonical.description ?? input.referenceText,
         customPrompt: input.itemImagePrompt,
+        signal,
       });
       canonical.img = generatedImage;
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       reportProgress(options, {
         step: "image",
         message: "Transparent item icon generation failed; using fallback icon.",
@@ -250,47 +488,183 @@ export async function generateItem(
   return finalized;
 }
 
+function buildActorGenerationPrompt(input: ActorPromptInput, correction?: CorrectionContext): string {
+  if (input.actorType !== "hazard") {
+    return buildActorPrompt({ ...input, correction });
+  }
+
+  return buildHazardPrompt({
+    systemId: input.systemId,
+    name: input.name,
+    referenceText: input.referenceText,
+    slug: input.slug,
+    level: input.level,
+    complexity: input.hazardComplexity,
+    correction,
+    img: input.img,
+    publication: input.publication,
+    includeOfficialContent: input.includeOfficialContent,
+    includeGeneratedContent: input.includeGeneratedContent,
+    generateTokenImage: input.generateTokenImage,
+    tokenPrompt: input.tokenPrompt,
+  });
+}
+
+function getActorSchemaDefinition(input: ActorPromptInput): JsonSchemaDefinition {
+  return input.actorType === "hazard" ? getHazardSchemaDefinition() : getSchemaDefinition("actor");
+}
+
+function applyHazardDraftDefaults<T>(draft: T, input: ActorPromptInput): T {
+  if (input.actorType !== "hazard" || !isRecord(draft)) {
+    return draft;
+  }
+
+  const record: Record<string, unknown> = draft;
+  const hazard = isRecord(record.hazard) ? record.hazard : {};
+  if (input.hazardComplexity) {
+    hazard.isComplex = input.hazardComplexity === "complex";
+  }
+  if (hazard.isComplex === false) {
+    hazard.routine = null;
+  }
+
+  if (typeof hazard.stealthBonus !== "number" || !Number.isFinite(hazard.stealthBonus)) {
+    const level = typeof record.level === "number" ? record.level : input.level;
+    if (typeof level === "number" && Number.isFinite(level)) {
+      hazard.stealthBonus = getHazardStealthBonus(level);
+    }
+  }
+
+  record.actorType = "hazard";
+  record.hazard = hazard;
+  return draft;
+}
+
+function readActorStatBlock(input: ActorPromptInput): ParsedStatBlock | null {
+  if (input.actorType === "hazard") {
+    return null;
+  }
+
+  const statBlock = parseStatBlock(input.referenceText);
+  if (!statBlock) {
+    return null;
+  }
+
+  const missing = input.includeSpellcasting === false
+    ? statBlock.missing.filter((path) => path !== "spellcasting")
+    : statBlock.missing;
+  return { ...statBlock, missing };
+}
+
+/**
+ * Parsed stat block values win over the draft, except where a repair is fixing a path that failed validation; the
+ * request's own name, slug, art and publication win over both.
+ */
+function applyStatBlockDraft(
+  draft: unknown,
+  statBlock: ParsedStatBlock | null,
+  input: ActorPromptInput,
+  correction?: CorrectionContext,
+): unknown {
+  if (!statBlock) {
+    return draft;
+  }
+
+  const record = applyStatBlockFields(draft, statBlock, correction?.errorPaths);
+  record.type = "actor";
+  record.systemId = input.systemId;
+  if (input.name.trim()) record.name = input.name.trim();
+  if (input.slug?.trim()) record.slug = input.slug.trim();
+  if (input.img) record.img = input.img;
+  if (input.publication) record.publication = input.publication;
+  return record;
+}
+
 export async function generateActor(
   input: ActorPromptInput,
   options: GenerateOptions,
 ): Promise<ActorGenerationResult> {
-  const { openRouterClient, seed = DEFAULT_GENERATION_SEED } = options;
+  const {
+    openRouterClient,
+    seed,
+    temperature,
+    usageFlow = "workbench",
+    signal,
+    onPartial,
+  } = options;
+  const isHazard = input.actorType === "hazard";
   reportProgress(options, {
     step: "prompt",
-    message: "Preparing actor prompt...",
+    message: isHazard ? "Preparing hazard prompt..." : "Preparing actor prompt...",
     percent: 8,
   });
-  const prompt = buildActorPrompt(input);
-  reportProgress(options, {
-    step: "model",
-    message: "Starting generation request...",
-    percent: 25,
-  });
-  reportProgress(options, {
-    step: "routing",
-    message: "Finding compatible provider route...",
-    percent: 32,
-  });
-  const draft = await generateStructuredOutput<ActorSchemaData>(
-    openRouterClient,
-    prompt,
-    getSchemaDefinition("actor"),
-    {
-      seed,
-      onRoutingRetry: createRoutingRetryReporter(options, 42),
-      onRoutingResolved: createRoutingResolvedReporter(
-        options,
-        (event) => `Provider route selected (${formatRoutingRetryLabel(event.label)}). Generating actor JSON...`,
-        48,
-      ),
-    },
-  );
+  const statBlock = readActorStatBlock(input);
+  const promptInput: ActorPromptInput = statBlock ? { ...input, statBlock } : input;
+  const schemaDefinition = getActorSchemaDefinition(input);
+  let draft: unknown = {};
+  if (statBlock && !statBlock.missing.length) {
+    reportProgress(options, {
+      step: "model",
+      message: "Stat block parsed completely; skipping the model request.",
+      percent: 48,
+    });
+  } else {
+    reportProgress(options, {
+      step: "model",
+      message: statBlock
+        ? `Stat block parsed; asking the model for ${statBlock.missing.join(", ")}...`
+        : "Starting generation request...",
+      percent: 25,
+    });
+    reportProgress(options, {
+      step: "routing",
+      message: "Finding compatible provider route...",
+      percent: 32,
+    });
+    draft = await generateStructuredOutput<ActorSchemaData>(
+      openRouterClient,
+      buildActorGenerationPrompt(promptInput),
+      schemaDefinition,
+      {
+        seed,
+        temperature,
+        usageFlow,
+        signal,
+        onPartial,
+        onRoutingRetry: createRoutingRetryReporter(options, 42),
+        onRoutingResolved: createRoutingResolvedReporter(
+          options,
+          (event) => `Provider route selected (${formatRoutingRetryLabel(event.label)}). Generating actor JSON...`,
+          48,
+        ),
+      },
+    );
+  }
   reportProgress(options, {
     step: "validation",
     message: "Normalizing and validating actor structure...",
     percent: 55,
   });
-  const canonical = await normalizeGeneratedEntity("actor", draft);
+  let canonical = await normalizeGeneratedEntity(
+    "actor",
+    applyHazardDraftDefaults(applyStatBlockDraft(draft, statBlock, input), input),
+    createRepairOptions<"actor">(options, isHazard ? "hazard" : "actor", 62, async (correction) =>
+      applyHazardDraftDefaults(
+        applyStatBlockDraft(
+          await generateStructuredOutput<unknown>(
+            openRouterClient,
+            buildActorGenerationPrompt(promptInput, correction),
+            schemaDefinition,
+            { seed, temperature, usageFlow, signal, onPartial },
+          ),
+          statBlock,
+          input,
+          correction,
+        ),
+        input,
+      )),
+    isHazard ? hazardValidator : undefined,
+  );
 
   if (input.actorType) {
     canonical.actorType = input.actorType;
@@ -304,6 +678,23 @@ export async function generateActor(
     delete canonical.inventory;
   }
 
+  let balanceReport: CreatureBalanceReport | null = null;
+  if (canonical.actorType === "npc") {
+    if (readBenchmarkAutoCorrectSetting()) {
+      ({ actor: canonical, report: balanceReport } = correctCreatureBalance(canonical));
+    } else {
+      balanceReport = evaluateCreatureBalance(canonical);
+    }
+    reportProgress(options, {
+      step: "validation",
+      message: balanceReport.corrections.length
+        ? `Corrected ${balanceReport.corrections.length} statistic(s) to level ${canonical.level} benchmarks.`
+        : `Checked statistics against level ${canonical.level} benchmarks (${balanceReport.flaggedCount} flagged).`,
+      percent: 70,
+    });
+  }
+
+  signal?.throwIfAborted();
   if (input.generateTokenImage && canGenerateImages(openRouterClient)) {
     reportProgress(options, {
       step: "image",
@@ -317,9 +708,13 @@ export async function generateActor(
         actorDescription: canonical.description ?? input.referenceText,
         customPrompt: input.tokenPrompt,
         imageCategory: "actor",
+        signal,
       });
       canonical.img = generatedToken;
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       reportProgress(options, {
         step: "image",
         message: "Transparent token generation failed; using fallback image.",
@@ -329,6 +724,7 @@ export async function generateActor(
     }
   }
 
+  signal?.throwIfAborted();
   reportProgress(options, {
     step: "mapping",
     message: input.includeOfficialContent === false
@@ -365,6 +761,13 @@ export async function generateActor(
     folder: (foundry.folder ?? null) as ActorGenerationResult["folder"],
     flags: (foundry.flags ?? {}) as ActorGenerationResult["flags"],
   } satisfies ActorGenerationResult;
+  if (balanceReport) {
+    const moduleFlags = finalized.flags[CONSTANTS.MODULE_ID];
+    finalized.flags[CONSTANTS.MODULE_ID] = {
+      ...(isRecord(moduleFlags) ? moduleFlags : {}),
+      [BALANCE_REPORT_FLAG_KEY]: balanceReport,
+    };
+  }
   reportProgress(options, {
     step: "done",
     message: "Actor generation complete.",
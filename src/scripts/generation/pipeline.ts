@@ -1,20 +1,33 @@
+import type { ValidateFunction } from "ajv";
 import { toFoundryActorDataWithCompendium } from "../mappers/import";
 import type {
+  ActorGenerationResult,
   ActorSchemaData,
   SchemaDataFor,
   SchemaMap,
   ValidatorKey,
 } from "../schemas";
-import { schemas } from "../schemas";
-import type {
-  GenerateWithSchemaOptions,
-  JsonSchemaDefinition,
-  OpenRouterClient,
+import { featSchema, hazardSchema, schemas, spellSchema } from "../schemas";
+import {
+  hashPrompt,
+  type GenerateWithSchemaOptions,
+  type JsonSchemaDefinition,
+  type OpenRouterClient,
 } from "../openrouter/client";
-import { ensureValid } from "../validation/ensure-valid";
+import { isMockFixtureRecordingEnabled, recordMockFixture } from "../openrouter/mock-provider";
+import type { CorrectionContext } from "../prompts";
+import { renderCorrectionSection } from "../prompts/common";
+import { formatErrorPath } from "../helpers/validation";
+import { ensureValid, type EnsureValidRepairRequest } from "../validation/ensure-valid";
 
 export type StructuredGenerationClient = Pick<OpenRouterClient, "generateWithSchema">;
 
+export interface GeneratedEntityRepairOptions<K extends ValidatorKey> {
+  maxAttempts: number;
+  regenerate: (correction: CorrectionContext) => Promise<unknown>;
+  onAttempt?: (request: EnsureValidRepairRequest<K>) => void;
+}
+
 type ActorMappingOptions = Parameters<typeof toFoundryActorDataWithCompendium>[1];
 
 function getSchemaName<K extends ValidatorKey>(type: K, schema: SchemaMap[K]): string {
@@ -37,22 +50,71 @@ export function getSchemaDefinition<K extends ValidatorKey>(type: K): JsonSchema
   };
 }
 
+export function getHazardSchemaDefinition(): JsonSchemaDefinition {
+  return {
+    name: "Hazard",
+    schema: hazardSchema,
+    description: "Schema for hazard actor entries",
+  };
+}
+
+export function getFeatSchemaDefinition(): JsonSchemaDefinition {
+  return {
+    name: "Feat",
+    schema: featSchema,
+    description: "Schema for feat and class feature item entries",
+  };
+}
+
+export function getSpellSchemaDefinition(): JsonSchemaDefinition {
+  return {
+    name: "Spell",
+    schema: spellSchema,
+    description: "Schema for spell item entries",
+  };
+}
+
 export async function generateStructuredOutput<T>(
   client: StructuredGenerationClient,
   prompt: string,
   schema: JsonSchemaDefinition,
   options?: GenerateWithSchemaOptions,
 ): Promise<T> {
-  return client.generateWithSchema<T>(prompt, schema, options);
+  const result = await client.generateWithSchema<T>(prompt, schema, options);
+  if (isMockFixtureRecordingEnabled()) {
+    recordMockFixture(await hashPrompt(prompt), schema.name, result);
+  }
+
+  return result;
 }
 
 export async function normalizeGeneratedEntity<K extends ValidatorKey>(
   type: K,
   payload: unknown,
+  repair?: GeneratedEntityRepairOptions<K>,
+  validator?: ValidateFunction<SchemaDataFor<K>>,
 ): Promise<SchemaDataFor<K>> {
+  if (!repair || repair.maxAttempts <= 0) {
+    return ensureValid({
+      type,
+      payload,
+      validator,
+    });
+  }
+
   return ensureValid({
     type,
     payload,
+    validator,
+    maxRepairAttempts: repair.maxAttempts,
+    requestRepair: async (request) => {
+      repair.onAttempt?.(request);
+      return repair.regenerate({
+        summary: request.summary,
+        previous: request.previous,
+        errorPaths: request.errors.map((error) => formatErrorPath(error)),
+      });
+    },
   });
 }
 
@@ -61,15 +123,32 @@ export async function generateCanonicalEntity<K extends ValidatorKey>(
   type: K,
   prompt: string,
   options?: GenerateWithSchemaOptions,
+  repair?: Omit<GeneratedEntityRepairOptions<K>, "regenerate">,
 ): Promise<SchemaDataFor<K>> {
+  const schema = getSchemaDefinition(type);
   const draft = await generateStructuredOutput<SchemaDataFor<K>>(
     client,
     prompt,
-    getSchemaDefinition(type),
+    schema,
     options,
   );
 
-  return normalizeGeneratedEntity(type, draft);
+  return normalizeGeneratedEntity(type, draft, repair
+    ? {
+      ...repair,
+      regenerate: async (correction) => generateStructuredOutput<unknown>(
+        client,
+        appendCorrectionSection(prompt, correction),
+        schema,
+        options,
+      ),
+    }
+    : undefined);
+}
+
+function appendCorrectionSection(prompt: string, correction: CorrectionContext): string {
+  const section = renderCorrectionSection(correction);
+  return section ? `${prompt}\n\n${section}` : prompt;
 }
 
 export async function mapCanonicalActor(
@@ -78,3 +157,24 @@ export async function mapCanonicalActor(
 ): Promise<Awaited<ReturnType<typeof toFoundryActorDataWithCompendium>>> {
   return toFoundryActorDataWithCompendium(canonical, options);
 }
+
+/** Rebuilds a generation result around freshly mapped actor data, keeping the envelope fields of `source`. */
+export function toGeneratedActorResultFromFoundry(
+  source: Pick<ActorGenerationResult, "schema_version" | "systemId" | "slug">,
+  foundry: Awaited<ReturnType<typeof mapCanonicalActor>>,
+): ActorGenerationResult {
+  return {
+    schema_version: source.schema_version,
+    systemId: source.systemId,
+    slug: source.slug,
+    name: foundry.name,
+    type: foundry.type as ActorGenerationResult["type"],
+    img: foundry.img,
+    system: foundry.system,
+    prototypeToken: foundry.prototypeToken,
+    items: foundry.items,
+    effects: foundry.effects,
+    folder: (foundry.folder ?? null) as ActorGenerationResult["folder"],
+    flags: (foundry.flags ?? {}) as ActorGenerationResult["flags"],
+  } satisfies ActorGenerationResult;
+}
@@ -14,6 +14,7 @@ export interface GenerateTokenImageOptions {
   referenceImage?: File | null;
   imageCategory?: "actor" | "item";
   existingImagePath?: string | null;
+  signal?: AbortSignal;
 }
 
 export interface GenerateItemImageOptions {
@@ -24,6 +25,7 @@ export interface GenerateItemImageOptions {
   promptOverride?: string | null;
   referenceImage?: File | null;
   existingImagePath?: string | null;
+  signal?: AbortSignal;
 }
 
 // Use FilePicker's "data" source (Foundry user-data root) and write into assets/<configured-dir>/...
@@ -568,6 +570,7 @@ async function generateTransparentImageWithValidation(
   const policy = readTransparentImagePolicy();
 
   for (let attempt = 1; attempt <= policy.maxAttempts; attempt += 1) {
+    options.signal?.throwIfAborted();
     const attemptPrompt = buildTransparentGenerationPrompt(prompt, attempt);
     const image = await generator.generateImage(attemptPrompt, options);
 
@@ -648,7 +651,9 @@ export async function generateTransparentTokenImage(
     format: "png",
     quality: "high",
     referenceImages,
+    signal: options.signal,
   }, options.imageCategory ?? "actor");
+  options.signal?.throwIfAborted();
 
   return storeGeneratedImage(
     image,
@@ -670,7 +675,9 @@ export async function generateItemImage(
     format: "png",
     quality: "high",
     referenceImages,
+    signal: options.signal,
   }, "item");
+  options.signal?.throwIfAborted();
 
   return storeGeneratedImage(
     image,
@@ -128,6 +128,7 @@ export async function generateMapMarkerBoxText(
     openRouterClient,
     buildMapMarkerBoxTextPrompt(marker),
     BOXTEXT_GENERATION_SCHEMA,
+    { usageFlow: "map-boxtext" },
   );
 
   const boxText = response?.boxText;
@@ -4,17 +4,26 @@ import type {
   ActionExecution,
   ItemSchemaData,
   ActorCategory,
+  FeatSchemaData,
   ItemCategory,
   PublicationData,
   Rarity,
+  SpellDamageData,
+  SpellSchemaData,
 } from "../schemas";
 import {
   ACTION_EXECUTIONS,
   ACTOR_CATEGORIES,
+  FEAT_CATEGORIES,
+  FEAT_FREQUENCY_PERIODS,
   ITEM_CATEGORIES,
   LATEST_SCHEMA_VERSION,
   PUBLICATION_DEFAULT,
   RARITIES,
+  SPELL_AREA_TYPES,
+  SPELL_DAMAGE_CATEGORIES,
+  SPELL_DEFENSE_STATISTICS,
+  SPELL_TRADITIONS,
 } from "../schemas";
 
 const DEFAULT_SCHEMA_VERSION = LATEST_SCHEMA_VERSION;
@@ -1131,6 +1140,136 @@ export type FoundryActor = FoundryBaseDocument & {
   items?: FoundryActorItem[] | null;
 };
 
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function includesValue<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (values as readonly string[]).includes(value);
+}
+
+function extractSpellDamageEntries(value: unknown): Array<[string, SpellDamageData]> {
+  const entries: Array<[string, SpellDamageData]> = [];
+  for (const [id, raw] of Object.entries(asRecord(value))) {
+    const damage = asRecord(raw);
+    const formula = coerceOptionalString(damage.formula);
+    const damageType = coerceOptionalString(damage.type);
+    if (!formula || !damageType) {
+      continue;
+    }
+    entries.push([id, {
+      formula,
+      damageType,
+      category: includesValue(SPELL_DAMAGE_CATEGORIES, damage.category) ? damage.category : null,
+    }]);
+  }
+  return entries;
+}
+
+function extractSpellHeightening(
+  value: unknown,
+  damageIds: readonly string[],
+): SpellSchemaData["heightening"] {
+  const heightening = asRecord(value);
+  if (heightening.type === "interval") {
+    const damage = asRecord(heightening.damage);
+    return {
+      type: "interval",
+      interval: Math.max(1, coerceInteger(heightening.interval, 1)),
+      damage: damageIds.map((id) => coerceOptionalString(damage[id]) ?? "0"),
+      levels: null,
+    };
+  }
+
+  if (heightening.type === "fixed") {
+    const levels = Object.entries(asRecord(heightening.levels))
+      .map(([rank, level]) => ({
+        rank: coerceInteger(rank, 0),
+        damage: extractSpellDamageEntries(asRecord(level).damage).map(([, damage]) => damage),
+      }))
+      .filter((level) => level.rank >= 2 && level.rank <= 10 && level.damage.length > 0);
+    return levels.length ? { type: "fixed", interval: null, damage: null, levels } : null;
+  }
+
+  return null;
+}
+
+function extractSpellData(doc: FoundryItem): SpellSchemaData | null {
+  const system = asRecord(doc.system);
+  const castTime = coerceOptionalString(asRecord(system.time).value);
+  if (!castTime) {
+    return null;
+  }
+
+  const traditions = asRecord(system.traits).traditions;
+  const area = asRecord(system.area);
+  const defense = asRecord(system.defense);
+  const save = asRecord(defense.save);
+  const passive = asRecord(defense.passive);
+  const duration = asRecord(system.duration);
+  const damage = extractSpellDamageEntries(system.damage);
+  const levelValue = asRecord(system.level).value ?? system.level;
+
+  let spellDefense: SpellSchemaData["defense"] = null;
+  if (includesValue(SPELL_DEFENSE_STATISTICS, save.statistic)) {
+    spellDefense = { statistic: save.statistic, basic: Boolean(save.basic) };
+  } else if (passive.statistic === "ac") {
+    spellDefense = { statistic: "ac", basic: false };
+  }
+
+  return {
+    rank: Math.max(1, Math.min(10, coerceInteger(levelValue, 1))),
+    traditions: Array.isArray(traditions)
+      ? traditions.filter((tradition) => includesValue(SPELL_TRADITIONS, tradition))
+      : [],
+    castTime,
+    range: coerceOptionalString(asRecord(system.range).value),
+    area: includesValue(SPELL_AREA_TYPES, area.type) && coerceInteger(area.value, 0) >= 5
+      ? { type: area.type, value: coerceInteger(area.value, 5), details: coerceOptionalString(area.details) }
+      : null,
+    targets: coerceOptionalString(asRecord(system.target).value),
+    defense: spellDefense,
+    duration: coerceOptionalString(duration.value),
+    sustained: Boolean(duration.sustained),
+    damage: damage.map(([, entry]) => entry),
+    heightening: extractSpellHeightening(system.heightening, damage.map(([id]) => id)),
+  };
+}
+
+function extractFeatActionCost(system: Record<string, unknown>): FeatSchemaData["actionCost"] {
+  const actionType = asRecord(system.actionType).value;
+  if (actionType === "reaction" || actionType === "free") {
+    return actionType;
+  }
+
+  if (actionType === "action") {
+    const count = coerceInteger(asRecord(system.actions).value, 1);
+    return count >= 3 ? "three-actions" : count === 2 ? "two-actions" : "one-action";
+  }
+
+  return "passive";
+}
+
+function extractFeatData(doc: FoundryItem, traits: readonly string[]): FeatSchemaData {
+  const system = asRecord(doc.system);
+  const prerequisites = asRecord(system.prerequisites).value;
+  const frequency = asRecord(system.frequency);
+  const category = system.category === "class" && traits.includes("archetype") ? "archetype" : system.category;
+
+  return {
+    category: includesValue(FEAT_CATEGORIES, category) ? category : "general",
+    actionCost: extractFeatActionCost(system),
+    prerequisites: Array.isArray(prerequisites)
+      ? prerequisites
+        .map((entry) => coerceOptionalString(asRecord(entry).value))
+        .filter((entry): entry is string => Boolean(entry))
+      : [],
+    frequency: includesValue(FEAT_FREQUENCY_PERIODS, frequency.per)
+      ? { max: Math.max(1, coerceInteger(frequency.max, 1)), per: frequency.per }
+      : null,
+  };
+}
+
 export function fromFoundryAction(doc: FoundryAction): ActionSchemaData {
   const slug = normalizeSlug({ ...doc, system: doc.system });
   const rawDescription =
@@ -1248,6 +1387,18 @@ export function fromFoundryItem(doc: FoundryItem): ItemSchemaData {
     result.img = img;
   }
 
+  if (result.itemType === "spell") {
+    result.spell = extractSpellData(doc);
+  }
+
+  if (result.itemType === "feat") {
+    result.feat = extractFeatData(doc, traits ?? []);
+    const rules = asRecord(doc.system).rules;
+    if (Array.isArray(rules) && rules.length > 0) {
+      result.system = { rules: rules.map((rule) => ({ ...asRecord(rule) })) };
+    }
+  }
+
   return result;
 }
 
@@ -2,8 +2,11 @@ import type {
   ActionSchemaData,
   ActorGenerationResult,
   ActorSchemaData,
+  FeatSchemaData,
   ItemSchemaData,
   PublicationData,
+  SpellDamageData,
+  SpellSchemaData,
   SystemId,
 } from "../schemas";
 import { PUBLICATION_DEFAULT } from "../schemas";
@@ -2094,7 +2097,7 @@ function prepareActionSource(action: ActionSchemaData): FoundryActionSource {
 
 function prepareItemSource(item: ItemSchemaData): FoundryItemSource {
   const traits = sanitizeItemTraits(item.traits);
-  const description = toRichText(item.description);
+  const description = appendSpellInlineRolls(toRichText(item.description), item);
   const source = sanitizeText(item.source);
   const publication = normalizePublicationDetails(item.publication, source);
   const usage = resolveItemUsage(item.itemType);
@@ -2129,6 +2132,12 @@ function prepareItemSource(item: ItemSchemaData): FoundryItemSource {
     publication,
   });
   applyItemTypeDefaults(systemData, item.itemType, type);
+  if (type === "spell" && item.spell) {
+    applySpellSystemData(systemData, item.spell, item.slug);
+  }
+  if (type === "feat" && item.feat) {
+    applyFeatSystemData(systemData, item.feat);
+  }
 
   const stats: FoundryItemSource["_stats"] = {
     compendiumSource: null,
@@ -2589,6 +2598,139 @@ function applyItemTypeDefaults(
   }
 }
 
+function applyFeatSystemData(systemData: FoundryItemSource["system"], feat: FeatSchemaData): void {
+  const { type, value } = ACTION_COST_SYSTEM_MAP[feat.actionCost];
+  const traits = isRecord(systemData.traits) ? systemData.traits : {};
+  const traitValues = Array.isArray(traits.value) ? traits.value.filter((entry) => typeof entry === "string") : [];
+
+  // PF2E files archetype feats under the class category and marks them with the archetype trait.
+  if (feat.category === "archetype" && !traitValues.includes("archetype")) {
+    systemData.traits = { ...traits, value: [...traitValues, "archetype"] };
+  }
+
+  systemData.category = feat.category === "archetype" ? "class" : feat.category;
+  systemData.actionType = { value: type };
+  systemData.actions = { value };
+  systemData.prerequisites = {
+    value: feat.prerequisites.map((entry) => ({ value: entry.trim() })).filter((entry) => entry.value),
+  };
+  systemData.frequency = feat.frequency ? { max: feat.frequency.max, per: feat.frequency.per } : null;
+}
+
+function applySpellSystemData(
+  systemData: FoundryItemSource["system"],
+  spell: SpellSchemaData,
+  slug: string,
+): void {
+  const damageIds = spell.damage.map((_entry, index) => generateStableId(`spell-damage:${slug}:${index}`));
+  const traits = isRecord(systemData.traits) ? systemData.traits : {};
+
+  systemData.traits = { ...traits, traditions: [...spell.traditions] };
+  systemData.level = { value: Math.max(1, Math.min(10, Math.trunc(spell.rank))) };
+  systemData.time = { value: spell.castTime.trim() };
+  systemData.range = { value: sanitizeText(spell.range) };
+  systemData.target = { value: sanitizeText(spell.targets) };
+  systemData.area = spell.area
+    ? { type: spell.area.type, value: spell.area.value, details: sanitizeText(spell.area.details) }
+    : null;
+  systemData.duration = { value: sanitizeText(spell.duration), sustained: spell.sustained === true };
+  systemData.defense = buildSpellDefense(spell.defense);
+  systemData.damage = Object.fromEntries(
+    spell.damage.map((entry, index) => [damageIds[index], buildSpellDamagePartial(entry)]),
+  );
+  systemData.heightening = buildSpellHeightening(spell, damageIds, slug);
+}
+
+function buildSpellDefense(defense: SpellSchemaData["defense"]): Record<string, unknown> | null {
+  if (!defense) {
+    return null;
+  }
+
+  if (defense.statistic === "ac") {
+    return { passive: { statistic: "ac" } };
+  }
+
+  return { save: { statistic: defense.statistic, basic: defense.basic === true } };
+}
+
+function buildSpellDamagePartial(entry: SpellDamageData): Record<string, unknown> {
+  return {
+    formula: entry.formula.trim(),
+    kinds: ["damage"],
+    type: entry.damageType,
+    category: entry.category ?? null,
+    materials: [],
+  };
+}
+
+function buildSpellHeightening(
+  spell: SpellSchemaData,
+  damageIds: readonly string[],
+  slug: string,
+): Record<string, unknown> | null {
+  const heightening = spell.heightening;
+  if (!heightening) {
+    return null;
+  }
+
+  if (heightening.type === "interval") {
+    const damage: Record<string, string> = {};
+    (heightening.damage ?? []).forEach((formula, index) => {
+      const id = damageIds[index];
+      if (id && formula.trim()) {
+        damage[id] = formula.trim();
+      }
+    });
+    return {
+      type: "interval",
+      interval: Math.max(1, Math.trunc(heightening.interval ?? 1)),
+      damage,
+    };
+  }
+
+  const levels: Record<string, unknown> = {};
+  for (const level of heightening.levels ?? []) {
+    if (level.rank <= spell.rank) {
+      continue;
+    }
+    levels[String(level.rank)] = {
+      damage: Object.fromEntries(
+        level.damage.map((entry, index) => [
+          damageIds[index] ?? generateStableId(`spell-damage:${slug}:${level.rank}:${index}`),
+          buildSpellDamagePartial(entry),
+        ]),
+      ),
+    };
+  }
+
+  return { type: "fixed", levels };
+}
+
+function appendSpellInlineRolls(description: string, item: ItemSchemaData): string {
+  const spell = item.itemType === "spell" ? item.spell : null;
+  if (!spell) {
+    return description;
+  }
+
+  const additions: string[] = [];
+  if (spell.area && !description.includes("@Template[")) {
+    additions.push(`<p><strong>Area</strong> @Template[type:${spell.area.type}|distance:${spell.area.value}]</p>`);
+  }
+
+  if (spell.damage.length > 0 && !description.includes("@Damage[")) {
+    const rolls = spell.damage.map((entry) => {
+      const flavor = entry.category ? `${entry.category},${entry.damageType}` : entry.damageType;
+      return `(${entry.formula.trim()})[${flavor}]`;
+    });
+    const basic = spell.defense?.statistic && spell.defense.statistic !== "ac" && spell.defense.basic
+      ? ` (basic ${spell.defense.statistic.charAt(0).toUpperCase()}${spell.defense.statistic.slice(1)} save)`
+      : "";
+    additions.push(`<p><strong>Damage</strong> @Damage[${rolls.join(",")}]${basic}</p>`);
+  }
+
+  return additions.length ? [description, ...additions].filter(Boolean).join("\n") : description;
+}
+
 function isPhysicalFoundryItemType(type: FoundryCreatableItemType): boolean {
   return type === "ammo"
     || type === "armor"
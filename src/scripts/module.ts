@@ -3,7 +3,7 @@ import { registerSettings } from "./setup/settings";
 import { CONSTANTS } from "./constants";
 import { OpenAI } from "openai";
 import { insertSidebarButtons, type ControlCollection } from "./setup/sidebarButtons";
-import { OpenRouterClient } from "./openrouter/client";
+import type { AIClient, OpenRouterClient } from "./openrouter/client";
 import { createDevNamespace, canUseDeveloperTools, type DevNamespace } from "./dev/tools";
 import { ToolOverview } from "./ui/tool-overview";
 import { registerNpcRuleElementsButton } from "./ui/npc-rule-elements-button";
@@ -12,8 +12,9 @@ import { registerNpcRemixSectionButtons } from "./ui/npc-remix-section-buttons";
 import { registerItemImageGenerateButton } from "./ui/item-image-generate-button";
 import { registerItemDescriptionFormatFixButton } from "./ui/item-description-format-fix-button";
 import { registerTokenImagePreviewHudButton } from "./ui/token-image-preview-hud-button";
+import { registerRevisionHistoryButtons } from "./ui/revision-history-button";
+import { registerCreatureBalanceButton } from "./ui/creature-balance-button";
 import {
-  DEFAULT_GENERATION_SEED,
   generateAction,
   generateActor,
   generateItem,
@@ -26,14 +27,22 @@ import type {
   ActorGenerationResult,
   ItemSchemaData,
 } from "./schemas";
+import { registerDowntimeTracker, runDowntimeTrackerFlow } from "./flows/downtime-tracker";
+import { runEncounterBuilderFlow } from "./flows/encounter-builder-ui";
 import { generateWorkbenchEntry } from "./flows/prompt-workbench";
+import { runPromptWorkbenchBatchFlow } from "./flows/prompt-workbench-batch-ui";
 import { runRuleElementGeneratorFlow } from "./flows/rule-element-generator-ui";
+import { registerRuneKind } from "./flows/rune-kinds";
+import { runRuneEtcherFlow } from "./flows/rune-etcher";
 import { runRuneStripperFlow } from "./flows/rune-stripper";
+import { runTreasureLedgerFlow } from "./flows/treasure-ledger-ui";
 import { ensureValid } from "./validation/ensure-valid";
 import { importAction } from "./mappers/import";
 import { initialiseMapMarkers } from "./map-markers/controller";
 import { registerMapMarkerLayer } from "./map-markers/layer";
 import { initializeOpenRouterClientFromSettings } from "./openrouter/runtime";
+import { exportRecordedMockFixtures } from "./openrouter/mock-provider";
+import type { AIUsageFlow } from "./openrouter/usage-ledger";
 
 type GeneratorFunction<TInput, TResult> = (
   input: TInput,
@@ -42,8 +51,13 @@ type GeneratorFunction<TInput, TResult> = (
 
 interface BoundGenerationOptions {
   seed?: number;
+  temperature?: number;
   openRouterClient?: Pick<OpenRouterClient, "generateWithSchema">;
   onProgress?: (update: GenerationProgressUpdate) => void;
+  maxRepairAttempts?: number;
+  usageFlow?: AIUsageFlow;
+  signal?: AbortSignal;
+  onPartial?: (partial: unknown) => void;
 }
 
 type BoundGenerateAction = (
@@ -65,12 +79,24 @@ registerNpcRemixSectionButtons();
 registerItemImageGenerateButton();
 registerItemDescriptionFormatFixButton();
 registerTokenImagePreviewHudButton();
+registerRevisionHistoryButtons();
+registerCreatureBalanceButton();
+registerDowntimeTracker();
 
 function bindGenerator<TInput, TResult>(
   fn: GeneratorFunction<TInput, TResult>,
 ): (input: TInput, options?: BoundGenerationOptions) => Promise<TResult> {
   return async (input: TInput, options: BoundGenerationOptions = {}) => {
-    const { openRouterClient: explicitClient, seed, onProgress } = options;
+    const {
+      openRouterClient: explicitClient,
+      seed,
+      temperature,
+      onProgress,
+      maxRepairAttempts,
+      usageFlow,
+      signal,
+      onPartial,
+    } = options;
     const openRouterClient = explicitClient ?? game.handyDandy?.openRouterClient;
     if (!openRouterClient) {
       throw new Error(`${CONSTANTS.MODULE_NAME} | AI client has not been initialised`);
@@ -78,8 +104,13 @@ function bindGenerator<TInput, TResult>(
 
     return fn(input, {
       openRouterClient,
-      seed: seed ?? DEFAULT_GENERATION_SEED,
+      seed,
+      temperature,
       onProgress,
+      maxRepairAttempts,
+      usageFlow,
+      signal,
+      onPartial,
     });
   };
 }
@@ -89,7 +120,7 @@ declare global {
   interface Game {
     handyDandy?: {
       openRouterSdk: OpenAI | null,
-      openRouterClient: OpenRouterClient | null,
+      openRouterClient: AIClient | null,
       refreshAIClient: () => void,
       generation: {
         generateAction: BoundGenerateAction,
@@ -101,9 +132,17 @@ declare global {
       },
       dev: DevNamespace,
       flows: {
+        encounterBuilder: typeof runEncounterBuilderFlow;
         promptWorkbench: typeof generateWorkbenchEntry;
+        promptWorkbenchBatch: typeof runPromptWorkbenchBatchFlow;
         ruleElementGenerator: typeof runRuleElementGeneratorFlow;
         runeStripper: typeof runRuneStripperFlow;
+        runeEtcher: typeof runRuneEtcherFlow;
+        downtimeTracker: typeof runDowntimeTrackerFlow;
+        treasureLedger: typeof runTreasureLedgerFlow;
+      };
+      runeKinds: {
+        register: typeof registerRuneKind;
       };
     };
   }
@@ -120,6 +159,8 @@ Hooks.once("init", async () => {
     "tool-overview": `${CONSTANTS.TEMPLATE_PATH}/tool-overview.hbs`,
     "openrouter-account": `${CONSTANTS.TEMPLATE_PATH}/openrouter-account.hbs`,
     "openrouter-credits": `${CONSTANTS.TEMPLATE_PATH}/openrouter-credits.hbs`,
+    "usage-ledger": `${CONSTANTS.TEMPLATE_PATH}/usage-ledger.hbs`,
+    "ai-budget-settings": `${CONSTANTS.TEMPLATE_PATH}/ai-budget-settings.hbs`,
     "openrouter-model-manager": `${CONSTANTS.TEMPLATE_PATH}/openrouter-model-manager.hbs`,
     "map-marker-dialog": `${CONSTANTS.TEMPLATE_PATH}/map-marker-dialog.hbs`,
     "npc-rule-elements-editor": `${CONSTANTS.TEMPLATE_PATH}/npc-rule-elements-editor.hbs`,
@@ -129,13 +170,30 @@ Hooks.once("init", async () => {
     "prompt-workbench-history-placeholder": `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-history-placeholder.hbs`,
     "prompt-workbench-entry-detail": `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-entry-detail.hbs`,
     "remix-summary-dialog": `${CONSTANTS.TEMPLATE_PATH}/remix-summary-dialog.hbs`,
+    "remix-review-dialog": `${CONSTANTS.TEMPLATE_PATH}/remix-review-dialog.hbs`,
+    "revision-history-dialog": `${CONSTANTS.TEMPLATE_PATH}/revision-history-dialog.hbs`,
+    "creature-balance-report": `${CONSTANTS.TEMPLATE_PATH}/creature-balance-report.hbs`,
+    "canonical-export-request": `${CONSTANTS.TEMPLATE_PATH}/canonical-export-request.hbs`,
+    "canonical-export-result": `${CONSTANTS.TEMPLATE_PATH}/canonical-export-result.hbs`,
+    "canonical-import-request": `${CONSTANTS.TEMPLATE_PATH}/canonical-import-request.hbs`,
+    "canonical-import-report": `${CONSTANTS.TEMPLATE_PATH}/canonical-import-report.hbs`,
+    "canonical-import-result": `${CONSTANTS.TEMPLATE_PATH}/canonical-import-result.hbs`,
     "prompt-workbench-request": `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-request.hbs`,
     "prompt-workbench-result": `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-result.hbs`,
+    "prompt-workbench-batch": `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-batch.hbs`,
+    "prompt-workbench-variants": `${CONSTANTS.TEMPLATE_PATH}/prompt-workbench-variants.hbs`,
     "rule-element-generator-request": `${CONSTANTS.TEMPLATE_PATH}/rule-element-generator-request.hbs`,
     "rule-element-generator-loading": `${CONSTANTS.TEMPLATE_PATH}/rule-element-generator-loading.hbs`,
     "rule-element-generator-result": `${CONSTANTS.TEMPLATE_PATH}/rule-element-generator-result.hbs`,
+    "encounter-builder-request": `${CONSTANTS.TEMPLATE_PATH}/encounter-builder-request.hbs`,
+    "encounter-builder-loading": `${CONSTANTS.TEMPLATE_PATH}/encounter-builder-loading.hbs`,
+    "encounter-builder-result": `${CONSTANTS.TEMPLATE_PATH}/encounter-builder-result.hbs`,
     "generation-recovery-dialog": `${CONSTANTS.TEMPLATE_PATH}/generation-recovery-dialog.hbs`,
     "rune-stripper": `${CONSTANTS.TEMPLATE_PATH}/rune-stripper.hbs`,
+    "rune-etcher": `${CONSTANTS.TEMPLATE_PATH}/rune-etcher.hbs`,
+    "downtime-tracker": `${CONSTANTS.TEMPLATE_PATH}/downtime-tracker.hbs`,
+    "downtime-day-card": `${CONSTANTS.TEMPLATE_PATH}/downtime-day-card.hbs`,
+    "treasure-ledger": `${CONSTANTS.TEMPLATE_PATH}/treasure-ledger.hbs`,
   });
 });
 
@@ -154,6 +212,7 @@ Hooks.once("setup", () => {
     generateAction: generation.generateAction,
     ensureValid,
     importAction,
+    exportMockFixtures: exportRecordedMockFixtures,
     console,
   });
 
@@ -167,9 +226,17 @@ Hooks.once("setup", () => {
     },
     dev: devNamespace,
     flows: {
+      encounterBuilder: runEncounterBuilderFlow,
       promptWorkbench: generateWorkbenchEntry,
+      promptWorkbenchBatch: runPromptWorkbenchBatchFlow,
       ruleElementGenerator: runRuleElementGeneratorFlow,
       runeStripper: runRuneStripperFlow,
+      runeEtcher: runRuneEtcherFlow,
+      downtimeTracker: runDowntimeTrackerFlow,
+      treasureLedger: runTreasureLedgerFlow,
+    },
+    runeKinds: {
+      register: registerRuneKind,
     },
   };
 
@@ -0,0 +1,305 @@
+import { CONSTANTS } from "../constants";
+import { getCachedOpenRouterModelChoiceCatalog } from "./model-catalog";
+import type { ChatProviderId } from "./providers";
+import {
+  AI_USAGE_FLOWS,
+  AI_USAGE_FLOW_LABELS,
+  readPendingUsageEntries,
+  readSessionStart,
+  readUsageArchive,
+  readUsageLedger,
+  sumArchivedUsage,
+  type AIUsageFlow,
+  type UsageArchive,
+  type UsageLedgerEntry,
+} from "./usage-ledger";
+
+export const AI_BUDGET_RESET_PERIODS = ["daily", "weekly", "monthly", "never"] as const;
+export type AIBudgetResetPeriod = (typeof AI_BUDGET_RESET_PERIODS)[number];
+
+export type AIBudgetScope = "user" | "session" | "flow";
+
+/** Limits are in USD; 0 means the scope is uncapped. */
+export interface AIBudgetConfig {
+  enabled: boolean;
+  resetPeriod: AIBudgetResetPeriod;
+  softLimitPercent: number;
+  userLimitUsd: number;
+  sessionLimitUsd: number;
+  flowLimitsUsd: Partial<Record<AIUsageFlow, number>>;
+  exemptGMs: boolean;
+}
+
+export const DEFAULT_AI_BUDGET_CONFIG: AIBudgetConfig = {
+  enabled: false,
+  resetPeriod: "daily",
+  softLimitPercent: 80,
+  userLimitUsd: 0,
+  sessionLimitUsd: 0,
+  flowLimitsUsd: {},
+  exemptGMs: true,
+};
+
+export interface AIBudgetCheckRequest {
+  provider: ChatProviderId;
+  flow: AIUsageFlow;
+  model: string;
+  method: UsageLedgerEntry["method"];
+  estimatedCostUsd: number;
+}
+
+export interface AIBudgetStatus {
+  scope: AIBudgetScope;
+  label: string;
+  spentUsd: number;
+  limitUsd: number;
+  windowStart: number;
+}
+
+// Rough English-text ratio; close enough to size a pre-flight estimate without a tokenizer.
+const CHARS_PER_TOKEN = 4;
+const MIN_EXPECTED_OUTPUT_TOKENS = 1000;
+const RECENT_COST_SAMPLE_SIZE = 20;
+
+const warnedThresholds = new Set<string>();
+
+export class AIBudgetExceededError extends Error {
+  public readonly status: AIBudgetStatus;
+  public readonly estimatedCostUsd: number;
+
+  constructor(status: AIBudgetStatus, estimatedCostUsd: number) {
+    super(
+      `${status.label} budget reached: ${formatUsd(status.spentUsd)} of ${formatUsd(status.limitUsd)} spent` +
+        (estimatedCostUsd > 0 ? ` and this request is estimated at ${formatUsd(estimatedCostUsd)}.` : ".") +
+        " Ask the GM to raise the cap or wait for the next reset.",
+    );
+    this.name = "AIBudgetExceededError";
+    this.status = status;
+    this.estimatedCostUsd = estimatedCostUsd;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+const toLimit = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function safeReadSetting(key: string): unknown {
+  try {
+    return game.settings?.get(CONSTANTS.MODULE_ID as never, key as never);
+  } catch {
+    return undefined;
+  }
+}
+
+export function normalizeAIBudgetConfig(value: unknown): AIBudgetConfig {
+  if (!isRecord(value)) {
+    return { ...DEFAULT_AI_BUDGET_CONFIG, flowLimitsUsd: {} };
+  }
+
+  const flowLimitsUsd: Partial<Record<AIUsageFlow, number>> = {};
+  const rawFlowLimits = isRecord(value.flowLimitsUsd) ? value.flowLimitsUsd : {};
+  for (const flow of AI_USAGE_FLOWS) {
+    const limit = toLimit(rawFlowLimits[flow]);
+    if (limit > 0) {
+      flowLimitsUsd[flow] = limit;
+    }
+  }
+
+  const softLimitPercent = typeof value.softLimitPercent === "number" && Number.isFinite(value.softLimitPercent)
+    ? Math.min(100, Math.max(1, Math.round(value.softLimitPercent)))
+    : DEFAULT_AI_BUDGET_CONFIG.softLimitPercent;
+
+  return {
+    enabled: value.enabled === true,
+    resetPeriod: (AI_BUDGET_RESET_PERIODS as readonly unknown[]).includes(value.resetPeriod)
+      ? value.resetPeriod as AIBudgetResetPeriod
+      : DEFAULT_AI_BUDGET_CONFIG.resetPeriod,
+    softLimitPercent,
+    userLimitUsd: toLimit(value.userLimitUsd),
+    sessionLimitUsd: toLimit(value.sessionLimitUsd),
+    flowLimitsUsd,
+    exemptGMs: value.exemptGMs !== false,
+  };
+}
+
+export function readAIBudgetConfig(): AIBudgetConfig {
+  return normalizeAIBudgetConfig(safeReadSetting("AIBudgets"));
+}
+
+export function getBudgetWindowStart(period: AIBudgetResetPeriod, now = new Date()): number {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  switch (period) {
+    case "daily":
+      return start.getTime();
+    case "weekly": {
+      const daysSinceMonday = (start.getDay() + 6) % 7;
+      start.setDate(start.getDate() - daysSinceMonday);
+      return start.getTime();
+    }
+    case "monthly":
+      start.setDate(1);
+      return start.getTime();
+    case "never":
+      return 0;
+    default:
+      return period satisfies never;
+  }
+}
+
+interface LedgerSpend {
+  entries: UsageLedgerEntry[];
+  /** Spend from entries already trimmed off the users' ledgers. */
+  archives: UsageArchive[];
+}
+
+const toEntryKey = (entry: UsageLedgerEntry): string =>
+  `${entry.timestamp}|${entry.model}|${entry.method}|${entry.schemaName}`;
+
+/**
+ * Pending entries include a batch whose flag write is still in flight, so it is counted until the write lands;
+ * entries the write has already applied to the user's ledger are skipped rather than counted twice.
+ */
+function collectLedgerEntries(): { all: LedgerSpend; own: LedgerSpend } {
+  const currentUser = game.user;
+  const stored = readUsageLedger(currentUser);
+  const storedKeys = new Set(stored.map((entry) => toEntryKey(entry)));
+  const pending = readPendingUsageEntries().filter((entry) => !storedKeys.has(toEntryKey(entry)));
+  const own: LedgerSpend = {
+    entries: [...stored, ...pending],
+    archives: [readUsageArchive(currentUser)],
+  };
+  const others = Array.from((game.users ?? []) as Iterable<User>)
+    .filter((user) => user.id !== currentUser?.id);
+
+  return {
+    all: {
+      entries: [...own.entries, ...others.flatMap((user) => readUsageLedger(user))],
+      archives: [...own.archives, ...others.map((user) => readUsageArchive(user))],
+    },
+    own,
+  };
+}
+
+function sumCost(spend: LedgerSpend, since: number, flow?: AIUsageFlow): number {
+  const ledgerCost = spend.entries.reduce((total, entry) => {
+    if (entry.timestamp < since || (flow && entry.flow !== flow)) {
+      return total;
+    }
+    return total + (entry.costUsd ?? 0);
+  }, 0);
+
+  return spend.archives.reduce((total, archive) => total + sumArchivedUsage(archive, since, flow), ledgerCost);
+}
+
+export function getAIBudgetStatuses(flow?: AIUsageFlow, config = readAIBudgetConfig()): AIBudgetStatus[] {
+  const { all, own } = collectLedgerEntries();
+  const periodStart = getBudgetWindowStart(config.resetPeriod);
+  const sessionStart = readSessionStart();
+  const statuses: AIBudgetStatus[] = [];
+
+  if (config.userLimitUsd > 0) {
+    statuses.push({
+      scope: "user",
+      label: `${game.user?.name ?? "User"}'s`,
+      spentUsd: sumCost(own, periodStart),
+      limitUsd: config.userLimitUsd,
+      windowStart: periodStart,
+    });
+  }
+
+  if (config.sessionLimitUsd > 0) {
+    statuses.push({
+      scope: "session",
+      label: "Session",
+      spentUsd: sumCost(all, sessionStart),
+      limitUsd: config.sessionLimitUsd,
+      windowStart: sessionStart,
+    });
+  }
+
+  const flows = flow ? [flow] : AI_USAGE_FLOWS;
+  for (const entry of flows) {
+    const limit = config.flowLimitsUsd[entry] ?? 0;
+    if (limit > 0) {
+      statuses.push({
+        scope: "flow",
+        label: AI_USAGE_FLOW_LABELS[entry],
+        spentUsd: sumCost(all, periodStart, entry),
+        limitUsd: limit,
+        windowStart: periodStart,
+      });
+    }
+  }
+
+  return statuses;
+}
+
+/**
+ * Pre-flight cost for a request. Text calls use catalog pricing against the prompt size plus an expected completion;
+ * image calls (which the catalog does not price) fall back to the average of recent calls to the same model.
+ */
+export function estimateAIRequestCost(
+  model: string,
+  method: UsageLedgerEntry["method"],
+  inputChars: number,
+  expectedOutputTokens = MIN_EXPECTED_OUTPUT_TOKENS,
+): number {
+  const pricing = getCachedOpenRouterModelChoiceCatalog()?.capabilitiesById[model]?.pricing;
+  if (pricing && method !== "image") {
+    const inputTokens = Math.ceil(inputChars / CHARS_PER_TOKEN);
+    const outputTokens = Math.max(MIN_EXPECTED_OUTPUT_TOKENS, expectedOutputTokens);
+    return pricing.request + inputTokens * pricing.prompt + outputTokens * pricing.completion;
+  }
+
+  const recent = collectLedgerEntries().own.entries
+    .filter((entry) => entry.model === model && entry.method === method && entry.costUsd !== null)
+    .slice(-RECENT_COST_SAMPLE_SIZE);
+  if (!recent.length) {
+    return 0;
+  }
+
+  return recent.reduce((total, entry) => total + (entry.costUsd ?? 0), 0) / recent.length;
+}
+
+export function estimateTokensForChars(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+/**
+ * Throws {@link AIBudgetExceededError} when the request would push any configured scope past its hard cap, and
+ * warns once per reset window when it crosses the soft threshold.
+ */
+export function enforceAIBudget(request: AIBudgetCheckRequest): void {
+  const config = readAIBudgetConfig();
+  if (!config.enabled || request.provider === "openai-compatible") {
+    return;
+  }
+
+  if (config.exemptGMs && game.user?.isGM) {
+    return;
+  }
+
+  for (const status of getAIBudgetStatuses(request.flow, config)) {
+    const projected = status.spentUsd + request.estimatedCostUsd;
+    if (status.spentUsd >= status.limitUsd || projected > status.limitUsd) {
+      throw new AIBudgetExceededError(status, request.estimatedCostUsd);
+    }
+
+    const threshold = status.limitUsd * (config.softLimitPercent / 100);
+    const warningKey = `${status.scope}:${status.label}:${status.windowStart}`;
+    if (projected >= threshold && !warnedThresholds.has(warningKey)) {
+      warnedThresholds.add(warningKey);
+      ui.notifications?.warn(
+        `${CONSTANTS.MODULE_NAME} | ${status.label} AI budget is at ${formatUsd(projected)} of ` +
+          `${formatUsd(status.limitUsd)} (${config.softLimitPercent}% warning threshold).`,
+      );
+    }
+  }
+}
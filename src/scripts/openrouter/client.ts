@@ -8,6 +8,10 @@ import {
 import {
   getCachedOpenRouterModelChoiceCatalog,
 } from "./model-catalog";
+import { readConfiguredChatProvider, type ChatProviderId } from "./providers";
+import { recordAIUsage, type AIUsageFlow } from "./usage-ledger";
+import { createPartialJsonAccumulator } from "./partial-json";
+import { enforceAIBudget, estimateAIRequestCost, estimateTokensForChars } from "./budget";
 
 export interface JsonSchemaDefinition {
   name: string;
@@ -19,6 +23,7 @@ export interface OpenRouterUsageMetrics {
   inputTokens?: number;
   outputTokens?: number;
   totalTokens?: number;
+  costUsd?: number;
 }
 
 function extractNestedErrorMessage(value: unknown, depth = 0): string | undefined {
@@ -184,6 +189,7 @@ function normalizeRequiredProperties(node: unknown): JsonValue {
 }
 
 export interface OpenRouterClientConfig {
+  provider: ChatProviderId;
   model: string;
   imageModel: string;
   temperature: number;
@@ -232,6 +238,7 @@ export const readOpenRouterSettings = (): OpenRouterClientConfig => {
   const webSearchMaxResults = safeGet("OpenRouterWebSearchMaxResults");
 
   const config: OpenRouterClientConfig = {
+    provider: readConfiguredChatProvider(),
     model: normalizeModelId(model, DEFAULT_OPENROUTER_MODEL),
     imageModel: normalizeModelId(imageModel, DEFAULT_OPENROUTER_IMAGE_MODEL),
     temperature: sanitizeNumber(temperature) ?? 0,
@@ -250,6 +257,13 @@ export const readOpenRouterSettings = (): OpenRouterClientConfig => {
 
 export interface GenerateWithSchemaOptions {
   seed?: number;
+  /** Overrides the configured sampling temperature for this request. */
+  temperature?: number;
+  usageFlow?: AIUsageFlow;
+  /** Aborts the in-flight request; routing retries and the tool-mode fallback stop as well. */
+  signal?: AbortSignal;
+  /** When set the response is streamed and this receives the partially parsed JSON as it grows. */
+  onPartial?: (partial: unknown) => void;
   onRoutingRetry?: (event: OpenRouterRoutingRetryEvent) => void;
   onRoutingResolved?: (event: OpenRouterRoutingRetryEvent) => void;
 }
@@ -263,6 +277,8 @@ export interface OpenRouterRoutingRetryEvent {
 
 export interface GenerateImageOptions {
   model?: string;
+  usageFlow?: AIUsageFlow;
+  signal?: AbortSignal;
   size?: "1024x1024" | "1536x1024" | "1024x1536";
   background?: "transparent" | "opaque";
   quality?: "low" | "medium" | "high";
@@ -538,11 +554,65 @@ async function parseImageFromChatResponse(
   return null;
 }
 
+/**
+ * Self-hosted servers implement chat/completions far more consistently than the Responses API, so requests built for
+ * OpenRouter are translated into the equivalent chat payload before they are sent.
+ */
+function toChatCompletionRequest(request: Record<string, unknown>): Record<string, unknown> {
+  const chatRequest: Record<string, unknown> = {
+    model: request.model,
+    messages: request.input,
+    stream: false,
+  };
+
+  for (const key of ["temperature", "top_p", "seed"] as const) {
+    if (key in request) {
+      chatRequest[key] = request[key];
+    }
+  }
+
+  const seed = isRecord(request.metadata) ? Number(request.metadata.handy_dandy_seed) : Number.NaN;
+  if (!("seed" in chatRequest) && Number.isFinite(seed)) {
+    chatRequest.seed = seed;
+  }
+
+  const format = isRecord(request.text) && isRecord(request.text.format) ? request.text.format : null;
+  if (format?.type === "json_schema") {
+    chatRequest.response_format = {
+      type: "json_schema",
+      json_schema: {
+        name: format.name,
+        description: format.description,
+        schema: format.schema,
+        strict: format.strict,
+      },
+    };
+  }
+
+  if (Array.isArray(request.tools)) {
+    chatRequest.tools = request.tools.filter(isRecord).map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+        strict: tool.strict,
+      },
+    }));
+  }
+
+  if (isRecord(request.tool_choice) && typeof request.tool_choice.name === "string") {
+    chatRequest.tool_choice = { type: "function", function: { name: request.tool_choice.name } };
+  }
+
+  return chatRequest;
+}
+
 const performanceNow = typeof performance !== "undefined" && typeof performance.now === "function"
   ? () => performance.now()
   : () => Date.now();
 
-async function hashPrompt(prompt: string): Promise<string> {
+export async function hashPrompt(prompt: string): Promise<string> {
   if (typeof crypto !== "undefined" && crypto.subtle) {
     const encoder = new TextEncoder();
     const data = encoder.encode(prompt);
@@ -575,6 +645,17 @@ interface RoutingProfile {
   minimalParameters?: boolean;
 }
 
+/** The model answered, but no JSON object could be read from its response. */
+export class StructuredOutputParseError extends Error {
+  constructor(schemaName: string) {
+    super(`Unable to parse JSON response for schema "${schemaName}"`);
+    this.name = "StructuredOutputParseError";
+  }
+}
+
+/** Public surface shared by the OpenRouter client and local stand-ins such as the offline mock provider. */
+export type AIClient = Pick<OpenRouterClient, "generateWithSchema" | "generateImage">;
+
 export class OpenRouterClient {
   #openai: OpenAI;
   #config: OpenRouterClientConfig;
@@ -595,6 +676,18 @@ export class OpenRouterClient {
     options?: GenerateWithSchemaOptions,
   ): Promise<T> {
     this.#assertTextModelSupported();
+    enforceAIBudget({
+      provider: this.#config.provider,
+      flow: options?.usageFlow ?? "other",
+      model: this.#config.model,
+      method: "structured",
+      estimatedCostUsd: estimateAIRequestCost(
+        this.#config.model,
+        "structured",
+        prompt.length,
+        estimateTokensForChars(JSON.stringify(schema.schema).length),
+      ),
+    });
 
     const promptHash = await hashPrompt(prompt);
     const schemaSupportsStructured = this.#supportsStructuredSchema(schema);
@@ -613,6 +706,7 @@ export class OpenRouterClient {
         "tool",
         promptHash,
         schema,
+        options?.usageFlow,
         async () => this.#generateWithTool<T>(prompt, schema, options),
       );
     }
@@ -622,6 +716,7 @@ export class OpenRouterClient {
         "tool",
         promptHash,
         schema,
+        options?.usageFlow,
         async () => this.#generateWithTool<T>(prompt, schema, options),
       );
     }
@@ -638,10 +733,11 @@ export class OpenRouterClient {
         "structured",
         promptHash,
         schema,
+        options?.usageFlow,
         async () => this.#generateStructured<T>(prompt, schema, options),
       );
     } catch (error) {
-      if (!this.#shouldFallback(error) || !modelSupportsTools) {
+      if (options?.signal?.aborted || !this.#shouldFallback(error) || !modelSupportsTools) {
         throw error;
       }
 
@@ -649,6 +745,7 @@ export class OpenRouterClient {
         "tool",
         promptHash,
         schema,
+        options?.usageFlow,
         async () => this.#generateWithTool<T>(prompt, schema, options),
       );
     }
@@ -662,8 +759,53 @@ export class OpenRouterClient {
       ? normalizeModelId(options.model, this.#config.imageModel)
       : this.#config.imageModel;
     this.#assertImageModelSupported(model);
+    enforceAIBudget({
+      provider: this.#config.provider,
+      flow: options.usageFlow ?? "image",
+      model,
+      method: "image",
+      estimatedCostUsd: estimateAIRequestCost(model, "image", prompt.length),
+    });
+
+    const startWallClock = Date.now();
+    const start = performanceNow();
+    const usage: OpenRouterUsageMetrics[] = [];
+    const recordImage = async (success: boolean, error?: unknown): Promise<void> => {
+      this.#recordInteraction({
+        method: "image",
+        promptHash: await hashPrompt(prompt),
+        schemaName: "image",
+        usageFlow: options.usageFlow ?? "image",
+        model,
+        durationMs: performanceNow() - start,
+        startedAt: startWallClock,
+        success,
+        usage: usage.at(-1),
+        error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+      });
+    };
 
+    try {
+      const result = await this.#generateImageForModel(prompt, model, options, usage);
+      await recordImage(true);
+      return result;
+    } catch (error) {
+      await recordImage(false, error);
+      throw error;
+    }
+  }
+
+  async #generateImageForModel(
+    prompt: string,
+    model: string,
+    options: GenerateImageOptions,
+    usage: OpenRouterUsageMetrics[],
+  ): Promise<GeneratedImageResult> {
     const format = options.format ?? "png";
+    if (this.#config.provider === "openai-compatible") {
+      return await this.#generateImageViaImagesEndpoint(prompt, model, format, options, usage);
+    }
+
     const referenceImages = options.referenceImages?.filter((entry): entry is File => entry instanceof File) ?? [];
 
     if (referenceImages.length > 16) {
@@ -715,15 +857,24 @@ export class OpenRouterClient {
         modalities,
       };
 
+      options.signal?.throwIfAborted();
       try {
         const response = await this.#openai.chat.completions.create(
           request as unknown as ChatCompletionCreateParams,
+          { signal: options.signal },
         );
+        const responseUsage = this.#extractUsage(response);
+        if (responseUsage) {
+          usage.push(responseUsage);
+        }
         const parsed = await parseImageFromChatResponse(response, fallbackMimeType);
         if (parsed) {
           return parsed;
         }
       } catch (error) {
+        if (options.signal?.aborted) {
+          throw error;
+        }
         lastError = error;
         continue;
       }
@@ -735,6 +886,47 @@ export class OpenRouterClient {
     throw new Error("OpenRouter image generation did not return image data.");
   }
 
+  async #generateImageViaImagesEndpoint(
+    prompt: string,
+    model: string,
+    format: "png" | "webp",
+    options: GenerateImageOptions,
+    usage: OpenRouterUsageMetrics[],
+  ): Promise<GeneratedImageResult> {
+    const response = await this.#openai.images.generate({
+      model,
+      prompt,
+      n: 1,
+      size: options.size,
+      response_format: "b64_json",
+    } as Parameters<OpenAI["images"]["generate"]>[0], { signal: options.signal }) as { data?: unknown };
+    const responseUsage = this.#extractUsage(response);
+    if (responseUsage) {
+      usage.push(responseUsage);
+    }
+
+    const entries = Array.isArray(response.data) ? response.data : [];
+    for (const entry of entries) {
+      const base64 = extractBase64Payload(entry);
+      const revisedPrompt = isRecord(entry) && typeof entry.revised_prompt === "string" ? entry.revised_prompt : undefined;
+      if (base64) {
+        return { base64, mimeType: format === "webp" ? "image/webp" : "image/png", revisedPrompt };
+      }
+
+      const imageUrl = extractImageUrl(entry);
+      if (imageUrl) {
+        const fetched = await fetchImageAsBase64(imageUrl);
+        return {
+          base64: fetched.base64,
+          mimeType: fetched.mimeType?.startsWith("image/") ? fetched.mimeType : "image/png",
+          revisedPrompt,
+        };
+      }
+    }
+
+    throw new Error(`Image model "${model}" on the OpenAI-compatible server did not return image data.`);
+  }
+
   async #generateStructured<T>(
     prompt: string,
     schema: JsonSchemaDefinition,
@@ -754,12 +946,12 @@ export class OpenRouterClient {
           name: prepared.name,
           description: prepared.description ?? "Return JSON matching the provided schema.",
           schema: prepared.schema,
-          strict: true,
+          strict: !hasLooseAdditionalProperties(prepared.schema),
         },
       },
     };
 
-    this.#applySamplingParameters(request);
+    this.#applySamplingParameters(request, options);
     this.#applySchemaProviderPreferences(request as unknown as Record<string, unknown>);
     this.#applyOpenRouterPlugins(request as unknown as Record<string, unknown>);
 
@@ -796,7 +988,7 @@ export class OpenRouterClient {
       tool_choice: { type: "function", name: prepared.name },
     };
 
-    this.#applySamplingParameters(request);
+    this.#applySamplingParameters(request, options);
     this.#applySchemaProviderPreferences(request as unknown as Record<string, unknown>);
     this.#applyOpenRouterPlugins(request as unknown as Record<string, unknown>);
 
@@ -819,7 +1011,7 @@ export class OpenRouterClient {
   }
 
   #buildSystemInstruction(baseInstruction: string): string {
-    if (!this.#config.enableWebSearch) {
+    if (!this.#usesWebPlugin()) {
       return baseInstruction;
     }
 
@@ -837,7 +1029,8 @@ export class OpenRouterClient {
   }
 
   #supportsStructuredSchema(schema: JsonSchemaDefinition): boolean {
-    return !hasLooseAdditionalProperties(schema.schema);
+    // Local servers constrain output with a grammar rather than OpenAI strict mode, so open objects are fine there.
+    return this.#config.provider === "openai-compatible" || !hasLooseAdditionalProperties(schema.schema);
   }
 
   #shouldFallback(error: unknown): boolean {
@@ -882,7 +1075,10 @@ export class OpenRouterClient {
         combined.includes("no endpoints found") ||
         combined.includes("requested parameters") ||
         combined.includes("provider-selection") ||
-        combined.includes("can handle the requested parameters")
+        combined.includes("can handle the requested parameters") ||
+        combined.includes("unsupported parameter") ||
+        combined.includes("extra inputs are not permitted") ||
+        combined.includes("unrecognized request argument")
       );
   }
 
@@ -890,6 +1086,7 @@ export class OpenRouterClient {
     method: "structured" | "tool",
     promptHash: string,
     schema: JsonSchemaDefinition,
+    usageFlow: AIUsageFlow | undefined,
     executor: () => Promise<OpenRouterGenerationAttempt<T>>,
   ): Promise<T> {
     const startWallClock = Date.now();
@@ -901,6 +1098,7 @@ export class OpenRouterClient {
         method,
         promptHash,
         schemaName: schema.name,
+        usageFlow,
         durationMs: performanceNow() - start,
         startedAt: startWallClock,
         success: true,
@@ -912,6 +1110,7 @@ export class OpenRouterClient {
         method,
         promptHash,
         schemaName: schema.name,
+        usageFlow,
         durationMs: performanceNow() - start,
         startedAt: startWallClock,
         success: false,
@@ -922,15 +1121,33 @@ export class OpenRouterClient {
   }
 
   #recordInteraction(payload: {
-    method: "structured" | "tool";
+    method: "structured" | "tool" | "image";
     promptHash: string;
     schemaName: string;
+    usageFlow?: AIUsageFlow;
+    model?: string;
     durationMs: number;
     startedAt: number;
     success: boolean;
     usage?: OpenRouterUsageMetrics;
     error?: string;
   }): void {
+    const model = payload.model ?? this.#config.model;
+    recordAIUsage({
+      provider: this.#config.provider,
+      model,
+      schemaName: payload.schemaName,
+      flow: payload.usageFlow,
+      method: payload.method,
+      success: payload.success,
+      durationMs: payload.durationMs,
+      startedAt: payload.startedAt,
+      inputTokens: payload.usage?.inputTokens,
+      outputTokens: payload.usage?.outputTokens,
+      totalTokens: payload.usage?.totalTokens,
+      reportedCostUsd: payload.usage?.costUsd,
+    });
+
     const debugHooks = (globalThis as { CONFIG?: { debug?: { hooks?: boolean } } })
       .CONFIG?.debug?.hooks;
     if (!debugHooks) {
@@ -940,7 +1157,8 @@ export class OpenRouterClient {
     console.debug(`${CONSTANTS.MODULE_NAME} | AI request`, {
       promptHash: payload.promptHash,
       schemaName: payload.schemaName,
-      model: this.#config.model,
+      model,
+      flow: payload.usageFlow,
       method: payload.method,
       durationMs: payload.durationMs,
       startedAt: payload.startedAt,
@@ -955,24 +1173,39 @@ export class OpenRouterClient {
       .CONFIG?.debug?.hooks);
   }
 
-  #applySamplingParameters(request: ResponseCreateParams): void {
+  #applySamplingParameters(request: ResponseCreateParams, options?: GenerateWithSchemaOptions): void {
     if (this.#supportsTemperature()) {
-      request.temperature = this.#config.temperature;
+      request.temperature = options?.temperature ?? this.#config.temperature;
     }
 
     if (this.#supportsTopP()) {
       request.top_p = this.#config.top_p;
     }
+
+    // The Responses types have no seed, but OpenRouter forwards it to providers that list it as supported. Only a
+    // caller's or GM's seed is sent; without one, regenerating a request should give a different result.
+    const seed = options?.seed ?? this.#config.seed;
+    if (typeof seed === "number" && this.#supportsModelParameter("seed")) {
+      (request as unknown as Record<string, unknown>).seed = seed;
+    }
   }
 
   #applySchemaProviderPreferences(target: Record<string, unknown>): void {
+    if (this.#config.provider !== "openrouter") {
+      return;
+    }
+
     const provider = isRecord(target.provider) ? { ...target.provider } : {};
     provider.require_parameters = true;
     target.provider = provider;
   }
 
+  #usesWebPlugin(): boolean {
+    return this.#config.provider === "openrouter" && this.#config.enableWebSearch;
+  }
+
   #buildOpenRouterPlugins(): OpenRouterWebPluginConfig[] | undefined {
-    if (!this.#config.enableWebSearch) {
+    if (!this.#usesWebPlugin()) {
       return undefined;
     }
 
@@ -1070,6 +1303,7 @@ export class OpenRouterClient {
     if (profile.minimalParameters) {
       delete profiled.top_p;
       delete profiled.temperature;
+      delete profiled.seed;
       delete profiled.metadata;
     }
 
@@ -1094,9 +1328,13 @@ export class OpenRouterClient {
       profile.relaxProviderParameters = true;
     }
 
-    const hadOptionalSampling = "top_p" in baseRequest || "temperature" in baseRequest || "metadata" in baseRequest;
+    const hadOptionalSampling = "top_p" in baseRequest ||
+      "temperature" in baseRequest ||
+      "seed" in baseRequest ||
+      "metadata" in baseRequest;
     const keptOptionalSampling = "top_p" in successfulRequest ||
       "temperature" in successfulRequest ||
+      "seed" in successfulRequest ||
       "metadata" in successfulRequest;
     if (hadOptionalSampling && !keptOptionalSampling) {
       profile.minimalParameters = true;
@@ -1154,10 +1392,11 @@ export class OpenRouterClient {
       }
     }
 
-    if ("top_p" in baseRequest || "temperature" in baseRequest || "metadata" in baseRequest) {
+    if ("top_p" in baseRequest || "temperature" in baseRequest || "seed" in baseRequest || "metadata" in baseRequest) {
       const minimal = this.#cloneRequest(baseRequest);
       delete minimal.top_p;
       delete minimal.temperature;
+      delete minimal.seed;
       delete minimal.metadata;
       pushAttempt("minimal-parameters", minimal);
     }
@@ -1165,6 +1404,7 @@ export class OpenRouterClient {
     let lastRoutingError: unknown = null;
     for (let index = 0; index < attempts.length; index += 1) {
       const attempt = attempts[index];
+      options?.signal?.throwIfAborted();
       try {
         if (index > 0) {
           try {
@@ -1199,7 +1439,7 @@ export class OpenRouterClient {
           }
         }
 
-        const response = await this.#openai.responses.create(attempt.request as unknown as ResponseCreateParams);
+        const response = await this.#sendResponseRequest(attempt.request, options);
         const learned = this.#deriveRoutingProfileFromSuccess(baseRequest, attempt.request);
         this.#writeRoutingProfile(this.#config.model, learned);
         return response;
@@ -1218,6 +1458,124 @@ export class OpenRouterClient {
     throw new Error("OpenRouter request failed without a recoverable routing fallback.");
   }
 
+  async #sendResponseRequest(
+    request: Record<string, unknown>,
+    options?: GenerateWithSchemaOptions,
+  ): Promise<unknown> {
+    const requestOptions = { signal: options?.signal };
+    if (options?.onPartial) {
+      return await this.#streamResponseRequest(request, options.onPartial, requestOptions);
+    }
+
+    if (this.#config.provider === "openai-compatible") {
+      return await this.#openai.chat.completions.create(
+        toChatCompletionRequest(request) as unknown as ChatCompletionCreateParams,
+        requestOptions,
+      );
+    }
+
+    return await this.#openai.responses.create(request as unknown as ResponseCreateParams, requestOptions);
+  }
+
+  /**
+   * Streams the same request and folds the deltas back into a response shaped like the non-streaming one, so JSON
+   * extraction, usage accounting and routing profiles behave identically.
+   */
+  async #streamResponseRequest(
+    request: Record<string, unknown>,
+    onPartial: (partial: unknown) => void,
+    requestOptions: { signal?: AbortSignal },
+  ): Promise<unknown> {
+    const accumulator = createPartialJsonAccumulator(onPartial);
+
+    if (this.#config.provider === "openai-compatible") {
+      const stream = await this.#openai.chat.completions.create(
+        {
+          ...toChatCompletionRequest(request),
+          stream: true,
+          stream_options: { include_usage: true },
+        } as unknown as ChatCompletionCreateParams,
+        requestOptions,
+      ) as unknown as AsyncIterable<unknown>;
+
+      let content = "";
+      let toolName: string | undefined;
+      let toolArguments = "";
+      let usage: unknown;
+      for await (const chunk of stream) {
+        if (!isRecord(chunk)) continue;
+        if (isRecord(chunk.usage)) usage = chunk.usage;
+        const choice = Array.isArray(chunk.choices) && isRecord(chunk.choices[0]) ? chunk.choices[0] : null;
+        const delta = choice && isRecord(choice.delta) ? choice.delta : null;
+        if (!delta) continue;
+
+        if (typeof delta.content === "string") {
+          content += delta.content;
+          accumulator.append(delta.content);
+        }
+
+        const toolCalls = Array.isArray(delta.tool_calls) ? delta.tool_calls.filter(isRecord) : [];
+        for (const call of toolCalls) {
+          const fn = isRecord(call.function) ? call.function : null;
+          if (typeof fn?.name === "string") toolName = fn.name;
+          if (typeof fn?.arguments === "string") {
+            toolArguments += fn.arguments;
+            accumulator.append(fn.arguments);
+          }
+        }
+      }
+      accumulator.flush();
+
+      return {
+        choices: [
+          {
+            message: {
+              content,
+              tool_calls: toolArguments
+                ? [{ type: "function", function: { name: toolName, arguments: toolArguments } }]
+                : undefined,
+            },
+          },
+        ],
+        usage,
+      };
+    }
+
+    const stream = await this.#openai.responses.create(
+      { ...request, stream: true } as unknown as ResponseCreateParams,
+      requestOptions,
+    ) as unknown as AsyncIterable<unknown>;
+
+    let completed: unknown;
+    for await (const event of stream) {
+      if (!isRecord(event)) continue;
+      switch (event.type) {
+        case "response.output_text.delta":
+        case "response.function_call_arguments.delta":
+          if (typeof event.delta === "string") {
+            accumulator.append(event.delta);
+          }
+          break;
+        case "response.completed":
+          completed = event.response;
+          break;
+        case "response.failed": {
+          const failure = isRecord(event.response) && isRecord(event.response.error) ? event.response.error : {};
+          throw new Error(typeof failure.message === "string" ? failure.message : "Streamed response failed.");
+        }
+        case "error":
+          throw new Error(typeof event.message === "string" ? event.message : "Streamed response failed.");
+        default:
+          break;
+      }
+    }
+    accumulator.flush();
+
+    return completed ?? {
+      output: [{ type: "message", content: [{ type: "output_text", text: accumulator.text }] }],
+    };
+  }
+
   #supportsTemperature(): boolean {
     if (!this.#supportsModelParameter("temperature")) {
       return false;
@@ -1269,6 +1627,11 @@ export class OpenRouterClient {
       metrics.totalTokens = total;
     }
 
+    // OpenRouter reports the billed amount (in credits, i.e. USD) alongside token counts.
+    if (typeof candidate.cost === "number" && Number.isFinite(candidate.cost)) {
+      metrics.costUsd = candidate.cost;
+    }
+
     return Object.keys(metrics).length ? metrics : undefined;
   }
 
@@ -1287,7 +1650,7 @@ export class OpenRouterClient {
       if (fromChoices !== undefined) return fromChoices;
     }
 
-    throw new Error(`Unable to parse JSON response for schema "${schema.name}"`);
+    throw new StructuredOutputParseError(schema.name);
   }
 
   #extractFromOutput<T>(response: Record<string, unknown>): T | undefined {
@@ -0,0 +1,208 @@
+import { CONSTANTS } from "../constants";
+import {
+  hashPrompt,
+  type GenerateImageOptions,
+  type GenerateWithSchemaOptions,
+  type GeneratedImageResult,
+  type JsonSchemaDefinition,
+} from "./client";
+
+export type MockFixtureMap = Record<string, unknown>;
+
+// 1x1 fully transparent PNG so image flows and alpha checks have something real to decode.
+const MOCK_IMAGE_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const recordedFixtures: MockFixtureMap = {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+export function getMockFixtureKey(promptHash: string, schemaName: string): string {
+  return `${schemaName}:${promptHash}`;
+}
+
+export function recordMockFixture(promptHash: string, schemaName: string, result: unknown): void {
+  recordedFixtures[getMockFixtureKey(promptHash, schemaName)] = clone(result);
+}
+
+export function exportRecordedMockFixtures(): MockFixtureMap {
+  return clone(recordedFixtures);
+}
+
+export function isMockFixtureRecordingEnabled(): boolean {
+  try {
+    return game.settings?.get(CONSTANTS.MODULE_ID as never, "MockProviderRecordFixtures" as never) === true;
+  } catch {
+    return false;
+  }
+}
+
+export async function loadMockFixtures(path: string): Promise<MockFixtureMap> {
+  const trimmed = path.trim();
+  if (!trimmed) {
+    return {};
+  }
+
+  try {
+    const response = await fetch(trimmed, { cache: "no-store" });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const parsed = (await response.json()) as unknown;
+    if (!isRecord(parsed)) {
+      throw new Error("fixture file must contain a JSON object keyed by schema name and prompt hash");
+    }
+
+    return parsed;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to load mock fixtures from ${trimmed}: ${message}`);
+    return {};
+  }
+}
+
+interface StubContext {
+  readonly propertyName: string;
+  readonly promptHash: string;
+  readonly schemaName: string;
+}
+
+function pickSchemaType(node: Record<string, unknown>): string | undefined {
+  if (typeof node.type === "string") {
+    return node.type;
+  }
+
+  if (Array.isArray(node.type)) {
+    return node.type.find((entry): entry is string => typeof entry === "string" && entry !== "null");
+  }
+
+  if (isRecord(node.properties)) {
+    return "object";
+  }
+
+  return undefined;
+}
+
+function synthesizeString(node: Record<string, unknown>, context: StubContext): string {
+  if (context.propertyName === "slug") {
+    return `mock-${context.promptHash.slice(0, 8)}`;
+  }
+
+  const base = context.propertyName === "name"
+    ? `Mock ${context.schemaName}`
+    : `Mock ${context.propertyName || "value"}`;
+  const minLength = typeof node.minLength === "number" ? node.minLength : 0;
+  return base.padEnd(minLength, ".");
+}
+
+function synthesizeNumber(node: Record<string, unknown>, integer: boolean): number {
+  const minimum = typeof node.minimum === "number" ? node.minimum : undefined;
+  const maximum = typeof node.maximum === "number" ? node.maximum : undefined;
+  let value = minimum ?? 0;
+  if (maximum !== undefined && value > maximum) {
+    value = maximum;
+  }
+
+  return integer ? Math.ceil(value) : value;
+}
+
+/** Builds the smallest value that satisfies a JSON schema node, preferring declared defaults. */
+export function synthesizeSchemaValue(schema: unknown, context: StubContext): unknown {
+  if (!isRecord(schema)) {
+    return null;
+  }
+
+  if ("const" in schema) {
+    return clone(schema.const);
+  }
+
+  if (Array.isArray(schema.enum)) {
+    const candidate = schema.enum.find((entry) => entry !== null);
+    return clone(candidate ?? null);
+  }
+
+  const type = pickSchemaType(schema);
+  switch (type) {
+    case "string":
+      return synthesizeString(schema, context);
+    case "integer":
+      return synthesizeNumber(schema, true);
+    case "number":
+      return synthesizeNumber(schema, false);
+    case "boolean":
+      return false;
+    case "array": {
+      const minItems = typeof schema.minItems === "number" ? schema.minItems : 0;
+      return Array.from({ length: minItems }, () => synthesizeSchemaValue(schema.items, context));
+    }
+    case "object": {
+      const properties = isRecord(schema.properties) ? schema.properties : {};
+      const required = Array.isArray(schema.required) ? schema.required : [];
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(properties)) {
+        if (required.includes(key)) {
+          result[key] = synthesizeSchemaValue(propertySchema, { ...context, propertyName: key });
+        } else if (isRecord(propertySchema) && "default" in propertySchema) {
+          result[key] = clone(propertySchema.default);
+        }
+      }
+      return result;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Network-free stand-in for {@link OpenRouterClient}. Structured requests replay a recorded fixture when one matches
+ * the prompt hash and schema name; otherwise they return the smallest payload the schema accepts.
+ */
+export class MockOpenRouterClient {
+  #fixtures: Promise<MockFixtureMap>;
+
+  constructor(fixtures: MockFixtureMap | Promise<MockFixtureMap> = {}) {
+    this.#fixtures = Promise.resolve(fixtures);
+  }
+
+  static fromPath(path: string): MockOpenRouterClient {
+    return new MockOpenRouterClient(loadMockFixtures(path));
+  }
+
+  async generateWithSchema<T>(
+    prompt: string,
+    schema: JsonSchemaDefinition,
+    options?: GenerateWithSchemaOptions,
+  ): Promise<T> {
+    options?.signal?.throwIfAborted();
+    const promptHash = await hashPrompt(prompt);
+    const fixtures = await this.#fixtures;
+    const key = getMockFixtureKey(promptHash, schema.name);
+    const result = Object.hasOwn(fixtures, key)
+      ? clone(fixtures[key]) as T
+      : synthesizeSchemaValue(schema.schema, {
+        propertyName: "",
+        promptHash,
+        schemaName: schema.name,
+      }) as T;
+
+    // Replays arrive whole, so the streaming preview gets a single update.
+    options?.onPartial?.(clone(result));
+    return result;
+  }
+
+  async generateImage(
+    _prompt: string,
+    options?: GenerateImageOptions,
+  ): Promise<GeneratedImageResult> {
+    options?.signal?.throwIfAborted();
+    return {
+      base64: MOCK_IMAGE_BASE64,
+      mimeType: "image/png",
+    };
+  }
+}
@@ -1,5 +1,11 @@
 import { CONSTANTS } from "../constants";
 import { DEFAULT_OPENROUTER_IMAGE_MODEL, DEFAULT_OPENROUTER_MODEL } from "./models";
+import {
+  readCompatibleApiKey,
+  readCompatibleBaseUrl,
+  readConfiguredChatProvider,
+  type ChatProviderId,
+} from "./providers";
 
 const OPENROUTER_MODELS_ENDPOINT = "https://openrouter.ai/api/v1/models";
 const OPENROUTER_USER_MODELS_ENDPOINT = "https://openrouter.ai/api/v1/models/user";
@@ -15,6 +21,10 @@ const OPENROUTER_TOOL_SUPPORT_PARAMETERS = [
   "tool_choice",
 ] as const;
 
+// Native capability tags reported by Ollama (/api/show) and LM Studio (/api/v0/models).
+const COMPATIBLE_TOOL_CAPABILITIES = ["tools", "tool_use", "function_calling"] as const;
+const COMPATIBLE_EMBEDDING_TYPES = ["embedding", "embeddings"] as const;
+
 interface OpenRouterModelRecord {
   id?: unknown;
   name?: unknown;
@@ -24,12 +34,34 @@ interface OpenRouterModelRecord {
     output_modalities?: unknown;
   };
   supported_parameters?: unknown;
+  pricing?: {
+    prompt?: unknown;
+    completion?: unknown;
+    request?: unknown;
+  };
 }
 
 interface OpenRouterModelsResponse {
   data?: unknown;
 }
 
+/** `/v1/models` entry from a self-hosted server; only `id` is guaranteed, the rest is server-specific. */
+interface CompatibleModelRecord {
+  id?: unknown;
+  owned_by?: unknown;
+  type?: unknown;
+  capabilities?: unknown;
+  max_model_len?: unknown;
+  context_length?: unknown;
+  max_context_length?: unknown;
+}
+
+interface CompatibleNativeMetadata {
+  type?: string;
+  capabilities?: string[];
+  contextLength?: number;
+}
+
 interface ModelChoiceEntry {
   id: string;
   label: string;
@@ -37,6 +69,13 @@ interface ModelChoiceEntry {
 
 type CatalogSource = "network" | "fallback";
 
+/** USD prices as published in the OpenRouter catalog: per token for prompt/completion, per call for request. */
+export interface OpenRouterModelPricing {
+  prompt: number;
+  completion: number;
+  request: number;
+}
+
 export interface OpenRouterModelCapabilities {
   id: string;
   label: string;
@@ -48,9 +87,11 @@ export interface OpenRouterModelCapabilities {
   supportsToolCalling: boolean;
   supportsTextGeneration: boolean;
   supportsImageGeneration: boolean;
+  pricing?: OpenRouterModelPricing;
 }
 
 export interface OpenRouterModelChoiceCatalog {
+  provider: ChatProviderId;
   textChoices: Record<string, string>;
   imageChoices: Record<string, string>;
   capabilitiesById: Record<string, OpenRouterModelCapabilities>;
@@ -59,6 +100,7 @@ export interface OpenRouterModelChoiceCatalog {
 }
 
 let cachedCatalog: OpenRouterModelChoiceCatalog | null = null;
+let cachedCatalogKey: string | null = null;
 
 function asStringArray(value: unknown): string[] {
   if (!Array.isArray(value)) {
@@ -125,6 +167,25 @@ function getCurrentConfiguredModel(settingKey: "OpenRouterModel" | "OpenRouterIm
   }
 }
 
+function readPrice(value: unknown): number | null {
+  const numeric = typeof value === "string" ? Number(value) : value;
+  return typeof numeric === "number" && Number.isFinite(numeric) && numeric >= 0 ? numeric : null;
+}
+
+function toPricing(record: OpenRouterModelRecord): OpenRouterModelPricing | undefined {
+  const prompt = readPrice(record.pricing?.prompt);
+  const completion = readPrice(record.pricing?.completion);
+  if (prompt === null && completion === null) {
+    return undefined;
+  }
+
+  return {
+    prompt: prompt ?? 0,
+    completion: completion ?? 0,
+    request: readPrice(record.pricing?.request) ?? 0,
+  };
+}
+
 function toCapabilities(record: OpenRouterModelRecord): OpenRouterModelCapabilities | null {
   const entry = toModelChoiceEntry(record);
   if (!entry) {
@@ -160,12 +221,70 @@ function toCapabilities(record: OpenRouterModelRecord): OpenRouterModelCapabilit
     supportsToolCalling,
     supportsTextGeneration,
     supportsImageGeneration,
+    pricing: toPricing(record),
+  };
+}
+
+function readPositiveInteger(...values: unknown[]): number | undefined {
+  for (const value of values) {
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+      return Math.trunc(value);
+    }
+  }
+  return undefined;
+}
+
+function toCompatibleCapabilities(
+  record: CompatibleModelRecord,
+  native: CompatibleNativeMetadata | undefined,
+): OpenRouterModelCapabilities | null {
+  const id = typeof record.id === "string" ? record.id.trim() : "";
+  if (!id) {
+    return null;
+  }
+
+  const type = (native?.type ?? (typeof record.type === "string" ? record.type : "")).toLowerCase();
+  const capabilityTags = (native?.capabilities ?? asStringArray(record.capabilities))
+    .map((value) => value.toLowerCase());
+  const isEmbeddingModel = (COMPATIBLE_EMBEDDING_TYPES as readonly string[]).includes(type) ||
+    (capabilityTags.includes("embedding") && !capabilityTags.includes("completion")) ||
+    /(^|[-_/:])embed/i.test(id);
+  if (isEmbeddingModel) {
+    return null;
+  }
+
+  // Ollama, LM Studio and vLLM all accept response_format json_schema for chat models. Tool calling depends on the
+  // model template (and on server flags for vLLM), so it is only enabled when the server reports it.
+  const supportsToolCalling = capabilityTags.some((tag) =>
+    (COMPATIBLE_TOOL_CAPABILITIES as readonly string[]).includes(tag)
+  );
+  const supportedParameters = ["response_format", "structured_outputs", "temperature", "top_p", "seed"];
+  if (supportsToolCalling) {
+    supportedParameters.push("tools", "tool_choice");
+  }
+
+  const inputModalities = capabilityTags.includes("vision") || type === "vlm" ? ["text", "image"] : ["text"];
+  const ownedBy = typeof record.owned_by === "string" ? record.owned_by.trim() : "";
+
+  return {
+    id,
+    label: ownedBy && ownedBy !== id ? `${id} (${ownedBy})` : id,
+    inputModalities,
+    outputModalities: ["text"],
+    supportedParameters,
+    contextLength: native?.contextLength ??
+      readPositiveInteger(record.max_model_len, record.context_length, record.max_context_length),
+    supportsStructuredOutputs: true,
+    supportsToolCalling,
+    supportsTextGeneration: true,
+    supportsImageGeneration: false,
   };
 }
 
 function buildCatalogFromCapabilities(
   capabilities: readonly OpenRouterModelCapabilities[],
   source: CatalogSource,
+  provider: ChatProviderId = "openrouter",
 ): OpenRouterModelChoiceCatalog {
   const textEntries = capabilities
     .filter((entry) => entry.supportsTextGeneration)
@@ -181,10 +300,12 @@ function buildCatalogFromCapabilities(
     capabilitiesById[entry.id] = entry;
   }
 
-  ensureChoice(textChoices, DEFAULT_OPENROUTER_MODEL, `OpenAI: GPT-5 Mini (${DEFAULT_OPENROUTER_MODEL})`);
-  ensureChoice(imageChoices, DEFAULT_OPENROUTER_IMAGE_MODEL, `OpenAI: GPT-5 Image Mini (${DEFAULT_OPENROUTER_IMAGE_MODEL})`);
+  if (provider === "openrouter") {
+    ensureChoice(textChoices, DEFAULT_OPENROUTER_MODEL, `OpenAI: GPT-5 Mini (${DEFAULT_OPENROUTER_MODEL})`);
+    ensureChoice(imageChoices, DEFAULT_OPENROUTER_IMAGE_MODEL, `OpenAI: GPT-5 Image Mini (${DEFAULT_OPENROUTER_IMAGE_MODEL})`);
 
-  ensureChoice(textChoices, "openrouter/auto", "Auto Router (openrouter/auto)");
+    ensureChoice(textChoices, "openrouter/auto", "Auto Router (openrouter/auto)");
+  }
 
   const configuredText = getCurrentConfiguredModel("OpenRouterModel");
   const configuredImage = getCurrentConfiguredModel("OpenRouterImageModel");
@@ -196,6 +317,7 @@ function buildCatalogFromCapabilities(
   }
 
   return {
+    provider,
     textChoices,
     imageChoices,
     capabilitiesById,
@@ -204,7 +326,11 @@ function buildCatalogFromCapabilities(
   };
 }
 
-function fallbackCatalog(): OpenRouterModelChoiceCatalog {
+function fallbackCatalog(provider: ChatProviderId): OpenRouterModelChoiceCatalog {
+  if (provider === "openai-compatible") {
+    return buildCatalogFromCapabilities([], "fallback", provider);
+  }
+
   const fallbackCapabilities: OpenRouterModelCapabilities[] = [
     {
       id: DEFAULT_OPENROUTER_MODEL,
@@ -315,6 +441,110 @@ async function fetchOpenRouterModels(): Promise<OpenRouterModelRecord[]> {
   }
 }
 
+async function fetchJsonWithTimeout(url: string, init: RequestInit = {}): Promise<unknown> {
+  const controller = typeof AbortController === "function" ? new AbortController() : null;
+  const timeoutId = controller
+    ? globalThis.setTimeout(() => controller.abort(), OPENROUTER_MODELS_TIMEOUT_MS)
+    : null;
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller?.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    return await response.json() as unknown;
+  } finally {
+    if (timeoutId !== null) {
+      globalThis.clearTimeout(timeoutId);
+    }
+  }
+}
+
+async function fetchCompatibleModels(baseUrl: string, apiKey: string): Promise<CompatibleModelRecord[]> {
+  const headers: Record<string, string> = {};
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const payload = await fetchJsonWithTimeout(`${baseUrl}/models`, { method: "GET", headers }) as OpenRouterModelsResponse;
+  return Array.isArray(payload?.data) ? (payload.data as CompatibleModelRecord[]) : [];
+}
+
+/**
+ * `/v1/models` on local servers lists ids only. LM Studio and Ollama expose richer metadata on their native APIs,
+ * so probe those (best effort) for tool support and context length.
+ */
+async function fetchCompatibleNativeMetadata(
+  baseUrl: string,
+  modelIds: readonly string[],
+): Promise<Map<string, CompatibleNativeMetadata>> {
+  const metadata = new Map<string, CompatibleNativeMetadata>();
+  const serverRoot = baseUrl.replace(/\/v1$/i, "");
+
+  try {
+    const payload = await fetchJsonWithTimeout(`${serverRoot}/api/v0/models`) as OpenRouterModelsResponse;
+    const records = Array.isArray(payload?.data) ? payload.data as Record<string, unknown>[] : [];
+    for (const record of records) {
+      if (typeof record?.id !== "string") continue;
+      metadata.set(record.id, {
+        type: typeof record.type === "string" ? record.type : undefined,
+        capabilities: asStringArray(record.capabilities),
+        contextLength: readPositiveInteger(record.max_context_length, record.loaded_context_length),
+      });
+    }
+    if (metadata.size > 0) {
+      return metadata;
+    }
+  } catch {
+    // Not LM Studio; try Ollama below.
+  }
+
+  for (const id of modelIds) {
+    try {
+      const payload = await fetchJsonWithTimeout(`${serverRoot}/api/show`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: id }),
+      }) as { capabilities?: unknown; model_info?: Record<string, unknown> } | null;
+      const modelInfo = payload?.model_info ?? {};
+      const contextKey = Object.keys(modelInfo).find((key) => key.endsWith(".context_length"));
+      metadata.set(id, {
+        capabilities: asStringArray(payload?.capabilities),
+        contextLength: contextKey ? readPositiveInteger(modelInfo[contextKey]) : undefined,
+      });
+    } catch {
+      // Not Ollama (or the model vanished); stop probing rather than time out once per model.
+      break;
+    }
+  }
+
+  return metadata;
+}
+
+async function loadCompatibleCapabilities(): Promise<OpenRouterModelCapabilities[]> {
+  const baseUrl = readCompatibleBaseUrl();
+  const models = await fetchCompatibleModels(baseUrl, readCompatibleApiKey());
+  const ids = models
+    .map((entry) => (typeof entry.id === "string" ? entry.id.trim() : ""))
+    .filter((id) => id.length > 0);
+  const native = await fetchCompatibleNativeMetadata(baseUrl, ids);
+
+  return models
+    .map((entry) => toCompatibleCapabilities(entry, typeof entry.id === "string" ? native.get(entry.id) : undefined))
+    .filter((entry): entry is OpenRouterModelCapabilities => Boolean(entry));
+}
+
+async function loadOpenRouterCapabilities(): Promise<OpenRouterModelCapabilities[]> {
+  const models = await fetchOpenRouterModels();
+  return models
+    .map((entry) => toCapabilities(entry))
+    .filter((entry): entry is OpenRouterModelCapabilities => Boolean(entry));
+}
+
+function getCatalogCacheKey(provider: ChatProviderId): string {
+  return provider === "openai-compatible" ? `${provider}:${readCompatibleBaseUrl()}` : provider;
+}
+
 function applyFreshChoicesToSetting(settingKey: "OpenRouterModel" | "OpenRouterImageModel", choices: Record<string, string>): void {
   const settingId = `${CONSTANTS.MODULE_ID}.${settingKey}`;
   const settingRegistry = game.settings?.settings;
@@ -342,32 +572,33 @@ export function getCachedOpenRouterModelChoiceCatalog(): OpenRouterModelChoiceCa
 export async function loadOpenRouterModelChoiceCatalog(
   options: { forceRefresh?: boolean } = {},
 ): Promise<OpenRouterModelChoiceCatalog> {
+  const provider = readConfiguredChatProvider();
+  const cacheKey = getCatalogCacheKey(provider);
+  if (cacheKey !== cachedCatalogKey) {
+    cachedCatalog = null;
+    cachedCatalogKey = cacheKey;
+  }
+
   if (!options.forceRefresh && cachedCatalog) {
     return cachedCatalog;
   }
 
-  const fallback = fallbackCatalog();
+  const fallback = fallbackCatalog(provider);
 
   try {
-    const models = await fetchOpenRouterModels();
-    if (models.length === 0) {
-      cachedCatalog = fallback;
-      return fallback;
-    }
-
-    const capabilities = models
-      .map((entry) => toCapabilities(entry))
-      .filter((entry): entry is OpenRouterModelCapabilities => Boolean(entry));
+    const capabilities = provider === "openai-compatible"
+      ? await loadCompatibleCapabilities()
+      : await loadOpenRouterCapabilities();
     if (!capabilities.length) {
       cachedCatalog = fallback;
       return fallback;
     }
 
-    const catalog = buildCatalogFromCapabilities(capabilities, "network");
+    const catalog = buildCatalogFromCapabilities(capabilities, "network", provider);
     cachedCatalog = catalog;
     return catalog;
   } catch (error) {
-    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to load OpenRouter model catalog`, error);
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to load ${provider} model catalog`, error);
     cachedCatalog = cachedCatalog ?? fallback;
     return cachedCatalog;
   }
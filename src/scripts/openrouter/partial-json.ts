@@ -0,0 +1,225 @@
+import { CONSTANTS } from "../constants";
+
+const INCOMPLETE = Symbol("incomplete");
+
+type ParsedValue = unknown | typeof INCOMPLETE;
+
+const WHITESPACE = new Set([" ", "\n", "\r", "\t"]);
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/;
+const LITERALS: ReadonlyArray<readonly [string, unknown]> = [
+  ["true", true],
+  ["false", false],
+  ["null", null],
+];
+
+/**
+ * Best-effort parse of a JSON document that is still arriving. Complete values parse as usual, an unterminated string
+ * keeps the text received so far, and a property whose key or literal value was cut off is dropped until it finishes.
+ * Returns undefined until the first object or array has opened.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    return undefined;
+  }
+
+  let index = start;
+
+  const skipWhitespace = (): void => {
+    while (index < text.length && WHITESPACE.has(text[index])) {
+      index += 1;
+    }
+  };
+
+  const parseString = (allowPartial: boolean): ParsedValue => {
+    const open = index;
+    index += 1;
+    while (index < text.length) {
+      const character = text[index];
+      if (character === "\\") {
+        index += 2;
+        continue;
+      }
+      if (character === "\"") {
+        index += 1;
+        try {
+          return JSON.parse(text.slice(open, index)) as string;
+        } catch {
+          return INCOMPLETE;
+        }
+      }
+      index += 1;
+    }
+
+    index = text.length;
+    if (!allowPartial) {
+      return INCOMPLETE;
+    }
+
+    // Drop a trailing escape sequence that has not fully arrived (a lone backslash or a short \u code).
+    const body = text.slice(open + 1).replace(/\\(?:u[0-9a-fA-F]{0,3})?$/, "");
+    try {
+      return JSON.parse(`"${body}"`) as string;
+    } catch {
+      return body;
+    }
+  };
+
+  const parseScalar = (): ParsedValue => {
+    const rest = text.slice(index);
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number) {
+      index += number[0].length;
+      return Number(number[0]);
+    }
+
+    for (const [literal, value] of LITERALS) {
+      if (rest.startsWith(literal)) {
+        index += literal.length;
+        return value;
+      }
+    }
+
+    index = text.length;
+    return INCOMPLETE;
+  };
+
+  const parseArray = (): unknown[] => {
+    const result: unknown[] = [];
+    index += 1;
+    while (true) {
+      skipWhitespace();
+      const character = text[index];
+      if (character === undefined) {
+        return result;
+      }
+      if (character === "]") {
+        index += 1;
+        return result;
+      }
+      if (character === ",") {
+        index += 1;
+        continue;
+      }
+
+      const value = parseValue();
+      if (value === INCOMPLETE) {
+        return result;
+      }
+      result.push(value);
+    }
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    index += 1;
+    while (true) {
+      skipWhitespace();
+      const character = text[index];
+      if (character === undefined) {
+        return result;
+      }
+      if (character === "}") {
+        index += 1;
+        return result;
+      }
+      if (character === ",") {
+        index += 1;
+        continue;
+      }
+      if (character !== "\"") {
+        index = text.length;
+        return result;
+      }
+
+      const key = parseString(false);
+      skipWhitespace();
+      if (key === INCOMPLETE || text[index] !== ":") {
+        index = text.length;
+        return result;
+      }
+      index += 1;
+
+      const value = parseValue();
+      if (value === INCOMPLETE) {
+        return result;
+      }
+      result[key as string] = value;
+    }
+  };
+
+  const parseValue = (): ParsedValue => {
+    skipWhitespace();
+    switch (text[index]) {
+      case undefined:
+        return INCOMPLETE;
+      case "{":
+        return parseObject();
+      case "[":
+        return parseArray();
+      case "\"":
+        return parseString(true);
+      default:
+        return parseScalar();
+    }
+  };
+
+  const value = parseValue();
+  return value === INCOMPLETE ? undefined : value;
+}
+
+export interface PartialJsonAccumulator {
+  append: (delta: string) => void;
+  /** Emits the latest parse immediately; call once the stream ends so the final state is never throttled away. */
+  flush: () => void;
+  readonly text: string;
+}
+
+/**
+ * Collects streamed JSON text and reports the partially parsed value at most once per interval, since re-parsing a
+ * large stat block on every token would dominate the main thread.
+ */
+export function createPartialJsonAccumulator(
+  onPartial: (value: unknown) => void,
+  intervalMs = 150,
+): PartialJsonAccumulator {
+  let text = "";
+  let lastEmit = 0;
+  let dirty = false;
+
+  const emit = (): void => {
+    dirty = false;
+    lastEmit = Date.now();
+    const value = parsePartialJson(text);
+    if (value === undefined) {
+      return;
+    }
+
+    try {
+      onPartial(value);
+    } catch (error) {
+      console.warn(`${CONSTANTS.MODULE_NAME} | Partial output callback failed`, error);
+    }
+  };
+
+  return {
+    append: (delta: string) => {
+      if (!delta) {
+        return;
+      }
+      text += delta;
+      dirty = true;
+      if (Date.now() - lastEmit >= intervalMs) {
+        emit();
+      }
+    },
+    flush: () => {
+      if (dirty) {
+        emit();
+      }
+    },
+    get text() {
+      return text;
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { CONSTANTS } from "../constants";
+
+export type AIProviderId = "openrouter" | "openai-compatible" | "mock";
+
+/** Providers that speak the OpenAI HTTP API and therefore share {@link OpenRouterClient}. */
+export type ChatProviderId = Exclude<AIProviderId, "mock">;
+
+export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+export const DEFAULT_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+
+const AI_PROVIDER_IDS: readonly AIProviderId[] = ["openrouter", "openai-compatible", "mock"];
+
+const safeReadSetting = (key: string): unknown => {
+  try {
+    return game.settings?.get(CONSTANTS.MODULE_ID as never, key as never);
+  } catch {
+    return undefined;
+  }
+};
+
+export const readSettingString = (key: string): string => {
+  const value = safeReadSetting(key);
+  return typeof value === "string" ? value.trim() : "";
+};
+
+export function readConfiguredProvider(): AIProviderId {
+  const value = readSettingString("AIProvider");
+  return (AI_PROVIDER_IDS as readonly string[]).includes(value) ? value as AIProviderId : "openrouter";
+}
+
+export function readConfiguredChatProvider(): ChatProviderId {
+  return readConfiguredProvider() === "openai-compatible" ? "openai-compatible" : "openrouter";
+}
+
+/** Trims trailing slashes so `${baseUrl}/models` never doubles up; blank input falls back to the local default. */
+export function normalizeCompatibleBaseUrl(value: unknown): string {
+  const trimmed = typeof value === "string" ? value.trim().replace(/\/+$/, "") : "";
+  return trimmed || DEFAULT_COMPATIBLE_BASE_URL;
+}
+
+export function readCompatibleBaseUrl(): string {
+  return normalizeCompatibleBaseUrl(readSettingString("OpenAICompatibleBaseUrl"));
+}
+
+export function readCompatibleApiKey(): string {
+  return readSettingString("OpenAICompatibleApiKey");
+}
+
+export function readProviderBaseUrl(provider: ChatProviderId): string {
+  return provider === "openai-compatible" ? readCompatibleBaseUrl() : OPENROUTER_BASE_URL;
+}
+
+export function getProviderLabel(provider: AIProviderId): string {
+  switch (provider) {
+    case "openrouter":
+      return "OpenRouter";
+    case "openai-compatible":
+      return "OpenAI-compatible server";
+    case "mock":
+      return "Offline mock";
+    default:
+      return provider satisfies never;
+  }
+}
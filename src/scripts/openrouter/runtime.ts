@@ -1,21 +1,17 @@
 import { OpenAI } from "openai";
 import { CONSTANTS } from "../constants";
 import { OpenRouterClient } from "./client";
+import { MockOpenRouterClient } from "./mock-provider";
+import {
+  OPENROUTER_BASE_URL,
+  readCompatibleApiKey,
+  readCompatibleBaseUrl,
+  readConfiguredProvider,
+  readSettingString,
+} from "./providers";
 
-const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
-
-const safeReadSetting = (key: string): unknown => {
-  try {
-    return game.settings?.get(CONSTANTS.MODULE_ID as never, key as never);
-  } catch {
-    return undefined;
-  }
-};
-
-const readSettingString = (key: string): string => {
-  const value = safeReadSetting(key);
-  return typeof value === "string" ? value.trim() : "";
-};
+// Local servers such as Ollama and LM Studio ignore the key, but the SDK refuses to start without one.
+const COMPATIBLE_PLACEHOLDER_API_KEY = "handy-dandy-local";
 
 export function readConfiguredApiKey(): string {
   return readSettingString("OpenRouterApiKey");
@@ -33,12 +29,34 @@ export function createOpenRouterSdk(apiKey: string): OpenAI {
   });
 }
 
+export function createCompatibleSdk(baseURL: string, apiKey: string): OpenAI {
+  return new OpenAI({
+    apiKey: apiKey || COMPATIBLE_PLACEHOLDER_API_KEY,
+    baseURL,
+    dangerouslyAllowBrowser: true,
+  });
+}
+
 export function initializeOpenRouterClientFromSettings(): void {
   const namespace = game.handyDandy;
   if (!namespace) {
     return;
   }
 
+  const provider = readConfiguredProvider();
+  if (provider === "mock") {
+    namespace.openRouterSdk = null;
+    namespace.openRouterClient = MockOpenRouterClient.fromPath(readSettingString("MockProviderFixturePath"));
+    return;
+  }
+
+  if (provider === "openai-compatible") {
+    const compatibleSdk = createCompatibleSdk(readCompatibleBaseUrl(), readCompatibleApiKey());
+    namespace.openRouterSdk = compatibleSdk;
+    namespace.openRouterClient = OpenRouterClient.fromSettings(compatibleSdk);
+    return;
+  }
+
   const apiKey = readConfiguredApiKey();
   if (!apiKey) {
     namespace.openRouterSdk = null;
@@ -0,0 +1,430 @@
+import { CONSTANTS } from "../constants";
+import { getCachedOpenRouterModelChoiceCatalog } from "./model-catalog";
+import type { ChatProviderId } from "./providers";
+
+export const AI_USAGE_FLOWS = [
+  "workbench",
+  "remix",
+  "map-boxtext",
+  "image",
+  "rules",
+  "encounter",
+  "format",
+  "other",
+] as const;
+export type AIUsageFlow = (typeof AI_USAGE_FLOWS)[number];
+
+export const AI_USAGE_FLOW_LABELS: Record<AIUsageFlow, string> = {
+  workbench: "Prompt Workbench",
+  remix: "Remix",
+  "map-boxtext": "Map Boxtext",
+  image: "Images",
+  rules: "Rule Elements",
+  encounter: "Encounter Builder",
+  format: "Description Formatting",
+  other: "Other",
+};
+
+export const USAGE_LEDGER_FLAG_KEY = "usageLedger" as const;
+export const USAGE_ARCHIVE_FLAG_KEY = "usageArchive" as const;
+export const USAGE_LEDGER_LIMIT = 2000;
+const USAGE_LEDGER_FLUSH_DELAY_MS = 2000;
+
+export interface UsageLedgerEntry {
+  timestamp: number;
+  provider: ChatProviderId;
+  model: string;
+  schemaName: string;
+  flow: AIUsageFlow;
+  method: "structured" | "tool" | "image";
+  success: boolean;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Cost reported by the provider when available, otherwise estimated from catalog pricing; null when unknown. */
+  costUsd: number | null;
+}
+
+export interface UsageLedgerRecordInput {
+  provider: ChatProviderId;
+  model: string;
+  schemaName: string;
+  flow?: AIUsageFlow;
+  method: UsageLedgerEntry["method"];
+  success: boolean;
+  durationMs: number;
+  startedAt: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  reportedCostUsd?: number;
+}
+
+/**
+ * Spend from entries trimmed off the ledger, kept so budget windows longer than the ledger still see it. Daily buckets
+ * cover the daily, weekly, monthly and "never" windows, which all start at midnight; the session window can start at
+ * any time, so trimmed spend since the session started is kept as its own total.
+ */
+export interface UsageArchive {
+  /** Cost per local day (YYYY-MM-DD) and flow. */
+  days: Record<string, Partial<Record<AIUsageFlow, number>>>;
+  /** Timestamp of the newest trimmed entry. */
+  trimmedThrough: number;
+  sessionStart: number;
+  sessionUsd: number;
+}
+
+export type UsageAggregateKey = "day" | "flow" | "model";
+
+export interface UsageAggregateRow {
+  key: string;
+  label: string;
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  durationMs: number;
+  costUsd: number;
+  /** True when at least one call in the row had no price, so costUsd understates the real spend. */
+  costIncomplete: boolean;
+}
+
+const pendingEntries: UsageLedgerEntry[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushInFlight = false;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+const toCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+
+export function isAIUsageFlow(value: unknown): value is AIUsageFlow {
+  return typeof value === "string" && (AI_USAGE_FLOWS as readonly string[]).includes(value);
+}
+
+export function estimateUsageCost(model: string, inputTokens: number, outputTokens: number): number | null {
+  const pricing = getCachedOpenRouterModelChoiceCatalog()?.capabilitiesById[model]?.pricing;
+  if (!pricing) {
+    return null;
+  }
+
+  return pricing.request + inputTokens * pricing.prompt + outputTokens * pricing.completion;
+}
+
+function normalizeStoredEntry(value: unknown): UsageLedgerEntry | null {
+  if (!isRecord(value) || typeof value.timestamp !== "number" || typeof value.model !== "string") {
+    return null;
+  }
+
+  return {
+    timestamp: value.timestamp,
+    provider: value.provider === "openai-compatible" ? "openai-compatible" : "openrouter",
+    model: value.model,
+    schemaName: typeof value.schemaName === "string" ? value.schemaName : "",
+    flow: isAIUsageFlow(value.flow) ? value.flow : "other",
+    method: value.method === "tool" || value.method === "image" ? value.method : "structured",
+    success: value.success !== false,
+    durationMs: toCount(value.durationMs),
+    inputTokens: toCount(value.inputTokens),
+    outputTokens: toCount(value.outputTokens),
+    totalTokens: toCount(value.totalTokens),
+    costUsd: typeof value.costUsd === "number" && Number.isFinite(value.costUsd) ? value.costUsd : null,
+  };
+}
+
+export function readUsageLedger(user: User | null | undefined = game.user): UsageLedgerEntry[] {
+  if (!user) {
+    return [];
+  }
+
+  try {
+    const stored = user.getFlag(CONSTANTS.MODULE_ID, USAGE_LEDGER_FLAG_KEY);
+    const entries = Array.isArray(stored) ? stored : [];
+    return entries
+      .map((entry) => normalizeStoredEntry(entry))
+      .filter((entry): entry is UsageLedgerEntry => Boolean(entry));
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to read usage ledger for ${user.name}`, error);
+    return [];
+  }
+}
+
+function createUsageArchive(): UsageArchive {
+  return { days: {}, trimmedThrough: 0, sessionStart: 0, sessionUsd: 0 };
+}
+
+function toFiniteNumber(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+export function readUsageArchive(user: User | null | undefined = game.user): UsageArchive {
+  const archive = createUsageArchive();
+  if (!user) {
+    return archive;
+  }
+
+  try {
+    const stored = user.getFlag(CONSTANTS.MODULE_ID, USAGE_ARCHIVE_FLAG_KEY);
+    if (!isRecord(stored)) {
+      return archive;
+    }
+
+    for (const [day, flows] of Object.entries(isRecord(stored.days) ? stored.days : {})) {
+      if (!isRecord(flows)) {
+        continue;
+      }
+      const bucket: Partial<Record<AIUsageFlow, number>> = {};
+      for (const flow of AI_USAGE_FLOWS) {
+        const cost = toFiniteNumber(flows[flow]);
+        if (cost > 0) {
+          bucket[flow] = cost;
+        }
+      }
+      archive.days[day] = bucket;
+    }
+    archive.trimmedThrough = toFiniteNumber(stored.trimmedThrough);
+    archive.sessionStart = toFiniteNumber(stored.sessionStart);
+    archive.sessionUsd = toFiniteNumber(stored.sessionUsd);
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to read usage archive for ${user.name}`, error);
+  }
+
+  return archive;
+}
+
+function archiveTrimmedEntries(archive: UsageArchive, trimmed: readonly UsageLedgerEntry[]): UsageArchive {
+  const sessionStart = readSessionStart();
+  const next: UsageArchive = {
+    days: { ...archive.days },
+    trimmedThrough: archive.trimmedThrough,
+    sessionStart,
+    sessionUsd: archive.sessionStart === sessionStart ? archive.sessionUsd : 0,
+  };
+
+  for (const entry of trimmed) {
+    const cost = entry.costUsd ?? 0;
+    const day = toDayKey(entry.timestamp);
+    const bucket = { ...next.days[day] };
+    bucket[entry.flow] = (bucket[entry.flow] ?? 0) + cost;
+    next.days[day] = bucket;
+    next.trimmedThrough = Math.max(next.trimmedThrough, entry.timestamp);
+    if (entry.timestamp >= sessionStart) {
+      next.sessionUsd += cost;
+    }
+  }
+
+  return next;
+}
+
+/** Archived spend inside a budget window that starts at `since`, optionally for one flow. */
+export function sumArchivedUsage(archive: UsageArchive, since: number, flow?: AIUsageFlow): number {
+  if (archive.trimmedThrough < since) {
+    return 0;
+  }
+
+  if (!flow && since === archive.sessionStart) {
+    return archive.sessionUsd;
+  }
+
+  let total = 0;
+  for (const [day, flows] of Object.entries(archive.days)) {
+    if (fromDayKey(day) < since) {
+      continue;
+    }
+    total += flow
+      ? flows[flow] ?? 0
+      : Object.values(flows).reduce((sum, cost) => sum + (cost ?? 0), 0);
+  }
+  return total;
+}
+
+/** Entries recorded by this client that have not been written to the user flag yet. */
+export function readPendingUsageEntries(): UsageLedgerEntry[] {
+  return [...pendingEntries];
+}
+
+function scheduleUsageLedgerFlush(): void {
+  if (flushTimer === null) {
+    flushTimer = setTimeout(() => {
+      void flushUsageLedger();
+    }, USAGE_LEDGER_FLUSH_DELAY_MS);
+  }
+}
+
+async function flushUsageLedger(): Promise<void> {
+  flushTimer = null;
+  const user = game.user;
+  if (!user || !pendingEntries.length || flushInFlight) {
+    return;
+  }
+
+  // The batch stays pending until both writes land, so budget checks keep counting it and a failed write keeps it.
+  const batch = [...pendingEntries];
+  flushInFlight = true;
+  try {
+    const combined = [...readUsageLedger(user), ...batch];
+    const trimmed = combined.slice(0, Math.max(combined.length - USAGE_LEDGER_LIMIT, 0));
+    if (trimmed.length) {
+      // Archive first: if the ledger write then fails, the spend is counted twice rather than lost.
+      await user.setFlag(
+        CONSTANTS.MODULE_ID,
+        USAGE_ARCHIVE_FLAG_KEY,
+        archiveTrimmedEntries(readUsageArchive(user), trimmed),
+      );
+    }
+    await user.setFlag(CONSTANTS.MODULE_ID, USAGE_LEDGER_FLAG_KEY, combined.slice(-USAGE_LEDGER_LIMIT));
+
+    const flushed = new Set(batch);
+    const remaining = pendingEntries.filter((entry) => !flushed.has(entry));
+    pendingEntries.splice(0, pendingEntries.length, ...remaining);
+    if (remaining.length) {
+      scheduleUsageLedgerFlush();
+    }
+  } catch (error) {
+    console.warn(
+      `${CONSTANTS.MODULE_NAME} | Failed to persist usage ledger; it will be retried with the next request`,
+      error,
+    );
+  } finally {
+    flushInFlight = false;
+  }
+}
+
+/**
+ * Queues one AI call for the current user's ledger. Writes are batched so a burst of generation requests
+ * (batch queue, remix repairs) becomes a single User update.
+ */
+export function recordAIUsage(input: UsageLedgerRecordInput): void {
+  const inputTokens = toCount(input.inputTokens);
+  const outputTokens = toCount(input.outputTokens);
+  const reportedCost = typeof input.reportedCostUsd === "number" && Number.isFinite(input.reportedCostUsd)
+    ? input.reportedCostUsd
+    : null;
+
+  pendingEntries.push({
+    timestamp: input.startedAt,
+    provider: input.provider,
+    model: input.model,
+    schemaName: input.schemaName,
+    flow: input.flow ?? "other",
+    method: input.method,
+    success: input.success,
+    durationMs: toCount(input.durationMs),
+    inputTokens,
+    outputTokens,
+    totalTokens: toCount(input.totalTokens) || inputTokens + outputTokens,
+    costUsd: reportedCost ?? (input.provider === "openai-compatible"
+      ? 0
+      : estimateUsageCost(input.model, inputTokens, outputTokens)),
+  });
+
+  scheduleUsageLedgerFlush();
+}
+
+export async function clearUsageLedger(user: User): Promise<void> {
+  if (user.isSelf) {
+    pendingEntries.length = 0;
+  }
+  await user.unsetFlag(CONSTANTS.MODULE_ID, USAGE_LEDGER_FLAG_KEY);
+  await user.unsetFlag(CONSTANTS.MODULE_ID, USAGE_ARCHIVE_FLAG_KEY);
+}
+
+function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function fromDayKey(key: string): number {
+  const [year, month, day] = key.split("-").map((part) => Number(part));
+  return new Date(year, (month ?? 1) - 1, day ?? 1).getTime();
+}
+
+/** The GM starts a session from the budget menu; until then the session is everything since midnight. */
+export function readSessionStart(): number {
+  let stored: unknown;
+  try {
+    stored = game.settings?.get(CONSTANTS.MODULE_ID as never, "AIBudgetSessionStartedAt" as never);
+  } catch {
+    stored = undefined;
+  }
+  if (typeof stored === "number" && Number.isFinite(stored) && stored > 0) {
+    return stored;
+  }
+
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
+function resolveAggregateKey(entry: UsageLedgerEntry, key: UsageAggregateKey): { key: string; label: string } {
+  switch (key) {
+    case "day": {
+      const day = toDayKey(entry.timestamp);
+      return { key: day, label: day };
+    }
+    case "flow":
+      return { key: entry.flow, label: AI_USAGE_FLOW_LABELS[entry.flow] };
+    case "model":
+      return { key: entry.model, label: entry.model };
+    default:
+      return key satisfies never;
+  }
+}
+
+function createAggregateRow(key: string, label: string): UsageAggregateRow {
+  return {
+    key,
+    label,
+    calls: 0,
+    failures: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    durationMs: 0,
+    costUsd: 0,
+    costIncomplete: false,
+  };
+}
+
+function addEntryToRow(row: UsageAggregateRow, entry: UsageLedgerEntry): void {
+  row.calls += 1;
+  row.failures += entry.success ? 0 : 1;
+  row.inputTokens += entry.inputTokens;
+  row.outputTokens += entry.outputTokens;
+  row.totalTokens += entry.totalTokens;
+  row.durationMs += entry.durationMs;
+  if (entry.costUsd === null) {
+    row.costIncomplete = true;
+  } else {
+    row.costUsd += entry.costUsd;
+  }
+}
+
+export function summarizeUsage(entries: readonly UsageLedgerEntry[]): UsageAggregateRow {
+  const row = createAggregateRow("total", "Total");
+  for (const entry of entries) {
+    addEntryToRow(row, entry);
+  }
+  return row;
+}
+
+export function aggregateUsage(entries: readonly UsageLedgerEntry[], key: UsageAggregateKey): UsageAggregateRow[] {
+  const rows = new Map<string, UsageAggregateRow>();
+  for (const entry of entries) {
+    const group = resolveAggregateKey(entry, key);
+    const row = rows.get(group.key) ?? createAggregateRow(group.key, group.label);
+    addEntryToRow(row, entry);
+    rows.set(group.key, row);
+  }
+
+  const sorted = [...rows.values()];
+  if (key === "day") {
+    return sorted.sort((left, right) => right.key.localeCompare(left.key));
+  }
+  return sorted.sort((left, right) => right.costUsd - left.costUsd || right.totalTokens - left.totalTokens);
+}
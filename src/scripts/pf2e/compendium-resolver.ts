@@ -12,6 +12,13 @@ export interface OfficialItemLookup {
   itemType?: string | null;
 }
 
+export interface OfficialActorLookup {
+  name?: string | null;
+  slug?: string | null;
+  level?: number | null;
+  actorType?: string | null;
+}
+
 export interface OfficialItemMatch {
   packId: string;
   documentId: string;
@@ -28,10 +35,24 @@ interface PackIndexEntry {
   system?: {
     slug?: string | null;
     level?: { value?: number } | number;
+    details?: {
+      level?: { value?: number };
+    };
   };
 }
 
 const INDEX_FIELDS = ["name", "type", "slug", "system.slug", "system.level.value"] as const;
+const ACTOR_INDEX_FIELDS = ["name", "type", "system.slug", "system.details.level.value"] as const;
+
+const ACTOR_PACK_PRIORITY = [
+  "pf2e.pathfinder-monster-core",
+  "pf2e.pathfinder-monster-core-2",
+  "pf2e.pathfinder-bestiary",
+  "pf2e.pathfinder-bestiary-2",
+  "pf2e.pathfinder-bestiary-3",
+  "pf2e.npc-gallery",
+  "pf2e.pathfinder-npc-core",
+];
 
 const PACK_PRIORITY: Record<OfficialItemKind, string[]> = {
   spell: ["pf2e.spells-srd", "pf2e.spells"],
@@ -79,6 +100,11 @@ function toNumber(value: unknown): number | null {
 }
 
 function getEntryLevel(entry: PackIndexEntry): number | null {
+  const detailsLevel = entry.system?.details?.level?.value;
+  if (detailsLevel !== undefined) {
+    return toNumber(detailsLevel);
+  }
+
   const systemLevel = entry.system?.level;
   if (typeof systemLevel === "number") {
     return toNumber(systemLevel);
@@ -158,22 +184,26 @@ function getPackCollection(pack: AnyCompendium): string {
 }
 
 function isItemPack(pack: AnyCompendium): boolean {
+  return isPackOfType(pack, "Item");
+}
+
+function isPackOfType(pack: AnyCompendium, documentName: "Actor" | "Item"): boolean {
   const candidate = pack as {
     documentName?: unknown;
     metadata?: { type?: unknown; entity?: unknown };
   };
 
   if (typeof candidate.documentName === "string") {
-    return candidate.documentName === "Item";
+    return candidate.documentName === documentName;
   }
 
   const type = candidate.metadata?.type;
   if (typeof type === "string") {
-    return type === "Item";
+    return type === documentName;
   }
 
   const entity = candidate.metadata?.entity;
-  return typeof entity === "string" ? entity === "Item" : true;
+  return typeof entity === "string" ? entity === documentName : true;
 }
 
 function getPf2eItemPacks(): AnyCompendium[] {
@@ -221,9 +251,25 @@ function getPrioritizedPacks(kind: OfficialItemKind): AnyCompendium[] {
   return ordered;
 }
 
-async function getPackIndex(pack: AnyCompendium): Promise<PackIndexEntry[]> {
+function getPf2eActorPacks(): AnyCompendium[] {
+  const packs = getAllPacks()
+    .filter((pack) => isPackOfType(pack, "Actor"))
+    .filter((pack) => getPackCollection(pack).startsWith("pf2e."));
+
+  const rank = (pack: AnyCompendium): number => {
+    const index = ACTOR_PACK_PRIORITY.indexOf(getPackCollection(pack));
+    return index === -1 ? ACTOR_PACK_PRIORITY.length : index;
+  };
+
+  return packs.sort((left, right) => rank(left) - rank(right));
+}
+
+async function getPackIndex(
+  pack: AnyCompendium,
+  fields: readonly string[] = INDEX_FIELDS,
+): Promise<PackIndexEntry[]> {
   if (typeof pack.getIndex === "function") {
-    const index = await pack.getIndex({ fields: [...INDEX_FIELDS] as any });
+    const index = await pack.getIndex({ fields: [...fields] as any });
     return extractIndexEntries(index);
   }
 
@@ -335,8 +381,12 @@ function matchByName(
   return fallback;
 }
 
-function buildCompendiumUuid(packCollection: string, documentId: string): string {
-  return `Compendium.${packCollection}.Item.${documentId}`;
+function buildCompendiumUuid(
+  packCollection: string,
+  documentId: string,
+  documentName: "Actor" | "Item" = "Item",
+): string {
+  return `Compendium.${packCollection}.${documentName}.${documentId}`;
 }
 
 function clone<T>(value: T): T {
@@ -363,6 +413,7 @@ function ensureCompendiumSource(
 async function getDocumentSource(
   pack: AnyCompendium,
   entry: PackIndexEntry,
+  documentName: "Actor" | "Item" = "Item",
 ): Promise<OfficialItemMatch | null> {
   const documentId = getEntryId(entry);
   if (!documentId || typeof pack.getDocument !== "function") {
@@ -378,7 +429,7 @@ async function getDocumentSource(
   const base = rawSource && typeof rawSource === "object" ? rawSource : clone(document as unknown as Record<string, unknown>);
   const collection = getPackCollection(pack);
   const uuid = (document as { uuid?: unknown }).uuid;
-  const resolvedUuid = typeof uuid === "string" && uuid ? uuid : buildCompendiumUuid(collection, documentId);
+  const resolvedUuid = typeof uuid === "string" && uuid ? uuid : buildCompendiumUuid(collection, documentId, documentName);
 
   return {
     packId: collection,
@@ -426,6 +477,54 @@ export async function resolveOfficialItem(
   return null;
 }
 
+export async function resolveOfficialActor(
+  lookup: OfficialActorLookup,
+): Promise<OfficialItemMatch | null> {
+  const slug = lookup.slug?.trim() ?? "";
+  const name = lookup.name?.trim() ?? "";
+  const level = toNumber(lookup.level ?? null);
+  const actorType = lookup.actorType?.trim() || "npc";
+
+  if (!slug && !name) {
+    return null;
+  }
+
+  for (const pack of getPf2eActorPacks()) {
+    const index = (await getPackIndex(pack, ACTOR_INDEX_FIELDS))
+      .filter((entry) => {
+        const entryType = getEntryType(entry);
+        return !entryType || entryType === actorType;
+      });
+    if (!index.length) {
+      continue;
+    }
+
+    const normalizedSlug = normalizeKey(slug);
+    const normalizedName = normalizeKey(name);
+    const candidates = index.filter((entry) => {
+      const entrySlug = getEntrySlug(entry);
+      const entryName = getEntryName(entry);
+      return (normalizedSlug && entrySlug && normalizeKey(entrySlug) === normalizedSlug) ||
+        (normalizedName && entryName && normalizeKey(entryName) === normalizedName);
+    });
+    if (!candidates.length) {
+      continue;
+    }
+
+    // A creature at another level would not cost what was planned, so only an exact level match is accepted.
+    const entry = level === null ? candidates[0] : candidates.find((candidate) => getEntryLevel(candidate) === level);
+    if (!entry) {
+      continue;
+    }
+    const resolved = await getDocumentSource(pack, entry, "Actor");
+    if (resolved) {
+      return resolved;
+    }
+  }
+
+  return null;
+}
+
 export function stripEmbeddedDocumentMetadata(
   source: Record<string, unknown>,
 ): Record<string, unknown> {
@@ -0,0 +1,266 @@
+// Gamemastery Guide "Building Creatures" tables, indexed by creature level -1 to 24.
+
+export const BENCHMARK_TIERS = ["extreme", "high", "moderate", "low", "terrible"] as const;
+
+export type BenchmarkTier = (typeof BENCHMARK_TIERS)[number];
+
+export type BenchmarkStat =
+  | "perception"
+  | "ac"
+  | "save"
+  | "hp"
+  | "strikeBonus"
+  | "strikeDamage"
+  | "spellDc"
+  | "skill";
+
+export interface BenchmarkRange {
+  min: number;
+  max: number;
+}
+
+/** Tiers a stat does not use (e.g. terrible AC, extreme HP) are left out. */
+export type BenchmarkRow = Partial<Record<BenchmarkTier, BenchmarkRange>>;
+
+export const MIN_BENCHMARK_LEVEL = -1;
+export const MAX_BENCHMARK_LEVEL = 24;
+
+type TierValues = readonly (number | readonly [number, number] | null)[];
+
+// Columns follow BENCHMARK_TIERS; null marks a tier the table does not define. Pairs are [low end, high end].
+const PERCEPTION_AND_SAVES: readonly TierValues[] = [
+  [9, 8, 5, 2, 0],
+  [10, 9, 6, 3, 1],
+  [11, 10, 7, 4, 2],
+  [12, 11, 8, 5, 3],
+  [14, 12, 9, 6, 4],
+  [15, 14, 11, 8, 6],
+  [17, 15, 12, 9, 7],
+  [18, 17, 14, 11, 8],
+  [20, 18, 15, 12, 10],
+  [21, 19, 16, 13, 11],
+  [23, 21, 18, 15, 12],
+  [24, 22, 19, 16, 14],
+  [26, 24, 21, 18, 15],
+  [27, 25, 22, 19, 16],
+  [29, 26, 23, 20, 18],
+  [30, 28, 25, 22, 19],
+  [32, 29, 26, 23, 20],
+  [33, 30, 28, 25, 22],
+  [35, 32, 29, 26, 23],
+  [36, 33, 30, 27, 24],
+  [38, 35, 32, 29, 26],
+  [39, 36, 33, 30, 27],
+  [41, 38, 35, 32, 28],
+  [43, 39, 36, 33, 30],
+  [44, 40, 37, 34, 31],
+  [46, 42, 38, 36, 32],
+];
+
+const ARMOR_CLASS: readonly TierValues[] = [
+  [18, 15, 14, 12, null],
+  [19, 16, 15, 13, null],
+  [19, 16, 15, 13, null],
+  [21, 18, 17, 15, null],
+  [22, 19, 18, 16, null],
+  [24, 21, 20, 18, null],
+  [25, 22, 21, 19, null],
+  [27, 24, 23, 21, null],
+  [28, 25, 24, 22, null],
+  [30, 27, 26, 24, null],
+  [31, 28, 27, 25, null],
+  [33, 30, 29, 27, null],
+  [34, 31, 30, 28, null],
+  [36, 33, 32, 30, null],
+  [37, 34, 33, 31, null],
+  [39, 36, 35, 33, null],
+  [40, 37, 36, 34, null],
+  [42, 39, 38, 36, null],
+  [43, 40, 39, 37, null],
+  [45, 42, 41, 39, null],
+  [46, 43, 42, 40, null],
+  [48, 45, 44, 42, null],
+  [49, 46, 45, 43, null],
+  [51, 48, 47, 45, null],
+  [52, 49, 48, 46, null],
+  [54, 51, 50, 48, null],
+];
+
+const HIT_POINTS: readonly TierValues[] = [
+  [null, [9, 9], [7, 8], [5, 6], null],
+  [null, [17, 20], [14, 16], [11, 13], null],
+  [null, [24, 26], [19, 21], [14, 16], null],
+  [null, [36, 40], [28, 32], [21, 25], null],
+  [null, [53, 59], [42, 48], [31, 37], null],
+  [null, [72, 78], [57, 63], [42, 48], null],
+  [null, [91, 97], [72, 78], [53, 59], null],
+  [null, [115, 123], [91, 99], [67, 75], null],
+  [null, [140, 148], [111, 119], [82, 90], null],
+  [null, [165, 173], [131, 139], [97, 105], null],
+  [null, [190, 198], [151, 159], [112, 120], null],
+  [null, [215, 223], [171, 179], [127, 135], null],
+  [null, [240, 248], [191, 199], [142, 150], null],
+  [null, [265, 273], [211, 219], [157, 165], null],
+  [null, [290, 298], [231, 239], [172, 180], null],
+  [null, [315, 323], [251, 259], [187, 195], null],
+  [null, [340, 348], [271, 279], [202, 210], null],
+  [null, [365, 373], [291, 299], [217, 225], null],
+  [null, [390, 398], [311, 319], [232, 240], null],
+  [null, [415, 423], [331, 339], [247, 255], null],
+  [null, [440, 448], [351, 359], [262, 270], null],
+  [null, [465, 473], [371, 379], [277, 285], null],
+  [null, [495, 505], [395, 405], [295, 305], null],
+  [null, [532, 544], [424, 436], [317, 329], null],
+  [null, [569, 581], [454, 466], [339, 351], null],
+  [null, [617, 633], [492, 508], [367, 383], null],
+];
+
+const STRIKE_ATTACK_BONUS: readonly TierValues[] = [
+  [10, 8, 6, 4, null],
+  [10, 8, 6, 4, null],
+  [11, 9, 7, 5, null],
+  [13, 11, 9, 7, null],
+  [14, 12, 10, 8, null],
+  [16, 14, 12, 9, null],
+  [17, 15, 13, 11, null],
+  [19, 17, 15, 12, null],
+  [20, 18, 16, 13, null],
+  [22, 20, 18, 15, null],
+  [23, 21, 19, 16, null],
+  [25, 23, 21, 17, null],
+  [27, 24, 22, 19, null],
+  [28, 26, 24, 20, null],
+  [29, 27, 25, 21, null],
+  [31, 29, 27, 23, null],
+  [32, 30, 28, 24, null],
+  [34, 32, 30, 25, null],
+  [35, 33, 31, 27, null],
+  [37, 35, 33, 28, null],
+  [38, 36, 34, 29, null],
+  [40, 38, 36, 31, null],
+  [41, 39, 37, 32, null],
+  [43, 41, 39, 33, null],
+  [44, 42, 40, 35, null],
+  [46, 44, 42, 36, null],
+];
+
+// Average damage per Strike.
+const STRIKE_DAMAGE: readonly TierValues[] = [
+  [4, 3, 3, 2, null],
+  [6, 5, 4, 3, null],
+  [8, 6, 5, 4, null],
+  [11, 9, 8, 6, null],
+  [15, 12, 10, 8, null],
+  [18, 14, 12, 9, null],
+  [20, 16, 13, 11, null],
+  [23, 18, 15, 12, null],
+  [25, 20, 17, 13, null],
+  [28, 22, 18, 15, null],
+  [30, 24, 20, 16, null],
+  [33, 26, 22, 17, null],
+  [35, 28, 23, 19, null],
+  [38, 30, 25, 20, null],
+  [40, 32, 27, 21, null],
+  [43, 34, 28, 23, null],
+  [45, 36, 30, 24, null],
+  [48, 37, 31, 25, null],
+  [50, 38, 32, 26, null],
+  [53, 40, 33, 27, null],
+  [55, 42, 35, 28, null],
+  [58, 44, 37, 29, null],
+  [60, 46, 38, 31, null],
+  [63, 48, 40, 32, null],
+  [65, 50, 42, 33, null],
+  [68, 52, 44, 35, null],
+];
+
+// Spell attack modifiers are the DC minus 8.
+const SPELL_DC: readonly TierValues[] = [
+  [19, 16, 13, null, null],
+  [19, 16, 13, null, null],
+  [20, 17, 14, null, null],
+  [22, 18, 15, null, null],
+  [23, 20, 17, null, null],
+  [25, 21, 18, null, null],
+  [26, 22, 19, null, null],
+  [27, 24, 21, null, null],
+  [29, 25, 22, null, null],
+  [30, 26, 23, null, null],
+  [32, 28, 25, null, null],
+  [33, 29, 26, null, null],
+  [34, 30, 27, null, null],
+  [36, 32, 29, null, null],
+  [37, 33, 30, null, null],
+  [39, 34, 31, null, null],
+  [40, 36, 33, null, null],
+  [41, 37, 34, null, null],
+  [43, 38, 35, null, null],
+  [44, 40, 37, null, null],
+  [46, 41, 38, null, null],
+  [47, 42, 39, null, null],
+  [48, 44, 41, null, null],
+  [50, 45, 42, null, null],
+  [51, 46, 43, null, null],
+  [52, 48, 45, null, null],
+];
+
+// The table gives low skills as a range; its bottom end is listed here as terrible.
+const SKILLS: readonly TierValues[] = [
+  [8, 5, 4, 2, 1],
+  [9, 6, 5, 3, 2],
+  [10, 7, 6, 4, 3],
+  [11, 8, 7, 5, 4],
+  [13, 10, 9, 7, 5],
+  [15, 12, 10, 8, 7],
+  [16, 13, 12, 10, 8],
+  [18, 15, 13, 11, 9],
+  [20, 17, 15, 13, 11],
+  [21, 18, 16, 14, 12],
+  [23, 20, 18, 16, 13],
+  [25, 22, 19, 17, 15],
+  [26, 23, 21, 19, 16],
+  [28, 25, 22, 20, 17],
+  [30, 27, 24, 22, 19],
+  [31, 28, 25, 23, 20],
+  [33, 30, 27, 25, 21],
+  [35, 32, 28, 26, 23],
+  [36, 33, 30, 28, 24],
+  [38, 35, 31, 29, 25],
+  [40, 37, 33, 31, 27],
+  [41, 38, 34, 32, 28],
+  [43, 40, 36, 34, 29],
+  [45, 42, 37, 35, 31],
+  [46, 43, 39, 37, 32],
+  [48, 45, 40, 38, 33],
+];
+
+const TABLES: Record<BenchmarkStat, readonly TierValues[]> = {
+  perception: PERCEPTION_AND_SAVES,
+  ac: ARMOR_CLASS,
+  save: PERCEPTION_AND_SAVES,
+  hp: HIT_POINTS,
+  strikeBonus: STRIKE_ATTACK_BONUS,
+  strikeDamage: STRIKE_DAMAGE,
+  spellDc: SPELL_DC,
+  skill: SKILLS,
+};
+
+export function clampBenchmarkLevel(level: number): number {
+  const normalized = Number.isFinite(level) ? Math.trunc(level) : 0;
+  return Math.min(MAX_BENCHMARK_LEVEL, Math.max(MIN_BENCHMARK_LEVEL, normalized));
+}
+
+/** Benchmarks for one statistic at a creature level; levels outside -1 to 24 use the nearest row. */
+export function getCreatureBenchmark(stat: BenchmarkStat, level: number): BenchmarkRow {
+  const values = TABLES[stat][clampBenchmarkLevel(level) - MIN_BENCHMARK_LEVEL];
+  const row: BenchmarkRow = {};
+  BENCHMARK_TIERS.forEach((tier, index) => {
+    const value = values[index];
+    if (typeof value === "number") {
+      row[tier] = { min: value, max: value };
+    } else if (value) {
+      row[tier] = { min: value[0], max: value[1] };
+    }
+  });
+  return row;
+}
@@ -0,0 +1,186 @@
+export const ENCOUNTER_THREATS = ["trivial", "low", "moderate", "severe", "extreme"] as const;
+export type EncounterThreat = (typeof ENCOUNTER_THREATS)[number];
+
+export const ENCOUNTER_COMPOSITIONS = ["balanced", "boss", "solo", "horde"] as const;
+export type EncounterComposition = (typeof ENCOUNTER_COMPOSITIONS)[number];
+
+export type EncounterCreatureRole = "boss" | "elite" | "standard" | "lackey";
+
+export interface EncounterBudget {
+  threat: EncounterThreat;
+  partyLevel: number;
+  partySize: number;
+  xpBudget: number;
+}
+
+export interface EncounterSlot {
+  level: number;
+  levelOffset: number;
+  count: number;
+  xpEach: number;
+  role: EncounterCreatureRole;
+}
+
+export interface EncounterMixPlan {
+  budget: EncounterBudget;
+  slots: EncounterSlot[];
+  totalXp: number;
+}
+
+// GMG / Player Core "Encounter Budget" table: base budget for four PCs and the adjustment per PC.
+const THREAT_BUDGETS: Record<EncounterThreat, { base: number; perCharacter: number }> = {
+  trivial: { base: 40, perCharacter: 10 },
+  low: { base: 60, perCharacter: 15 },
+  moderate: { base: 80, perCharacter: 20 },
+  severe: { base: 120, perCharacter: 30 },
+  extreme: { base: 160, perCharacter: 40 },
+};
+
+// "Creature XP and Role" table, keyed by creature level minus party level.
+const CREATURE_XP_BY_OFFSET: Record<number, number> = {
+  [-4]: 10,
+  [-3]: 15,
+  [-2]: 20,
+  [-1]: 30,
+  0: 40,
+  1: 60,
+  2: 80,
+  3: 120,
+  4: 160,
+};
+
+const MIN_LEVEL_OFFSET = -4;
+const MAX_LEVEL_OFFSET = 4;
+const MIN_CREATURE_LEVEL = -1;
+const MAX_CREATURE_LEVEL = 25;
+const MAX_ENCOUNTER_CREATURES = 12;
+
+// Preferred level offsets per composition, tried in order before leftover XP is filled with lackeys.
+const COMPOSITION_OFFSETS: Record<Exclude<EncounterComposition, "boss">, number[]> = {
+  balanced: [0, 0, -1, -1],
+  solo: [4, 3, 2, 1, 0],
+  horde: [-2, -2, -3, -3, -3, -3],
+};
+
+// A boss should leave roughly a quarter of the budget for its lackeys.
+const BOSS_BUDGET_SHARE = 0.75;
+
+export function getCreatureXp(levelOffset: number): number | null {
+  if (!Number.isInteger(levelOffset) || levelOffset < MIN_LEVEL_OFFSET) {
+    return null;
+  }
+
+  return CREATURE_XP_BY_OFFSET[Math.min(levelOffset, MAX_LEVEL_OFFSET)] ?? null;
+}
+
+export function computeEncounterBudget(
+  threat: EncounterThreat,
+  partyLevel: number,
+  partySize: number,
+): EncounterBudget {
+  const size = Math.max(1, Math.trunc(partySize));
+  const level = Math.max(1, Math.min(20, Math.trunc(partyLevel)));
+  const { base, perCharacter } = THREAT_BUDGETS[threat];
+  return {
+    threat,
+    partyLevel: level,
+    partySize: size,
+    xpBudget: Math.max(perCharacter, base + (size - 4) * perCharacter),
+  };
+}
+
+export function planEncounterMix(
+  budget: EncounterBudget,
+  composition: EncounterComposition = "balanced",
+): EncounterMixPlan {
+  const offsets: number[] = [];
+  let remaining = budget.xpBudget;
+
+  const tryAdd = (offset: number): boolean => {
+    const resolved = resolveOffset(budget.partyLevel, offset);
+    const xp = getCreatureXp(resolved);
+    if (xp === null || xp > remaining || offsets.length >= MAX_ENCOUNTER_CREATURES) {
+      return false;
+    }
+
+    offsets.push(resolved);
+    remaining -= xp;
+    return true;
+  };
+
+  if (composition === "solo") {
+    // A solo creature takes the single biggest offset the budget affords.
+    COMPOSITION_OFFSETS.solo.some((offset) => tryAdd(offset));
+  } else if (composition === "boss") {
+    const bossBudget = budget.xpBudget * BOSS_BUDGET_SHARE;
+    for (let offset = MAX_LEVEL_OFFSET; offset >= -1; offset -= 1) {
+      const xp = getCreatureXp(resolveOffset(budget.partyLevel, offset));
+      if (xp !== null && xp <= bossBudget && tryAdd(offset)) {
+        break;
+      }
+    }
+  } else {
+    for (const offset of COMPOSITION_OFFSETS[composition]) {
+      tryAdd(offset);
+    }
+  }
+
+  // Spend whatever is left on the strongest creatures that still fit, never below -4.
+  // Solo encounters deliberately leave leftover XP unspent.
+  const fillStart = composition === "balanced" ? 0 : -2;
+  for (let offset = fillStart; composition !== "solo" && offset >= MIN_LEVEL_OFFSET && remaining > 0;) {
+    if (!tryAdd(offset)) {
+      offset -= 1;
+    }
+  }
+
+  if (offsets.length === 0) {
+    tryAdd(MIN_LEVEL_OFFSET);
+  }
+
+  const slots = groupSlots(budget.partyLevel, offsets);
+  const totalXp = slots.reduce((sum, slot) => sum + slot.xpEach * slot.count, 0);
+  return { budget, slots, totalXp };
+}
+
+function resolveOffset(partyLevel: number, offset: number): number {
+  const level = Math.max(MIN_CREATURE_LEVEL, Math.min(MAX_CREATURE_LEVEL, partyLevel + offset));
+  return level - partyLevel;
+}
+
+function groupSlots(partyLevel: number, offsets: readonly number[]): EncounterSlot[] {
+  const counts = new Map<number, number>();
+  for (const offset of offsets) {
+    counts.set(offset, (counts.get(offset) ?? 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .sort(([left], [right]) => right - left)
+    .map(([levelOffset, count]) => ({
+      level: partyLevel + levelOffset,
+      levelOffset,
+      count,
+      xpEach: getCreatureXp(levelOffset) ?? 0,
+      role: resolveRole(levelOffset, offsets.length),
+    }));
+}
+
+function resolveRole(levelOffset: number, creatureCount: number): EncounterCreatureRole {
+  if (levelOffset >= 2 || (creatureCount === 1 && levelOffset >= 0)) {
+    return "boss";
+  }
+  if (levelOffset === 1) {
+    return "elite";
+  }
+  return levelOffset >= -1 ? "standard" : "lackey";
+}
+
+export function describeEncounterThreat(xp: number, budget: EncounterBudget): EncounterThreat {
+  let resolved: EncounterThreat = "trivial";
+  for (const threat of ENCOUNTER_THREATS) {
+    if (xp >= computeEncounterBudget(threat, budget.partyLevel, budget.partySize).xpBudget) {
+      resolved = threat;
+    }
+  }
+  return resolved;
+}
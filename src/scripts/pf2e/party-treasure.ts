@@ -0,0 +1,87 @@
+// Core Rulebook / GM Core "Party Treasure by Level" table: treasure awarded while a party of four is at each level.
+
+export interface PartyTreasureRow {
+  level: number;
+  /** Total value in gp of everything awarded during the level: permanent items, consumables and currency. */
+  totalValue: number;
+  /** Currency in gp to add for each character beyond four, or remove for each one short of four. */
+  currencyPerAdditionalPc: number;
+}
+
+export type TreasureStatus = "under" | "on-track" | "over";
+
+export interface PartyTreasureExpectation {
+  level: number;
+  partySize: number;
+  /** Expected wealth when the party reached its level: treasure from every earlier level. */
+  min: number;
+  /** Expected wealth once the party has found all of its current level's treasure. */
+  max: number;
+}
+
+export const MIN_TREASURE_LEVEL = 1;
+export const MAX_TREASURE_LEVEL = 20;
+const BASE_PARTY_SIZE = 4;
+
+// Rows are [total value, currency per additional PC] for levels 1 to 20.
+const PARTY_TREASURE_BY_LEVEL: readonly (readonly [number, number])[] = [
+  [175, 10],
+  [300, 18],
+  [500, 30],
+  [850, 50],
+  [1350, 80],
+  [2000, 125],
+  [2900, 180],
+  [4000, 250],
+  [5700, 350],
+  [8000, 500],
+  [11500, 700],
+  [16500, 1000],
+  [25000, 1500],
+  [36500, 2250],
+  [54500, 3250],
+  [82500, 5000],
+  [128000, 7500],
+  [208000, 12000],
+  [355000, 20000],
+  [490000, 35000],
+];
+
+function clampTreasureLevel(level: number): number {
+  const normalized = Number.isFinite(level) ? Math.trunc(level) : MIN_TREASURE_LEVEL;
+  return Math.min(Math.max(normalized, MIN_TREASURE_LEVEL), MAX_TREASURE_LEVEL);
+}
+
+export function getPartyTreasureRow(level: number): PartyTreasureRow {
+  const clamped = clampTreasureLevel(level);
+  const [totalValue, currencyPerAdditionalPc] = PARTY_TREASURE_BY_LEVEL[clamped - MIN_TREASURE_LEVEL];
+  return { level: clamped, totalValue, currencyPerAdditionalPc };
+}
+
+function getLevelTreasure(level: number, partySize: number): number {
+  const row = getPartyTreasureRow(level);
+  return Math.max(row.totalValue + (partySize - BASE_PARTY_SIZE) * row.currencyPerAdditionalPc, 0);
+}
+
+/**
+ * Expected party wealth at a level: the treasure of every earlier level, up to that plus the current level's. Parties
+ * larger or smaller than four only shift the currency column, as the table describes; spent consumables are not
+ * subtracted, so a party that uses its potions and scrolls will sit near the low end.
+ */
+export function getPartyTreasureExpectation(level: number, partySize: number): PartyTreasureExpectation {
+  const clamped = clampTreasureLevel(level);
+  const size = Math.max(Math.trunc(partySize), 1);
+  let min = 0;
+  for (let current = MIN_TREASURE_LEVEL; current < clamped; current += 1) {
+    min += getLevelTreasure(current, size);
+  }
+
+  return { level: clamped, partySize: size, min, max: min + getLevelTreasure(clamped, size) };
+}
+
+export function getTreasureStatus(wealth: number, expectation: PartyTreasureExpectation): TreasureStatus {
+  if (wealth < expectation.min) {
+    return "under";
+  }
+  return wealth > expectation.max ? "over" : "on-track";
+}
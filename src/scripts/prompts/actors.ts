@@ -13,6 +13,8 @@ import {
   type CorrectionContext,
   wrapPrompt,
 } from "./common";
+import type { HazardComplexity } from "./hazards";
+import type { ParsedStatBlock } from "../text/stat-block-parser";
 
 export interface ActorPromptInput {
   readonly systemId: SystemId;
@@ -30,6 +32,21 @@ export interface ActorPromptInput {
   readonly includeGeneratedContent?: boolean;
   readonly generateTokenImage?: boolean;
   readonly tokenPrompt?: string;
+  /** Only read for hazards, which are generated through the dedicated hazard prompt. */
+  readonly hazardComplexity?: HazardComplexity;
+  /** Fields already read from a pasted stat block; the model is asked only for what is missing. */
+  readonly statBlock?: ParsedStatBlock;
+}
+
+function buildStatBlockSection(statBlock: ParsedStatBlock): string {
+  const missing = statBlock.missing.length
+    ? `Only fill these fields from the reference text: ${statBlock.missing.join(", ")}.`
+    : "Every statistic was parsed; only add descriptive text that the reference supports.";
+  return [
+    "The reference text is a PF2E stat block. These fields were parsed from it exactly and will overwrite your output, so copy them unchanged:",
+    JSON.stringify(statBlock.fields),
+    missing,
+  ].join("\n");
 }
 
 function buildActorSchemaSection(): string {
@@ -175,6 +192,10 @@ function buildActorRequest(input: ActorPromptInput): string {
     parts.splice(1, 0, ...details);
   }
 
+  if (input.statBlock) {
+    parts.push(buildStatBlockSection(input.statBlock));
+  }
+
   if (input.actorType) {
     const actorTypeGuidance = buildActorTypeGuidance(input.actorType);
     if (actorTypeGuidance) {
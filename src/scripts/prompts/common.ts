@@ -3,6 +3,8 @@ import { SYSTEM_IDS, type PublicationData, type SystemId } from "../schemas/inde
 export interface CorrectionContext {
   readonly summary: string;
   readonly previous: Record<string, unknown>;
+  /** Dotted paths of the fields that failed validation in the previous draft. */
+  readonly errorPaths: readonly string[];
 }
 
 export interface PromptBaseInput {
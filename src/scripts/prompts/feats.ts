@@ -0,0 +1,127 @@
+import {
+  FEAT_ACTION_COSTS,
+  FEAT_CATEGORIES,
+  FEAT_FREQUENCY_PERIODS,
+  RARITIES,
+  featSchema,
+  type FeatCategory,
+  type PublicationData,
+  type SystemId,
+} from "../schemas/index";
+import {
+  renderImageInstruction,
+  renderPublicationSection,
+  type CorrectionContext,
+  wrapPrompt,
+} from "./common";
+
+export interface FeatPromptInput {
+  readonly systemId: SystemId;
+  readonly name: string;
+  readonly referenceText: string;
+  readonly slug?: string;
+  readonly level?: number;
+  readonly category?: FeatCategory;
+  readonly correction?: CorrectionContext;
+  readonly img?: string;
+  readonly generateItemImage?: boolean;
+  readonly itemImagePrompt?: string;
+  readonly publication?: PublicationData;
+}
+
+const FEAT_CATEGORY_GUIDANCE: Record<FeatCategory, string> = {
+  ancestry: "This is an ancestry feat: include the ancestry (or versatile heritage) trait and keep it at level 1, 5, 9, 13, or 17.",
+  class: "This is a class feat: include the class trait and keep it at a level the class gains class feats.",
+  general: "This is a general feat: include the general trait and avoid class- or ancestry-specific prerequisites.",
+  skill: "This is a skill feat: include the general and skill traits and require a proficiency rank in the relevant skill.",
+  archetype: "This is an archetype feat: include the archetype trait and require the archetype's dedication feat unless it is the dedication itself.",
+  classfeature: "This is a class feature granted automatically by a class: leave prerequisites empty and do not include the general trait.",
+};
+
+function buildFeatSchemaSection(): string {
+  const rarities = RARITIES.join(", ");
+  const schemaVersion = (featSchema.properties as { schema_version: { enum: readonly [number] } })
+    .schema_version.enum[0];
+  return [
+    "Feat schema overview:",
+    `- schema_version: integer literal ${schemaVersion}.`,
+    "- type: string literal \"item\"; itemType: string literal \"feat\".",
+    "- slug and name: non-empty strings.",
+    `- rarity: string enum (${rarities}).`,
+    "- level: integer 1-20.",
+    "- traits: lowercase PF2e trait slugs, including the category trait (class name, ancestry name, general, skill, archetype) and action traits such as manipulate or flourish.",
+    "- description: HTML rules text. Put Frequency, Trigger, and Requirements lines first as <p><strong>Trigger</strong> ...</p>, use <hr /> before degree-of-success blocks, @Check for checks and saves, @Damage for damage, @Template for areas, and @UUID condition links.",
+    "- feat (required object):",
+    `  - category: string enum (${FEAT_CATEGORIES.join(", ")}).`,
+    `  - actionCost: string enum (${FEAT_ACTION_COSTS.join(", ")}). Use "passive" for feats that grant an ongoing benefit.`,
+    "  - prerequisites: array of short prerequisite strings, e.g. [\"trained in Athletics\", \"Power Attack\"]; [] when there are none.",
+    `  - frequency: { max, per } where per is one of (${FEAT_FREQUENCY_PERIODS.join(", ")}), or null when unlimited.`,
+    "- Do not include a system object; rule elements are generated separately from the finished feat.",
+    "- img, source, and publication follow the standard item conventions."
+  ].join("\n");
+}
+
+function buildFeatRequest(input: FeatPromptInput): string {
+  const parts: string[] = [
+    `Create a ${input.systemId} feat named "${input.name}".`,
+    "Base your response on the following text:",
+    input.referenceText.trim()
+  ];
+
+  const details: string[] = [];
+  if (input.slug) {
+    details.push(`Slug suggestion: ${input.slug}`);
+  }
+  if (typeof input.level === "number" && Number.isFinite(input.level)) {
+    details.push(`Feat level: ${input.level}. Set the "level" field to this value.`);
+  }
+  if (input.category) {
+    details.push(`Feat category: ${input.category}. Set feat.category to this exact value.`);
+  }
+  if (details.length) {
+    parts.splice(1, 0, ...details);
+  }
+
+  parts.push(
+    [
+      "Feat guidelines:",
+      "- Write new Pathfinder Second Edition feat rules that realise the request without echoing it word for word.",
+      "- State every bonus, penalty, and granted action precisely (type, value, and what it applies to) so it can be automated.",
+      "- Keep the benefit in line with official feats of the same level and category.",
+      `- ${input.category ? FEAT_CATEGORY_GUIDANCE[input.category] : "Choose feat.category from the reference text."}`,
+    ].join("\n"),
+  );
+
+  const publicationSection = renderPublicationSection(input.publication);
+  if (publicationSection) {
+    parts.push(publicationSection);
+  }
+
+  const imageInstruction = renderImageInstruction(input.img);
+  if (imageInstruction) {
+    parts.push(imageInstruction);
+  }
+
+  if (input.generateItemImage) {
+    parts.push("Feat icon generation is enabled. Keep description details vivid and icon-friendly.");
+  }
+
+  if (input.itemImagePrompt?.trim()) {
+    parts.push(`Feat icon direction: ${input.itemImagePrompt.trim()}`);
+  }
+
+  return parts.join("\n\n");
+}
+
+export function buildFeatPrompt(input: FeatPromptInput): string {
+  const request = buildFeatRequest(input);
+  return wrapPrompt(
+    "Generate a Foundry VTT feat Item JSON document.",
+    buildFeatSchemaSection(),
+    {
+      request,
+      systemId: input.systemId,
+      correction: input.correction
+    }
+  );
+}
@@ -0,0 +1,152 @@
+import {
+  RARITIES,
+  hazardSchema,
+  type PublicationData,
+  type SystemId,
+} from "../schemas/index";
+import { getLevelBasedDc } from "../pf2e/level-based-dc";
+import {
+  renderImageInstruction,
+  renderPublicationSection,
+  type CorrectionContext,
+  wrapPrompt,
+} from "./common";
+
+export const HAZARD_COMPLEXITIES = ["simple", "complex"] as const;
+export type HazardComplexity = (typeof HAZARD_COMPLEXITIES)[number];
+
+export interface HazardPromptInput {
+  readonly systemId: SystemId;
+  readonly name: string;
+  readonly referenceText: string;
+  readonly slug?: string;
+  readonly level?: number;
+  readonly complexity?: HazardComplexity;
+  readonly correction?: CorrectionContext;
+  readonly img?: string;
+  readonly publication?: PublicationData;
+  readonly includeOfficialContent?: boolean;
+  readonly includeGeneratedContent?: boolean;
+  readonly generateTokenImage?: boolean;
+  readonly tokenPrompt?: string;
+}
+
+/** Stealth modifier a hazard of the given level should use when the source does not provide one. */
+export function getHazardStealthBonus(level: number): number {
+  return getLevelBasedDc(level) - 10;
+}
+
+function buildHazardSchemaSection(): string {
+  const rarities = RARITIES.join(", ");
+  const schemaVersion = (hazardSchema.properties as { schema_version: { enum: readonly [number] } })
+    .schema_version.enum[0];
+  return [
+    "Hazard schema overview:",
+    `- schema_version: integer literal ${schemaVersion}.`,
+    "- type: string literal \"actor\".",
+    "- actorType: string literal \"hazard\".",
+    "- slug and name: non-empty strings.",
+    `- rarity: string enum (${rarities}).`,
+    "- level: integer >= -1.",
+    "- size: use \"med\" unless the hazard occupies a clearly different footprint.",
+    "- traits: lowercase PF2e trait slugs; always include \"trap\", \"environmental\", \"haunt\", or \"magical\" as appropriate, plus \"mechanical\" for physical traps.",
+    "- languages: [] and abilities: all 0; hazards have no ability modifiers.",
+    "- attributes.hp / attributes.ac / attributes.saves: fill only for hazards that can be damaged (leave value 0 with empty details otherwise).",
+    "- attributes.perception: { value: 0, details: \"\", senses: [] }; hazards use Stealth instead of Perception.",
+    "- attributes.speed: { value: 0, details: \"\", other: [] }.",
+    "- skills: []; strikes: only for hazards that make attack rolls.",
+    "- actions: the hazard's reactions and actions { name, actionCost, traits, requirements, trigger, frequency, description }. Simple hazards have a single reaction with a trigger; complex hazards usually also have a reaction that makes them roll initiative.",
+    "- hazard (required object):",
+    "  - isComplex: boolean. Simple hazards trigger once; complex hazards roll initiative and act every round.",
+    "  - disable: required HTML text listing each way to disable the hazard. Link every check with @Check, e.g. @Check[thievery|dc:20] (expert) to disable the pressure plate.",
+    "  - routine: HTML text describing how many actions the hazard uses each round and what they do. Required for complex hazards; null for simple hazards.",
+    "  - reset: HTML text describing if and how the hazard resets, or null when it does not.",
+    "  - stealthBonus: integer Stealth modifier. Complex hazards use it for initiative, so it is required for them.",
+    "  - stealthDetails: proficiency and detection notes, e.g. \"(expert) or DC 20 to notice the tripwire\".",
+    "  - hardness: integer >= 0; emitsSound: true, false, or \"encounter\".",
+    "- description: optional HTML summary of what the hazard looks like.",
+    "- Text formatting: use <p> paragraphs, @Check for checks and saves, @Damage for damage rolls, @Template for areas, and @UUID links for conditions.",
+    "- img, source, and publication follow the standard actor conventions."
+  ].join("\n");
+}
+
+function buildComplexityGuidance(complexity: HazardComplexity | undefined): string {
+  switch (complexity) {
+    case "simple":
+      return "Make this a simple hazard: set hazard.isComplex to false, give it one triggered reaction, and set hazard.routine to null.";
+    case "complex":
+      return "Make this a complex hazard: set hazard.isComplex to true, provide a routine with its action count, and include the reaction that makes it roll initiative.";
+    default:
+      return "Decide from the reference text whether the hazard is simple or complex and set hazard.isComplex accordingly.";
+  }
+}
+
+function buildLevelGuidance(level: number | undefined): string[] {
+  if (typeof level !== "number" || !Number.isFinite(level)) {
+    return [];
+  }
+
+  const dc = getLevelBasedDc(level);
+  return [
+    `Target level: ${level}`,
+    `Use Stealth +${getHazardStealthBonus(level)} (DC ${dc}) and disable DCs around ${dc} unless the reference text says otherwise.`,
+  ];
+}
+
+function buildHazardRequest(input: HazardPromptInput): string {
+  const parts: string[] = [
+    `Create a ${input.systemId} hazard named "${input.name}".`,
+    "Summarise the following reference text into structured data:",
+    input.referenceText.trim()
+  ];
+
+  const details: string[] = [];
+  if (input.slug) {
+    details.push(`Slug suggestion: ${input.slug}`);
+  }
+  details.push(...buildLevelGuidance(input.level));
+  if (details.length) {
+    parts.splice(1, 0, ...details);
+  }
+
+  parts.push(buildComplexityGuidance(input.complexity));
+
+  const publicationSection = renderPublicationSection(input.publication);
+  if (publicationSection) {
+    parts.push(publicationSection);
+  }
+
+  const imageInstruction = renderImageInstruction(input.img);
+  if (imageInstruction) {
+    parts.push(imageInstruction);
+  }
+
+  if (input.includeOfficialContent === false) {
+    parts.push("Do not force official compendium linkage; output fully generated hazard actions.");
+  } else if (input.includeGeneratedContent === false) {
+    parts.push("Reuse official PF2E hazard actions and condition names where they exist instead of inventing stand-ins.");
+  }
+
+  if (input.generateTokenImage) {
+    parts.push("Describe the hazard visually in enough detail to support transparent token image generation.");
+  }
+
+  if (input.tokenPrompt?.trim()) {
+    parts.push(`Token image direction: ${input.tokenPrompt.trim()}`);
+  }
+
+  return parts.join("\n\n");
+}
+
+export function buildHazardPrompt(input: HazardPromptInput): string {
+  const request = buildHazardRequest(input);
+  return wrapPrompt(
+    "Generate a Foundry VTT hazard Actor JSON document.",
+    buildHazardSchemaSection(),
+    {
+      request,
+      systemId: input.systemId,
+      correction: input.correction
+    }
+  );
+}
@@ -7,4 +7,13 @@ export type { ItemPromptInput } from "./items";
 export { buildActorPrompt } from "./actors";
 export type { ActorPromptInput } from "./actors";
 
+export { HAZARD_COMPLEXITIES, buildHazardPrompt, getHazardStealthBonus } from "./hazards";
+export type { HazardComplexity, HazardPromptInput } from "./hazards";
+
+export { buildSpellPrompt } from "./spells";
+export type { SpellPromptInput } from "./spells";
+
+export { buildFeatPrompt } from "./feats";
+export type { FeatPromptInput } from "./feats";
+
 export type { CorrectionContext } from "./common";
@@ -3,6 +3,7 @@ import {
   PUBLICATION_DEFAULT,
   RARITIES,
   itemSchema,
+  type FeatCategory,
   type ItemCategory,
   type PublicationData,
   type SystemId,
@@ -20,6 +21,8 @@ export interface ItemPromptInput {
   readonly referenceText: string;
   readonly slug?: string;
   readonly itemType?: ItemCategory;
+  readonly level?: number;
+  readonly featCategory?: FeatCategory;
   readonly correction?: CorrectionContext;
   readonly img?: string;
   readonly generateItemImage?: boolean;
@@ -86,7 +89,7 @@ function buildItemSchemaSection(): string {
     "  - consumable: category, uses { value/max/autoDestroy }, damage and/or embedded spell payload when applicable.",
     "  - treasure: category, price, quantity, bulk, carried/equipped context.",
     "  - feat: category, actionType { value }, actions { value }, prerequisites { value[] }, frequency when applicable.",
-    "  - spell: traits.traditions, time/range/target/area/duration, defense, damage blocks, heightening.",
+    "  - spell: leave system null and fill the top-level spell block (rank, traditions, castTime, range, area, targets, defense, duration, damage, heightening).",
     "- If the request references official PF2E items/spells/effects, keep canonical names/slugs so import can link existing compendium entries rather than inventing duplicates.",
     `- img: optional string containing an image URL or Foundry asset path; defaults to ${imgDefault}. When omitted, apply the itemType default icon for that category.`,
     `- source: optional string; defaults to "${sourceDefault}".`,
@@ -111,6 +114,10 @@ function buildItemRequest(input: ItemPromptInput): string {
     parts.splice(1, 0, `Slug suggestion: ${input.slug}`);
   }
 
+  if (typeof input.level === "number" && Number.isFinite(input.level)) {
+    parts.splice(1, 0, `Item level: ${input.level}. Set the "level" field to this value.`);
+  }
+
   parts.push(
     [
       "Description guidelines:",
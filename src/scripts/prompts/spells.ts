@@ -0,0 +1,118 @@
+import {
+  RARITIES,
+  SPELL_AREA_TYPES,
+  SPELL_DAMAGE_CATEGORIES,
+  SPELL_DEFENSE_STATISTICS,
+  SPELL_TRADITIONS,
+  spellSchema,
+  type PublicationData,
+  type SystemId,
+} from "../schemas/index";
+import {
+  renderImageInstruction,
+  renderPublicationSection,
+  type CorrectionContext,
+  wrapPrompt,
+} from "./common";
+
+export interface SpellPromptInput {
+  readonly systemId: SystemId;
+  readonly name: string;
+  readonly referenceText: string;
+  readonly slug?: string;
+  readonly rank?: number;
+  readonly correction?: CorrectionContext;
+  readonly img?: string;
+  readonly generateItemImage?: boolean;
+  readonly itemImagePrompt?: string;
+  readonly publication?: PublicationData;
+}
+
+function buildSpellSchemaSection(): string {
+  const rarities = RARITIES.join(", ");
+  const schemaVersion = (spellSchema.properties as { schema_version: { enum: readonly [number] } })
+    .schema_version.enum[0];
+  return [
+    "Spell schema overview:",
+    `- schema_version: integer literal ${schemaVersion}.`,
+    "- type: string literal \"item\"; itemType: string literal \"spell\".",
+    "- slug and name: non-empty strings.",
+    `- rarity: string enum (${rarities}).`,
+    "- level: integer 1-10 matching spell.rank (cantrips and focus cantrips use 1).",
+    "- traits: lowercase PF2e trait slugs. Add \"cantrip\" for cantrips and \"focus\" for focus spells, plus descriptors such as fire, mental, manipulate, or concentrate.",
+    "- description: HTML box text. Use <p> paragraphs, <hr /> before degree-of-success blocks, @Damage[2d6[fire]] for damage, @Template[type:burst|distance:20] for areas, @Check for non-defense checks, and @UUID condition links.",
+    "- spell (required object):",
+    `  - rank: integer 1-10. traditions: array drawn from (${SPELL_TRADITIONS.join(", ")}); empty for focus spells outside a tradition.`,
+    "  - castTime: \"1\", \"2\", \"3\", \"1 to 3\", \"reaction\", \"free\", or a duration such as \"10 minutes\".",
+    "  - range: e.g. \"30 feet\" or \"touch\"; null when the spell has no range.",
+    `  - area: { type (${SPELL_AREA_TYPES.join(", ")}), value (feet, multiple of 5), details } or null.`,
+    "  - targets: e.g. \"1 creature\" or null.",
+    `  - defense: { statistic (${SPELL_DEFENSE_STATISTICS.join(", ")}), basic } or null. Use "ac" for spell attack rolls; set basic true only for basic saves.`,
+    "  - duration: e.g. \"1 minute\" or null for instantaneous spells; sustained: true when the spell can be Sustained.",
+    `  - damage: array of { formula, damageType, category (${SPELL_DAMAGE_CATEGORIES.join(", ")}, or null) }; [] for spells that deal no damage.`,
+    "  - heightening: null, { type: \"interval\", interval, damage } where damage lists the formula added per step in the same order as spell.damage, or { type: \"fixed\", levels: [{ rank, damage }] } listing the full damage at each heightened rank.",
+    "- Do not include a system object; the spell block is mapped onto the PF2E spell data on import.",
+    "- img, source, and publication follow the standard item conventions."
+  ].join("\n");
+}
+
+function buildSpellRequest(input: SpellPromptInput): string {
+  const parts: string[] = [
+    `Create a ${input.systemId} spell named "${input.name}".`,
+    "Base your response on the following text:",
+    input.referenceText.trim()
+  ];
+
+  const details: string[] = [];
+  if (input.slug) {
+    details.push(`Slug suggestion: ${input.slug}`);
+  }
+  if (typeof input.rank === "number" && Number.isFinite(input.rank)) {
+    details.push(`Spell rank: ${input.rank}. Set both level and spell.rank to this value.`);
+  }
+  if (details.length) {
+    parts.splice(1, 0, ...details);
+  }
+
+  parts.push(
+    [
+      "Spell guidelines:",
+      "- Write new Pathfinder Second Edition spell rules that realise the request without echoing it word for word.",
+      "- Keep damage on the level-appropriate curve for the spell's rank and say how heightening scales it.",
+      "- Every damage roll in the description must also appear in spell.damage, and every area must appear in spell.area.",
+    ].join("\n"),
+  );
+
+  const publicationSection = renderPublicationSection(input.publication);
+  if (publicationSection) {
+    parts.push(publicationSection);
+  }
+
+  const imageInstruction = renderImageInstruction(input.img);
+  if (imageInstruction) {
+    parts.push(imageInstruction);
+  }
+
+  if (input.generateItemImage) {
+    parts.push("Spell icon generation is enabled. Keep description details vivid and icon-friendly.");
+  }
+
+  if (input.itemImagePrompt?.trim()) {
+    parts.push(`Spell icon direction: ${input.itemImagePrompt.trim()}`);
+  }
+
+  return parts.join("\n\n");
+}
+
+export function buildSpellPrompt(input: SpellPromptInput): string {
+  const request = buildSpellRequest(input);
+  return wrapPrompt(
+    "Generate a Foundry VTT spell Item JSON document.",
+    buildSpellSchemaSection(),
+    {
+      request,
+      systemId: input.systemId,
+      correction: input.correction
+    }
+  );
+}
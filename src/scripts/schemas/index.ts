@@ -31,6 +31,30 @@ export const ITEM_CATEGORIES = [
 ] as const;
 export type ItemCategory = (typeof ITEM_CATEGORIES)[number];
 
+export const SPELL_TRADITIONS = ["arcane", "divine", "occult", "primal"] as const;
+export type SpellTradition = (typeof SPELL_TRADITIONS)[number];
+
+export const SPELL_AREA_TYPES = ["burst", "cone", "emanation", "line", "cube", "square", "cylinder"] as const;
+export type SpellAreaType = (typeof SPELL_AREA_TYPES)[number];
+
+export const SPELL_DEFENSE_STATISTICS = ["ac", "fortitude", "reflex", "will"] as const;
+export type SpellDefenseStatistic = (typeof SPELL_DEFENSE_STATISTICS)[number];
+
+export const SPELL_DAMAGE_CATEGORIES = ["persistent", "splash"] as const;
+export type SpellDamageCategory = (typeof SPELL_DAMAGE_CATEGORIES)[number];
+
+export const SPELL_HEIGHTENING_TYPES = ["interval", "fixed"] as const;
+export type SpellHeighteningType = (typeof SPELL_HEIGHTENING_TYPES)[number];
+
+export const FEAT_CATEGORIES = ["ancestry", "class", "general", "skill", "archetype", "classfeature"] as const;
+export type FeatCategory = (typeof FEAT_CATEGORIES)[number];
+
+export const FEAT_ACTION_COSTS = ["passive", ...ACTION_EXECUTIONS] as const;
+export type FeatActionCost = (typeof FEAT_ACTION_COSTS)[number];
+
+export const FEAT_FREQUENCY_PERIODS = ["turn", "round", "PT1M", "PT10M", "PT1H", "day", "P1W", "P1M"] as const;
+export type FeatFrequencyPeriod = (typeof FEAT_FREQUENCY_PERIODS)[number];
+
 export const ACTOR_CATEGORIES = [
   "character",
   "npc",
@@ -98,6 +122,64 @@ export interface ActionSchemaData extends BaseEntity<"action"> {
   publication: PublicationData;
 }
 
+export interface SpellAreaData {
+  type: SpellAreaType;
+  value: number;
+  details?: string | null;
+}
+
+export interface SpellDefenseData {
+  statistic: SpellDefenseStatistic;
+  basic?: boolean | null;
+}
+
+export interface SpellDamageData {
+  formula: string;
+  damageType: string;
+  category?: SpellDamageCategory | null;
+}
+
+export interface SpellHeightenedLevelData {
+  rank: number;
+  damage: SpellDamageData[];
+}
+
+export interface SpellHeighteningData {
+  type: SpellHeighteningType;
+  /** Ranks per step for interval heightening. */
+  interval?: number | null;
+  /** Formula added per step for interval heightening, in the same order as the spell's damage entries. */
+  damage?: string[] | null;
+  /** Replacement damage at specific ranks for fixed heightening. */
+  levels?: SpellHeightenedLevelData[] | null;
+}
+
+export interface SpellSchemaData {
+  rank: number;
+  traditions: SpellTradition[];
+  castTime: string;
+  range?: string | null;
+  area?: SpellAreaData | null;
+  targets?: string | null;
+  defense?: SpellDefenseData | null;
+  duration?: string | null;
+  sustained?: boolean | null;
+  damage: SpellDamageData[];
+  heightening?: SpellHeighteningData | null;
+}
+
+export interface FeatFrequencyData {
+  max: number;
+  per: FeatFrequencyPeriod;
+}
+
+export interface FeatSchemaData {
+  category: FeatCategory;
+  actionCost: FeatActionCost;
+  prerequisites: string[];
+  frequency?: FeatFrequencyData | null;
+}
+
 export interface ItemSchemaData extends BaseEntity<"item"> {
   itemType: ItemCategory;
   rarity: Rarity;
@@ -108,6 +190,8 @@ export interface ItemSchemaData extends BaseEntity<"item"> {
   img?: string | null;
   source?: string | null;
   system?: Record<string, unknown> | null;
+  spell?: SpellSchemaData | null;
+  feat?: FeatSchemaData | null;
   publication: PublicationData;
 }
 
@@ -380,6 +464,125 @@ export const actionSchema = {
   }
 } satisfies JSONSchemaType<ActionSchemaData>;
 
+const spellDamageSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["formula", "damageType"],
+  properties: {
+    formula: { type: "string", minLength: 1 },
+    damageType: { type: "string", minLength: 1 },
+    category: { type: "string", enum: [...SPELL_DAMAGE_CATEGORIES, null], nullable: true, default: null },
+  },
+} as const;
+
+const spellSchemaProperties = {
+  type: "object",
+  nullable: true,
+  default: null,
+  additionalProperties: false,
+  required: ["rank", "traditions", "castTime", "damage"],
+  properties: {
+    rank: { type: "integer", minimum: 1, maximum: 10 },
+    traditions: {
+      type: "array",
+      items: { type: "string", enum: SPELL_TRADITIONS },
+      default: [] as const,
+    },
+    castTime: { type: "string", minLength: 1 },
+    range: { type: "string", nullable: true, default: null },
+    area: {
+      type: "object",
+      nullable: true,
+      default: null,
+      additionalProperties: false,
+      required: ["type", "value"],
+      properties: {
+        type: { type: "string", enum: SPELL_AREA_TYPES },
+        value: { type: "integer", minimum: 5 },
+        details: { type: "string", nullable: true, default: null },
+      },
+    },
+    targets: { type: "string", nullable: true, default: null },
+    defense: {
+      type: "object",
+      nullable: true,
+      default: null,
+      additionalProperties: false,
+      required: ["statistic"],
+      properties: {
+        statistic: { type: "string", enum: SPELL_DEFENSE_STATISTICS },
+        basic: { type: "boolean", nullable: true, default: false },
+      },
+    },
+    duration: { type: "string", nullable: true, default: null },
+    sustained: { type: "boolean", nullable: true, default: false },
+    damage: {
+      type: "array",
+      items: spellDamageSchema,
+      default: [] as const,
+    },
+    heightening: {
+      type: "object",
+      nullable: true,
+      default: null,
+      additionalProperties: false,
+      required: ["type"],
+      properties: {
+        type: { type: "string", enum: SPELL_HEIGHTENING_TYPES },
+        interval: { type: "integer", minimum: 1, nullable: true, default: null },
+        damage: {
+          type: "array",
+          nullable: true,
+          default: null,
+          items: { type: "string", minLength: 1 },
+        },
+        levels: {
+          type: "array",
+          nullable: true,
+          default: null,
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["rank", "damage"],
+            properties: {
+              rank: { type: "integer", minimum: 2, maximum: 10 },
+              damage: { type: "array", items: spellDamageSchema },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+const featSchemaProperties = {
+  type: "object",
+  nullable: true,
+  default: null,
+  additionalProperties: false,
+  required: ["category", "actionCost", "prerequisites"],
+  properties: {
+    category: { type: "string", enum: FEAT_CATEGORIES },
+    actionCost: { type: "string", enum: FEAT_ACTION_COSTS },
+    prerequisites: {
+      type: "array",
+      items: { type: "string", minLength: 1 },
+      default: [] as const,
+    },
+    frequency: {
+      type: "object",
+      nullable: true,
+      default: null,
+      additionalProperties: false,
+      required: ["max", "per"],
+      properties: {
+        max: { type: "integer", minimum: 1 },
+        per: { type: "string", enum: FEAT_FREQUENCY_PERIODS },
+      },
+    },
+  },
+} as const;
+
 export const itemSchema = {
   $id: "Item",
   type: "object",
@@ -419,9 +622,11 @@ export const itemSchema = {
       required: [],
       properties: {},
     },
+    spell: spellSchemaProperties,
+    feat: featSchemaProperties,
     publication: publicationSchema
   }
-} satisfies JSONSchemaType<ItemSchemaData>;
+} as unknown as JSONSchemaType<ItemSchemaData>;
 
 const genericStringValueSchema = {
   type: "object",
@@ -1203,9 +1408,132 @@ export const actorSchema = {
     },
     source: { type: "string", default: "" },
     publication: publicationSchema
-  }
+  },
 } as unknown as JSONSchemaType<ActorSchemaData>;
 
+function createSpellSchema(): Record<string, unknown> {
+  const source = itemSchema as unknown as {
+    required: readonly string[];
+    properties: Record<string, unknown>;
+  };
+  const properties = Object.fromEntries(
+    Object.entries(source.properties).filter(([key]) => !["system", "price", "feat"].includes(key)),
+  );
+
+  return {
+    ...source,
+    $id: "Spell",
+    required: [...source.required, "spell"],
+    properties: {
+      ...properties,
+      itemType: { type: "string", enum: ["spell"] as const },
+      level: { type: "integer", minimum: 1, maximum: 10 },
+      spell: Object.fromEntries(
+        Object.entries(spellSchemaProperties).filter(([key]) => key !== "nullable" && key !== "default"),
+      ),
+    },
+  };
+}
+
+/** Item schema narrowed to spells, with the structured `spell` block required; payloads still validate against `itemSchema`. */
+export const spellSchema = createSpellSchema();
+
+function createFeatSchema(): Record<string, unknown> {
+  const source = itemSchema as unknown as {
+    required: readonly string[];
+    properties: Record<string, unknown>;
+  };
+  const properties = Object.fromEntries(
+    Object.entries(source.properties).filter(([key]) => !["system", "price", "spell"].includes(key)),
+  );
+
+  return {
+    ...source,
+    $id: "Feat",
+    required: [...source.required, "feat"],
+    properties: {
+      ...properties,
+      itemType: { type: "string", enum: ["feat"] as const },
+      level: { type: "integer", minimum: 1, maximum: 20 },
+      feat: Object.fromEntries(
+        Object.entries(featSchemaProperties).filter(([key]) => key !== "nullable" && key !== "default"),
+      ),
+    },
+  };
+}
+
+/** Item schema narrowed to feats and class features; rule elements are generated separately into `system.rules`. */
+export const featSchema = createFeatSchema();
+
+const HAZARD_OMITTED_ACTOR_PROPERTIES = new Set(["spellcasting", "inventory", "loot"]);
+
+/**
+ * Rules every generated hazard must meet: a way to disable it, and for complex hazards a routine and the Stealth
+ * bonus they roll for initiative. Existing hazards are imported and exported without them.
+ */
+const hazardRequirementsSchema = {
+  type: "object",
+  required: ["hazard"],
+  properties: {
+    hazard: {
+      type: "object",
+      required: ["disable"],
+      properties: {
+        disable: { type: "string", minLength: 1 },
+      },
+      allOf: [
+        {
+          if: {
+            type: "object",
+            properties: {
+              isComplex: { const: true },
+            },
+            required: ["isComplex"],
+          },
+          then: {
+            type: "object",
+            required: ["routine", "stealthBonus"],
+            properties: {
+              routine: { type: "string", minLength: 1 },
+              stealthBonus: { type: "integer" },
+            },
+          },
+        },
+      ],
+    },
+  },
+} as const;
+
+function createHazardSchema(): Record<string, unknown> {
+  const source = actorSchema as unknown as {
+    required: readonly string[];
+    properties: Record<string, Record<string, unknown>>;
+  };
+  const properties = Object.fromEntries(
+    Object.entries(source.properties).filter(([key]) => !HAZARD_OMITTED_ACTOR_PROPERTIES.has(key)),
+  );
+
+  return {
+    ...source,
+    $id: "Hazard",
+    required: [...source.required, "hazard"],
+    properties: {
+      ...properties,
+      actorType: { type: "string", enum: ["hazard"] as const },
+      hazard: {
+        ...Object.fromEntries(
+          Object.entries(source.properties.hazard).filter(([key]) => key !== "nullable" && key !== "default"),
+        ),
+        required: ["isComplex", "disable", "routine", "reset", "stealthBonus", "stealthDetails"],
+      },
+    },
+    allOf: [hazardRequirementsSchema],
+  };
+}
+
+/** Actor schema narrowed to the fields a hazard sheet uses; payloads still validate against `actorSchema`. */
+export const hazardSchema = createHazardSchema();
+
 export const packEntrySchema = {
   $id: "PackEntry",
   type: "object",
@@ -1257,6 +1585,12 @@ export const validators: {
   packEntry: ajv.compile<PackEntrySchemaData>(packEntrySchema)
 };
 
+/** Validates generated hazards: the actor schema plus the hazard requirements the model has to meet. */
+export const hazardValidator = ajv.compile<ActorSchemaData>({
+  $id: "HazardActor",
+  allOf: [{ $ref: "Actor" }, hazardRequirementsSchema],
+});
+
 export type ValidatorMap = typeof validators;
 export type ValidatorKey = keyof ValidatorMap;
 export type EntityValidator = ValidatorMap[keyof ValidatorMap];
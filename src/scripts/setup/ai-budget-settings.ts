@@ -0,0 +1,119 @@
+import { CONSTANTS } from "../constants";
+import {
+  AI_BUDGET_RESET_PERIODS,
+  getAIBudgetStatuses,
+  normalizeAIBudgetConfig,
+  readAIBudgetConfig,
+  type AIBudgetResetPeriod,
+} from "../openrouter/budget";
+import { AI_USAGE_FLOWS, AI_USAGE_FLOW_LABELS, readSessionStart } from "../openrouter/usage-ledger";
+
+import appv1 = foundry.appv1;
+
+interface AIBudgetSettingsViewData {
+  enabled: boolean;
+  exemptGMs: boolean;
+  softLimitPercent: number;
+  userLimitUsd: number | "";
+  sessionLimitUsd: number | "";
+  resetOptions: { value: AIBudgetResetPeriod; label: string; selected: boolean }[];
+  flowLimits: { flow: string; label: string; value: number | "" }[];
+  sessionStartedAt: string;
+  statuses: { label: string; spent: string; limit: string }[];
+}
+
+interface SettingsAccessor {
+  set: (namespace: string, key: string, value: unknown) => Promise<unknown>;
+}
+
+const RESET_PERIOD_LABELS: Record<AIBudgetResetPeriod, string> = {
+  daily: "Daily (midnight)",
+  weekly: "Weekly (Monday)",
+  monthly: "Monthly (1st)",
+  never: "Never",
+};
+
+const toInputValue = (value: number | undefined): number | "" => (value && value > 0 ? value : "");
+
+export class AIBudgetSettings extends appv1.api.FormApplication {
+  constructor(options?: Partial<appv1.api.FormApplication.Options>) {
+    super(undefined, options);
+  }
+
+  static override get defaultOptions(): appv1.api.FormApplication.Options {
+    return foundry.utils.mergeObject(super.defaultOptions, {
+      id: "handy-dandy-ai-budgets",
+      title: "AI Budgets",
+      template: `${CONSTANTS.TEMPLATE_PATH}/ai-budget-settings.hbs`,
+      width: 560,
+      height: "auto",
+      closeOnSubmit: false,
+      submitOnChange: false,
+      classes: ["handy-dandy", "ai-budget-settings"],
+    });
+  }
+
+  override async getData(): Promise<AIBudgetSettingsViewData> {
+    const config = readAIBudgetConfig();
+    return {
+      enabled: config.enabled,
+      exemptGMs: config.exemptGMs,
+      softLimitPercent: config.softLimitPercent,
+      userLimitUsd: toInputValue(config.userLimitUsd),
+      sessionLimitUsd: toInputValue(config.sessionLimitUsd),
+      resetOptions: AI_BUDGET_RESET_PERIODS.map((value) => ({
+        value,
+        label: RESET_PERIOD_LABELS[value],
+        selected: value === config.resetPeriod,
+      })),
+      flowLimits: AI_USAGE_FLOWS.map((flow) => ({
+        flow,
+        label: AI_USAGE_FLOW_LABELS[flow],
+        value: toInputValue(config.flowLimitsUsd[flow]),
+      })),
+      sessionStartedAt: new Date(readSessionStart()).toLocaleString(),
+      statuses: getAIBudgetStatuses(undefined, config).map((status) => ({
+        label: status.label,
+        spent: `$${status.spentUsd.toFixed(4)}`,
+        limit: `$${status.limitUsd.toFixed(2)}`,
+      })),
+    };
+  }
+
+  override activateListeners(html: JQuery): void {
+    super.activateListeners(html);
+
+    html.find<HTMLButtonElement>("button[data-action='start-session']").on("click", (event) => {
+      event.preventDefault();
+      void this.#startNewSession();
+    });
+  }
+
+  protected override async _updateObject(_event: Event, formData: Record<string, unknown>): Promise<void> {
+    const settings = game.settings as unknown as SettingsAccessor | undefined;
+    if (!settings) {
+      throw new Error(`${CONSTANTS.MODULE_NAME} | Settings are not available.`);
+    }
+
+    const expanded = foundry.utils.expandObject(formData) as Record<string, unknown>;
+    const config = normalizeAIBudgetConfig({
+      ...expanded,
+      enabled: expanded.enabled === true,
+      exemptGMs: expanded.exemptGMs === true,
+    });
+    await settings.set(CONSTANTS.MODULE_ID, "AIBudgets", config);
+    ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | AI budgets saved.`);
+    this.render();
+  }
+
+  async #startNewSession(): Promise<void> {
+    const settings = game.settings as unknown as SettingsAccessor | undefined;
+    if (!settings) {
+      return;
+    }
+
+    await settings.set(CONSTANTS.MODULE_ID, "AIBudgetSessionStartedAt", Date.now());
+    ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Started a new AI budget session.`);
+    this.render();
+  }
+}
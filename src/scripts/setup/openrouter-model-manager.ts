@@ -6,6 +6,7 @@ import {
   refreshOpenRouterModelChoiceCatalog,
   type OpenRouterModelCapabilities,
 } from "../openrouter/model-catalog";
+import { getProviderLabel } from "../openrouter/providers";
 
 import appv1 = foundry.appv1;
 
@@ -126,12 +127,15 @@ export class OpenRouterModelManagerSettings extends appv1.api.FormApplication {
     const catalog = getCachedOpenRouterModelChoiceCatalog() ?? await loadOpenRouterModelChoiceCatalog();
 
     return {
-      source: catalog.source === "network" ? "Live OpenRouter catalog" : "Fallback catalog",
+      source: catalog.source === "network"
+        ? `Live ${getProviderLabel(catalog.provider)} catalog`
+        : `Fallback ${getProviderLabel(catalog.provider)} catalog`,
       loadedAt: formatLoadedAt(catalog.loadedAt),
       textOptions: mapOptionsToView(catalog.textChoices, currentTextModel),
       imageOptions: mapOptionsToView(catalog.imageChoices, currentImageModel),
-      textSelectionNote:
-        "Text models are limited to entries advertising structured outputs (structured_outputs/response_format).",
+      textSelectionNote: catalog.provider === "openai-compatible"
+        ? "Embedding models are hidden. Tool calling is only marked when the server reports it (Ollama and LM Studio do; vLLM does not)."
+        : "Text models are limited to entries advertising structured outputs (structured_outputs/response_format).",
       selectedTextModel: toCapabilityViewData(catalog.capabilitiesById[currentTextModel]),
       selectedImageModel: toCapabilityViewData(catalog.capabilitiesById[currentImageModel]),
     };
@@ -180,8 +184,8 @@ export class OpenRouterModelManagerSettings extends appv1.api.FormApplication {
 
     this.#isRefreshing = true;
     try {
-      await refreshOpenRouterModelChoiceCatalog();
-      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Refreshed OpenRouter model catalog.`);
+      const catalog = await refreshOpenRouterModelChoiceCatalog();
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Refreshed ${getProviderLabel(catalog.provider)} model catalog.`);
       this.render();
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -2,10 +2,17 @@ import { CONSTANTS } from "../constants";
 import { DEFAULT_OPENROUTER_IMAGE_MODEL, DEFAULT_OPENROUTER_MODEL } from "../openrouter/models";
 import { updateOpenRouterClientFromSettings } from "../openrouter/client";
 import { initializeOpenRouterClientFromSettings } from "../openrouter/runtime";
-import { loadOpenRouterModelChoiceCatalog } from "../openrouter/model-catalog";
+import {
+  loadOpenRouterModelChoiceCatalog,
+  refreshOpenRouterModelChoiceCatalog,
+} from "../openrouter/model-catalog";
+import { DEFAULT_COMPATIBLE_BASE_URL } from "../openrouter/providers";
 import { ToolOverview } from "../ui/tool-overview";
 import { OpenRouterAccountSettings } from "./openrouter-account";
 import { OpenRouterModelManagerSettings } from "./openrouter-model-manager";
+import { AIBudgetSettings } from "./ai-budget-settings";
+import { DEFAULT_AI_BUDGET_CONFIG } from "../openrouter/budget";
+import { MAX_REPAIR_ATTEMPTS } from "../validation/ensure-valid";
 
 // Foundry V14 supports "user" scope. The installed type package still lags the
 // runtime shape, so we cast to keep strict TypeScript while using runtime-correct scope.
@@ -13,6 +20,67 @@ const USER_SCOPE = "user" as unknown as "client";
 
 export async function registerSettings(): Promise<void> {
   const settings = game.settings!;
+  const reloadProvider = (): void => {
+    initializeOpenRouterClientFromSettings();
+    void refreshOpenRouterModelChoiceCatalog();
+  };
+
+  settings.register(CONSTANTS.MODULE_ID, "AIProvider", {
+    name: "AI Provider",
+    hint: "Where generation requests are sent. The offline mock replays recorded fixtures or returns schema-valid stubs without any network calls.",
+    scope: USER_SCOPE,
+    config: true,
+    type: String,
+    choices: {
+      openrouter: "OpenRouter",
+      "openai-compatible": "OpenAI-compatible server (Ollama, LM Studio, vLLM)",
+      mock: "Offline mock (no network)",
+    },
+    default: "openrouter",
+    onChange: reloadProvider,
+  });
+
+  settings.register(CONSTANTS.MODULE_ID, "OpenAICompatibleBaseUrl", {
+    name: "OpenAI-Compatible Base URL",
+    hint: `Base URL of a self-hosted OpenAI-compatible API, including /v1 (e.g. ${DEFAULT_COMPATIBLE_BASE_URL} for Ollama, http://localhost:1234/v1 for LM Studio). The server must allow CORS from this Foundry origin.`,
+    scope: USER_SCOPE,
+    config: true,
+    type: String,
+    default: DEFAULT_COMPATIBLE_BASE_URL,
+    onChange: reloadProvider,
+  });
+
+  settings.register(CONSTANTS.MODULE_ID, "OpenAICompatibleApiKey", {
+    name: "OpenAI-Compatible API Key",
+    hint: "Optional bearer token for the self-hosted server. Leave blank for servers that do not check keys.",
+    scope: USER_SCOPE,
+    config: true,
+    type: String,
+    default: "",
+    onChange: reloadProvider,
+  });
+
+  settings.register(CONSTANTS.MODULE_ID, "MockProviderFixturePath", {
+    name: "Mock Provider Fixture File",
+    hint: "Optional path or URL to a JSON file of recorded responses keyed by \"SchemaName:promptHash\". Used only by the offline mock provider.",
+    scope: USER_SCOPE,
+    config: true,
+    type: String,
+    default: "",
+    onChange: () => {
+      initializeOpenRouterClientFromSettings();
+    },
+  });
+
+  settings.register(CONSTANTS.MODULE_ID, "MockProviderRecordFixtures", {
+    name: "Developer: Record Mock Fixtures",
+    hint: "When enabled, structured generation responses are kept in memory so they can be exported with game.handyDandy.dev.exportMockFixtures().",
+    scope: USER_SCOPE,
+    config: true,
+    type: Boolean,
+    default: false,
+  });
+
   const modelCatalog = await loadOpenRouterModelChoiceCatalog();
 
   settings.register(CONSTANTS.MODULE_ID, "OpenRouterApiKey", {
@@ -54,6 +122,31 @@ export async function registerSettings(): Promise<void> {
     restricted: false,
   });
 
+  settings.registerMenu(CONSTANTS.MODULE_ID, "aiBudgets", {
+    name: "AI Budgets",
+    label: "Configure AI Budgets",
+    hint: "Set per-user, per-session, and per-flow spending caps with soft warnings. Checked before every OpenRouter request.",
+    icon: "fas fa-scale-balanced",
+    type: AIBudgetSettings,
+    restricted: true,
+  });
+
+  settings.register(CONSTANTS.MODULE_ID, "AIBudgets", {
+    name: "AI Budgets",
+    scope: "world",
+    config: false,
+    type: Object,
+    default: DEFAULT_AI_BUDGET_CONFIG,
+  });
+
+  settings.register(CONSTANTS.MODULE_ID, "AIBudgetSessionStartedAt", {
+    name: "AI Budget Session Start",
+    scope: "world",
+    config: false,
+    type: Number,
+    default: 0,
+  });
+
   settings.register(CONSTANTS.MODULE_ID, "OpenRouterModel", {
     name: "OpenRouter Text Model",
     hint: "Model used for structured text generation. Use OpenRouter Model Manager to refresh the list.",
@@ -167,6 +260,25 @@ export async function registerSettings(): Promise<void> {
     default: 3,
   });
 
+  settings.register(CONSTANTS.MODULE_ID, "GenerationRepairAttempts", {
+    name: "Generation Repair Attempts",
+    hint: "How many times to send validation errors back to the model when generated JSON fails schema validation (0-5, 0 disables).",
+    scope: "world",
+    config: true,
+    type: Number,
+    range: { min: 0, max: MAX_REPAIR_ATTEMPTS, step: 1 },
+    default: 2,
+  });
+
+  settings.register(CONSTANTS.MODULE_ID, "CreatureBenchmarkAutoCorrect", {
+    name: "Auto-correct Creature Benchmarks",
+    hint: "Pull generated NPC statistics that fall outside the Gamemastery Guide benchmarks for their level back into range before import. When disabled, out-of-range values are only flagged in the actor's balance report.",
+    scope: "world",
+    config: true,
+    type: Boolean,
+    default: false,
+  });
+
   settings.registerMenu(CONSTANTS.MODULE_ID, "toolGuide", {
     name: "Handy Dandy Tool Guide",
     label: "Open Tool Guide",
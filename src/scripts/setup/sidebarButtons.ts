@@ -1,7 +1,15 @@
 import { runPromptWorkbenchFlow } from "../flows/prompt-workbench-ui";
+import { runPromptWorkbenchBatchFlow } from "../flows/prompt-workbench-batch-ui";
 import { runRuleElementGeneratorFlow } from "../flows/rule-element-generator-ui";
 import { runOpenRouterCreditsFlow } from "../flows/openrouter-credits-ui";
+import { runUsageLedgerFlow } from "../flows/usage-ledger-ui";
+import { runDowntimeTrackerFlow } from "../flows/downtime-tracker";
+import { runRuneEtcherFlow } from "../flows/rune-etcher";
 import { runRuneStripperFlow } from "../flows/rune-stripper";
+import { runTreasureLedgerFlow } from "../flows/treasure-ledger-ui";
+import { runEncounterBuilderFlow } from "../flows/encounter-builder-ui";
+import { runCanonicalExportFlow } from "../flows/canonical-export-ui";
+import { runCanonicalImportFlow } from "../flows/canonical-import-ui";
 import {
   MAP_MARKER_CONTROL_NAME,
   MAP_MARKER_PLACEMENT_TOOL_NAME,
@@ -253,6 +261,50 @@ export function insertSidebarButtons(controls: ControlCollection): void {
     },
   });
 
+  compatibilityAddTool(handyGroup.tools, {
+    name: "prompt-workbench-batch",
+    order: getToolOrder(handyGroup.tools),
+    title: "Prompt Workbench Batch",
+    icon: "fa-solid fa-layer-group",
+    button: true,
+    onChange: () => {
+      void runPromptWorkbenchBatchFlow();
+    },
+  });
+
+  compatibilityAddTool(handyGroup.tools, {
+    name: "canonical-export",
+    order: getToolOrder(handyGroup.tools),
+    title: "Canonical Export",
+    icon: "fa-solid fa-file-export",
+    button: true,
+    onChange: () => {
+      void runCanonicalExportFlow();
+    },
+  });
+
+  compatibilityAddTool(handyGroup.tools, {
+    name: "canonical-import",
+    order: getToolOrder(handyGroup.tools),
+    title: "Canonical Import",
+    icon: "fa-solid fa-file-import",
+    button: true,
+    onChange: () => {
+      void runCanonicalImportFlow();
+    },
+  });
+
+  compatibilityAddTool(handyGroup.tools, {
+    name: "encounter-builder",
+    order: getToolOrder(handyGroup.tools),
+    title: "Encounter Builder",
+    icon: "fa-solid fa-dragon",
+    button: true,
+    onChange: () => {
+      void runEncounterBuilderFlow();
+    },
+  });
+
   compatibilityAddTool(handyGroup.tools, {
     name: "rule-element-generator",
     order: getToolOrder(handyGroup.tools),
@@ -275,6 +327,17 @@ export function insertSidebarButtons(controls: ControlCollection): void {
     },
   });
 
+  compatibilityAddTool(handyGroup.tools, {
+    name: "usage-ledger",
+    order: getToolOrder(handyGroup.tools),
+    title: "AI Usage Ledger",
+    icon: "fa-solid fa-chart-column",
+    button: true,
+    onChange: () => {
+      void runUsageLedgerFlow();
+    },
+  });
+
   compatibilityAddTool(handyGroup.tools, {
     name: "rune-stripper",
     order: getToolOrder(handyGroup.tools),
@@ -286,5 +349,38 @@ export function insertSidebarButtons(controls: ControlCollection): void {
     },
   });
 
+  compatibilityAddTool(handyGroup.tools, {
+    name: "rune-etcher",
+    order: getToolOrder(handyGroup.tools),
+    title: "Rune Etcher",
+    icon: "fa-solid fa-hammer",
+    button: true,
+    onChange: () => {
+      void runRuneEtcherFlow();
+    },
+  });
+
+  compatibilityAddTool(handyGroup.tools, {
+    name: "downtime-tracker",
+    order: getToolOrder(handyGroup.tools),
+    title: "Downtime Tracker",
+    icon: "fa-solid fa-calendar-days",
+    button: true,
+    onChange: () => {
+      void runDowntimeTrackerFlow();
+    },
+  });
+
+  compatibilityAddTool(handyGroup.tools, {
+    name: "treasure-ledger",
+    order: getToolOrder(handyGroup.tools),
+    title: "Party Treasure Ledger",
+    icon: "fa-solid fa-sack-dollar",
+    button: true,
+    onChange: () => {
+      void runTreasureLedgerFlow();
+    },
+  });
+
   compatibilityAddControl(controls, handyGroup);
 }
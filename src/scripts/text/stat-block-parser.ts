@@ -0,0 +1,608 @@
+import type {
+  ActorActionCost,
+  ActorActionData,
+  ActorAttributeBlock,
+  ActorImmunityData,
+  ActorResistanceData,
+  ActorSchemaData,
+  ActorSize,
+  ActorSpellcastingEntryData,
+  ActorSpellData,
+  ActorStrikeData,
+  ActorWeaknessData,
+  Rarity,
+  SpellcastingCategory,
+} from "../schemas";
+
+/** Canonical actor fields read straight from a stat block; a key is only present when the parser filled it. */
+export type ParsedStatBlockFields = Partial<Omit<ActorSchemaData, "attributes">> & {
+  attributes: Partial<ActorAttributeBlock>;
+};
+
+export interface ParsedStatBlock {
+  fields: ParsedStatBlockFields;
+  /** Dotted canonical paths the text did not cover, or covered in a shape the parser could not read. */
+  missing: string[];
+}
+
+type StatBlockSection = "top" | "defense" | "offense";
+type AbilityKey = keyof ActorSchemaData["abilities"];
+
+const REQUIRED_PATHS = [
+  "size",
+  "abilities",
+  "attributes.perception",
+  "attributes.ac",
+  "attributes.saves",
+  "attributes.hp",
+  "attributes.speed",
+] as const;
+
+/** Action glyphs as they come out of Archives of Nethys (`[two-actions]`) and common PDF/Unicode renderings. */
+const GLYPH_TOKENS: ReadonlyArray<[RegExp, string]> = [
+  [/\[\s*(?:three|3)[- ]actions?\s*\]|\(\s*three actions\s*\)|\u25c6{3}/gi, "[three-actions]"],
+  [/\[\s*(?:two|2)[- ]actions?\s*\]|\(\s*two actions\s*\)|\u25c6{2}/gi, "[two-actions]"],
+  [/\[\s*(?:one|1|single)[- ]action\s*\]|\(\s*one action\s*\)|\u25c6/gi, "[one-action]"],
+  [/\[\s*free[- ]action\s*\]|\(\s*free action\s*\)|\u25c7/gi, "[free-action]"],
+  [/\[\s*reaction\s*\]|\(\s*reaction\s*\)|[\u21ba\u27f2]/gi, "[reaction]"],
+];
+
+const GLYPH_COSTS: Readonly<Record<string, ActorActionCost>> = {
+  "[one-action]": "one-action",
+  "[two-actions]": "two-actions",
+  "[three-actions]": "three-actions",
+  "[free-action]": "free",
+  "[reaction]": "reaction",
+};
+
+const GLYPH_PATTERN = "\\[(?:one-action|two-actions|three-actions|free-action|reaction)\\]";
+
+const SIZE_LOOKUP: Readonly<Record<string, ActorSize>> = {
+  tiny: "tiny",
+  small: "sm",
+  medium: "med",
+  large: "lg",
+  huge: "huge",
+  gargantuan: "grg",
+};
+
+const RARITY_LOOKUP: ReadonlySet<string> = new Set<Rarity>(["uncommon", "rare", "unique"]);
+const ALIGNMENTS: ReadonlySet<string> = new Set(["LG", "NG", "CG", "LN", "N", "CN", "LE", "NE", "CE"]);
+const TRADITIONS: ReadonlySet<string> = new Set(["arcane", "divine", "occult", "primal"]);
+
+/** Focus spell headers name the class rather than the tradition, e.g. `Champion Devotion Spells`. */
+const FOCUS_TRADITIONS: Readonly<Record<string, string>> = {
+  bard: "occult",
+  champion: "divine",
+  cleric: "divine",
+  druid: "primal",
+  magus: "arcane",
+  oracle: "divine",
+  psychic: "occult",
+  ranger: "primal",
+  wizard: "arcane",
+};
+
+const ABILITY_KEYS: readonly AbilityKey[] = ["str", "dex", "con", "int", "wis", "cha"];
+
+/** Ability sub-headings that start a line inside an ability rather than a new ability. */
+const ABILITY_SUBFIELDS =
+  /^(?:Trigger|Effect|Frequency|Requirements?|Critical Success|Critical Failure|Success|Failure|Special|Activate|Saving Throw|Duration|Maximum Duration|Onset|Stage \d+)\b/;
+
+const SPELLCASTING_PATTERN = /^(?:[A-Z][a-z]+\s+){0,2}(?:Spells|Rituals)\s+(?:DC\s+\d|\d+\s+Focus)/;
+
+const KEYWORD_PATTERN = new RegExp(
+  [
+    "^Perception\\s+[+-]?\\d",
+    "^Languages\\s",
+    "^Skills\\s",
+    "^Str\\s+[+-]?\\d",
+    "^Items\\s",
+    "^AC\\s+\\d",
+    "^HP\\s+\\d",
+    "^(?:Immunities|Weaknesses|Resistances)\\s",
+    "^Speed\\s",
+    "^(?:Melee|Ranged)\\s",
+    SPELLCASTING_PATTERN.source,
+  ].join("|"),
+);
+
+const ABILITY_NAME = "[A-Z][\\w'-]*(?:\\s+(?:[A-Z][\\w'-]*|of|the|and|to|in|on)){0,5}";
+const ABILITY_TRAITS = "\\(([a-z0-9][a-z0-9 ,'-]*)\\)";
+const GLYPH_ABILITY = new RegExp(`^(${ABILITY_NAME})\\s+(${GLYPH_PATTERN})\\s*(?:${ABILITY_TRAITS})?\\s*(.*)$`);
+const TRAIT_ABILITY = new RegExp(`^(${ABILITY_NAME})\\s+${ABILITY_TRAITS}\\s*(.*)$`);
+const PASSIVE_ABILITY = new RegExp(
+  `^(${ABILITY_NAME})\\s+((?:The|A|An|When|If|Each|This|Its|Whenever|While|Creatures?|Any|Once|Enemies|Allies|Until)\\s.*)$`,
+);
+
+function normalizeText(text: string): string {
+  let normalized = text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u00a0\u2007\u202f]/g, " ")
+    .replace(/[\u2212\u2013\u2014](?=\s*\d)/g, "-")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/\ufb01/g, "fi")
+    .replace(/\ufb02/g, "fl");
+
+  for (const [pattern, token] of GLYPH_TOKENS) {
+    normalized = normalized.replace(pattern, ` ${token} `);
+  }
+
+  return normalized
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+function toSlug(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function toTitleCase(value: string): string {
+  return value.toLowerCase().replace(/(^|[\s(-])([a-z])/g, (_match, lead: string, letter: string) => `${lead}${letter.toUpperCase()}`);
+}
+
+function parseModifier(value: string): number {
+  return Number.parseInt(value.replace(/\s+/g, ""), 10);
+}
+
+/** Splits on separators outside parentheses, so `scent (imprecise) 30 feet, darkvision` stays in two parts. */
+function splitTopLevel(value: string, separator = ","): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const character of value) {
+    if (character === "(") depth += 1;
+    if (character === ")") depth = Math.max(0, depth - 1);
+    if (character === separator && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += character;
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+}
+
+function splitDetails(value: string): { head: string; details: string | null } {
+  const [head = "", ...rest] = splitTopLevel(value, ";");
+  const details = rest.join("; ").trim();
+  return { head: head.trim(), details: details || null };
+}
+
+function isStatementStart(line: string, previous: string): boolean {
+  if (KEYWORD_PATTERN.test(line)) {
+    return true;
+  }
+  if (ABILITY_SUBFIELDS.test(line)) {
+    return false;
+  }
+  if (GLYPH_ABILITY.test(line) || TRAIT_ABILITY.test(line)) {
+    return true;
+  }
+  return (/[.)]$/.test(previous) || KEYWORD_PATTERN.test(previous)) && PASSIVE_ABILITY.test(line);
+}
+
+/** Re-joins PDF line wraps so each statement (a stat line or one ability) is a single string. */
+function groupStatements(lines: readonly string[]): string[] {
+  const statements: string[] = [];
+  for (const line of lines) {
+    const previous = statements.at(-1);
+    if (previous === undefined || isStatementStart(line, previous)) {
+      statements.push(line);
+    } else {
+      statements[statements.length - 1] = previous.endsWith("-") ? `${previous}${line}` : `${previous} ${line}`;
+    }
+  }
+  return statements;
+}
+
+function parseHeader(lines: readonly string[]): { name: string; level: number; rest: string[] } | null {
+  for (const [index, line] of lines.entries()) {
+    const inline = line.match(/^(.+?)\s+creature\s+([+-]?\d+)$/i);
+    const standalone = line.match(/^creature\s+([+-]?\d+)$/i);
+    const rawName = inline ? inline[1] : standalone && index > 0 ? lines[index - 1] : null;
+    const rawLevel = inline ? inline[2] : standalone?.[1];
+    if (!rawName || rawLevel === undefined) {
+      continue;
+    }
+
+    const name = rawName.trim();
+    return {
+      name: name === name.toUpperCase() ? toTitleCase(name) : name,
+      level: parseModifier(rawLevel),
+      rest: lines.slice(index + 1),
+    };
+  }
+  return null;
+}
+
+function parseTraitLine(text: string, fields: ParsedStatBlockFields): void {
+  const traits: string[] = [];
+  for (const token of text.split(/\s+/)) {
+    const word = token.replace(/[^\w-]/g, "");
+    if (!word) continue;
+    const lower = word.toLowerCase();
+    if (word === word.toUpperCase() && ALIGNMENTS.has(word)) {
+      fields.alignment = word;
+    } else if (RARITY_LOOKUP.has(lower)) {
+      fields.rarity = lower as Rarity;
+    } else if (lower in SIZE_LOOKUP) {
+      fields.size = SIZE_LOOKUP[lower];
+    } else {
+      traits.push(toSlug(word));
+    }
+  }
+  fields.traits = traits;
+}
+
+function parsePerception(text: string, fields: ParsedStatBlockFields): void {
+  const match = text.match(/^Perception\s+([+-]\d+)\s*(\([^)]*\))?\s*;?\s*(.*)$/);
+  if (!match) return;
+  fields.attributes.perception = {
+    value: parseModifier(match[1]),
+    details: match[2] ? match[2].slice(1, -1).trim() : null,
+    senses: splitTopLevel(match[3] ?? ""),
+  };
+}
+
+function parseSkills(text: string, fields: ParsedStatBlockFields): void {
+  fields.skills = splitTopLevel(text.replace(/^Skills\s+/, ""))
+    .map((entry) => entry.match(/^(.+?)\s+([+-]\d+)\s*(?:\((.*)\))?$/))
+    .filter((match): match is RegExpMatchArray => Boolean(match))
+    .map((match) => ({
+      slug: toSlug(match[1]),
+      modifier: parseModifier(match[2]),
+      details: match[3]?.trim() || null,
+    }));
+}
+
+function parseAbilities(text: string, fields: ParsedStatBlockFields): void {
+  const scores: Partial<Record<AbilityKey, number>> = {};
+  for (const match of text.matchAll(/\b(Str|Dex|Con|Int|Wis|Cha)\s+([+-]\s?\d+)/g)) {
+    scores[match[1].toLowerCase() as AbilityKey] = parseModifier(match[2]);
+  }
+  if (ABILITY_KEYS.every((key) => typeof scores[key] === "number")) {
+    fields.abilities = scores as ActorSchemaData["abilities"];
+  }
+}
+
+function parseDefenses(text: string, fields: ParsedStatBlockFields): void {
+  const [acPart = "", ...rest] = splitTopLevel(text, ";");
+  const acMatch = acPart.match(/^AC\s+(\d+)\s*(?:\((.*)\))?/);
+  if (acMatch) {
+    fields.attributes.ac = { value: Number.parseInt(acMatch[1], 10), details: acMatch[2]?.trim() || null };
+  }
+
+  const saves = rest.join("; ");
+  const fortitude = saves.match(/\bFort\s+([+-]\d+)(?:\s*\(([^)]*)\))?/);
+  const reflex = saves.match(/\bRef\s+([+-]\d+)(?:\s*\(([^)]*)\))?/);
+  const will = saves.match(/\bWill\s+([+-]\d+)(?:\s*\(([^)]*)\))?/);
+  if (!fortitude || !reflex || !will) return;
+
+  // Notes after the saves ("+1 status to all saves vs. magic") have no all-saves field, so they ride on Will.
+  const general = rest.filter((part) => !/\b(?:Fort|Ref|Will)\s+[+-]\d/.test(part)).join("; ");
+  fields.attributes.saves = {
+    fortitude: { value: parseModifier(fortitude[1]), details: fortitude[2]?.trim() || null },
+    reflex: { value: parseModifier(reflex[1]), details: reflex[2]?.trim() || null },
+    will: { value: parseModifier(will[1]), details: [will[2]?.trim(), general].filter(Boolean).join("; ") || null },
+  };
+}
+
+function parseExceptions(value: string): { head: string; exceptions: string[] | null; doubleVs: string[] | null } {
+  const toList = (list: string | undefined): string[] | null =>
+    list ? list.split(/,|\bor\b|\band\b/).map((entry) => toSlug(entry)).filter(Boolean) : null;
+  return {
+    head: value.replace(/\([^)]*\)/g, "").trim(),
+    exceptions: toList(value.match(/\(except\s+([^)]*)\)/i)?.[1]),
+    doubleVs: toList(value.match(/\(double vs\.?\s+([^)]*)\)/i)?.[1]),
+  };
+}
+
+function parseImmunities(value: string): ActorImmunityData[] {
+  return splitTopLevel(value)
+    .map((entry) => {
+      const { head, exceptions } = parseExceptions(entry);
+      return { type: toSlug(head), exceptions, details: null };
+    })
+    .filter((entry) => entry.type);
+}
+
+function parseValuedAdjustments(value: string): ActorResistanceData[] {
+  return splitTopLevel(value)
+    .map((entry): ActorResistanceData | null => {
+      const { head, exceptions, doubleVs } = parseExceptions(entry);
+      const match = head.match(/^(.+?)\s+(\d+)$/);
+      return match
+        ? { type: toSlug(match[1]), value: Number.parseInt(match[2], 10), exceptions, doubleVs, details: null }
+        : null;
+    })
+    .filter((entry): entry is ActorResistanceData => Boolean(entry?.type));
+}
+
+function parseAdjustments(parts: readonly string[], fields: ParsedStatBlockFields): void {
+  for (const part of parts) {
+    const match = part.match(/^(Immunities|Weaknesses|Resistances)\s+(.*)$/);
+    if (!match) continue;
+    if (match[1] === "Immunities") {
+      fields.attributes.immunities = parseImmunities(match[2]);
+    } else if (match[1] === "Weaknesses") {
+      fields.attributes.weaknesses = parseValuedAdjustments(match[2])
+        .map(({ type, value, exceptions, details }): ActorWeaknessData => ({ type, value, exceptions, details }));
+    } else {
+      fields.attributes.resistances = parseValuedAdjustments(match[2]);
+    }
+  }
+}
+
+function parseHitPoints(text: string, fields: ParsedStatBlockFields): void {
+  const [hpPart = "", ...rest] = splitTopLevel(text, ";");
+  const hpMatch = hpPart.match(/^HP\s+(\d+)\s*,?\s*(.*)$/);
+  if (hpMatch) {
+    const value = Number.parseInt(hpMatch[1], 10);
+    fields.attributes.hp = { value, max: value, temp: 0, details: hpMatch[2].trim() || null };
+  }
+  parseAdjustments(rest, fields);
+}
+
+function parseSpeed(text: string, fields: ParsedStatBlockFields): void {
+  const { head, details } = splitDetails(text.replace(/^Speed\s+/, ""));
+  let land = 0;
+  const other: NonNullable<ActorAttributeBlock["speed"]["other"]> = [];
+  for (const entry of splitTopLevel(head)) {
+    const match = entry.match(/^(?:([a-z][a-z ]*?)\s+)?(\d+)\s*(?:feet|ft\.?)\s*(?:\((.*)\))?$/i);
+    if (!match) continue;
+    const type = match[1]?.trim().toLowerCase();
+    const value = Number.parseInt(match[2], 10);
+    if (!type || type === "land") {
+      land = value;
+    } else {
+      other.push({ type, value, details: match[3]?.trim() || null });
+    }
+  }
+  fields.attributes.speed = { value: land, details, other };
+}
+
+/** `reach 10 feet` → `reach-10`, `deadly d10` → `deadly-d10`, matching PF2E trait keys. */
+function parseStrikeTrait(trait: string): string {
+  return toSlug(trait.replace(/\b(?:feet|foot|ft\.?)\b/gi, ""));
+}
+
+const STRIKE_PATTERN = new RegExp(
+  `^(Melee|Ranged)\\s+(?:${GLYPH_PATTERN}\\s+)?(.+?)\\s+([+-]\\d+)\\s*(?:\\[[^\\]]*\\])?\\s*(?:\\(([^)]*)\\))?\\s*,?\\s*(?:Damage|Effect)\\s+(.*)$`,
+);
+
+function parseStrike(text: string): ActorStrikeData | null {
+  const match = text.match(STRIKE_PATTERN);
+  if (!match) return null;
+
+  const damage: ActorStrikeData["damage"] = [];
+  const effects: string[] = [];
+  for (const part of match[5].split(/\s+plus\s+/i)) {
+    const damageMatch = part.trim().match(/^(\d+d\d+(?:\s*[+-]\s*\d+)?|\d+)\s+(.+)$/);
+    if (damageMatch) {
+      damage.push({ formula: damageMatch[1].replace(/\s+/g, ""), damageType: damageMatch[2].trim().toLowerCase(), notes: null });
+    } else {
+      effects.push(...part.split(/\s+and\s+/).map((effect) => effect.trim()).filter(Boolean));
+    }
+  }
+
+  return {
+    name: match[2].trim(),
+    type: match[1] === "Melee" ? "melee" : "ranged",
+    attackBonus: parseModifier(match[3]),
+    traits: match[4] ? splitTopLevel(match[4]).map(parseStrikeTrait).filter(Boolean) : [],
+    damage,
+    effects,
+    description: null,
+  };
+}
+
+function extractAbilityField(text: string, label: string): { value: string | null; rest: string } {
+  const pattern = new RegExp(`(?:^|\\s|;)${label}\\s+(.+?)(?=[;.]?\\s+(?:Frequency|Requirements?|Trigger|Effect)\\s|$)`);
+  const match = text.match(pattern);
+  if (!match) {
+    return { value: null, rest: text };
+  }
+  return {
+    value: match[1].trim().replace(/[;.]$/, ""),
+    rest: text.replace(match[0], " ").trim().replace(/^[;.]\s*/, ""),
+  };
+}
+
+function matchAbility(text: string): { name: string; glyph?: string; traits?: string; body: string } | null {
+  const glyph = text.match(GLYPH_ABILITY);
+  if (glyph) return { name: glyph[1], glyph: glyph[2], traits: glyph[3], body: glyph[4] };
+  const traits = text.match(TRAIT_ABILITY);
+  if (traits) return { name: traits[1], traits: traits[2], body: traits[3] };
+  // Passive abilities have neither; the name is the Title Case run before the first sentence.
+  const passive = text.match(PASSIVE_ABILITY);
+  return passive ? { name: passive[1], body: passive[2] } : null;
+}
+
+function parseAbility(text: string): ActorActionData | null {
+  const match = matchAbility(text);
+  if (!match) return null;
+
+  const frequency = extractAbilityField(match.body.trim(), "Frequency");
+  const requirements = extractAbilityField(frequency.rest, "Requirements?");
+  const trigger = extractAbilityField(requirements.rest, "Trigger");
+
+  return {
+    name: match.name.trim(),
+    actionCost: match.glyph ? GLYPH_COSTS[match.glyph] : "passive",
+    description: trigger.rest.replace(/^Effect\s+/, "").trim(),
+    traits: match.traits ? splitTopLevel(match.traits).map(toSlug).filter(Boolean) : [],
+    requirements: requirements.value,
+    trigger: trigger.value,
+    frequency: frequency.value,
+  };
+}
+
+function parseSpellRank(label: string): number | null {
+  const match = label.match(/(\d+)(?:st|nd|rd|th)/i);
+  return match ? Number.parseInt(match[1], 10) : null;
+}
+
+function parseSpellcasting(text: string, level: number): ActorSpellcastingEntryData | null {
+  const [header = "", ...groups] = splitTopLevel(text, ";");
+  const words = header.split(/\s+/);
+  const kindIndex = words.findIndex((word) => word === "Spells" || word === "Rituals");
+  const labelWords = words.slice(0, kindIndex).map((word) => word.toLowerCase());
+
+  const tradition = labelWords.find((word) => TRADITIONS.has(word))
+    ?? labelWords.map((word) => FOCUS_TRADITIONS[word]).find(Boolean);
+  if (!tradition) return null;
+
+  const castingType: SpellcastingCategory = words[kindIndex] === "Rituals"
+    ? "ritual"
+    : (["prepared", "spontaneous", "innate"] as const).find((type) => labelWords.includes(type)) ?? "focus";
+
+  const spells: ActorSpellData[] = [];
+  for (const group of groups) {
+    const groupMatch = group.match(/^(Cantrips\s*\(([^)]*)\)|Constant\s*\(([^)]*)\)|\d+(?:st|nd|rd|th))\s+(.*)$/i);
+    if (!groupMatch) return null;
+    const rank = parseSpellRank(groupMatch[2] ?? groupMatch[3] ?? groupMatch[1]) ?? Math.max(1, Math.ceil(level / 2));
+    for (const spell of splitTopLevel(groupMatch[4])) {
+      const name = spell.replace(/\([^)]*\)/g, "").trim();
+      const notes = spell.match(/\(([^)]*)\)/)?.[1]?.trim();
+      if (name) {
+        spells.push({ level: rank, name, description: notes || null, tradition });
+      }
+    }
+  }
+
+  if (!spells.length) return null;
+  const dc = header.match(/\bDC\s+(\d+)/);
+  const attack = header.match(/\battack\s+([+-]\d+)/i);
+  return {
+    name: words.slice(0, kindIndex).join(" "),
+    tradition,
+    castingType,
+    saveDC: dc ? Number.parseInt(dc[1], 10) : null,
+    attackBonus: attack ? parseModifier(attack[1]) : null,
+    notes: null,
+    spells,
+  };
+}
+
+/**
+ * Reads a pasted PF2E stat block (Archives of Nethys or PDF copy) into canonical actor fields without any model call.
+ * Returns null when the text has no `Creature N` header. Anything the parser cannot read is listed in `missing`, so
+ * callers can ask the model for just those fields and keep the published numbers exact.
+ */
+export function parseStatBlock(text: string): ParsedStatBlock | null {
+  const header = parseHeader(normalizeText(text).split("\n"));
+  if (!header) {
+    return null;
+  }
+
+  const fields: ParsedStatBlockFields = {
+    name: header.name,
+    slug: toSlug(header.name),
+    level: header.level,
+    actorType: "npc",
+    attributes: {},
+  };
+  const missing = new Set<string>();
+
+  const firstStat = header.rest.findIndex((line) => KEYWORD_PATTERN.test(line));
+  parseTraitLine((firstStat < 0 ? header.rest : header.rest.slice(0, firstStat)).join(" "), fields);
+
+  const strikes: ActorStrikeData[] = [];
+  const actions: ActorActionData[] = [];
+  const spellcasting: ActorSpellcastingEntryData[] = [];
+  let section: StatBlockSection = "top";
+
+  for (const statement of groupStatements(firstStat < 0 ? [] : header.rest.slice(firstStat))) {
+    if (statement.startsWith("Perception")) {
+      parsePerception(statement, fields);
+    } else if (statement.startsWith("Languages")) {
+      // Language notes such as telepathy have no canonical field, matching what the exporter keeps.
+      fields.languages = splitTopLevel(splitDetails(statement.replace(/^Languages\s+/, "")).head)
+        .map((language) => language.toLowerCase());
+    } else if (statement.startsWith("Skills")) {
+      parseSkills(statement, fields);
+    } else if (/^Str\s/.test(statement)) {
+      parseAbilities(statement, fields);
+    } else if (statement.startsWith("Items")) {
+      fields.inventory = splitTopLevel(statement.replace(/^Items\s+/, ""))
+        .map((name) => ({ name, itemType: "equipment" as const }));
+    } else if (/^AC\s/.test(statement)) {
+      section = "defense";
+      parseDefenses(statement, fields);
+    } else if (/^HP\s/.test(statement)) {
+      parseHitPoints(statement, fields);
+    } else if (/^(?:Immunities|Weaknesses|Resistances)\s/.test(statement)) {
+      parseAdjustments(splitTopLevel(statement, ";"), fields);
+    } else if (statement.startsWith("Speed")) {
+      section = "offense";
+      parseSpeed(statement, fields);
+    } else if (/^(?:Melee|Ranged)\s/.test(statement)) {
+      const strike = parseStrike(statement);
+      if (strike) strikes.push(strike);
+      else missing.add("strikes");
+    } else if (SPELLCASTING_PATTERN.test(statement)) {
+      const entry = parseSpellcasting(statement, header.level);
+      if (entry) spellcasting.push(entry);
+      else missing.add("spellcasting");
+    } else {
+      const action = parseAbility(statement);
+      if (action) actions.push(action);
+      else if (section !== "top") missing.add("actions");
+    }
+  }
+
+  fields.strikes = strikes;
+  fields.actions = actions;
+  fields.skills ??= [];
+  fields.languages ??= [];
+  fields.rarity ??= "common";
+  if (spellcasting.length) {
+    fields.spellcasting = spellcasting;
+  }
+
+  for (const path of REQUIRED_PATHS) {
+    const [root, key] = path.split(".");
+    const value = key
+      ? (fields.attributes as Record<string, unknown>)[key]
+      : (fields as Record<string, unknown>)[root];
+    if (value === undefined) {
+      missing.add(path);
+    }
+  }
+
+  return { fields, missing: [...missing] };
+}
+
+/**
+ * Lays parsed fields over a model draft so the model can only add to a stat block, never change what it printed.
+ * Attribute blocks merge one level deep, leaving e.g. model-written IWR in place when the text had none.
+ * Fields at or above one of `keepPaths` are left to the draft, so a repair can fix a parsed value that failed
+ * validation instead of having it laid back over the fix.
+ */
+export function applyStatBlockFields(
+  draft: unknown,
+  statBlock: ParsedStatBlock,
+  keepPaths: readonly string[] = [],
+): Record<string, unknown> {
+  const base = draft && typeof draft === "object" && !Array.isArray(draft) ? draft as Record<string, unknown> : {};
+  const baseAttributes = base.attributes && typeof base.attributes === "object" ? base.attributes as Record<string, unknown> : {};
+  const isKept = (path: string): boolean =>
+    keepPaths.some((keepPath) => keepPath === path || keepPath.startsWith(`${path}.`));
+  const { attributes, ...fields } = statBlock.fields;
+  return {
+    ...base,
+    ...Object.fromEntries(Object.entries(fields).filter(([key]) => !isKept(key))),
+    attributes: {
+      ...baseAttributes,
+      ...Object.fromEntries(Object.entries(attributes).filter(([key]) => !isKept(`attributes.${key}`))),
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { CONSTANTS } from "../constants";
+import { waitForDialog } from "../foundry/dialog";
+import { renderApplicationTemplate } from "../foundry/templates";
+import { applyActorBalanceCorrections, checkActorBalance, readBalanceReport } from "../flows/creature-balance";
+import type { CreatureBalanceCheck, CreatureBalanceReport } from "../validation/creature-balance";
+
+const BUTTON_CLASS = "handy-dandy-balance-button" as const;
+const BUTTON_ICON_CLASS = "fas fa-scale-balanced" as const;
+const BUTTON_LABEL = "Balance" as const;
+const BUTTON_TITLE = "Compare this NPC with the Gamemastery Guide creature benchmarks" as const;
+const CREATURE_BALANCE_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/creature-balance-report.hbs`;
+
+function formatRange(check: CreatureBalanceCheck): string {
+  return check.expected.min === check.expected.max
+    ? String(check.expected.max)
+    : `${check.expected.min}–${check.expected.max}`;
+}
+
+function formatTier(check: CreatureBalanceCheck): string {
+  switch (check.status) {
+    case "above":
+      return `above ${check.tier}`;
+    case "below":
+      return `below ${check.tier}`;
+    default:
+      return check.tier;
+  }
+}
+
+async function showCreatureBalanceDialog(
+  actor: Actor,
+  report: CreatureBalanceReport,
+  corrections: CreatureBalanceReport["corrections"],
+): Promise<"apply" | null> {
+  const correctable = report.checks.some((check) => check.corrected !== null);
+  const content = await renderApplicationTemplate(CREATURE_BALANCE_TEMPLATE, {
+    actorName: actor.name ?? "",
+    level: report.level,
+    flaggedCount: report.flaggedCount,
+    checks: report.checks.map((check) => ({
+      label: check.label,
+      value: Number.isInteger(check.value) ? check.value : check.value.toFixed(1),
+      status: check.status,
+      tierLabel: formatTier(check),
+      expected: formatRange(check),
+      corrected: check.corrected === null ? null : String(check.corrected),
+    })),
+    corrections,
+  });
+
+  return await waitForDialog<"apply">({
+    title: `${CONSTANTS.MODULE_NAME} | Balance: ${actor.name ?? ""}`,
+    content,
+    width: 640,
+    resizable: true,
+    buttons: [
+      ...(correctable && actor.isOwner
+        ? [{
+          action: "apply",
+          label: "Apply Corrections",
+          icon: "fas fa-wand-magic-sparkles",
+          callback: () => "apply" as const,
+        }]
+        : []),
+      {
+        action: "close",
+        label: "Close",
+        icon: "fas fa-times",
+        default: true,
+        callback: () => null,
+      },
+    ],
+    closeResult: null,
+  });
+}
+
+async function runCreatureBalanceCheck(actor: Actor): Promise<void> {
+  try {
+    const previous = readBalanceReport(actor);
+    const report = await checkActorBalance(actor);
+    const action = await showCreatureBalanceDialog(actor, report, previous?.corrections ?? []);
+    if (action !== "apply") {
+      return;
+    }
+
+    const corrected = await applyActorBalanceCorrections(actor);
+    const remaining = corrected.checks.filter((check) => check.status !== "ok").length;
+    ui.notifications?.info(
+      `${CONSTANTS.MODULE_NAME} | Corrected ${corrected.corrections.length} statistic(s) on ${actor.name}`
+        + (remaining ? `; ${remaining} still need manual review.` : "."),
+    );
+    actor.sheet?.render(true);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Balance check failed: ${message}`);
+    console.error(`${CONSTANTS.MODULE_NAME} | Balance check failed`, error);
+  }
+}
+
+export function registerCreatureBalanceButton(): void {
+  (Hooks.on as (hook: string, fn: (app: ActorSheet, html: JQuery<HTMLElement>) => void) => number)(
+    "renderActorSheetPF2e",
+    (app: ActorSheet, html: JQuery<HTMLElement>) => {
+      const actor = app.actor;
+      if (!(actor instanceof Actor)) return;
+      if ((actor.type as unknown as string) !== "npc") return;
+
+      const user = game.user;
+      if (!user) return;
+      if (!user.isGM && !actor.isOwner) return;
+
+      const windowHeader = html.find(".window-header");
+      if (windowHeader.length === 0) return;
+      windowHeader.find(`.${BUTTON_CLASS}`).remove();
+
+      const closeButton = windowHeader.find(".close");
+      const button = $(
+        `<a class="${BUTTON_CLASS}" title="${BUTTON_TITLE}" aria-label="${BUTTON_TITLE}">
+          <i class="${BUTTON_ICON_CLASS}"></i>
+          <span>${BUTTON_LABEL}</span>
+        </a>`,
+      );
+
+      if (closeButton.length > 0) {
+        closeButton.before(button);
+      } else {
+        windowHeader.append(button);
+      }
+
+      button.on("click", (event) => {
+        event.preventDefault();
+        void runCreatureBalanceCheck(actor);
+      });
+    },
+  );
+}
@@ -4,6 +4,7 @@ import { generateStructuredOutput } from "../generation/pipeline";
 import type { JsonSchemaDefinition } from "../openrouter/client";
 import { repairPf2eInlineMacros, toPf2eRichText } from "../text/pf2e-rich-text";
 import { runItemRemixWithRequest } from "../flows/item-remix";
+import { recordRevision } from "../flows/revision-history";
 import { waitForDialog } from "../foundry/dialog";
 
 const BUTTON_CLASS = "handy-dandy-item-remix-button" as const;
@@ -442,6 +443,7 @@ export function registerItemDescriptionFormatFixButton(): void {
             const updateData: Record<string, unknown> = {
               "system.description.value": repaired,
             };
+            await recordRevision(item, "Description format fix");
             await item.update(updateData);
             ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Updated description formatting for ${item.name}.`);
             return;
@@ -490,6 +492,7 @@ export function registerItemDescriptionFormatFixButton(): void {
             openRouterClient,
             prompt,
             DESCRIPTION_REWRITE_SCHEMA,
+            { usageFlow: "format" },
           );
 
           const candidate = typeof response.description === "string"
@@ -512,6 +515,7 @@ export function registerItemDescriptionFormatFixButton(): void {
           const updateData: Record<string, unknown> = {
             "system.description.value": remixed,
           };
+          await recordRevision(item, "Description remix");
           await item.update(updateData);
           ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Remixed description for ${item.name}.`);
         } catch (error) {
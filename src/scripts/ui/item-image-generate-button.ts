@@ -1,5 +1,6 @@
 import { CONSTANTS } from "../constants";
 import { buildItemImagePrompt, generateItemImage } from "../generation/token-image";
+import { recordRevision } from "../flows/revision-history";
 import { promptImageGenerationRequest } from "./image-generation-dialog";
 
 const BUTTON_CLASS = "handy-dandy-item-image-generate" as const;
@@ -7,10 +8,14 @@ const PREVIEW_BUTTON_CLASS = "handy-dandy-item-image-preview" as const;
 const STACK_CLASS = "handy-dandy-item-image-stack" as const;
 const BUTTON_ICON = "fas fa-palette" as const;
 const BUTTON_TEXT = "Generate Image" as const;
+const CANCEL_BUTTON_TEXT = "Cancel" as const;
 const PREVIEW_BUTTON_ICON = "fas fa-image" as const;
 const PREVIEW_BUTTON_TEXT = "Preview Image" as const;
 const PREVIEW_BUTTON_TITLE = "Preview current item image" as const;
 
+// Keyed by item UUID so the cancel click still finds the request after the sheet re-renders its buttons.
+const activeGenerations = new Map<string, AbortController>();
+
 function toSlug(value: string): string {
   return value
     .trim()
@@ -30,9 +35,9 @@ function stripHtml(value: string): string {
 }
 
 function setBusy(button: JQuery<HTMLElement>, busy: boolean): void {
-  button.prop("disabled", busy);
   const icon = button.find("i");
   icon.attr("class", busy ? "fas fa-spinner fa-spin" : BUTTON_ICON);
+  button.find("span").text(busy ? CANCEL_BUTTON_TEXT : BUTTON_TEXT);
 }
 
 function showItemImagePreview(item: Item): void {
@@ -124,6 +129,12 @@ export function registerItemImageGenerateButton(): void {
       event.preventDefault();
       event.stopPropagation();
 
+      const pending = activeGenerations.get(item.uuid);
+      if (pending) {
+        pending.abort();
+        return;
+      }
+
       const openRouterClient = game.handyDandy?.openRouterClient;
       if (!openRouterClient || typeof openRouterClient.generateImage !== "function") {
         ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | AI image generation is unavailable.`);
@@ -153,6 +164,8 @@ export function registerItemImageGenerateButton(): void {
           return;
         }
 
+        const abortController = new AbortController();
+        activeGenerations.set(item.uuid, abortController);
         setBusy(button, true);
         try {
           const imagePath = await generateItemImage(openRouterClient, {
@@ -162,15 +175,24 @@ export function registerItemImageGenerateButton(): void {
             promptOverride: request.prompt,
             referenceImage: request.referenceImage,
             existingImagePath: item.img,
+            signal: abortController.signal,
           });
 
+          abortController.signal.throwIfAborted();
+          await recordRevision(item, "Item image generation");
           await item.update({ img: imagePath });
           ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Generated image for ${itemName}.`);
         } catch (error) {
+          if (abortController.signal.aborted) {
+            ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Image generation for ${itemName} cancelled.`);
+            return;
+          }
+
           const message = error instanceof Error ? error.message : String(error);
           ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Item image generation failed: ${message}`);
           console.error(`${CONSTANTS.MODULE_NAME} | Item image generation failed`, error);
         } finally {
+          activeGenerations.delete(item.uuid);
           setBusy(button, false);
         }
       })();
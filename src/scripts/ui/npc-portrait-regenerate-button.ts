@@ -1,10 +1,15 @@
 import { CONSTANTS } from "../constants";
 import { buildTransparentTokenPrompt, generateTransparentTokenImage } from "../generation/token-image";
+import { recordRevision } from "../flows/revision-history";
 import { promptImageGenerationRequest } from "./image-generation-dialog";
 
 const BUTTON_CLASS = "handy-dandy-npc-portrait-regenerate" as const;
 const BUTTON_ICON_CLASS = "fas fa-wand-magic-sparkles" as const;
 const BUTTON_TITLE = "Generate portrait image" as const;
+const CANCEL_TITLE = "Cancel portrait generation" as const;
+
+// Keyed by actor UUID so the cancel click still finds the request after the sheet re-renders its buttons.
+const activeGenerations = new Map<string, AbortController>();
 
 function toSlug(value: string): string {
   return value
@@ -27,7 +32,7 @@ function stripHtml(value: string): string {
 function setBusy(button: JQuery<HTMLElement>, busy: boolean): void {
   const icon = button.find("i");
   icon.attr("class", busy ? "fas fa-spinner fa-spin" : BUTTON_ICON_CLASS);
-  button.css("pointer-events", busy ? "none" : "auto");
+  button.attr({ title: busy ? CANCEL_TITLE : BUTTON_TITLE, "aria-label": busy ? CANCEL_TITLE : BUTTON_TITLE });
   button.css("opacity", busy ? "0.75" : "1");
 }
 
@@ -72,6 +77,8 @@ async function regenerateNpcPortrait(actor: Actor, button: JQuery<HTMLElement>):
     return;
   }
 
+  const abortController = new AbortController();
+  activeGenerations.set(actor.uuid, abortController);
   setBusy(button, true);
   try {
     const prompt = request.prompt.trim() || defaultPrompt;
@@ -84,18 +91,27 @@ async function regenerateNpcPortrait(actor: Actor, button: JQuery<HTMLElement>):
       referenceImage: request.referenceImage,
       imageCategory: "actor",
       existingImagePath: actor.img,
+      signal: abortController.signal,
     });
 
+    abortController.signal.throwIfAborted();
     const updateData: Record<string, unknown> = { img: imagePath };
     updateData["prototypeToken.texture.src"] = imagePath;
+    await recordRevision(actor, "Portrait regeneration");
     await actor.update(updateData);
 
     ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Regenerated portrait for ${actorName}.`);
   } catch (error) {
+    if (abortController.signal.aborted) {
+      ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Portrait generation for ${actorName} cancelled.`);
+      return;
+    }
+
     const message = error instanceof Error ? error.message : String(error);
     ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Portrait generation failed: ${message}`);
     console.error(`${CONSTANTS.MODULE_NAME} | Portrait generation failed`, error);
   } finally {
+    activeGenerations.delete(actor.uuid);
     setBusy(button, false);
   }
 }
@@ -143,6 +159,11 @@ export function registerNpcPortraitRegenerateButton(): void {
     button.on("click", (event) => {
       event.preventDefault();
       event.stopPropagation();
+      const pending = activeGenerations.get(actor.uuid);
+      if (pending) {
+        pending.abort();
+        return;
+      }
       void regenerateNpcPortrait(actor, button);
     });
 
@@ -1,6 +1,7 @@
 import { CONSTANTS } from "../constants";
 import { waitForDialog } from "../foundry/dialog";
 import { renderApplicationTemplate } from "../foundry/templates";
+import { recordRevision } from "../flows/revision-history";
 
 const BUTTON_CLASS = "handy-dandy-npc-rule-elements-button" as const;
 const BUTTON_ICON_CLASS = "fas fa-code" as const;
@@ -375,6 +376,7 @@ export function registerNpcRuleElementsButton(): void {
             return;
           }
 
+          await recordRevision(actor, "Rule element generation");
           const targetItem = await resolveRuleElementTargetItem(actor, result.targetKey);
           await targetItem.update({
             "system.rules": result.rules,
@@ -0,0 +1,92 @@
+import { CONSTANTS } from "../constants";
+import { waitForDialog } from "../foundry/dialog";
+import { renderApplicationTemplate } from "../foundry/templates";
+import type { RemixChange } from "../flows/remix-diff";
+
+const REMIX_REVIEW_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/remix-review-dialog.hbs`;
+
+const CHANGE_KIND_LABELS: Record<RemixChange["kind"], string> = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Changed",
+};
+
+interface ShowRemixReviewDialogOptions {
+  title: string;
+  subtitle?: string;
+  changes: readonly RemixChange[];
+  notes?: string[];
+}
+
+/**
+ * Lets the GM accept or reject each proposed change before a remix is written. Resolves with the accepted change ids,
+ * or null when the remix is discarded.
+ */
+export async function showRemixReviewDialog(options: ShowRemixReviewDialogOptions): Promise<Set<string> | null> {
+  const groups = new Map<string, RemixChange[]>();
+  for (const change of options.changes) {
+    const group = groups.get(change.section) ?? [];
+    group.push(change);
+    groups.set(change.section, group);
+  }
+
+  const content = await renderApplicationTemplate(REMIX_REVIEW_TEMPLATE, {
+    subtitle: options.subtitle ?? "",
+    changeCount: options.changes.length,
+    groups: [...groups.values()].map((changes) => ({
+      label: changes[0].label.split(" › ")[0],
+      changes: changes.map((change) => ({
+        id: change.id,
+        label: change.label.split(" › ").slice(1).join(" › ") || change.label,
+        kind: change.kind,
+        kindLabel: CHANGE_KIND_LABELS[change.kind],
+        before: change.before || "—",
+        after: change.after || "—",
+      })),
+    })),
+    notes: options.notes ?? [],
+  });
+
+  return await waitForDialog<Set<string>>({
+    title: options.title,
+    content,
+    width: 860,
+    resizable: true,
+    render: (root) => {
+      const boxes = Array.from(root.querySelectorAll<HTMLInputElement>("input[data-remix-change]"));
+      for (const toggle of root.querySelectorAll<HTMLButtonElement>("[data-remix-select]")) {
+        toggle.addEventListener("click", (event) => {
+          event.preventDefault();
+          const checked = toggle.dataset.remixSelect === "all";
+          for (const box of boxes) {
+            box.checked = checked;
+          }
+        });
+      }
+    },
+    buttons: [
+      {
+        action: "apply",
+        icon: '<i class="fas fa-check"></i>',
+        label: "Apply Selected",
+        default: true,
+        callback: ({ root }) => {
+          const accepted = new Set<string>();
+          for (const box of root.querySelectorAll<HTMLInputElement>("input[data-remix-change]")) {
+            if (box.checked) {
+              accepted.add(box.value);
+            }
+          }
+          return accepted;
+        },
+      },
+      {
+        action: "discard",
+        icon: '<i class="fas fa-times"></i>',
+        label: "Discard Remix",
+        callback: () => null,
+      },
+    ],
+    closeResult: null,
+  });
+}
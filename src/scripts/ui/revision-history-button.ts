@@ -0,0 +1,197 @@
+import { CONSTANTS } from "../constants";
+import { openDialog } from "../foundry/dialog";
+import { renderApplicationTemplate } from "../foundry/templates";
+import { diffCanonicalDocuments, type RemixChange } from "../flows/remix-diff";
+import {
+  REVISION_LIMIT,
+  deleteRevision,
+  readRevisions,
+  restoreRevision,
+  type DocumentRevision,
+  type RevisionDocument,
+} from "../flows/revision-history";
+import { fromFoundryActor, fromFoundryItem, type FoundryActor, type FoundryItem } from "../mappers/export";
+
+const BUTTON_CLASS = "handy-dandy-revisions-button" as const;
+const BUTTON_ICON_CLASS = "fas fa-history" as const;
+const BUTTON_LABEL = "Revisions" as const;
+const BUTTON_TITLE = "Preview or restore versions saved before Handy Dandy AI changes" as const;
+const REVISION_HISTORY_TEMPLATE = `${CONSTANTS.TEMPLATE_PATH}/revision-history-dialog.hbs`;
+
+type SheetRenderHook = (app: { document?: ClientDocument }, html: JQuery<HTMLElement>) => void;
+
+function toCanonical(document: RevisionDocument, source: unknown): object {
+  return document instanceof Actor
+    ? fromFoundryActor(source as FoundryActor)
+    : fromFoundryItem(source as FoundryItem);
+}
+
+function diffRevision(document: RevisionDocument, revision: DocumentRevision): RemixChange[] {
+  return diffCanonicalDocuments(
+    toCanonical(document, document.toObject()),
+    toCanonical(document, revision.source),
+  );
+}
+
+function renderRevisionPreview(container: HTMLElement, document: RevisionDocument, revision: DocumentRevision): void {
+  container.replaceChildren();
+  const heading = window.document.createElement("p");
+  heading.className = "notes";
+  container.append(heading);
+
+  let changes: RemixChange[];
+  try {
+    changes = diffRevision(document, revision);
+  } catch (error) {
+    console.warn(`${CONSTANTS.MODULE_NAME} | Failed to preview revision`, error);
+    heading.textContent = "Preview is unavailable for this revision.";
+    return;
+  }
+
+  if (!changes.length) {
+    heading.textContent = "This revision matches the current sheet.";
+    return;
+  }
+
+  heading.textContent = `Restoring would make ${changes.length} change(s):`;
+  const table = window.document.createElement("table");
+  table.className = "handy-dandy-remix-summary-table";
+  for (const change of changes) {
+    const row = table.insertRow();
+    row.className = `is-${change.kind}`;
+    for (const text of [change.label, change.before || "—", change.after || "—"]) {
+      row.insertCell().textContent = text;
+    }
+  }
+  container.append(table);
+}
+
+async function buildRevisionHistoryContent(document: RevisionDocument): Promise<string> {
+  return await renderApplicationTemplate(REVISION_HISTORY_TEMPLATE, {
+    documentName: document.name ?? "",
+    limit: REVISION_LIMIT,
+    revisions: readRevisions(document).map((revision) => ({
+      id: revision.id,
+      label: revision.label,
+      userName: revision.userName,
+      timestamp: new Date(revision.timestamp).toLocaleString(),
+    })),
+  });
+}
+
+export async function showRevisionHistoryDialog(document: RevisionDocument): Promise<void> {
+  let busy = false;
+
+  const handle = await openDialog({
+    title: `${CONSTANTS.MODULE_NAME} | Revisions: ${document.name ?? ""}`,
+    content: await buildRevisionHistoryContent(document),
+    width: 760,
+    resizable: true,
+    render: (root) => {
+      const preview = root.querySelector<HTMLElement>("[data-revision-preview]");
+      root.addEventListener("click", (event) => {
+        const button = (event.target as HTMLElement | null)?.closest<HTMLButtonElement>("[data-revision-action]");
+        const revisionId = button?.closest<HTMLElement>("[data-revision-id]")?.dataset.revisionId;
+        if (!button || !revisionId || busy) {
+          return;
+        }
+
+        event.preventDefault();
+        const revision = readRevisions(document).find((entry) => entry.id === revisionId);
+        if (!revision) {
+          ui.notifications?.warn(`${CONSTANTS.MODULE_NAME} | That revision no longer exists.`);
+          return;
+        }
+
+        switch (button.dataset.revisionAction) {
+          case "preview":
+            if (preview) {
+              renderRevisionPreview(preview, document, revision);
+            }
+            return;
+          case "restore":
+            busy = true;
+            void restoreRevision(document, revision.id)
+              .then(async () => {
+                ui.notifications?.info(`${CONSTANTS.MODULE_NAME} | Restored ${document.name} to "${revision.label}".`);
+                await handle.close();
+                document.sheet?.render(true);
+              })
+              .catch((error: unknown) => {
+                const message = error instanceof Error ? error.message : String(error);
+                ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Failed to restore revision: ${message}`);
+                console.error(`${CONSTANTS.MODULE_NAME} | Failed to restore revision`, error);
+              })
+              .finally(() => {
+                busy = false;
+              });
+            return;
+          case "delete":
+            busy = true;
+            void deleteRevision(document, revision.id)
+              .then(() => {
+                button.closest("[data-revision-id]")?.remove();
+                preview?.replaceChildren();
+              })
+              .catch((error: unknown) => {
+                const message = error instanceof Error ? error.message : String(error);
+                ui.notifications?.error(`${CONSTANTS.MODULE_NAME} | Failed to delete revision: ${message}`);
+                console.error(`${CONSTANTS.MODULE_NAME} | Failed to delete revision`, error);
+              })
+              .finally(() => {
+                busy = false;
+              });
+            return;
+          default:
+            return;
+        }
+      });
+    },
+  });
+}
+
+function registerSheetHook(hook: string, resolve: (app: { document?: ClientDocument }) => RevisionDocument | null): void {
+  (Hooks.on as (hook: string, fn: SheetRenderHook) => number)(hook, (app, html) => {
+    const document = resolve(app);
+    if (!document) return;
+
+    const user = game.user;
+    if (!user) return;
+    if (!user.isGM && !document.isOwner) return;
+
+    const windowHeader = html.find(".window-header");
+    if (windowHeader.length === 0) return;
+    windowHeader.find(`.${BUTTON_CLASS}`).remove();
+    if (!readRevisions(document).length) return;
+
+    const closeButton = windowHeader.find(".close");
+    const button = $(
+      `<a class="${BUTTON_CLASS}" title="${BUTTON_TITLE}" aria-label="${BUTTON_TITLE}">
+        <i class="${BUTTON_ICON_CLASS}"></i>
+        <span>${BUTTON_LABEL}</span>
+      </a>`,
+    );
+
+    if (closeButton.length > 0) {
+      closeButton.before(button);
+    } else {
+      windowHeader.append(button);
+    }
+
+    button.on("click", (event) => {
+      event.preventDefault();
+      void showRevisionHistoryDialog(document);
+    });
+  });
+}
+
+export function registerRevisionHistoryButtons(): void {
+  registerSheetHook("renderActorSheetPF2e", (app) => {
+    const actor = (app as { actor?: unknown }).actor ?? app.document;
+    return actor instanceof Actor ? actor : null;
+  });
+  registerSheetHook("renderItemSheetPF2e", (app) => {
+    const item = (app as { item?: unknown }).item ?? app.document;
+    return item instanceof Item ? item : null;
+  });
+}
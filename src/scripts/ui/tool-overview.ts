@@ -1,8 +1,16 @@
 import { CONSTANTS } from "../constants";
 import { runPromptWorkbenchFlow } from "../flows/prompt-workbench-ui";
+import { runPromptWorkbenchBatchFlow } from "../flows/prompt-workbench-batch-ui";
 import { runRuleElementGeneratorFlow } from "../flows/rule-element-generator-ui";
 import { runOpenRouterCreditsFlow } from "../flows/openrouter-credits-ui";
+import { runUsageLedgerFlow } from "../flows/usage-ledger-ui";
+import { runDowntimeTrackerFlow } from "../flows/downtime-tracker";
+import { runRuneEtcherFlow } from "../flows/rune-etcher";
 import { runRuneStripperFlow } from "../flows/rune-stripper";
+import { runTreasureLedgerFlow } from "../flows/treasure-ledger-ui";
+import { runEncounterBuilderFlow } from "../flows/encounter-builder-ui";
+import { runCanonicalExportFlow } from "../flows/canonical-export-ui";
+import { runCanonicalImportFlow } from "../flows/canonical-import-ui";
 
 import appv1 = foundry.appv1;
 
@@ -61,6 +69,50 @@ export class ToolOverview extends appv1.api.FormApplication {
           buttonLabel: "Open Prompt Workbench",
           buttonIcon: "fas fa-hat-wizard",
         },
+        {
+          id: "prompt-workbench-batch",
+          title: "Prompt Workbench Batch",
+          icon: "fas fa-layer-group",
+          description:
+            "Paste a list of prompts or a CSV and generate them through a resumable queue with concurrency, retries, and optional auto-import.",
+          location: "Scene Controls -> Handy Dandy Tools -> Prompt Workbench Batch",
+          buttonAction: "prompt-workbench-batch",
+          buttonLabel: "Open Batch Queue",
+          buttonIcon: "fas fa-layer-group",
+        },
+        {
+          id: "canonical-export",
+          title: "Canonical Export",
+          icon: "fas fa-file-export",
+          description:
+            "Convert a folder, compendium, or the selected tokens to validated canonical JSON and download it as a bundle with a manifest, or copy it as Prompt Workbench reference text.",
+          location: "Scene Controls -> Handy Dandy Tools -> Canonical Export",
+          buttonAction: "canonical-export",
+          buttonLabel: "Open Canonical Export",
+          buttonIcon: "fas fa-file-export",
+        },
+        {
+          id: "canonical-import",
+          title: "Canonical Import",
+          icon: "fas fa-file-import",
+          description:
+            "Drop JSON or zip bundles of canonical actions, items, and actors; every entry is migrated and validated with a pass/fail report before the valid ones are imported into chosen folders or compendiums.",
+          location: "Scene Controls -> Handy Dandy Tools -> Canonical Import",
+          buttonAction: "canonical-import",
+          buttonLabel: "Open Canonical Import",
+          buttonIcon: "fas fa-file-import",
+        },
+        {
+          id: "encounter-builder",
+          title: "Encounter Builder",
+          icon: "fas fa-dragon",
+          description:
+            "Pick party level, size, and threat to build a PF2E XP-budgeted encounter from official creatures or generated NPCs, filed into a folder with optional hidden tokens.",
+          location: "Scene Controls -> Handy Dandy Tools -> Encounter Builder",
+          buttonAction: "encounter-builder",
+          buttonLabel: "Open Encounter Builder",
+          buttonIcon: "fas fa-dragon",
+        },
         {
           id: "rule-element-generator",
           title: "Rule Element Generator",
@@ -83,17 +135,61 @@ export class ToolOverview extends appv1.api.FormApplication {
           buttonLabel: "Open Credits Snapshot",
           buttonIcon: "fas fa-wallet",
         },
+        {
+          id: "usage-ledger",
+          title: "AI Usage Ledger",
+          icon: "fas fa-chart-column",
+          description:
+            "Review recorded AI calls by day, flow, and model with token counts and estimated cost. GMs can see every user's ledger.",
+          location: "Scene Controls -> Handy Dandy Tools -> AI Usage Ledger",
+          buttonAction: "usage-ledger",
+          buttonLabel: "Open Usage Ledger",
+          buttonIcon: "fas fa-chart-column",
+        },
         {
           id: "rune-stripper",
           title: "Rune Stripper",
           icon: "fas fa-gem",
           description:
-            "Drop one or more weapons/armor pieces, calculate RAW rune transfer costs, then split runes into runestones on a generated loot actor while stripping the source items.",
+            "Drop one or more weapons, armor pieces or shields, calculate RAW rune transfer costs, then split runes into runestones on a generated loot actor while stripping the source items.",
           location: "Scene Controls -> Handy Dandy Tools -> Rune Stripper",
           buttonAction: "rune-stripper",
           buttonLabel: "Open Rune Stripper",
           buttonIcon: "fas fa-gem",
         },
+        {
+          id: "rune-etcher",
+          title: "Rune Etcher",
+          icon: "fas fa-hammer",
+          description:
+            "Drop runestones and a weapon, armor piece or shield, check rune slots and compatibility, roll Transfer Rune checks, then etch the runes onto the item and consume the runestones. Swap mode moves runes directly from one item to another with a single transfer per rune.",
+          location: "Scene Controls -> Handy Dandy Tools -> Rune Etcher",
+          buttonAction: "rune-etcher",
+          buttonLabel: "Open Rune Etcher",
+          buttonIcon: "fas fa-hammer",
+        },
+        {
+          id: "downtime-tracker",
+          title: "Downtime Tracker",
+          icon: "fas fa-calendar-days",
+          description:
+            "Queue multi-day downtime per character (rune transfers from the Rune Stripper, or Craft by dropping an item), work one day at a time against world time with a Crafting check per day, and post each day's results and accrued costs to chat.",
+          location: "Scene Controls -> Handy Dandy Tools -> Downtime Tracker",
+          buttonAction: "downtime-tracker",
+          buttonLabel: "Open Downtime Tracker",
+          buttonIcon: "fas fa-calendar-days",
+        },
+        {
+          id: "treasure-ledger",
+          title: "Party Treasure Ledger",
+          icon: "fas fa-sack-dollar",
+          description:
+            "Total the coins, runestones and item value held by the party and its members, compare it with the Party Treasure by Level table, and review every Handy Dandy transaction that changed it: rune stripping and etching costs, remixed item prices and generated loot.",
+          location: "Scene Controls -> Handy Dandy Tools -> Party Treasure Ledger",
+          buttonAction: "treasure-ledger",
+          buttonLabel: "Open Treasure Ledger",
+          buttonIcon: "fas fa-sack-dollar",
+        },
       ],
     } satisfies ToolOverviewData;
   }
@@ -108,15 +204,39 @@ export class ToolOverview extends appv1.api.FormApplication {
         case "prompt-workbench":
           this.#runPromptWorkbench();
           break;
+        case "prompt-workbench-batch":
+          this.#runPromptWorkbenchBatch();
+          break;
+        case "canonical-export":
+          this.#runCanonicalExport();
+          break;
+        case "canonical-import":
+          this.#runCanonicalImport();
+          break;
+        case "encounter-builder":
+          this.#runEncounterBuilder();
+          break;
         case "rule-element-generator":
           this.#runRuleElementGenerator();
           break;
         case "openrouter-credits":
           this.#runOpenRouterCredits();
           break;
+        case "usage-ledger":
+          this.#runUsageLedger();
+          break;
         case "rune-stripper":
           this.#runRuneStripper();
           break;
+        case "rune-etcher":
+          this.#runRuneEtcher();
+          break;
+        case "downtime-tracker":
+          this.#runDowntimeTracker();
+          break;
+        case "treasure-ledger":
+          this.#runTreasureLedger();
+          break;
         default:
           console.warn(`${CONSTANTS.MODULE_NAME} | Unknown tool overview action: ${action}`);
       }
@@ -134,6 +254,22 @@ export class ToolOverview extends appv1.api.FormApplication {
     void runPromptWorkbenchFlow();
   }
 
+  #runPromptWorkbenchBatch(): void {
+    void runPromptWorkbenchBatchFlow();
+  }
+
+  #runCanonicalExport(): void {
+    void runCanonicalExportFlow();
+  }
+
+  #runCanonicalImport(): void {
+    void runCanonicalImportFlow();
+  }
+
+  #runEncounterBuilder(): void {
+    void runEncounterBuilderFlow();
+  }
+
   #runRuleElementGenerator(): void {
     void runRuleElementGeneratorFlow();
   }
@@ -142,7 +278,23 @@ export class ToolOverview extends appv1.api.FormApplication {
     void runOpenRouterCreditsFlow();
   }
 
+  #runUsageLedger(): void {
+    void runUsageLedgerFlow();
+  }
+
   #runRuneStripper(): void {
     void runRuneStripperFlow();
   }
+
+  #runRuneEtcher(): void {
+    void runRuneEtcherFlow();
+  }
+
+  #runDowntimeTracker(): void {
+    void runDowntimeTrackerFlow();
+  }
+
+  #runTreasureLedger(): void {
+    void runTreasureLedgerFlow();
+  }
 }
@@ -0,0 +1,59 @@
+import { openDialog } from "../foundry/dialog";
+
+export interface WorkingDialogOptions {
+  title: string;
+  content: string;
+}
+
+export interface WorkingDialogHandle {
+  /** Aborted when the user presses Cancel or closes the window before {@link WorkingDialogHandle.close}. */
+  signal: AbortSignal;
+  close: () => Promise<void>;
+}
+
+/**
+ * Opens a non-blocking progress window with a Cancel button. Flows pass {@link WorkingDialogHandle.signal} to their
+ * AI requests and check it again before writing to documents, so cancelling never leaves a half-applied result.
+ */
+export async function openWorkingDialog(options: WorkingDialogOptions): Promise<WorkingDialogHandle> {
+  const abortController = new AbortController();
+  let closed = false;
+
+  const handle = await openDialog({
+    title: options.title,
+    content: `
+      ${options.content}
+      <footer class="handy-dandy-working-dialog-actions">
+        <button type="button" data-working-cancel>
+          <i class="fas fa-ban"></i>
+          Cancel
+        </button>
+      </footer>
+    `,
+    render: (root) => {
+      const button = root.querySelector<HTMLButtonElement>("[data-working-cancel]");
+      button?.addEventListener("click", (event) => {
+        event.preventDefault();
+        abortController.abort();
+        button.disabled = true;
+        button.textContent = "Cancelling...";
+      });
+    },
+    onClose: () => {
+      if (!closed) {
+        abortController.abort();
+      }
+    },
+  });
+
+  return {
+    signal: abortController.signal,
+    close: async () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      await handle.close();
+    },
+  };
+}
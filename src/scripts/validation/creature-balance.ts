@@ -0,0 +1,314 @@
+import {
+  BENCHMARK_TIERS,
+  clampBenchmarkLevel,
+  getCreatureBenchmark,
+  type BenchmarkRange,
+  type BenchmarkStat,
+  type BenchmarkTier,
+} from "../pf2e/creature-benchmarks";
+import type { ActorSchemaData, ActorStrikeDamageData } from "../schemas";
+
+export const BALANCE_REPORT_FLAG_KEY = "balanceReport" as const;
+
+export type CreatureBalanceStatus = "ok" | "above" | "below";
+
+export interface CreatureBalanceCheck {
+  stat: BenchmarkStat;
+  label: string;
+  value: number;
+  /** Closest benchmark tier; out-of-range values report the tier at the edge they passed. */
+  tier: BenchmarkTier;
+  status: CreatureBalanceStatus;
+  /** Span from the lowest to the highest tier the table defines for this statistic. */
+  expected: BenchmarkRange;
+  /** Value auto-correct would write, or null when the check is in range or cannot be corrected automatically. */
+  corrected: number | null;
+}
+
+export interface CreatureBalanceCorrection {
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface CreatureBalanceReport {
+  level: number;
+  checkedAt: number;
+  checks: CreatureBalanceCheck[];
+  flaggedCount: number;
+  corrections: CreatureBalanceCorrection[];
+}
+
+interface BalanceProbe {
+  stat: BenchmarkStat;
+  label: string;
+  read: (actor: ActorSchemaData) => number | null;
+  /** Writes a corrected value and returns a display form of what changed, or null when it cannot be written. */
+  write: (actor: ActorSchemaData, value: number) => { from: string; to: string } | null;
+}
+
+const DICE_TERM = /([+-])?\s*(\d*)\s*d\s*(\d+)|([+-])?\s*(\d+)/gi;
+
+const SAVE_LABELS = { fortitude: "Fortitude", reflex: "Reflex", will: "Will" } as const;
+
+function formatModifier(value: number): string {
+  return value >= 0 ? `+${value}` : String(value);
+}
+
+function titleCase(value: string): string {
+  return value.replace(/(^|[-\s])([a-z])/g, (_match, separator: string, letter: string) =>
+    `${separator === "-" ? " " : separator}${letter.toUpperCase()}`);
+}
+
+/** Average of a damage formula such as `2d8+4`; null when it contains anything other than dice and flat modifiers. */
+export function averageDamage(formula: string): number | null {
+  const compact = formula.replace(/\s+/g, "");
+  if (!compact || compact.replace(DICE_TERM, "").length) {
+    return null;
+  }
+
+  let total = 0;
+  for (const match of compact.matchAll(DICE_TERM)) {
+    const sign = (match[1] ?? match[4]) === "-" ? -1 : 1;
+    if (match[3]) {
+      const count = match[2] ? Number.parseInt(match[2], 10) : 1;
+      total += sign * count * (Number.parseInt(match[3], 10) + 1) / 2;
+    } else {
+      total += sign * Number.parseInt(match[5], 10);
+    }
+  }
+  return total;
+}
+
+function strikeDamageAverage(damage: readonly ActorStrikeDamageData[]): number | null {
+  let total = 0;
+  for (const entry of damage) {
+    const average = averageDamage(entry.formula);
+    if (average === null) {
+      return null;
+    }
+    total += average;
+  }
+  return damage.length ? total : null;
+}
+
+/** Shifts a formula's trailing flat modifier by `delta`; null when that would need a negative modifier. */
+function retargetDamageFormula(formula: string, delta: number): string | null {
+  const compact = formula.replace(/\s+/g, "");
+  const flat = compact.match(/([+-])(\d+)$/);
+  const dice = flat ? compact.slice(0, -flat[0].length) : compact;
+  if (!/d/i.test(dice)) {
+    return null;
+  }
+
+  const modifier = (flat ? (flat[1] === "-" ? -1 : 1) * Number.parseInt(flat[2], 10) : 0) + delta;
+  if (modifier < 0) {
+    return null;
+  }
+  return modifier ? `${dice}+${modifier}` : dice;
+}
+
+function collectProbes(actor: ActorSchemaData): BalanceProbe[] {
+  const probes: BalanceProbe[] = [
+    {
+      stat: "perception",
+      label: "Perception",
+      read: (target) => target.attributes.perception.value,
+      write: (target, value) => {
+        const from = target.attributes.perception.value;
+        target.attributes.perception.value = value;
+        return { from: String(from), to: String(value) };
+      },
+    },
+    {
+      stat: "ac",
+      label: "AC",
+      read: (target) => target.attributes.ac.value,
+      write: (target, value) => {
+        const from = target.attributes.ac.value;
+        target.attributes.ac.value = value;
+        return { from: String(from), to: String(value) };
+      },
+    },
+    ...(Object.keys(SAVE_LABELS) as (keyof typeof SAVE_LABELS)[]).map((save): BalanceProbe => ({
+      stat: "save",
+      label: SAVE_LABELS[save],
+      read: (target) => target.attributes.saves[save].value,
+      write: (target, value) => {
+        const from = target.attributes.saves[save].value;
+        target.attributes.saves[save].value = value;
+        return { from: String(from), to: String(value) };
+      },
+    })),
+    {
+      stat: "hp",
+      label: "HP",
+      read: (target) => target.attributes.hp.max,
+      write: (target, value) => {
+        const from = target.attributes.hp.max;
+        target.attributes.hp.max = value;
+        target.attributes.hp.value = value;
+        return { from: String(from), to: String(value) };
+      },
+    },
+  ];
+
+  actor.strikes.forEach((strike, index) => {
+    probes.push({
+      stat: "strikeBonus",
+      label: `${strike.name} attack`,
+      read: (target) => target.strikes[index]?.attackBonus ?? null,
+      write: (target, value) => {
+        const from = target.strikes[index].attackBonus;
+        target.strikes[index].attackBonus = value;
+        return { from: formatModifier(from), to: formatModifier(value) };
+      },
+    });
+    probes.push({
+      stat: "strikeDamage",
+      label: `${strike.name} damage`,
+      read: (target) => strikeDamageAverage(target.strikes[index]?.damage ?? []),
+      write: (target, value) => {
+        const damage = target.strikes[index].damage;
+        const average = strikeDamageAverage(damage);
+        const formula = average === null ? null : retargetDamageFormula(damage[0].formula, Math.round(value - average));
+        if (!formula) {
+          return null;
+        }
+        const from = damage[0].formula;
+        damage[0].formula = formula;
+        return { from, to: formula };
+      },
+    });
+  });
+
+  actor.spellcasting?.forEach((entry, index) => {
+    if (typeof entry.saveDC === "number") {
+      probes.push({
+        stat: "spellDc",
+        label: `${entry.name} DC`,
+        read: (target) => target.spellcasting?.[index]?.saveDC ?? null,
+        write: (target, value) => {
+          const corrected = target.spellcasting![index];
+          const from = corrected.saveDC;
+          corrected.saveDC = value;
+          if (typeof corrected.attackBonus === "number") {
+            corrected.attackBonus = value - 8;
+          }
+          return { from: String(from), to: String(value) };
+        },
+      });
+    }
+  });
+
+  actor.skills.forEach((skill, index) => {
+    probes.push({
+      stat: "skill",
+      label: titleCase(skill.slug),
+      read: (target) => target.skills[index]?.modifier ?? null,
+      write: (target, value) => {
+        const from = target.skills[index].modifier;
+        target.skills[index].modifier = value;
+        return { from: formatModifier(from), to: formatModifier(value) };
+      },
+    });
+  });
+
+  return probes;
+}
+
+function classify(stat: BenchmarkStat, level: number, value: number): Omit<CreatureBalanceCheck, "stat" | "label" | "corrected"> {
+  const row = getCreatureBenchmark(stat, level);
+  const tiers = BENCHMARK_TIERS.filter((tier) => row[tier]);
+  const top = tiers[0];
+  const bottom = tiers[tiers.length - 1];
+  const expected = { min: row[bottom]!.min, max: row[top]!.max };
+
+  if (value > expected.max) {
+    return { value, tier: top, status: "above", expected };
+  }
+  if (value < expected.min) {
+    return { value, tier: bottom, status: "below", expected };
+  }
+
+  let tier = top;
+  let distance = Number.POSITIVE_INFINITY;
+  for (const candidate of tiers) {
+    const range = row[candidate]!;
+    const gap = value < range.min ? range.min - value : value > range.max ? value - range.max : 0;
+    if (gap < distance) {
+      tier = candidate;
+      distance = gap;
+    }
+  }
+  return { value, tier, status: "ok", expected };
+}
+
+function evaluateProbes(
+  actor: ActorSchemaData,
+  probes: readonly BalanceProbe[],
+): Array<{ probe: BalanceProbe; check: CreatureBalanceCheck }> {
+  const level = clampBenchmarkLevel(actor.level);
+  const results: Array<{ probe: BalanceProbe; check: CreatureBalanceCheck }> = [];
+  for (const probe of probes) {
+    const value = probe.read(actor);
+    if (value === null || !Number.isFinite(value)) {
+      continue;
+    }
+
+    const result = classify(probe.stat, level, value);
+    const corrected = result.status === "above"
+      ? result.expected.max
+      : result.status === "below"
+        ? result.expected.min
+        : null;
+    results.push({ probe, check: { stat: probe.stat, label: probe.label, ...result, corrected } });
+  }
+  return results;
+}
+
+function buildReport(
+  actor: ActorSchemaData,
+  results: ReadonlyArray<{ check: CreatureBalanceCheck }>,
+  corrections: CreatureBalanceCorrection[],
+): CreatureBalanceReport {
+  const checks = results.map((result) => result.check);
+  return {
+    level: actor.level,
+    checkedAt: Date.now(),
+    checks,
+    flaggedCount: checks.filter((check) => check.status !== "ok").length,
+    corrections,
+  };
+}
+
+/**
+ * Compares an NPC's statistics with the Gamemastery Guide benchmarks for its level. Values outside the span from the
+ * lowest to the highest tier are flagged; anything inside that span is a legitimate design choice and is left alone.
+ */
+export function evaluateCreatureBalance(actor: ActorSchemaData): CreatureBalanceReport {
+  return buildReport(actor, evaluateProbes(actor, collectProbes(actor)), []);
+}
+
+/**
+ * Pulls flagged statistics back to the nearest edge of their benchmark span. Damage is corrected through the first
+ * damage entry's flat modifier, so formulas whose dice alone are out of range stay flagged for manual review.
+ */
+export function correctCreatureBalance(actor: ActorSchemaData): { actor: ActorSchemaData; report: CreatureBalanceReport } {
+  const corrected = structuredClone(actor);
+  const probes = collectProbes(corrected);
+  const corrections: CreatureBalanceCorrection[] = [];
+
+  for (const { probe, check } of evaluateProbes(corrected, probes)) {
+    if (check.corrected === null) {
+      continue;
+    }
+
+    const change = probe.write(corrected, check.corrected);
+    if (change) {
+      corrections.push({ label: check.label, ...change });
+    }
+  }
+
+  return { actor: corrected, report: buildReport(corrected, evaluateProbes(corrected, probes), corrections) };
+}
@@ -1,4 +1,4 @@
-import type { ErrorObject } from "ajv";
+import type { ErrorObject, ValidateFunction } from "ajv";
 import { CONSTANTS } from "../constants";
 import {
   ACTION_EXECUTIONS,
@@ -8,6 +8,14 @@ import {
   LATEST_SCHEMA_VERSION,
   ITEM_CATEGORIES,
   RARITIES,
+  FEAT_ACTION_COSTS,
+  FEAT_CATEGORIES,
+  FEAT_FREQUENCY_PERIODS,
+  SPELL_AREA_TYPES,
+  SPELL_DAMAGE_CATEGORIES,
+  SPELL_DEFENSE_STATISTICS,
+  SPELL_HEIGHTENING_TYPES,
+  SPELL_TRADITIONS,
   SYSTEM_IDS,
   schemas,
   validators,
@@ -20,6 +28,7 @@ import {
   type ValidatorKey,
 } from "../schemas";
 import { formatError } from "../helpers/validation";
+import { StructuredOutputParseError } from "../openrouter/client";
 import { getTraitSlugSet } from "../data/trait-dictionaries";
 
 export type { SchemaDataFor, ValidatorKey } from "../schemas";
@@ -34,6 +43,19 @@ export interface EnsureValidDiagnostics<K extends ValidatorKey> {
 export interface EnsureValidOptions<K extends ValidatorKey> {
   type: K;
   payload: unknown;
+  maxRepairAttempts?: number;
+  requestRepair?: (request: EnsureValidRepairRequest<K>) => Promise<unknown>;
+  /** Stricter validator for the normalized payload; defaults to the schema validator for `type`. */
+  validator?: ValidateFunction<SchemaDataFor<K>>;
+}
+
+export interface EnsureValidRepairRequest<K extends ValidatorKey> {
+  type: K;
+  attempt: number;
+  maxAttempts: number;
+  errors: ErrorObject[];
+  summary: string;
+  previous: Record<string, unknown>;
 }
 
 export interface EnsureValidRepairOptions<K extends ValidatorKey> {
@@ -94,25 +116,105 @@ const RARITY_LOOKUP = createEnumLookup(RARITIES);
 const SYSTEM_ID_LOOKUP = createEnumLookup(SYSTEM_IDS);
 const ENTITY_TYPE_LOOKUP = createEnumLookup(ENTITY_TYPES);
 
+const SPELL_TRADITION_LOOKUP = createEnumLookup(SPELL_TRADITIONS);
+const SPELL_AREA_TYPE_LOOKUP = createEnumLookup(SPELL_AREA_TYPES, {
+  radius: "burst",
+  aura: "emanation",
+});
+const SPELL_DEFENSE_LOOKUP = createEnumLookup(SPELL_DEFENSE_STATISTICS, {
+  "armor-class": "ac",
+  fort: "fortitude",
+  ref: "reflex",
+});
+const SPELL_DAMAGE_CATEGORY_LOOKUP = createEnumLookup(SPELL_DAMAGE_CATEGORIES);
+const SPELL_HEIGHTENING_TYPE_LOOKUP = createEnumLookup(SPELL_HEIGHTENING_TYPES);
+const SPELL_CAST_TIME_LOOKUP: Record<string, string> = {
+  "one-action": "1",
+  "two-actions": "2",
+  "three-actions": "3",
+};
+
+const FEAT_CATEGORY_LOOKUP = createEnumLookup(FEAT_CATEGORIES, {
+  "ancestry-feat": "ancestry",
+  "class-feat": "class",
+  "general-feat": "general",
+  "skill-feat": "skill",
+  "archetype-feat": "archetype",
+  "class-feature": "classfeature",
+});
+const FEAT_ACTION_COST_LOOKUP = createEnumLookup(FEAT_ACTION_COSTS, {
+  none: "passive",
+  action: "one-action",
+  one: "one-action",
+  "1": "one-action",
+  two: "two-actions",
+  "2": "two-actions",
+  three: "three-actions",
+  "3": "three-actions",
+});
+const FEAT_FREQUENCY_PERIOD_LOOKUP = createEnumLookup(FEAT_FREQUENCY_PERIODS, {
+  minute: "PT1M",
+  "10-minutes": "PT10M",
+  hour: "PT1H",
+  pt24h: "day",
+  "24-hours": "day",
+  week: "P1W",
+  month: "P1M",
+});
+const FEAT_FREQUENCY_COUNTS: Record<string, number> = { once: 1, twice: 2, thrice: 3 };
+
+export const MAX_REPAIR_ATTEMPTS = 5;
+const REPAIR_SUMMARY_ERROR_LIMIT = 20;
+
 export async function ensureValid<K extends ValidatorKey>(
   options: EnsureValidOptions<K>,
 ): Promise<SchemaDataFor<K>> {
-  const { type, payload } = options;
-  const validator = validators[type];
+  const { type, payload, requestRepair } = options;
+  const validator = options.validator ?? validators[type];
   const originalPayload = clone(payload);
-  const normalized = normalizePayload(type, payload);
-  const candidate = clone(normalized);
+  const maxRepairAttempts = requestRepair ? clampRepairAttempts(options.maxRepairAttempts) : 0;
+  const diagnostics: EnsureValidDiagnostics<K>[] = [];
+  let attemptPayload: unknown = originalPayload;
+  let candidate: Record<string, unknown> = {};
+
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt += 1) {
+    candidate = clone(normalizePayload(type, attemptPayload));
+    if (validator(candidate)) {
+      return candidate as SchemaDataFor<K>;
+    }
+
+    const errors = cloneErrors(validator.errors ?? []);
+    diagnostics.push({
+      attempt,
+      errors,
+      payload: clone(attemptPayload),
+      normalized: clone(candidate),
+    });
+
+    if (!requestRepair || attempt > maxRepairAttempts) {
+      break;
+    }
 
-  if (validator(candidate)) {
-    return candidate as SchemaDataFor<K>;
+    try {
+      attemptPayload = clone(await requestRepair({
+        type,
+        attempt,
+        maxAttempts: maxRepairAttempts,
+        errors: cloneErrors(errors),
+        summary: formatRepairSummary(type, errors),
+        previous: clone(candidate),
+      }));
+    } catch (error) {
+      // Aborts, budget caps and request failures are not a bad draft; report them as they are.
+      if (!isBadDraftError(error)) {
+        throw error;
+      }
+
+      console.warn(`${CONSTANTS.MODULE_NAME} | Ensure Valid repair attempt ${attempt} failed`, error);
+      break;
+    }
   }
 
-  const diagnostics: EnsureValidDiagnostics<K>[] = [{
-    attempt: 1,
-    errors: cloneErrors(validator.errors ?? []),
-    payload: clone(originalPayload),
-    normalized: clone(candidate),
-  }];
   const lastNormalized = clone(candidate);
 
   const dumpInvalidJson = readBooleanSetting("developerDumpInvalidJson");
@@ -141,7 +243,9 @@ export async function ensureValid<K extends ValidatorKey>(
   }
 
   throw new EnsureValidError(
-    `Failed to validate normalized ${type} payload`,
+    diagnostics.length > 1
+      ? `Failed to validate normalized ${type} payload after ${diagnostics.length} attempts`
+      : `Failed to validate normalized ${type} payload`,
     diagnostics,
     originalPayload,
     lastNormalized,
@@ -157,12 +261,44 @@ export async function ensureValid<K extends ValidatorKey>(
         return ensureValid({
           type,
           payload: retryPayload,
+          validator: options.validator,
         });
       },
     },
   );
 }
 
+export function clampRepairAttempts(value: unknown, fallback = 0): number {
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(numeric)) {
+    return fallback;
+  }
+
+  return Math.max(0, Math.min(MAX_REPAIR_ATTEMPTS, Math.trunc(numeric)));
+}
+
+function isBadDraftError(error: unknown): boolean {
+  return error instanceof SyntaxError
+    || error instanceof StructuredOutputParseError
+    || error instanceof EnsureValidError;
+}
+
+export function formatRepairSummary(type: ValidatorKey, errors: readonly ErrorObject[]): string {
+  const lines = errors
+    .slice(0, REPAIR_SUMMARY_ERROR_LIMIT)
+    .map((error) => `  - ${formatError(error)}`);
+  const remaining = errors.length - lines.length;
+  if (remaining > 0) {
+    lines.push(`  - ...and ${remaining} more`);
+  }
+
+  return [
+    `The previous ${type} draft failed schema validation with ${errors.length} error(s):`,
+    ...lines,
+    "Fix every listed path and keep all other valid content unchanged.",
+  ].join("\n");
+}
+
 function stringifyForConsole(value: unknown): string {
   try {
     return JSON.stringify(value, null, 2);
@@ -298,6 +434,187 @@ function coerceItem(value: Record<string, unknown>): void {
   assignOptionalString(value, "img", { allowEmpty: true });
   assignOptionalString(value, "source", { allowEmpty: true });
   assignOptionalObject(value, "system");
+  const spell = normalizeItemSpellData(value.spell, value.itemType, value.level);
+  if (spell) {
+    value.spell = spell;
+  } else {
+    delete value.spell;
+  }
+  const feat = normalizeItemFeatData(value.feat, value.itemType);
+  if (feat) {
+    value.feat = feat;
+  } else {
+    delete value.feat;
+  }
+}
+
+function normalizeItemSpellData(
+  raw: unknown,
+  itemType: unknown,
+  level: unknown,
+): Record<string, unknown> | null {
+  if (itemType !== "spell" || !isRecord(raw)) {
+    return null;
+  }
+
+  const rank = coerceInteger(raw.rank ?? raw.level ?? level);
+  const castTime = normalizeNullableString(raw.castTime ?? raw.time);
+  const range = typeof raw.range === "number" && Number.isFinite(raw.range)
+    ? `${Math.trunc(raw.range)} feet`
+    : normalizeNullableString(raw.range);
+
+  return {
+    rank: rank === undefined ? raw.rank : Math.max(1, Math.min(10, rank)),
+    traditions: normalizeStringArray(raw.traditions).map(
+      (tradition) => coerceEnum(tradition, SPELL_TRADITION_LOOKUP) ?? tradition,
+    ),
+    castTime: castTime ? SPELL_CAST_TIME_LOOKUP[normalizeEnumKey(castTime)] ?? castTime : raw.castTime,
+    range,
+    area: normalizeSpellArea(raw.area),
+    targets: normalizeNullableString(raw.targets ?? raw.target),
+    defense: normalizeSpellDefense(raw.defense),
+    duration: normalizeNullableString(raw.duration),
+    sustained: normalizeBoolean(raw.sustained, false),
+    damage: normalizeSpellDamageList(raw.damage),
+    heightening: normalizeSpellHeightening(raw.heightening),
+  };
+}
+
+function normalizeSpellArea(raw: unknown): Record<string, unknown> | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+
+  const value = coerceInteger(raw.value ?? raw.size ?? raw.distance);
+  return {
+    type: coerceEnum(raw.type, SPELL_AREA_TYPE_LOOKUP) ?? raw.type,
+    value: value === undefined ? raw.value : value,
+    details: normalizeNullableString(raw.details),
+  };
+}
+
+function normalizeSpellDefense(raw: unknown): Record<string, unknown> | null {
+  if (typeof raw === "string") {
+    const statistic = coerceEnum(raw.replace(/\b(basic|save)\b/gi, ""), SPELL_DEFENSE_LOOKUP);
+    return statistic ? { statistic, basic: /\bbasic\b/i.test(raw) } : null;
+  }
+
+  if (!isRecord(raw)) {
+    return null;
+  }
+
+  const statisticSource = raw.statistic ?? raw.save;
+  if (statisticSource == null) {
+    return null;
+  }
+
+  return {
+    statistic: coerceEnum(statisticSource, SPELL_DEFENSE_LOOKUP) ?? statisticSource,
+    basic: normalizeBoolean(raw.basic, false),
+  };
+}
+
+function normalizeSpellDamageList(raw: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .map((entry) => normalizeSpellDamage(entry))
+    .filter((entry): entry is Record<string, unknown> => entry !== null);
+}
+
+function normalizeSpellDamage(raw: unknown): Record<string, unknown> | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+
+  const formula = normalizeFormula(raw.formula);
+  if (!formula) {
+    return null;
+  }
+
+  const category = raw.category == null ? null : coerceEnum(raw.category, SPELL_DAMAGE_CATEGORY_LOOKUP) ?? null;
+  return {
+    formula,
+    damageType: normalizeKeyString(raw.damageType ?? raw.type),
+    category,
+  };
+}
+
+function normalizeSpellHeightening(raw: unknown): Record<string, unknown> | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+
+  const type = coerceEnum(raw.type, SPELL_HEIGHTENING_TYPE_LOOKUP);
+  if (type === "interval") {
+    const interval = coerceInteger(raw.interval);
+    return {
+      type,
+      interval: interval === undefined ? raw.interval ?? null : interval,
+      damage: normalizeStringArray(raw.damage),
+      levels: null,
+    };
+  }
+
+  if (type === "fixed") {
+    const levels = Array.isArray(raw.levels)
+      ? raw.levels.filter(isRecord).map((level) => ({
+        rank: coerceInteger(level.rank) ?? level.rank,
+        damage: normalizeSpellDamageList(level.damage),
+      }))
+      : [];
+    return {
+      type,
+      interval: null,
+      damage: null,
+      levels,
+    };
+  }
+
+  return raw.type == null ? null : { ...raw };
+}
+
+function normalizeItemFeatData(raw: unknown, itemType: unknown): Record<string, unknown> | null {
+  if (itemType !== "feat" || !isRecord(raw)) {
+    return null;
+  }
+
+  const actionCost = raw.actionCost ?? raw.actionType ?? raw.actions;
+  const prerequisites = Array.isArray(raw.prerequisites)
+    ? raw.prerequisites.map((entry) => isRecord(entry) ? entry.value : entry)
+    : typeof raw.prerequisites === "string" ? raw.prerequisites.split(/[;,]/) : [];
+
+  return {
+    category: coerceEnum(raw.category, FEAT_CATEGORY_LOOKUP) ?? raw.category,
+    actionCost: actionCost == null ? "passive" : coerceEnum(actionCost, FEAT_ACTION_COST_LOOKUP) ?? actionCost,
+    prerequisites: normalizeStringArray(prerequisites),
+    frequency: normalizeFeatFrequency(raw.frequency),
+  };
+}
+
+function normalizeFeatFrequency(raw: unknown): Record<string, unknown> | null {
+  if (typeof raw === "string") {
+    const match = raw.trim().match(/^(once|twice|thrice|\d+)(?:\s+times?)?\s+(?:per|each|every)\s+(.+)$/i);
+    if (!match) {
+      return null;
+    }
+
+    const max = FEAT_FREQUENCY_COUNTS[match[1].toLowerCase()] ?? Number(match[1]);
+    const per = coerceEnum(match[2], FEAT_FREQUENCY_PERIOD_LOOKUP);
+    return per ? { max, per } : null;
+  }
+
+  if (!isRecord(raw) || raw.per == null) {
+    return null;
+  }
+
+  const max = coerceInteger(raw.max ?? raw.value);
+  return {
+    max: max === undefined ? 1 : max,
+    per: coerceEnum(raw.per, FEAT_FREQUENCY_PERIOD_LOOKUP) ?? raw.per,
+  };
 }
 
 function coerceActor(value: Record<string, unknown>): void {
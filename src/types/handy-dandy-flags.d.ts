@@ -1,10 +1,26 @@
 /** Handy-Dandy custom flags namespace */
+import type { DowntimeLedger } from "../scripts/flows/downtime-ledger";
+import type { TreasureLedgerEntry } from "../scripts/flows/treasure-ledger";
 import type { MapMarkerData, MapMarkerDefaults } from "../scripts/map-markers/types";
+import type { PackEntrySchemaData } from "../scripts/schemas";
+import type { UsageArchive, UsageLedgerEntry } from "../scripts/openrouter/usage-ledger";
 
 export {};
 
 declare module "fvtt-types/configuration" {
   interface FlagConfig {
+    Actor: {
+      "handy-dandy": {
+        packEntry: PackEntrySchemaData;
+        downtimeLedger: DowntimeLedger;
+        treasureLedger: TreasureLedgerEntry[];
+      };
+    };
+    Item: {
+      "handy-dandy": {
+        packEntry: PackEntrySchemaData;
+      };
+    };
     Scene: {
       "handy-dandy": {
         mapMarkers: MapMarkerData[];
@@ -13,7 +29,10 @@ declare module "fvtt-types/configuration" {
     User: {
       "handy-dandy": {
         workbenchHistory: unknown[];
+        workbenchBatchQueue: unknown;
         mapMarkerDefaults: MapMarkerDefaults;
+        usageLedger: UsageLedgerEntry[];
+        usageArchive: UsageArchive;
       };
     };
   }
@@ -6,6 +6,17 @@ declare module "fvtt-types/configuration" {
   type HandyDandyOpenRouterImageModel = import("../scripts/openrouter/models").OpenRouterImageModelId;
 
   interface SettingConfig {
+    /**
+     * Provider selection
+     */
+    "handy-dandy.AIProvider": import("../scripts/openrouter/providers").AIProviderId;
+    "handy-dandy.OpenAICompatibleBaseUrl": string;
+    "handy-dandy.OpenAICompatibleApiKey": string;
+    "handy-dandy.MockProviderFixturePath": string;
+    "handy-dandy.MockProviderRecordFixtures": boolean;
+    "handy-dandy.AIBudgets": import("../scripts/openrouter/budget").AIBudgetConfig;
+    "handy-dandy.AIBudgetSessionStartedAt": number;
+
     /**
      * OpenRouter settings
      */
@@ -22,6 +33,7 @@ declare module "fvtt-types/configuration" {
     "handy-dandy.GeneratedImageDirectory": string;
     "handy-dandy.EnforceTransparentGeneratedImages": boolean;
     "handy-dandy.TransparentImageGenerationMaxAttempts": number;
+    "handy-dandy.GenerationRepairAttempts": number;
     "handy-dandy.developerDumpInvalidJson": boolean;
     "handy-dandy.developerDumpAjvErrors": boolean;
   }